@@ -0,0 +1,43 @@
+// Create or reset a platform admin account.
+// Usage: ADMIN_PASSWORD=... npm run create-admin -- admin@oneblood.in "Admin Name"
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Admin from '../src/models/Admin.js';
+
+dotenv.config();
+
+const [email, name = 'OneBlood Admin'] = process.argv.slice(2);
+const password = process.env.ADMIN_PASSWORD;
+
+if (!email || !password) {
+  console.error('Usage: ADMIN_PASSWORD=<password> npm run create-admin -- <email> [name]');
+  process.exit(1);
+}
+
+if (password.length < 8) {
+  console.error('ADMIN_PASSWORD must be at least 8 characters long');
+  process.exit(1);
+}
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/oneblood', {
+    serverSelectionTimeoutMS: 5000
+  });
+
+  let admin = await Admin.findOne({ email: email.toLowerCase() });
+  const created = !admin;
+
+  if (!admin) {
+    admin = new Admin({ email, name });
+  }
+  admin.password = password; // Will be hashed by pre-save middleware
+  admin.active = true;
+  await admin.save();
+
+  console.log(`${created ? 'Created' : 'Updated'} admin ${admin.email}`);
+} catch (error) {
+  console.error('Error creating admin:', error.message);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
@@ -0,0 +1,41 @@
+// Turn the bare bloodStock counts of hospitals that predate the unit inventory
+// into whole blood units collected today, so the derived counts keep their value.
+// Usage: npm run migrate-blood-stock
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Hospital from '../src/models/Hospital.js';
+import BloodUnit from '../src/models/BloodUnit.js';
+import { inventoryService } from '../src/services/inventoryService.js';
+
+dotenv.config();
+
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'];
+
+try {
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/oneblood', {
+    serverSelectionTimeoutMS: 5000
+  });
+
+  const hospitals = await Hospital.find({});
+  let migrated = 0;
+
+  for (const hospital of hospitals) {
+    // Hospitals with any units are already on the inventory
+    if (await BloodUnit.exists({ hospitalId: hospital._id })) continue;
+
+    const units = BLOOD_TYPES.flatMap(bloodType =>
+      Array.from({ length: hospital.bloodStock[bloodType] || 0 }, () => ({ component: 'whole_blood', bloodType })));
+    if (units.length === 0) continue;
+
+    await inventoryService.addUnits(hospital, units);
+    migrated += 1;
+    console.log(`${hospital.name}: ${units.length} units`);
+  }
+
+  console.log(`Migrated blood stock for ${migrated} hospitals`);
+} catch (error) {
+  console.error('Error migrating blood stock:', error.message);
+  process.exitCode = 1;
+} finally {
+  await mongoose.disconnect();
+}
@@ -14,6 +14,10 @@ dotenv.config();
 import requestRoutes from './src/routes/requests.js';
 import donorRoutes from './src/routes/donors.js';
 import hospitalRoutes from './src/routes/hospitals.js';
+import smsRoutes from './src/routes/sms.js';
+import staffRoutes from './src/routes/staff.js';
+import adminRoutes from './src/routes/admin.js';
+import transferRoutes from './src/routes/transfers.js';
 
 // Import Socket.io service
 import { initializeSocket } from './src/services/socketService.js';
@@ -83,6 +87,10 @@ app.get('/health', (req, res) => {
 app.use('/api/requests', requestRoutes);
 app.use('/api/donors', donorRoutes);
 app.use('/api/hospitals', hospitalRoutes);
+app.use('/api/sms', smsRoutes);
+app.use('/api/staff', staffRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/transfers', transferRoutes);
 
 // Socket.io initialization
 initializeSocket(io);
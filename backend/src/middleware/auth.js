@@ -0,0 +1,191 @@
+import Donor from '../models/Donor.js';
+import Hospital from '../models/Hospital.js';
+import HospitalStaff from '../models/HospitalStaff.js';
+import Admin from '../models/Admin.js';
+import BloodRequest from '../models/BloodRequest.js';
+import { tokenService } from '../services/tokenService.js';
+import { trackingService } from '../services/trackingService.js';
+
+const getBearerToken = (req) => {
+  const header = req.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+const unauthorized = (res, error = 'Authentication required') => {
+  return res.status(401).json({
+    success: false,
+    error
+  });
+};
+
+// Require a valid donor access token and attach the donor to req.donor
+export const authenticateDonor = async (req, res, next) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) {
+      return unauthorized(res);
+    }
+
+    const decoded = await tokenService.verifyAccessToken(token, 'donor');
+    if (!decoded) {
+      return unauthorized(res, 'Session expired. Please log in again.');
+    }
+
+    const donor = await Donor.findById(decoded.id);
+    if (!donor) {
+      return unauthorized(res, 'Donor not found');
+    }
+
+    req.donor = donor;
+    req.auth = { id: decoded.id, type: decoded.type, sessionId: decoded.sid };
+    next();
+  } catch (error) {
+    // JWT errors are turned into 401s by the global error handler
+    next(error);
+  }
+};
+
+// Only let a donor act on their own record (the :id route parameter)
+export const requireDonorSelf = (req, res, next) => {
+  if (!req.donor || req.donor._id.toString() !== req.params.id) {
+    return res.status(403).json({
+      success: false,
+      error: 'You can only modify your own donor record'
+    });
+  }
+  next();
+};
+
+// Require a valid hospital access token and attach the hospital to req.hospital.
+// Unverified hospitals may only reach the routes they need to get verified.
+const createHospitalAuth = ({ requireVerified }) => async (req, res, next) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) {
+      return unauthorized(res);
+    }
+
+    const decoded = await tokenService.verifyAccessToken(token, 'hospital');
+    if (!decoded) {
+      return unauthorized(res, 'Session expired. Please log in again.');
+    }
+
+    const hospital = await Hospital.findById(decoded.id);
+    if (!hospital) {
+      return unauthorized(res, 'Hospital not found');
+    }
+
+    if (requireVerified && !hospital.verified) {
+      return res.status(403).json({
+        success: false,
+        error: 'Hospital is not verified'
+      });
+    }
+
+    // Staff sessions act with their own role; the hospital account itself acts as admin
+    let staff = null;
+    if (decoded.staffId) {
+      staff = await HospitalStaff.findById(decoded.staffId);
+      if (!staff || staff.status !== 'active' || !staff.hospitalId.equals(hospital._id)) {
+        return unauthorized(res, 'Staff account is not active');
+      }
+    }
+
+    req.hospital = hospital;
+    req.staff = staff;
+    req.hospitalRole = staff ? staff.role : 'admin';
+    req.auth = { id: decoded.id, type: decoded.type, sessionId: decoded.sid, staffId: decoded.staffId };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const authenticateHospital = createHospitalAuth({ requireVerified: true });
+export const authenticateHospitalAccount = createHospitalAuth({ requireVerified: false });
+
+// Only let a hospital act on its own record (the :id route parameter)
+export const requireHospitalSelf = (req, res, next) => {
+  if (!req.hospital || req.hospital._id.toString() !== req.params.id) {
+    return res.status(403).json({
+      success: false,
+      error: 'You can only manage your own hospital'
+    });
+  }
+  next();
+};
+
+// Require a valid platform admin access token and attach the admin to req.admin
+export const authenticateAdmin = async (req, res, next) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) {
+      return unauthorized(res);
+    }
+
+    const decoded = await tokenService.verifyAccessToken(token, 'admin');
+    if (!decoded) {
+      return unauthorized(res, 'Session expired. Please log in again.');
+    }
+
+    const admin = await Admin.findById(decoded.id);
+    if (!admin || !admin.active) {
+      return unauthorized(res, 'Admin account is not active');
+    }
+
+    req.admin = admin;
+    req.auth = { id: decoded.id, type: decoded.type, sessionId: decoded.sid };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Require the requester's tracking token for the :id request and attach the
+// request to req.bloodRequest
+export const authenticateRequester = async (req, res, next) => {
+  try {
+    const token = getBearerToken(req);
+    if (!token) {
+      return unauthorized(res);
+    }
+
+    let requestId;
+    try {
+      requestId = trackingService.verifyToken(token);
+    } catch (error) {
+      return unauthorized(res, error.message);
+    }
+
+    if (requestId !== req.params.id) {
+      return res.status(403).json({
+        success: false,
+        error: 'This tracking link is for a different request'
+      });
+    }
+
+    const bloodRequest = await BloodRequest.findById(requestId);
+    if (!bloodRequest) {
+      return res.status(404).json({
+        success: false,
+        error: 'Blood request not found'
+      });
+    }
+
+    req.bloodRequest = bloodRequest;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Require a hospital role permission, e.g. requirePermission('bloodstock:update')
+export const requirePermission = (permission) => (req, res, next) => {
+  if (!HospitalStaff.roleHasPermission(req.hospitalRole, permission)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Your role does not allow this action'
+    });
+  }
+  next();
+};
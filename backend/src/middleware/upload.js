@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+
+const DOCUMENT_TYPES = {
+  'application/pdf': '.pdf',
+  'image/jpeg': '.jpg',
+  'image/png': '.png'
+};
+
+let documentUploader = null;
+
+export const getDocumentDirectory = () => {
+  return path.resolve(process.env.UPLOAD_PATH || './uploads', 'hospital-documents');
+};
+
+// Built on first use so UPLOAD_PATH and MAX_FILE_SIZE come from the loaded .env
+const getDocumentUploader = () => {
+  if (documentUploader) return documentUploader;
+
+  const directory = getDocumentDirectory();
+  fs.mkdirSync(directory, { recursive: true });
+
+  documentUploader = multer({
+    storage: multer.diskStorage({
+      destination: directory,
+      // Never trust the client's file name on disk
+      filename: (req, file, cb) => cb(null, `${crypto.randomBytes(16).toString('hex')}${DOCUMENT_TYPES[file.mimetype]}`)
+    }),
+    limits: {
+      fileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880'), // 5 MB
+      files: 1
+    },
+    fileFilter: (req, file, cb) => {
+      if (!DOCUMENT_TYPES[file.mimetype]) {
+        const error = new Error('Only PDF, JPEG and PNG documents are allowed');
+        error.statusCode = 400;
+        return cb(error);
+      }
+      cb(null, true);
+    }
+  });
+
+  return documentUploader;
+};
+
+// Accept a single verification document in the "document" form field
+export const uploadVerificationDocument = (req, res, next) => {
+  getDocumentUploader().single('document')(req, res, (error) => {
+    if (error) {
+      return res.status(error.statusCode || 400).json({
+        success: false,
+        error: error.code === 'LIMIT_FILE_SIZE' ? 'Document is too large' : error.message
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'Document file is required'
+      });
+    }
+
+    next();
+  });
+};
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+
+// Append-only record of administrative decisions
+const auditLogSchema = new mongoose.Schema({
+  actorType: {
+    type: String,
+    required: true,
+    enum: ['admin', 'hospital', 'system']
+  },
+  actorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  actorName: {
+    type: String
+  },
+  action: {
+    type: String,
+    required: true // e.g. 'hospital.approve'
+  },
+  targetType: {
+    type: String,
+    required: true
+  },
+  targetId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  reason: {
+    type: String,
+    maxlength: 1000
+  },
+  metadata: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  ip: {
+    type: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+});
+
+// Indexes for browsing the log
+auditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+// Static method to write an entry
+auditLogSchema.statics.record = function(entry) {
+  return this.create(entry);
+};
+
+export default mongoose.model('AuditLog', auditLogSchema);
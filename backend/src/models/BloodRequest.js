@@ -1,4 +1,15 @@
 import mongoose from 'mongoose';
+import { DONATION_TYPES } from '../utils/deferralRules.js';
+
+// A matched donor's answer, then their progress once they have said yes:
+// accepted -> en_route -> arrived -> donated, or no_show if they never make it
+export const DONOR_RESPONSES = ['pending', 'accepted', 'declined', 'en_route', 'arrived', 'donated', 'no_show'];
+
+// Responses from donors who have committed to come
+export const COMMITTED_DONOR_RESPONSES = ['accepted', 'en_route', 'arrived', 'donated'];
+
+// Most units a single request may ask for, e.g. for major surgery
+export const MAX_UNITS_PER_REQUEST = 20;
 
 const bloodRequestSchema = new mongoose.Schema({
   requesterPhone: {
@@ -47,11 +58,52 @@ const bloodRequestSchema = new mongoose.Schema({
     enum: ['critical', 'urgent', 'normal'],
     default: 'normal'
   },
+  // Blood component the patient needs, which decides who can donate
+  donationType: {
+    type: String,
+    enum: DONATION_TYPES,
+    default: 'whole_blood'
+  },
   patientCondition: {
     type: String,
     required: false,
     maxlength: 500
   },
+  // Units the patient needs; the request stays open until all are provided
+  unitsRequired: {
+    type: Number,
+    min: 1,
+    max: MAX_UNITS_PER_REQUEST,
+    default: 1
+  },
+  unitsFulfilled: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // Each contribution towards the units needed: a hospital issuing units from
+  // stock, or a donor giving at an accepting hospital
+  fulfilments: [{
+    hospitalId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Hospital'
+    },
+    donorId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Donor',
+      default: null
+    },
+    source: {
+      type: String,
+      enum: ['stock', 'donation']
+    },
+    units: Number,
+    recordedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  // The first hospital to accept: committed donors go there and it closes the request
   hospitalId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Hospital',
@@ -63,6 +115,13 @@ const bloodRequestSchema = new mongoose.Schema({
     enum: ['pending', 'accepted', 'completed', 'cancelled'],
     default: 'pending'
   },
+  // Set when the requester withdraws the request
+  cancelledAt: Date,
+  cancellationReason: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
   acceptedHospitals: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Hospital'
@@ -76,10 +135,84 @@ const bloodRequestSchema = new mongoose.Schema({
     contactedAt: Date,
     response: {
       type: String,
-      enum: ['pending', 'accepted', 'declined'],
+      enum: DONOR_RESPONSES,
       default: 'pending'
+    },
+    respondedAt: Date,
+    responseUpdatedAt: Date,
+    // Last position the donor shared while en route, and the arrival estimate from it
+    currentLocation: {
+      lat: Number,
+      lng: Number,
+      updatedAt: Date
+    },
+    etaMinutes: Number,
+    notifications: [{
+      channel: {
+        type: String,
+        enum: ['socket', 'push', 'sms', 'email']
+      },
+      status: {
+        type: String,
+        enum: ['sent', 'failed', 'suppressed', 'skipped'],
+        default: 'sent'
+      },
+      attempts: {
+        type: Number,
+        default: 0
+      },
+      externalId: String,
+      error: String,
+      lastAttemptAt: Date
+    }]
+  }],
+  // Each round of outreach: the first match when the request is raised, then
+  // the escalations sent while no donor has committed
+  outreachWaves: [{
+    wave: Number,
+    radiusKm: Number,
+    bloodTypes: [String],
+    donorsContacted: {
+      type: Number,
+      default: 0
+    },
+    hospitalsAlerted: {
+      type: Number,
+      default: 0
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now
     }
   }],
+  // When the next wave goes out; null once every wave has been sent
+  nextEscalationAt: {
+    type: Date,
+    default: null
+  },
+  // 'drive' requests are raised by a hospital's blood bank when stock runs low
+  source: {
+    type: String,
+    enum: ['web', 'sms', 'socket', 'drive'],
+    default: 'web'
+  },
+  // Hash of the PIN texted to the requester for the public tracking page
+  trackingPinHash: {
+    type: String,
+    select: false
+  },
+  // Wrong PINs entered so far; once the limit is reached only an SMS code works
+  trackingPinAttempts: {
+    type: Number,
+    default: 0,
+    select: false
+  },
+  idempotencyKey: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: 64
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -103,6 +236,12 @@ bloodRequestSchema.index({ urgency: 1, status: 1, createdAt: -1 });
 // Index for phone number lookup
 bloodRequestSchema.index({ requesterPhone: 1, createdAt: -1 });
 
+// Index for the outreach escalation job
+bloodRequestSchema.index({ nextEscalationAt: 1 });
+
+// Index for deduplicating client retries (offline queue)
+bloodRequestSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true });
+
 // Middleware to update updatedAt field
 bloodRequestSchema.pre('save', function(next) {
   this.updatedAt = new Date();
@@ -116,11 +255,26 @@ bloodRequestSchema.virtual('timeRemaining').get(function() {
   return Math.max(0, Math.floor((expiresAt - now) / 1000 / 60)); // minutes
 });
 
+// Virtual for units still needed
+bloodRequestSchema.virtual('unitsRemaining').get(function() {
+  return Math.max(0, (this.unitsRequired || 1) - (this.unitsFulfilled || 0));
+});
+
 // Method to check if request is expired
 bloodRequestSchema.methods.isExpired = function() {
   return new Date() > this.expiresAt;
 };
 
+// Method to check if another hospital may accept the request. Once accepted, a
+// single unit is left to the accepting hospital; larger requests stay open for
+// other hospitals to share until every unit is provided. Donor drives belong
+// to the hospital that ran short.
+bloodRequestSchema.methods.isOpenToHospitals = function() {
+  if (this.isExpired() || this.source === 'drive') return false;
+  if (this.status === 'pending') return true;
+  return this.status === 'accepted' && this.unitsRequired > 1 && this.unitsRemaining > 0;
+};
+
 // Static method to find nearby requests
 bloodRequestSchema.statics.findNearby = function(lat, lng, radiusKm = 50) {
   return this.find({
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { DONATION_TYPES } from '../utils/deferralRules.js';
+
+const bloodTransferSchema = new mongoose.Schema({
+  // Hospital that needs the blood
+  requestingHospitalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: true
+  },
+  // Neighbour asked to send it
+  supplyingHospitalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: true
+  },
+  // Type of the units sent, which may differ from the patient's if compatible
+  bloodType: {
+    type: String,
+    required: true,
+    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-']
+  },
+  patientBloodType: {
+    type: String,
+    required: true,
+    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-']
+  },
+  // Decides which components can be sent
+  donationType: {
+    type: String,
+    enum: DONATION_TYPES,
+    default: 'whole_blood'
+  },
+  units: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 50
+  },
+  // Patient request the transfer is for, if any
+  requestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodRequest',
+    default: null
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['requested', 'accepted', 'rejected', 'dispatched', 'received', 'cancelled'],
+    default: 'requested'
+  },
+  // Units the supplier set aside on accepting
+  unitIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodUnit'
+  }],
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  rejectionReason: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  // Staff member who made the request; null when the hospital account itself did
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HospitalStaff',
+    default: null
+  },
+  respondedAt: Date,
+  dispatchedAt: Date,
+  receivedAt: Date,
+  cancelledAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes for each side's transfer list
+bloodTransferSchema.index({ requestingHospitalId: 1, createdAt: -1 });
+bloodTransferSchema.index({ supplyingHospitalId: 1, createdAt: -1 });
+
+// Middleware to update updatedAt field
+bloodTransferSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Method to check whether units are still to arrive
+bloodTransferSchema.methods.isOpen = function() {
+  return ['requested', 'accepted', 'dispatched'].includes(this.status);
+};
+
+export default mongoose.model('BloodTransfer', bloodTransferSchema);
@@ -0,0 +1,179 @@
+import mongoose from 'mongoose';
+
+export const BLOOD_COMPONENTS = ['whole_blood', 'packed_red_cells', 'platelets', 'fresh_frozen_plasma', 'cryoprecipitate'];
+
+// Days from collection a component stays usable
+export const COMPONENT_SHELF_LIFE_DAYS = {
+  whole_blood: 35,
+  packed_red_cells: 42,
+  platelets: 5,
+  fresh_frozen_plasma: 365,
+  cryoprecipitate: 365
+};
+
+// Components that can fill a request for each donation type
+export const COMPONENTS_FOR_DONATION_TYPE = {
+  whole_blood: ['whole_blood', 'packed_red_cells'],
+  double_red_cells: ['packed_red_cells'],
+  platelets: ['platelets'],
+  plasma: ['fresh_frozen_plasma']
+};
+
+// Component a fresh donation of each type goes into stock as
+export const COMPONENT_FROM_DONATION_TYPE = {
+  whole_blood: 'whole_blood',
+  double_red_cells: 'packed_red_cells',
+  platelets: 'platelets',
+  plasma: 'fresh_frozen_plasma'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bloodUnitSchema = new mongoose.Schema({
+  hospitalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: true
+  },
+  // Barcode printed on the bag
+  bagId: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+    maxlength: 40
+  },
+  component: {
+    type: String,
+    required: true,
+    enum: BLOOD_COMPONENTS
+  },
+  bloodType: {
+    type: String,
+    required: true,
+    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-']
+  },
+  collectedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['available', 'reserved', 'issued', 'discarded'],
+    default: 'available'
+  },
+  donationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Donation',
+    default: null
+  },
+  // Request the unit is reserved for or was issued to
+  requestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodRequest',
+    default: null
+  },
+  // Transfer to another hospital the unit is reserved for or was sent on
+  transferId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodTransfer',
+    default: null
+  },
+  reservedAt: Date,
+  issuedAt: Date,
+  discardedAt: Date,
+  // Set once the hospital has been warned the unit is about to expire
+  expiryAlertedAt: {
+    type: Date,
+    default: null
+  },
+  discardReason: {
+    type: String,
+    enum: ['expired', 'damaged', 'failed_testing', 'other'],
+    default: undefined
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Bag IDs are unique within a hospital's blood bank
+bloodUnitSchema.index({ hospitalId: 1, bagId: 1 }, { unique: true });
+
+// Index for first-expiring-first-out issue
+bloodUnitSchema.index({ hospitalId: 1, status: 1, bloodType: 1, component: 1, expiresAt: 1 });
+
+// Index for the expiry sweep
+bloodUnitSchema.index({ status: 1, expiresAt: 1 });
+
+// Fill in the expiry from the component's shelf life
+bloodUnitSchema.pre('validate', function(next) {
+  if (!this.expiresAt && this.component && this.collectedAt) {
+    this.expiresAt = new Date(this.collectedAt.getTime() + COMPONENT_SHELF_LIFE_DAYS[this.component] * DAY_MS);
+  }
+  next();
+});
+
+// Middleware to update updatedAt field
+bloodUnitSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Method to check if unit is past its expiry
+bloodUnitSchema.methods.isExpired = function() {
+  return new Date() >= this.expiresAt;
+};
+
+// Usable units of the given components, first to expire first. bloodType may
+// be a list of types, as for countAvailable
+bloodUnitSchema.statics.findAvailable = function(hospitalId, bloodType, components) {
+  return this.find({
+    hospitalId,
+    bloodType: { $in: [].concat(bloodType) },
+    component: { $in: components },
+    status: 'available',
+    expiresAt: { $gt: new Date() }
+  }).sort({ expiresAt: 1, collectedAt: 1 });
+};
+
+// bloodType may be a list of types, e.g. every type compatible with a patient
+bloodUnitSchema.statics.countAvailable = function(hospitalId, bloodType, components) {
+  return this.countDocuments({
+    hospitalId,
+    bloodType: { $in: [].concat(bloodType) },
+    component: { $in: components },
+    status: 'available',
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+// Usable units expiring within the given number of days, first to expire first
+bloodUnitSchema.statics.findExpiringSoon = function(hospitalId, days) {
+  const now = new Date();
+  return this.find({
+    hospitalId,
+    status: { $in: ['available', 'reserved'] },
+    expiresAt: { $gt: now, $lte: new Date(now.getTime() + days * DAY_MS) }
+  }).sort({ expiresAt: 1 });
+};
+
+// Generate a bag ID for units entered without a barcode
+bloodUnitSchema.statics.generateBagId = function() {
+  const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `OB${date}${random}`;
+};
+
+export default mongoose.model('BloodUnit', bloodUnitSchema);
@@ -0,0 +1,73 @@
+import mongoose from 'mongoose';
+import { DONATION_TYPES } from '../utils/deferralRules.js';
+
+const donationSchema = new mongoose.Schema({
+  donorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Donor',
+    required: true
+  },
+  hospitalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: true
+  },
+  // Set when the donation was given for a specific blood request
+  requestId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BloodRequest',
+    default: null
+  },
+  bloodType: {
+    type: String,
+    required: true,
+    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-']
+  },
+  donationType: {
+    type: String,
+    enum: DONATION_TYPES,
+    default: 'whole_blood'
+  },
+  units: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  source: {
+    type: String,
+    enum: ['qr_scan', 'manual'],
+    default: 'manual'
+  },
+  // Staff member who recorded it; null when the hospital account itself did
+  recordedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HospitalStaff',
+    default: null
+  },
+  pointsAwarded: {
+    type: Number,
+    default: 0
+  },
+  achievementsAwarded: [{
+    type: String
+  }],
+  donatedAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for a donor's donation history
+donationSchema.index({ donorId: 1, donatedAt: -1 });
+
+// Index for a hospital's collection log
+donationSchema.index({ hospitalId: 1, donatedAt: -1 });
+
+// Index for donations given against a request
+donationSchema.index({ requestId: 1 }, { sparse: true });
+
+export default mongoose.model('Donation', donationSchema);
@@ -1,5 +1,9 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { DONATION_TYPES, getDeferralDays, eligibleToDonateFilter } from '../utils/deferralRules.js';
+import { donorTypesForRequest } from '../utils/bloodCompatibility.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 const donorSchema = new mongoose.Schema({
   donorId: {
@@ -41,7 +45,14 @@ const donorSchema = new mongoose.Schema({
   bloodType: {
     type: String,
     required: true,
-    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-']
+    // 'unknown' until the first donation is typed; such donors are never matched
+    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-', 'unknown']
+  },
+  // Deferral periods differ by sex; donors who leave it out get the longer one
+  sex: {
+    type: String,
+    enum: ['male', 'female', 'other'],
+    default: undefined
   },
   dateOfBirth: {
     type: Date,
@@ -78,10 +89,19 @@ const donorSchema = new mongoose.Schema({
       }
     }
   },
+  consentedAt: {
+    type: Date,
+    default: null
+  },
   lastDonation: {
     type: Date,
     default: null
   },
+  lastDonationType: {
+    type: String,
+    enum: DONATION_TYPES,
+    default: null
+  },
   totalDonations: {
     type: Number,
     default: 0,
@@ -148,6 +168,16 @@ const donorSchema = new mongoose.Schema({
       default: Date.now
     }
   },
+  // Snapshots of healthMetrics, newest last, for charting trends
+  healthHistory: [{
+    bloodPressure: String,
+    ironLevel: Number,
+    pulse: Number,
+    recordedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   notificationPreferences: {
     sms: {
       type: Boolean,
@@ -160,8 +190,38 @@ const donorSchema = new mongoose.Schema({
     push: {
       type: Boolean,
       default: true
+    },
+    quietHours: {
+      enabled: {
+        type: Boolean,
+        default: true
+      },
+      start: {
+        type: String,
+        default: '22:00',
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours must be in HH:MM format']
+      },
+      end: {
+        type: String,
+        default: '07:00',
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours must be in HH:MM format']
+      }
     }
   },
+  pushSubscriptions: [{
+    endpoint: {
+      type: String,
+      required: true
+    },
+    keys: {
+      p256dh: String,
+      auth: String
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   privacySettings: {
     showPhone: {
       type: Boolean,
@@ -221,18 +281,33 @@ donorSchema.pre('save', function(next) {
   next();
 });
 
+// Days the donor has to wait after their last donation before giving `donationType`
+donorSchema.methods.getDeferralDays = function(donationType = 'whole_blood') {
+  return getDeferralDays(this.lastDonationType, donationType, this.sex);
+};
+
 // Method to check if donor is eligible to donate
-donorSchema.methods.isEligibleToDonate = function() {
+donorSchema.methods.isEligibleToDonate = function(donationType = 'whole_blood') {
   if (!this.available) return false;
 
-  if (!this.lastDonation) return true;
+  const nextEligibleDate = this.getNextEligibleDate(donationType);
+  return !nextEligibleDate || nextEligibleDate <= new Date();
+};
 
-  const daysSinceLastDonation = Math.floor(
-    (new Date() - this.lastDonation) / (1000 * 60 * 60 * 24)
-  );
+// Method to get the first date the donor may give `donationType` again (null if never donated)
+donorSchema.methods.getNextEligibleDate = function(donationType = 'whole_blood') {
+  if (!this.lastDonation) return null;
+  return new Date(this.lastDonation.getTime() + this.getDeferralDays(donationType) * DAY_MS);
+};
 
-  // Must wait at least 56 days between donations
-  return daysSinceLastDonation >= 56;
+// When the donor may next give each donation type
+donorSchema.methods.getEligibilityByType = function() {
+  return DONATION_TYPES.map(donationType => ({
+    donationType,
+    eligible: this.isEligibleToDonate(donationType),
+    intervalDays: this.getDeferralDays(donationType),
+    nextEligibleDate: this.getNextEligibleDate(donationType)
+  }));
 };
 
 // Method to calculate donor score for matching
@@ -283,8 +358,8 @@ donorSchema.methods.calculateDistance = function(otherLocation) {
   return R * c;
 };
 
-// Static method to find nearby eligible donors
-donorSchema.statics.findNearbyEligible = function(lat, lng, bloodType, radiusKm = 30) {
+// Static method to find nearby eligible donors whose blood a patient of bloodType can receive
+donorSchema.statics.findNearbyEligible = function(lat, lng, bloodType, radiusKm = 30, donationType = 'whole_blood', urgency = 'normal') {
   return this.find({
     location: {
       $near: {
@@ -295,12 +370,9 @@ donorSchema.statics.findNearbyEligible = function(lat, lng, bloodType, radiusKm
         $maxDistance: radiusKm * 1000
       }
     },
-    bloodType: bloodType,
+    bloodType: { $in: donorTypesForRequest(bloodType, urgency, donationType) },
     available: true,
-    $or: [
-      { lastDonation: null },
-      { lastDonation: { $lte: new Date(Date.now() - 56 * 24 * 60 * 60 * 1000) } }
-    ]
+    ...eligibleToDonateFilter(donationType)
   });
 };
 
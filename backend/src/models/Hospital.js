@@ -1,5 +1,7 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
+import BloodUnit, { COMPONENTS_FOR_DONATION_TYPE } from './BloodUnit.js';
+import { compatibleDonorTypes } from '../utils/bloodCompatibility.js';
 
 const hospitalSchema = new mongoose.Schema({
   name: {
@@ -71,13 +73,51 @@ const hospitalSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
+  // Platform admin review; `verified` mirrors an approved status
+  verificationStatus: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  verificationReason: {
+    type: String,
+    maxlength: 1000
+  },
+  verificationReviewedAt: {
+    type: Date,
+    default: null
+  },
+  verificationReviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Admin',
+    default: null
+  },
   verificationDocuments: [{
-    type: String, // URLs to stored documents
+    kind: {
+      type: String,
+      enum: ['license', 'registration', 'other'],
+      default: 'license'
+    },
+    filename: {
+      type: String, // Name on disk under UPLOAD_PATH
+      required: true
+    },
+    originalName: {
+      type: String,
+      maxlength: 255
+    },
+    mimeType: {
+      type: String
+    },
+    size: {
+      type: Number
+    },
     uploadDate: {
       type: Date,
       default: Date.now
     }
   }],
+  // Usable red-cell units per type, derived from BloodUnit by the inventory service
   bloodStock: {
     'A+': {
       type: Number,
@@ -250,8 +290,36 @@ const hospitalSchema = new mongoose.Schema({
     shareDataWithPartners: {
       type: Boolean,
       default: false
+    },
+    // Minimum units of each type to keep in stock; 0 turns the alert off
+    stockThresholds: {
+      'A+': { type: Number, default: 0, min: 0 },
+      'A-': { type: Number, default: 0, min: 0 },
+      'B+': { type: Number, default: 0, min: 0 },
+      'B-': { type: Number, default: 0, min: 0 },
+      'O+': { type: Number, default: 0, min: 0 },
+      'O-': { type: Number, default: 0, min: 0 },
+      'AB+': { type: Number, default: 0, min: 0 },
+      'AB-': { type: Number, default: 0, min: 0 }
+    },
+    // Warn about units this many days before they expire
+    expiryAlertDays: {
+      type: Number,
+      default: 3,
+      min: 1,
+      max: 14
+    },
+    // Start a donor drive when a type falls below its threshold
+    autoDonorDrive: {
+      type: Boolean,
+      default: false
     }
   },
+  // Types already alerted as low, so each shortage is reported once
+  lowStockAlerted: [{
+    type: String,
+    enum: ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-']
+  }],
   createdAt: {
     type: Date,
     default: Date.now
@@ -267,6 +335,7 @@ hospitalSchema.index({ location: '2dsphere' });
 
 // Index for verification status
 hospitalSchema.index({ verified: 1 });
+hospitalSchema.index({ verificationStatus: 1, createdAt: 1 });
 
 // Index for email lookup
 hospitalSchema.index({ email: 1 });
@@ -288,7 +357,7 @@ hospitalSchema.pre('save', function(next) {
 // Method to check if hospital is open
 hospitalSchema.methods.isOpen = function() {
   const now = new Date();
-  const day = now.toLocaleLowerCase().slice(0, 3);
+  const day = now.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
   const currentTime = now.toTimeString().slice(0, 5); // HH:MM format
 
   const todayHours = this.operatingHours[day];
@@ -299,23 +368,30 @@ hospitalSchema.methods.isOpen = function() {
   return currentTime >= todayHours.open && currentTime <= todayHours.close;
 };
 
-// Method to update blood stock
-hospitalSchema.methods.updateBloodStock = function(bloodType, change) {
-  if (this.bloodStock.hasOwnProperty(bloodType)) {
-    this.bloodStock[bloodType] = Math.max(0, this.bloodStock[bloodType] + change);
-    return true;
-  }
-  return false;
-};
-
 // Method to get total blood stock
 hospitalSchema.methods.getTotalBloodStock = function() {
   return Object.values(this.bloodStock).reduce((total, amount) => total + amount, 0);
 };
 
-// Method to check if can fulfill request
-hospitalSchema.methods.canFulfillRequest = function(bloodType, units = 1) {
-  return this.bloodStock[bloodType] >= units && this.isOpen();
+// Method to list blood types below the hospital's minimum stock level
+hospitalSchema.methods.getLowStockTypes = function() {
+  return Object.keys(this.bloodStock).filter(bloodType => {
+    const threshold = this.settings.stockThresholds?.[bloodType] || 0;
+    return threshold > 0 && this.bloodStock[bloodType] < threshold;
+  });
+};
+
+// Method to check if can fulfill request from units in stock, counting every
+// type compatible with the patient for the component requested
+hospitalSchema.methods.canFulfillRequest = async function(bloodType, units = 1, donationType = 'whole_blood') {
+  if (!this.isOpen()) return false;
+
+  const available = await BloodUnit.countAvailable(
+    this._id,
+    compatibleDonorTypes(bloodType, donationType),
+    COMPONENTS_FOR_DONATION_TYPE[donationType]
+  );
+  return available >= units;
 };
 
 // Method to calculate distance from a point
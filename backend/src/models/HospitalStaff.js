@@ -0,0 +1,140 @@
+import mongoose from 'mongoose';
+import bcrypt from 'bcryptjs';
+
+// What each staff role may do within its hospital
+const ROLE_PERMISSIONS = {
+  admin: ['dashboard:view', 'requests:accept', 'requests:update', 'bloodstock:update', 'settings:update', 'staff:manage'],
+  blood_bank_officer: ['dashboard:view', 'requests:accept', 'requests:update', 'bloodstock:update'],
+  dispatcher: ['dashboard:view', 'requests:accept', 'requests:update'],
+  viewer: ['dashboard:view']
+};
+
+const hospitalStaffSchema = new mongoose.Schema({
+  hospitalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Hospital',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    validate: {
+      validator: function(v) {
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v);
+      },
+      message: 'Invalid email format'
+    }
+  },
+  phone: {
+    type: String,
+    validate: {
+      validator: function(v) {
+        return !v || /^\+?[1-9]\d{1,14}$/.test(v);
+      },
+      message: 'Invalid phone number format'
+    }
+  },
+  role: {
+    type: String,
+    required: true,
+    enum: Object.keys(ROLE_PERMISSIONS),
+    default: 'viewer'
+  },
+  status: {
+    type: String,
+    enum: ['invited', 'active', 'disabled'],
+    default: 'invited'
+  },
+  password: {
+    type: String,
+    minlength: 8
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HospitalStaff',
+    default: null
+  },
+  // Invitation and password reset links carry a random token; only its hash is stored
+  inviteTokenHash: {
+    type: String,
+    default: null
+  },
+  inviteExpiresAt: {
+    type: Date,
+    default: null
+  },
+  resetTokenHash: {
+    type: String,
+    default: null
+  },
+  resetExpiresAt: {
+    type: Date,
+    default: null
+  },
+  lastLoginAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes for better query performance
+hospitalStaffSchema.index({ hospitalId: 1, role: 1 });
+hospitalStaffSchema.index({ inviteTokenHash: 1 }, { sparse: true });
+hospitalStaffSchema.index({ resetTokenHash: 1 }, { sparse: true });
+
+// Hash password before saving
+hospitalStaffSchema.pre('save', async function(next) {
+  if (!this.isModified('password') || !this.password) return next();
+
+  this.password = await bcrypt.hash(this.password, 12);
+  next();
+});
+
+// Middleware to update updatedAt field
+hospitalStaffSchema.pre('save', function(next) {
+  this.updatedAt = new Date();
+  next();
+});
+
+// Method to compare password
+hospitalStaffSchema.methods.comparePassword = async function(candidatePassword) {
+  if (!this.password) return false;
+  return bcrypt.compare(candidatePassword, this.password);
+};
+
+// Method to check a permission against the staff member's role
+hospitalStaffSchema.methods.hasPermission = function(permission) {
+  return this.constructor.roleHasPermission(this.role, permission);
+};
+
+// Static method to check a permission for a role
+hospitalStaffSchema.statics.roleHasPermission = function(role, permission) {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+};
+
+hospitalStaffSchema.statics.getRoles = function() {
+  return Object.keys(ROLE_PERMISSIONS);
+};
+
+hospitalStaffSchema.statics.getPermissions = function(role) {
+  return [...(ROLE_PERMISSIONS[role] || [])];
+};
+
+export default mongoose.model('HospitalStaff', hospitalStaffSchema);
@@ -0,0 +1,56 @@
+import mongoose from 'mongoose';
+
+const otpCodeSchema = new mongoose.Schema({
+  phone: {
+    type: String,
+    required: true,
+    validate: {
+      validator: function(v) {
+        return /^\+?[1-9]\d{1,14}$/.test(v);
+      },
+      message: 'Invalid phone number format'
+    }
+  },
+  purpose: {
+    type: String,
+    required: true,
+    // request_access: a requester managing their blood request without the tracking PIN
+    // donor_registration: proving a new donor owns the phone they sign up with
+    enum: ['donor_login', 'request_access', 'donor_registration'],
+    default: 'donor_login'
+  },
+  codeHash: {
+    type: String,
+    required: true
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  consumedAt: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + 10 * 60 * 1000) // 10 minutes
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for looking up the latest code for a phone
+otpCodeSchema.index({ phone: 1, purpose: 1, createdAt: -1 });
+
+// Let MongoDB drop expired codes
+otpCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Method to check if code can still be verified
+otpCodeSchema.methods.isUsable = function(maxAttempts = 5) {
+  return !this.consumedAt && this.expiresAt > new Date() && this.attempts < maxAttempts;
+};
+
+export default mongoose.model('OtpCode', otpCodeSchema);
@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+
+const sessionSchema = new mongoose.Schema({
+  subjectId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  subjectType: {
+    type: String,
+    required: true,
+    enum: ['donor', 'hospital', 'admin']
+  },
+  // Set when a hospital session belongs to one staff member rather than the hospital account
+  staffId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HospitalStaff',
+    default: null
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  ip: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'refresh_reuse', 'admin', 'password_change'],
+    default: undefined
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Index for listing and revoking a user's sessions
+sessionSchema.index({ subjectType: 1, subjectId: 1 });
+sessionSchema.index({ staffId: 1 }, { sparse: true });
+
+// Let MongoDB drop sessions once the refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Method to check if session can still be used
+sessionSchema.methods.isActive = function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+export default mongoose.model('Session', sessionSchema);
@@ -0,0 +1,569 @@
+import express from 'express';
+import { body, query, param, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import path from 'path';
+import Admin from '../models/Admin.js';
+import Hospital from '../models/Hospital.js';
+import AuditLog from '../models/AuditLog.js';
+import { tokenService } from '../services/tokenService.js';
+import { mailService } from '../services/mailService.js';
+import { authenticateAdmin } from '../middleware/auth.js';
+import { getDocumentDirectory } from '../middleware/upload.js';
+
+const router = express.Router();
+
+// Rate limiting for login attempts
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // 5 login attempts per 15 minutes
+  keyGenerator: (req) => req.body.email || req.ip,
+  message: {
+    success: false,
+    error: 'Too many login attempts. Please try again later.'
+  }
+});
+
+// Validation middleware
+const handleValidationErrors = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation Error',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+const sessionMeta = (req) => ({
+  userAgent: req.get('User-Agent'),
+  ip: req.ip
+});
+
+// Queue filters; hospitals verified before the review workflow existed count as approved
+const STATUS_FILTERS = {
+  pending: { verified: false, verificationStatus: { $ne: 'rejected' } },
+  approved: { verified: true },
+  rejected: { verified: false, verificationStatus: 'rejected' }
+};
+
+const formatHospital = (hospital) => ({
+  id: hospital._id,
+  name: hospital.name,
+  email: hospital.email,
+  phone: hospital.phone,
+  address: hospital.address,
+  licenseNumber: hospital.licenseNumber,
+  verified: hospital.verified,
+  verificationStatus: hospital.verified ? 'approved' : hospital.verificationStatus,
+  verificationReason: hospital.verificationReason,
+  verificationReviewedAt: hospital.verificationReviewedAt,
+  documents: hospital.verificationDocuments.length,
+  createdAt: hospital.createdAt
+});
+
+// Tell the hospital about the decision; email failures must not undo it
+const notifyHospital = (hospital, approved, reason) => {
+  const text = approved
+    ? `Hello ${hospital.name},\n\nYour hospital has been verified on OneBlood. You can now log in and accept blood requests.\n\n` +
+      mailService.buildUrl('/hospital-dashboard')
+    : `Hello ${hospital.name},\n\nWe could not verify your hospital on OneBlood.\n\nReason: ${reason}\n\n` +
+      'Please log in and upload corrected documents to be reviewed again.';
+
+  mailService.send({
+    to: hospital.email,
+    subject: approved ? 'Your hospital is verified on OneBlood' : 'OneBlood verification needs attention',
+    text
+  });
+};
+
+// POST /api/admin/login - Platform admin login
+router.post('/login',
+  loginLimiter,
+  [
+    body('email')
+      .isEmail()
+      .withMessage('Invalid email format'),
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { email, password } = req.body;
+
+      const admin = await Admin.findOne({ email: email.toLowerCase() });
+      const isPasswordValid = admin && admin.active && await admin.comparePassword(password);
+      if (!isPasswordValid) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid email or password'
+        });
+      }
+
+      const { accessToken, refreshToken, expiresIn } = await tokenService.issueTokens(admin._id, 'admin', sessionMeta(req));
+
+      admin.lastLoginAt = new Date();
+      await admin.save();
+
+      res.json({
+        success: true,
+        data: {
+          admin: {
+            id: admin._id,
+            name: admin.name,
+            email: admin.email
+          },
+          token: accessToken,
+          refreshToken,
+          expiresIn
+        },
+        message: 'Login successful'
+      });
+
+    } catch (error) {
+      console.error('Error during admin login:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Login failed. Please try again.'
+      });
+    }
+  }
+);
+
+// POST /api/admin/refresh - Rotate the refresh token and issue a new access token
+router.post('/refresh',
+  [
+    body('refreshToken')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const result = await tokenService.rotateRefreshToken(req.body.refreshToken, 'admin');
+      if (!result) {
+        return res.status(401).json({
+          success: false,
+          error: 'Session expired. Please log in again.'
+        });
+      }
+
+      const { accessToken, refreshToken, expiresIn } = result.tokens;
+
+      res.json({
+        success: true,
+        data: {
+          token: accessToken,
+          refreshToken,
+          expiresIn
+        }
+      });
+
+    } catch (error) {
+      console.error('Error refreshing admin token:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to refresh session'
+      });
+    }
+  }
+);
+
+// POST /api/admin/logout - End the session behind a refresh token
+router.post('/logout',
+  [
+    body('refreshToken')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      await tokenService.revokeRefreshToken(req.body.refreshToken, 'admin');
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+
+    } catch (error) {
+      console.error('Error logging out admin:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to log out'
+      });
+    }
+  }
+);
+
+// GET /api/admin/hospitals - Hospitals by verification status (pending first-come, first-served)
+router.get('/hospitals',
+  authenticateAdmin,
+  [
+    query('status')
+      .optional()
+      .isIn(Object.keys(STATUS_FILTERS))
+      .withMessage('Invalid status'),
+    query('search')
+      .optional()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage('Search must be less than 100 characters'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { status = 'pending', search, page = 1, limit = 20 } = req.query;
+
+      const filter = { ...STATUS_FILTERS[status] };
+      if (search) {
+        const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        filter.$or = [{ name: pattern }, { email: pattern }, { licenseNumber: pattern }];
+      }
+
+      const [hospitals, total] = await Promise.all([
+        Hospital.find(filter)
+          .select('-password')
+          .sort({ createdAt: status === 'pending' ? 1 : -1 })
+          .skip((parseInt(page) - 1) * parseInt(limit))
+          .limit(parseInt(limit)),
+        Hospital.countDocuments(filter)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          hospitals: hospitals.map(formatHospital),
+          total,
+          page: parseInt(page),
+          limit: parseInt(limit)
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching hospitals for review:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch hospitals'
+      });
+    }
+  }
+);
+
+// GET /api/admin/hospitals/:id - Full registration details for review
+router.get('/hospitals/:id',
+  authenticateAdmin,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const hospital = await Hospital.findById(req.params.id).select('-password');
+      if (!hospital) {
+        return res.status(404).json({
+          success: false,
+          error: 'Hospital not found'
+        });
+      }
+
+      const history = await AuditLog.find({ targetType: 'Hospital', targetId: hospital._id })
+        .sort({ createdAt: -1 })
+        .limit(50);
+
+      res.json({
+        success: true,
+        data: {
+          hospital: {
+            ...formatHospital(hospital),
+            location: {
+              lat: hospital.location.coordinates[1],
+              lng: hospital.location.coordinates[0]
+            },
+            contactPerson: hospital.contactPerson,
+            emergencyContact: hospital.emergencyContact,
+            services: hospital.services,
+            specialties: hospital.specialties,
+            serviceRadius: hospital.serviceRadius,
+            documents: hospital.verificationDocuments.map(doc => ({
+              id: doc._id,
+              kind: doc.kind,
+              originalName: doc.originalName,
+              mimeType: doc.mimeType,
+              size: doc.size,
+              uploadDate: doc.uploadDate
+            }))
+          },
+          history
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching hospital for review:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch hospital'
+      });
+    }
+  }
+);
+
+// GET /api/admin/hospitals/:id/documents/:documentId - Download an uploaded document
+router.get('/hospitals/:id/documents/:documentId',
+  authenticateAdmin,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    param('documentId')
+      .isMongoId()
+      .withMessage('Invalid document ID')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const hospital = await Hospital.findById(req.params.id).select('verificationDocuments');
+      const document = hospital && hospital.verificationDocuments.id(req.params.documentId);
+
+      if (!document) {
+        return res.status(404).json({
+          success: false,
+          error: 'Document not found'
+        });
+      }
+
+      // Stored names are generated server-side, but never follow a path out of the upload directory
+      const filePath = path.join(getDocumentDirectory(), path.basename(document.filename));
+
+      res.type(document.mimeType || 'application/octet-stream');
+      res.set('Content-Disposition', `inline; filename="${(document.originalName || document.filename).replace(/["\r\n]/g, '')}"`);
+      res.sendFile(filePath, (error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({
+            success: false,
+            error: 'Document file is missing'
+          });
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching verification document:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch document'
+      });
+    }
+  }
+);
+
+// POST /api/admin/hospitals/:id/approve - Verify a hospital
+router.post('/hospitals/:id/approve',
+  authenticateAdmin,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body('reason')
+      .optional()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Reason must be less than 1000 characters')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { reason } = req.body;
+
+      const hospital = await Hospital.findById(req.params.id);
+      if (!hospital) {
+        return res.status(404).json({
+          success: false,
+          error: 'Hospital not found'
+        });
+      }
+
+      if (hospital.verified) {
+        return res.status(400).json({
+          success: false,
+          error: 'Hospital is already verified'
+        });
+      }
+
+      const previousStatus = hospital.verificationStatus;
+
+      hospital.verified = true;
+      hospital.verificationStatus = 'approved';
+      hospital.verificationReason = reason;
+      hospital.verificationReviewedAt = new Date();
+      hospital.verificationReviewedBy = req.admin._id;
+      await hospital.save();
+
+      await AuditLog.record({
+        actorType: 'admin',
+        actorId: req.admin._id,
+        actorName: req.admin.name,
+        action: 'hospital.approve',
+        targetType: 'Hospital',
+        targetId: hospital._id,
+        reason,
+        metadata: { previousStatus, licenseNumber: hospital.licenseNumber },
+        ip: req.ip
+      });
+
+      notifyHospital(hospital, true);
+
+      res.json({
+        success: true,
+        data: {
+          hospital: formatHospital(hospital)
+        },
+        message: 'Hospital approved'
+      });
+
+    } catch (error) {
+      console.error('Error approving hospital:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to approve hospital'
+      });
+    }
+  }
+);
+
+// POST /api/admin/hospitals/:id/reject - Reject a pending hospital or revoke a verified one
+router.post('/hospitals/:id/reject',
+  authenticateAdmin,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body('reason')
+      .trim()
+      .isLength({ min: 5, max: 1000 })
+      .withMessage('Reason must be between 5 and 1000 characters')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { reason } = req.body;
+
+      const hospital = await Hospital.findById(req.params.id);
+      if (!hospital) {
+        return res.status(404).json({
+          success: false,
+          error: 'Hospital not found'
+        });
+      }
+
+      const wasVerified = hospital.verified;
+      const previousStatus = wasVerified ? 'approved' : hospital.verificationStatus;
+
+      hospital.verified = false;
+      hospital.verificationStatus = 'rejected';
+      hospital.verificationReason = reason;
+      hospital.verificationReviewedAt = new Date();
+      hospital.verificationReviewedBy = req.admin._id;
+      await hospital.save();
+
+      // A revoked hospital must lose access immediately
+      if (wasVerified) {
+        await tokenService.revokeAllSessions(hospital._id, 'hospital', 'admin');
+      }
+
+      await AuditLog.record({
+        actorType: 'admin',
+        actorId: req.admin._id,
+        actorName: req.admin.name,
+        action: wasVerified ? 'hospital.revoke' : 'hospital.reject',
+        targetType: 'Hospital',
+        targetId: hospital._id,
+        reason,
+        metadata: { previousStatus, licenseNumber: hospital.licenseNumber },
+        ip: req.ip
+      });
+
+      notifyHospital(hospital, false, reason);
+
+      res.json({
+        success: true,
+        data: {
+          hospital: formatHospital(hospital)
+        },
+        message: wasVerified ? 'Hospital verification revoked' : 'Hospital rejected'
+      });
+
+    } catch (error) {
+      console.error('Error rejecting hospital:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reject hospital'
+      });
+    }
+  }
+);
+
+// GET /api/admin/audit-log - Recent administrative decisions
+router.get('/audit-log',
+  authenticateAdmin,
+  [
+    query('targetId')
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid target ID'),
+    query('action')
+      .optional()
+      .isString()
+      .isLength({ max: 50 })
+      .withMessage('Invalid action'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 200 })
+      .withMessage('Limit must be between 1 and 200')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { targetId, action, limit = 50 } = req.query;
+
+      const filter = {};
+      if (targetId) filter.targetId = targetId;
+      if (action) filter.action = action;
+
+      const entries = await AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(parseInt(limit));
+
+      res.json({
+        success: true,
+        data: {
+          entries,
+          total: entries.length
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit log'
+      });
+    }
+  }
+);
+
+export default router;
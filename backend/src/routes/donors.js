@@ -1,11 +1,15 @@
 import express from 'express';
 import { body, query, param, validationResult } from 'express-validator';
 import rateLimit from 'express-rate-limit';
-import QRCode from 'qrcode';
 import crypto from 'crypto';
 import Donor from '../models/Donor.js';
 import BloodRequest from '../models/BloodRequest.js';
-import jwt from 'jsonwebtoken';
+import Donation from '../models/Donation.js';
+import { otpService } from '../services/otpService.js';
+import { tokenService } from '../services/tokenService.js';
+import { qrTokenService } from '../services/qrTokenService.js';
+import { DONATION_TYPES } from '../utils/deferralRules.js';
+import { authenticateDonor, requireDonorSelf, authenticateHospital, requirePermission } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -14,12 +18,35 @@ const donorRegistrationLimiter = rateLimit({
   windowMs: 24 * 60 * 60 * 1000, // 24 hours
   max: 1, // 1 registration per phone per day
   keyGenerator: (req) => req.body.phone || req.ip,
+  // A mistyped code should not use up the day's registration
+  skipFailedRequests: true,
   message: {
     success: false,
     error: 'Too many registration attempts. Please try again tomorrow.'
   }
 });
 
+// Rate limiting for login codes, keyed by phone so rotating IPs does not help
+const otpRequestLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // 5 codes per phone per hour
+  keyGenerator: (req) => req.body.phone || req.ip,
+  message: {
+    success: false,
+    error: 'Too many login codes requested. Please try again later.'
+  }
+});
+
+const otpVerifyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 verification attempts per phone per 15 minutes
+  keyGenerator: (req) => req.body.phone || req.ip,
+  message: {
+    success: false,
+    error: 'Too many verification attempts. Please try again later.'
+  }
+});
+
 // Validation middleware
 const handleValidationErrors = (req, res, next) => {
   const errors = validationResult(req);
@@ -33,14 +60,80 @@ const handleValidationErrors = (req, res, next) => {
   next();
 };
 
-// JWT generation
-const generateToken = (donorId, type = 'donor') => {
-  return jwt.sign(
-    { id: donorId, type },
-    process.env.JWT_SECRET || 'fallback_secret',
-    { expiresIn: '7d' }
-  );
-};
+/**
+ * What anyone may see of a donor. Contact details, sex and health records stay
+ * with the donor's own dashboard and the hospitals they donate at.
+ */
+const formatPublicDonor = (donor, donationType = 'whole_blood') => ({
+  id: donor._id,
+  donorId: donor.donorId,
+  name: donor.name,
+  bloodType: donor.bloodType,
+  available: donor.available,
+  eligibleToDonate: donor.isEligibleToDonate(donationType),
+  daysUntilNextDonation: donor.lastDonation ?
+    Math.max(0, donor.getDeferralDays(donationType) - Math.floor((new Date() - donor.lastDonation) / (1000 * 60 * 60 * 24))) : 0
+});
+
+const HEALTH_HISTORY_LIMIT = 50;
+
+const sessionMeta = (req) => ({
+  userAgent: req.get('User-Agent'),
+  ip: req.ip
+});
+
+// POST /api/donors/register/request-otp - Text a code proving the phone belongs to the new donor
+router.post('/register/request-otp',
+  otpRequestLimiter,
+  [
+    body('phone')
+      .matches(/^\+?[1-9]\d{1,14}$/)
+      .withMessage('Invalid phone number format')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { phone } = req.body;
+
+      const existingDonor = await Donor.findOne({ phone }).select('_id');
+      if (existingDonor) {
+        return res.status(400).json({
+          success: false,
+          error: 'A donor with this phone number is already registered'
+        });
+      }
+
+      const result = await otpService.sendCode(phone, 'donor_registration');
+
+      if (result.retryAfter) {
+        return res.status(429).json({
+          success: false,
+          error: `Please wait ${result.retryAfter} seconds before requesting another code.`,
+          retryAfter: result.retryAfter
+        });
+      }
+
+      if (!result.sent) {
+        return res.status(502).json({
+          success: false,
+          error: 'Failed to send verification code. Please try again.'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'A verification code has been sent by SMS.'
+      });
+
+    } catch (error) {
+      console.error('Error requesting registration code:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send verification code. Please try again.'
+      });
+    }
+  }
+);
 
 // POST /api/donors/register - Register new donor
 router.post('/register',
@@ -53,16 +146,30 @@ router.post('/register',
     body('phone')
       .matches(/^\+?[1-9]\d{1,14}$/)
       .withMessage('Invalid phone number format'),
+    body('code')
+      .matches(/^\d{6}$/)
+      .withMessage('Verification code must be 6 digits'),
     body('email')
       .optional()
       .isEmail()
       .withMessage('Invalid email format'),
     body('bloodType')
-      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-', 'unknown'])
       .withMessage('Invalid blood type'),
     body('dateOfBirth')
       .isISO8601()
       .withMessage('Invalid date of birth format'),
+    body('sex')
+      .optional()
+      .isIn(['male', 'female', 'other'])
+      .withMessage('Invalid sex'),
+    body('available')
+      .optional()
+      .isBoolean()
+      .withMessage('Available must be a boolean'),
+    body('consent')
+      .custom(value => value === true)
+      .withMessage('Consent is required to register'),
     body('address')
       .trim()
       .isLength({ min: 10, max: 500 })
@@ -77,7 +184,7 @@ router.post('/register',
   handleValidationErrors,
   async (req, res) => {
     try {
-      const { name, phone, email, bloodType, dateOfBirth, address, location } = req.body;
+      const { name, phone, code, email, bloodType, sex, dateOfBirth, address, location, available } = req.body;
 
       // Check if donor already exists
       const existingDonor = await Donor.findOne({ phone });
@@ -88,6 +195,15 @@ router.post('/register',
         });
       }
 
+      // Tokens are only issued to whoever can read texts sent to the phone
+      const verification = await otpService.verifyCode(phone, code, 'donor_registration');
+      if (!verification.valid) {
+        return res.status(401).json({
+          success: false,
+          error: verification.error
+        });
+      }
+
       // Generate unique donor ID and QR secret
       const donorId = Donor.generateDonorId();
       const qrSecret = crypto.randomBytes(32).toString('hex');
@@ -99,40 +215,29 @@ router.post('/register',
         phone,
         email,
         bloodType,
+        sex,
         dateOfBirth: new Date(dateOfBirth),
         address,
         location: {
           type: 'Point',
           coordinates: [location.lng, location.lat]
         },
+        // Donors who fail the health screening start out unavailable
+        available: available !== false,
+        consentedAt: new Date(),
         qrSecret
       });
 
       await donor.save();
 
-      // Generate QR code
-      const qrData = {
-        donorId,
-        bloodType,
-        phone,
-        timestamp: new Date().toISOString(),
-        secret: qrSecret
-      };
-
-      const qrCodeDataURL = await QRCode.toDataURL(JSON.stringify(qrData), {
-        width: 256,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        }
-      });
+      // Printed donor cards carry a long-lived signed token
+      const { token: qrToken, validUntil: qrValidUntil } = qrTokenService.createToken(donor, qrTokenService.cardTtl);
+      const qrCodeDataURL = await qrTokenService.toDataURL(qrToken);
 
-      // Generate JWT token
-      const token = generateToken(donor._id);
+      // Start a login session
+      const { accessToken, refreshToken, expiresIn } = await tokenService.issueTokens(donor._id, 'donor', sessionMeta(req));
 
-      // Award first donation achievement (registered)
-      donor.achievements.push('first_donation');
+      // Welcome points; achievements are earned by recorded donations
       donor.points += 10;
       await donor.save();
 
@@ -151,7 +256,10 @@ router.post('/register',
             createdAt: donor.createdAt
           },
           qrCode: qrCodeDataURL,
-          token
+          qrValidUntil,
+          token: accessToken,
+          refreshToken,
+          expiresIn
         },
         message: 'Donor registration successful! Your QR code has been generated.'
       });
@@ -166,49 +274,209 @@ router.post('/register',
   }
 );
 
-// GET /api/donors/:id/qr - Get donor QR code
-router.get('/:id/qr',
+// POST /api/donors/auth/request-otp - Text a login code to a registered donor
+router.post('/auth/request-otp',
+  otpRequestLimiter,
   [
-    param('id')
-      .isMongoId()
-      .withMessage('Invalid donor ID')
+    body('phone')
+      .matches(/^\+?[1-9]\d{1,14}$/)
+      .withMessage('Invalid phone number format')
   ],
   handleValidationErrors,
   async (req, res) => {
     try {
-      const { id } = req.params;
+      const { phone } = req.body;
+
+      // Answer the same way for unknown numbers so the endpoint cannot be used to look up donors
+      const donor = await Donor.findOne({ phone }).select('_id');
+      if (donor) {
+        const result = await otpService.sendCode(phone);
+
+        if (result.retryAfter) {
+          return res.status(429).json({
+            success: false,
+            error: `Please wait ${result.retryAfter} seconds before requesting another code.`,
+            retryAfter: result.retryAfter
+          });
+        }
+
+        if (!result.sent) {
+          return res.status(502).json({
+            success: false,
+            error: 'Failed to send login code. Please try again.'
+          });
+        }
+      }
 
-      const donor = await Donor.findById(id);
+      res.json({
+        success: true,
+        message: 'If this number is registered, a login code has been sent by SMS.'
+      });
+
+    } catch (error) {
+      console.error('Error requesting login code:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send login code. Please try again.'
+      });
+    }
+  }
+);
+
+// POST /api/donors/auth/verify-otp - Exchange a login code for donor tokens
+router.post('/auth/verify-otp',
+  otpVerifyLimiter,
+  [
+    body('phone')
+      .matches(/^\+?[1-9]\d{1,14}$/)
+      .withMessage('Invalid phone number format'),
+    body('code')
+      .matches(/^\d{6}$/)
+      .withMessage('Code must be 6 digits')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { phone, code } = req.body;
+
+      const result = await otpService.verifyCode(phone, code);
+      if (!result.valid) {
+        return res.status(401).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      const donor = await Donor.findOne({ phone });
       if (!donor) {
-        return res.status(404).json({
+        return res.status(401).json({
           success: false,
           error: 'Donor not found'
         });
       }
 
-      // Generate QR code with current data
-      const qrData = {
-        donorId: donor.donorId,
-        bloodType: donor.bloodType,
-        phone: donor.phone,
-        timestamp: new Date().toISOString(),
-        secret: donor.qrSecret,
-        validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() // 24 hours
-      };
-
-      const qrCodeDataURL = await QRCode.toDataURL(JSON.stringify(qrData), {
-        width: 256,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
+      const { accessToken, refreshToken, expiresIn } = await tokenService.issueTokens(donor._id, 'donor', sessionMeta(req));
+
+      res.json({
+        success: true,
+        data: {
+          donor: {
+            id: donor._id,
+            donorId: donor.donorId,
+            name: donor.name,
+            bloodType: donor.bloodType,
+            phone: donor.phone,
+            available: donor.available,
+            achievements: donor.achievements,
+            points: donor.points
+          },
+          token: accessToken,
+          refreshToken,
+          expiresIn
+        },
+        message: 'Login successful'
+      });
+
+    } catch (error) {
+      console.error('Error verifying login code:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Login failed. Please try again.'
+      });
+    }
+  }
+);
+
+// POST /api/donors/auth/refresh - Rotate the refresh token and issue a new access token
+router.post('/auth/refresh',
+  [
+    body('refreshToken')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const result = await tokenService.rotateRefreshToken(req.body.refreshToken, 'donor');
+      if (!result) {
+        return res.status(401).json({
+          success: false,
+          error: 'Session expired. Please log in again.'
+        });
+      }
+
+      const { accessToken, refreshToken, expiresIn } = result.tokens;
+
+      res.json({
+        success: true,
+        data: {
+          token: accessToken,
+          refreshToken,
+          expiresIn
         }
       });
 
+    } catch (error) {
+      console.error('Error refreshing donor token:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to refresh session'
+      });
+    }
+  }
+);
+
+// POST /api/donors/auth/logout - End the session behind a refresh token
+router.post('/auth/logout',
+  [
+    body('refreshToken')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      await tokenService.revokeRefreshToken(req.body.refreshToken, 'donor');
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+
+    } catch (error) {
+      console.error('Error logging out donor:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to log out'
+      });
+    }
+  }
+);
+
+// GET /api/donors/:id/qr - Get a short-lived signed QR code for the donor
+router.get('/:id/qr',
+  authenticateDonor,
+  requireDonorSelf,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid donor ID')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const donor = req.donor;
+
+      const { token, validUntil } = qrTokenService.createToken(donor);
+      const qrCodeDataURL = await qrTokenService.toDataURL(token);
+
       res.json({
         success: true,
         data: {
           qrCode: qrCodeDataURL,
+          validUntil,
           donorId: donor.donorId,
           bloodType: donor.bloodType,
           available: donor.available,
@@ -227,6 +495,61 @@ router.get('/:id/qr',
   }
 );
 
+// POST /api/donors/verify-qr - Hospital checks a scanned donor QR code
+router.post('/verify-qr',
+  authenticateHospital,
+  requirePermission('dashboard:view'),
+  [
+    body('token')
+      .isString()
+      .isLength({ min: 10, max: 512 })
+      .withMessage('QR token is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { donor, validUntil } = await qrTokenService.verifyToken(req.body.token);
+      const nextEligibleDate = donor.getNextEligibleDate();
+
+      res.json({
+        success: true,
+        data: {
+          donor: {
+            id: donor._id,
+            donorId: donor.donorId,
+            name: donor.name,
+            bloodType: donor.bloodType,
+            available: donor.available,
+            totalDonations: donor.totalDonations,
+            lastDonation: donor.lastDonation
+          },
+          eligibility: {
+            eligible: donor.isEligibleToDonate(),
+            intervalDays: donor.getDeferralDays(),
+            nextEligibleDate,
+            byType: donor.getEligibilityByType()
+          },
+          validUntil
+        }
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error verifying donor QR code:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify QR code'
+      });
+    }
+  }
+);
+
 // GET /api/donors/nearby - Get nearby eligible donors
 router.get('/nearby',
   [
@@ -242,24 +565,34 @@ router.get('/nearby',
     query('radius')
       .optional()
       .isFloat({ min: 1, max: 100 })
-      .withMessage('Radius must be between 1 and 100 km')
+      .withMessage('Radius must be between 1 and 100 km'),
+    query('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
+    query('urgency')
+      .optional()
+      .isIn(['critical', 'urgent', 'normal'])
+      .withMessage('Invalid urgency level')
   ],
   handleValidationErrors,
   async (req, res) => {
     try {
-      const { lat, lng, bloodType, radius = 30 } = req.query;
+      const { lat, lng, bloodType, radius = 30, donationType = 'whole_blood', urgency = 'normal' } = req.query;
 
-      // Find nearby eligible donors
+      // Find nearby eligible donors compatible with a patient of this type
       const donors = await Donor.findNearbyEligible(
         parseFloat(lat),
         parseFloat(lng),
         bloodType,
-        parseFloat(radius)
-      ).select('-qrSecret -responseHistory');
+        parseFloat(radius),
+        donationType,
+        urgency
+      ).select('-qrSecret -responseHistory -pushSubscriptions');
 
       // Calculate distance and match score for each donor
       const donorsWithScore = donors.map(donor => {
-        const donorObj = donor.toObject();
+        const donorObj = formatPublicDonor(donor, donationType);
         const distance = calculateDistance(
           parseFloat(lat), parseFloat(lng),
           donor.location.coordinates[1], donor.location.coordinates[0]
@@ -268,18 +601,16 @@ router.get('/nearby',
         donorObj.distance = Math.round(distance * 10) / 10;
         donorObj.matchScore = donor.calculateMatchScore(
           { coordinates: [parseFloat(lng), parseFloat(lat)] },
-          'normal' // Can be parameterized
+          urgency
         );
 
-        // Remove sensitive information
-        delete donorObj.email;
-        delete donorObj.address;
-
         return donorObj;
       });
 
-      // Sort by match score
-      donorsWithScore.sort((a, b) => b.matchScore - a.matchScore);
+      // Exact type matches first, then by match score
+      donorsWithScore.sort((a, b) =>
+        (b.bloodType === bloodType) - (a.bloodType === bloodType) || b.matchScore - a.matchScore
+      );
 
       res.json({
         success: true,
@@ -304,7 +635,24 @@ router.get('/nearby',
   }
 );
 
-// GET /api/donors/:id - Get donor profile
+// GET /api/donors/push/public-key - VAPID key browsers need to subscribe to Web Push
+router.get('/push/public-key', (req, res) => {
+  if (!process.env.VAPID_PUBLIC_KEY) {
+    return res.status(503).json({
+      success: false,
+      error: 'Push notifications are not configured'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      publicKey: process.env.VAPID_PUBLIC_KEY
+    }
+  });
+});
+
+// GET /api/donors/:id - Public donor profile: name, blood type and eligibility only
 router.get('/:id',
   [
     param('id')
@@ -317,7 +665,7 @@ router.get('/:id',
       const { id } = req.params;
 
       const donor = await Donor.findById(id)
-        .select('-qrSecret -responseHistory');
+        .select('-qrSecret -responseHistory -pushSubscriptions');
 
       if (!donor) {
         return res.status(404).json({
@@ -326,14 +674,9 @@ router.get('/:id',
         });
       }
 
-      const donorObj = donor.toObject();
-      donorObj.eligibleToDonate = donor.isEligibleToDonate();
-      donorObj.daysUntilNextDonation = donor.lastDonation ?
-        Math.max(0, 56 - Math.floor((new Date() - donor.lastDonation) / (1000 * 60 * 60 * 24))) : 0;
-
       res.json({
         success: true,
-        data: donorObj
+        data: formatPublicDonor(donor)
       });
 
     } catch (error) {
@@ -346,8 +689,149 @@ router.get('/:id',
   }
 );
 
+// GET /api/donors/:id/dashboard - Eligibility, history and open alerts for the donor's own dashboard
+router.get('/:id/dashboard',
+  authenticateDonor,
+  requireDonorSelf,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid donor ID')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const donor = req.donor;
+
+      await donor.populate('responseHistory.requestId', 'bloodType urgency status createdAt');
+
+      const donations = await Donation.find({ donorId: donor._id })
+        .sort({ donatedAt: -1 })
+        .limit(50)
+        .populate('hospitalId', 'name')
+        .populate('requestId', 'urgency');
+
+      // Requests this donor was matched to and has not answered yet
+      const openRequests = await BloodRequest.find({
+        matchedDonors: { $elemMatch: { donorId: donor._id, response: 'pending' } },
+        status: { $in: ['pending', 'accepted'] },
+        expiresAt: { $gt: new Date() }
+      }).sort({ createdAt: -1 }).limit(20);
+
+      // Requests the donor said yes to and has not finished with
+      const commitments = await BloodRequest.find({
+        matchedDonors: { $elemMatch: { donorId: donor._id, response: { $in: ['accepted', 'en_route', 'arrived'] } } },
+        status: { $in: ['pending', 'accepted'] },
+        expiresAt: { $gt: new Date() }
+      }).sort({ createdAt: -1 }).populate('hospitalId', 'name address phone location');
+
+      const nextEligibleDate = donor.getNextEligibleDate();
+      const daysUntilEligible = nextEligibleDate ?
+        Math.max(0, Math.ceil((nextEligibleDate - new Date()) / (1000 * 60 * 60 * 24))) : 0;
+
+      const timeline = [
+        { type: 'registered', date: donor.createdAt },
+        ...donations.map(donation => ({
+          type: 'donation',
+          date: donation.donatedAt,
+          bloodType: donation.bloodType,
+          donationType: donation.donationType,
+          hospitalName: donation.hospitalId ? donation.hospitalId.name : undefined,
+          requestId: donation.requestId ? donation.requestId._id : undefined,
+          urgency: donation.requestId ? donation.requestId.urgency : undefined
+        })),
+        ...donor.responseHistory
+          .filter(entry => entry.requestId)
+          .map(entry => ({
+            type: entry.responded ? 'response_accepted' : 'response_declined',
+            date: entry.createdAt,
+            requestId: entry.requestId._id,
+            bloodType: entry.requestId.bloodType,
+            urgency: entry.requestId.urgency,
+            requestStatus: entry.requestId.status
+          }))
+      ].sort((a, b) => new Date(b.date) - new Date(a.date));
+
+      res.json({
+        success: true,
+        data: {
+          donor: {
+            id: donor._id,
+            donorId: donor.donorId,
+            name: donor.name,
+            bloodType: donor.bloodType,
+            available: donor.available,
+            totalDonations: donor.totalDonations,
+            lastDonation: donor.lastDonation,
+            achievements: donor.achievements,
+            points: donor.points,
+            shareLocation: donor.privacySettings.shareLocation,
+            createdAt: donor.createdAt
+          },
+          eligibility: {
+            eligible: donor.isEligibleToDonate(),
+            intervalDays: donor.getDeferralDays(),
+            nextEligibleDate,
+            daysUntilEligible,
+            lastDonationType: donor.lastDonationType,
+            byType: donor.getEligibilityByType()
+          },
+          health: {
+            current: donor.healthMetrics,
+            history: donor.healthHistory
+          },
+          timeline,
+          alerts: openRequests.map(request => ({
+            requestId: request._id,
+            location: {
+              lat: request.location.coordinates[1],
+              lng: request.location.coordinates[0]
+            },
+            bloodType: request.bloodType,
+            urgency: request.urgency,
+            distance: Math.round(donor.calculateDistance(request.location) * 10) / 10,
+            expiresAt: request.expiresAt
+          })),
+          commitments: commitments.map(request => {
+            const match = request.matchedDonors.find(entry => entry.donorId.equals(donor._id));
+            // Donors head to the accepting hospital, or to the requester until one accepts
+            const destination = request.hospitalId ? request.hospitalId.location : request.location;
+            return {
+              requestId: request._id,
+              bloodType: request.bloodType,
+              urgency: request.urgency,
+              donationType: request.donationType,
+              response: match.response,
+              etaMinutes: match.etaMinutes ?? null,
+              hospital: request.hospitalId ? {
+                name: request.hospitalId.name,
+                address: request.hospitalId.address,
+                phone: request.hospitalId.phone
+              } : null,
+              destination: {
+                lat: destination.coordinates[1],
+                lng: destination.coordinates[0]
+              },
+              expiresAt: request.expiresAt
+            };
+          })
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching donor dashboard:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch donor dashboard'
+      });
+    }
+  }
+);
+
 // PUT /api/donors/:id/availability - Update donor availability
 router.put('/:id/availability',
+  authenticateDonor,
+  requireDonorSelf,
   [
     param('id')
       .isMongoId()
@@ -396,6 +880,8 @@ router.put('/:id/availability',
 
 // PUT /api/donors/:id/health - Update donor health metrics
 router.put('/:id/health',
+  authenticateDonor,
+  requireDonorSelf,
   [
     param('id')
       .isMongoId()
@@ -416,16 +902,9 @@ router.put('/:id/health',
   handleValidationErrors,
   async (req, res) => {
     try {
-      const { id } = req.params;
       const { bloodPressure, ironLevel, pulse } = req.body;
 
-      const donor = await Donor.findById(id);
-      if (!donor) {
-        return res.status(404).json({
-          success: false,
-          error: 'Donor not found'
-        });
-      }
+      const donor = req.donor;
 
       // Update health metrics
       if (bloodPressure) donor.healthMetrics.bloodPressure = bloodPressure;
@@ -433,6 +912,16 @@ router.put('/:id/health',
       if (pulse !== undefined) donor.healthMetrics.pulse = pulse;
       donor.healthMetrics.lastUpdated = new Date();
 
+      donor.healthHistory.push({
+        bloodPressure: donor.healthMetrics.bloodPressure,
+        ironLevel: donor.healthMetrics.ironLevel,
+        pulse: donor.healthMetrics.pulse
+      });
+      // Keep the history bounded; charts only show recent readings
+      if (donor.healthHistory.length > HEALTH_HISTORY_LIMIT) {
+        donor.healthHistory.splice(0, donor.healthHistory.length - HEALTH_HISTORY_LIMIT);
+      }
+
       await donor.save();
 
       res.json({
@@ -453,6 +942,166 @@ router.put('/:id/health',
   }
 );
 
+// POST /api/donors/:id/push-subscription - Register a browser for Web Push alerts
+router.post('/:id/push-subscription',
+  authenticateDonor,
+  requireDonorSelf,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid donor ID'),
+    body('endpoint')
+      .isURL({ protocols: ['https'], require_tld: false })
+      .withMessage('Invalid push endpoint'),
+    body('keys.p256dh')
+      .isString()
+      .notEmpty()
+      .withMessage('Missing p256dh key'),
+    body('keys.auth')
+      .isString()
+      .notEmpty()
+      .withMessage('Missing auth key')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { endpoint, keys } = req.body;
+
+      const donor = req.donor;
+
+      // Re-subscribing from the same browser replaces its old keys
+      donor.pushSubscriptions = donor.pushSubscriptions.filter(sub => sub.endpoint !== endpoint);
+      donor.pushSubscriptions.push({ endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } });
+      donor.notificationPreferences.push = true;
+
+      await donor.save();
+
+      res.status(201).json({
+        success: true,
+        data: {
+          subscriptions: donor.pushSubscriptions.length
+        },
+        message: 'Push notifications enabled'
+      });
+
+    } catch (error) {
+      console.error('Error saving push subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to save push subscription'
+      });
+    }
+  }
+);
+
+// DELETE /api/donors/:id/push-subscription - Unregister a browser from Web Push alerts
+router.delete('/:id/push-subscription',
+  authenticateDonor,
+  requireDonorSelf,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid donor ID'),
+    body('endpoint')
+      .isString()
+      .notEmpty()
+      .withMessage('Push endpoint is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { endpoint } = req.body;
+
+      const donor = await Donor.findByIdAndUpdate(
+        id,
+        { $pull: { pushSubscriptions: { endpoint } } },
+        { new: true }
+      );
+
+      if (!donor) {
+        return res.status(404).json({
+          success: false,
+          error: 'Donor not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          subscriptions: donor.pushSubscriptions.length
+        },
+        message: 'Push subscription removed'
+      });
+
+    } catch (error) {
+      console.error('Error removing push subscription:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove push subscription'
+      });
+    }
+  }
+);
+
+// PUT /api/donors/:id/notification-preferences - Update alert channels and quiet hours
+router.put('/:id/notification-preferences',
+  authenticateDonor,
+  requireDonorSelf,
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid donor ID'),
+    body(['sms', 'email', 'push'])
+      .optional()
+      .isBoolean()
+      .withMessage('Channel preferences must be booleans'),
+    body('quietHours.enabled')
+      .optional()
+      .isBoolean()
+      .withMessage('Quiet hours enabled must be a boolean'),
+    body(['quietHours.start', 'quietHours.end'])
+      .optional()
+      .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+      .withMessage('Quiet hours must be in HH:MM format')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { sms, email, push, quietHours } = req.body;
+
+      const donor = req.donor;
+
+      const preferences = donor.notificationPreferences;
+      if (sms !== undefined) preferences.sms = sms;
+      if (email !== undefined) preferences.email = email;
+      if (push !== undefined) preferences.push = push;
+      if (quietHours) {
+        if (quietHours.enabled !== undefined) preferences.quietHours.enabled = quietHours.enabled;
+        if (quietHours.start) preferences.quietHours.start = quietHours.start;
+        if (quietHours.end) preferences.quietHours.end = quietHours.end;
+      }
+
+      await donor.save();
+
+      res.json({
+        success: true,
+        data: {
+          notificationPreferences: donor.notificationPreferences
+        },
+        message: 'Notification preferences updated successfully'
+      });
+
+    } catch (error) {
+      console.error('Error updating notification preferences:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update notification preferences'
+      });
+    }
+  }
+);
+
 // GET /api/donors/leaderboard - Get donor leaderboard
 router.get('/leaderboard',
   [
@@ -4,8 +4,17 @@ import rateLimit from 'express-rate-limit';
 import Hospital from '../models/Hospital.js';
 import BloodRequest from '../models/BloodRequest.js';
 import Donor from '../models/Donor.js';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import HospitalStaff from '../models/HospitalStaff.js';
+import AuditLog from '../models/AuditLog.js';
+import { tokenService } from '../services/tokenService.js';
+import { qrTokenService } from '../services/qrTokenService.js';
+import { donationService } from '../services/donationService.js';
+import { inventoryService } from '../services/inventoryService.js';
+import { donorResponseService } from '../services/donorResponseService.js';
+import BloodUnit, { BLOOD_COMPONENTS, COMPONENTS_FOR_DONATION_TYPE } from '../models/BloodUnit.js';
+import { DONATION_TYPES, eligibleToDonateFilter } from '../utils/deferralRules.js';
+import { authenticateHospital, authenticateHospitalAccount, requireHospitalSelf, requirePermission } from '../middleware/auth.js';
+import { uploadVerificationDocument } from '../middleware/upload.js';
 
 const router = express.Router();
 
@@ -43,14 +52,10 @@ const handleValidationErrors = (req, res, next) => {
   next();
 };
 
-// JWT generation
-const generateToken = (hospitalId, type = 'hospital') => {
-  return jwt.sign(
-    { id: hospitalId, type },
-    process.env.JWT_SECRET || 'fallback_secret',
-    { expiresIn: '7d' }
-  );
-};
+const sessionMeta = (req) => ({
+  userAgent: req.get('User-Agent'),
+  ip: req.ip
+});
 
 // POST /api/hospitals/register - Register new hospital
 router.post('/register',
@@ -153,9 +158,6 @@ router.post('/register',
 
       await hospital.save();
 
-      // Generate JWT token
-      const token = generateToken(hospital._id);
-
       res.status(201).json({
         success: true,
         data: {
@@ -167,8 +169,7 @@ router.post('/register',
             address: hospital.address,
             verified: hospital.verified,
             createdAt: hospital.createdAt
-          },
-          token
+          }
         },
         message: 'Hospital registration successful! Your account is pending verification.'
       });
@@ -199,34 +200,58 @@ router.post('/login',
     try {
       const { email, password } = req.body;
 
-      // Find hospital by email
-      const hospital = await Hospital.findOne({ email });
-      if (!hospital) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid email or password'
-        });
+      // Staff members log in with their own account; otherwise fall back to the hospital account
+      let hospital;
+      const staff = await HospitalStaff.findOne({ email: email.toLowerCase() });
+
+      if (staff) {
+        const isPasswordValid = staff.status === 'active' && await staff.comparePassword(password);
+        if (!isPasswordValid) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid email or password'
+          });
+        }
+        hospital = await Hospital.findById(staff.hospitalId);
+      } else {
+        hospital = await Hospital.findOne({ email });
+        const isPasswordValid = hospital && await hospital.comparePassword(password);
+        if (!isPasswordValid) {
+          return res.status(401).json({
+            success: false,
+            error: 'Invalid email or password'
+          });
+        }
       }
 
-      // Check password
-      const isPasswordValid = await hospital.comparePassword(password);
-      if (!isPasswordValid) {
+      if (!hospital) {
         return res.status(401).json({
           success: false,
           error: 'Invalid email or password'
         });
       }
 
-      // Check if hospital is verified
-      if (!hospital.verified) {
+      // Unverified hospitals can only log in with the hospital account, to upload documents
+      if (!hospital.verified && staff) {
         return res.status(403).json({
           success: false,
           error: 'Hospital account is pending verification'
         });
       }
 
-      // Generate JWT token
-      const token = generateToken(hospital._id);
+      // Start a login session
+      const { accessToken, refreshToken, expiresIn } = await tokenService.issueTokens(
+        hospital._id,
+        'hospital',
+        { ...sessionMeta(req), staffId: staff ? staff._id : null }
+      );
+
+      if (staff) {
+        staff.lastLoginAt = new Date();
+        await staff.save();
+      }
+
+      const role = staff ? staff.role : 'admin';
 
       res.json({
         success: true,
@@ -238,11 +263,22 @@ router.post('/login',
             phone: hospital.phone,
             address: hospital.address,
             verified: hospital.verified,
+            verificationStatus: hospital.verified ? 'approved' : hospital.verificationStatus,
             bloodStock: hospital.bloodStock
           },
-          token
+          staff: staff ? {
+            id: staff._id,
+            name: staff.name,
+            email: staff.email,
+            role: staff.role
+          } : null,
+          role,
+          permissions: HospitalStaff.getPermissions(role),
+          token: accessToken,
+          refreshToken,
+          expiresIn
         },
-        message: 'Login successful'
+        message: hospital.verified ? 'Login successful' : 'Logged in. Your hospital is pending verification.'
       });
 
     } catch (error) {
@@ -255,36 +291,205 @@ router.post('/login',
   }
 );
 
-// GET /api/hospitals/dashboard - Get hospital dashboard data
-router.get('/dashboard',
+// POST /api/hospitals/refresh - Rotate the refresh token and issue a new access token
+router.post('/refresh',
+  [
+    body('refreshToken')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required')
+  ],
+  handleValidationErrors,
   async (req, res) => {
     try {
-      // This route should be protected by authentication middleware
-      // For now, we'll accept hospitalId in query (in production, use JWT)
-      const { hospitalId } = req.query;
-
-      if (!hospitalId) {
-        return res.status(400).json({
+      const result = await tokenService.rotateRefreshToken(req.body.refreshToken, 'hospital');
+      if (!result) {
+        return res.status(401).json({
           success: false,
-          error: 'Hospital ID is required'
+          error: 'Session expired. Please log in again.'
         });
       }
 
-      const hospital = await Hospital.findById(hospitalId);
-      if (!hospital) {
-        return res.status(404).json({
-          success: false,
-          error: 'Hospital not found'
-        });
+      const { accessToken, refreshToken, expiresIn } = result.tokens;
+
+      res.json({
+        success: true,
+        data: {
+          token: accessToken,
+          refreshToken,
+          expiresIn
+        }
+      });
+
+    } catch (error) {
+      console.error('Error refreshing hospital token:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to refresh session'
+      });
+    }
+  }
+);
+
+// POST /api/hospitals/logout - End the session behind a refresh token
+router.post('/logout',
+  [
+    body('refreshToken')
+      .isString()
+      .notEmpty()
+      .withMessage('Refresh token is required')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      await tokenService.revokeRefreshToken(req.body.refreshToken, 'hospital');
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+
+    } catch (error) {
+      console.error('Error logging out hospital:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to log out'
+      });
+    }
+  }
+);
+
+// POST /api/hospitals/logout-all - End every session of the logged-in hospital
+router.post('/logout-all',
+  authenticateHospital,
+  async (req, res) => {
+    try {
+      const revoked = await tokenService.revokeAllSessions(req.hospital._id, 'hospital');
+
+      res.json({
+        success: true,
+        data: {
+          revokedSessions: revoked
+        },
+        message: 'Logged out of all devices'
+      });
+
+    } catch (error) {
+      console.error('Error revoking hospital sessions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to log out of all devices'
+      });
+    }
+  }
+);
+
+// GET /api/hospitals/verification - Verification status and uploaded documents
+router.get('/verification',
+  authenticateHospitalAccount,
+  (req, res) => {
+    const hospital = req.hospital;
+
+    res.json({
+      success: true,
+      data: {
+        verified: hospital.verified,
+        verificationStatus: hospital.verified ? 'approved' : hospital.verificationStatus,
+        verificationReason: hospital.verificationReason,
+        verificationReviewedAt: hospital.verificationReviewedAt,
+        licenseNumber: hospital.licenseNumber,
+        documents: hospital.verificationDocuments.map(doc => ({
+          id: doc._id,
+          kind: doc.kind,
+          originalName: doc.originalName,
+          mimeType: doc.mimeType,
+          size: doc.size,
+          uploadDate: doc.uploadDate
+        }))
       }
+    });
+  }
+);
 
-      if (!hospital.verified) {
-        return res.status(403).json({
-          success: false,
-          error: 'Hospital is not verified'
+// POST /api/hospitals/verification/documents - Upload a license or registration document
+router.post('/verification/documents',
+  authenticateHospitalAccount,
+  requirePermission('settings:update'),
+  uploadVerificationDocument,
+  [
+    body('kind')
+      .optional()
+      .isIn(['license', 'registration', 'other'])
+      .withMessage('Invalid document kind')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const hospital = req.hospital;
+      const { kind = 'license' } = req.body;
+
+      hospital.verificationDocuments.push({
+        kind,
+        filename: req.file.filename,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size
+      });
+
+      // New documents after a rejection put the hospital back in the review queue
+      const resubmitted = hospital.verificationStatus === 'rejected';
+      if (resubmitted) {
+        hospital.verificationStatus = 'pending';
+      }
+
+      await hospital.save();
+
+      if (resubmitted) {
+        await AuditLog.record({
+          actorType: 'hospital',
+          actorId: hospital._id,
+          actorName: hospital.name,
+          action: 'hospital.resubmit',
+          targetType: 'Hospital',
+          targetId: hospital._id,
+          ip: req.ip
         });
       }
 
+      const document = hospital.verificationDocuments[hospital.verificationDocuments.length - 1];
+
+      res.status(201).json({
+        success: true,
+        data: {
+          document: {
+            id: document._id,
+            kind: document.kind,
+            originalName: document.originalName,
+            uploadDate: document.uploadDate
+          },
+          verificationStatus: hospital.verified ? 'approved' : hospital.verificationStatus
+        },
+        message: 'Document uploaded successfully'
+      });
+
+    } catch (error) {
+      console.error('Error uploading verification document:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to upload document'
+      });
+    }
+  }
+);
+
+// GET /api/hospitals/dashboard - Get hospital dashboard data
+router.get('/dashboard',
+  authenticateHospital,
+  requirePermission('dashboard:view'),
+  async (req, res) => {
+    try {
+      const hospital = req.hospital;
+
       // Get active requests in service area
       const activeRequests = await BloodRequest.findNearby(
         hospital.location.coordinates[1],
@@ -315,10 +520,8 @@ router.get('/dashboard',
         {
           $match: {
             available: true,
-            $or: [
-              { lastDonation: null },
-              { lastDonation: { $lte: new Date(Date.now() - 56 * 24 * 60 * 60 * 1000) } }
-            ]
+            // Same deferral rules the matcher applies, for a whole blood donation
+            ...eligibleToDonateFilter()
           }
         },
         {
@@ -330,6 +533,19 @@ router.get('/dashboard',
         }
       ]);
 
+      const expiringUnits = await BloodUnit.findExpiringSoon(hospital._id, hospital.settings.expiryAlertDays || 3)
+        .select('_id');
+
+      const acceptedHere = (req) => req.acceptedHospitals.some(id => id.equals(hospital._id));
+
+      // Whether our own stock covers the units still needed for requests we accepted, or a transfer is needed
+      const inStock = new Map(await Promise.all(activeRequests
+        .filter(req => acceptedHere(req) && req.source !== 'drive')
+        .map(async req => [
+          req._id.toString(),
+          await hospital.canFulfillRequest(req.bloodType, Math.max(1, req.unitsRemaining), req.donationType)
+        ])));
+
       // Calculate statistics
       const totalRequests = activeRequests.length;
       const criticalRequests = activeRequests.filter(r => r.urgency === 'critical').length;
@@ -341,8 +557,18 @@ router.get('/dashboard',
           hospital: {
             id: hospital._id,
             name: hospital.name,
+            location: {
+              lat: hospital.location.coordinates[1],
+              lng: hospital.location.coordinates[0]
+            },
             bloodStock: hospital.bloodStock,
             totalBloodStock: hospital.getTotalBloodStock(),
+            stockSettings: {
+              stockThresholds: hospital.settings.stockThresholds,
+              expiryAlertDays: hospital.settings.expiryAlertDays,
+              autoDonorDrive: hospital.settings.autoDonorDrive
+            },
+            expiringUnits: expiringUnits.length,
             serviceRadius: hospital.serviceRadius,
             averageResponseTime: hospital.averageResponseTime
           },
@@ -350,11 +576,34 @@ router.get('/dashboard',
             active: activeRequests.map(req => ({
               id: req._id,
               requesterName: req.requesterName,
+              requesterPhone: req.requesterPhone,
               bloodType: req.bloodType,
               urgency: req.urgency,
+              donationType: req.donationType,
+              patientCondition: req.patientCondition,
+              status: req.status,
+              source: req.source,
+              acceptedByMe: acceptedHere(req),
+              // First to accept: committed donors come here and we close the request
+              coordinating: req.hospitalId ? req.hospitalId.equals(hospital._id) : false,
+              openToHospitals: req.isOpenToHospitals(),
+              inStock: inStock.get(req._id.toString()) ?? null,
+              unitsRequired: req.unitsRequired,
+              unitsFulfilled: req.unitsFulfilled,
+              location: {
+                lat: req.location.coordinates[1],
+                lng: req.location.coordinates[0]
+              },
               createdAt: req.createdAt,
+              expiresAt: req.expiresAt,
               timeRemaining: req.timeRemaining,
-              matchedDonors: req.matchedDonors.length
+              matchedDonors: req.matchedDonors.length,
+              // Donors who said yes, and how far along they are
+              donors: req.hospitalId && req.hospitalId.equals(hospital._id)
+                ? req.matchedDonors
+                  .filter(match => match.donorId && !['pending', 'declined'].includes(match.response))
+                  .map(match => donorResponseService.formatMatch(req, match, match.donorId))
+                : []
             })),
             total: totalRequests,
             critical: criticalRequests,
@@ -391,6 +640,9 @@ router.get('/dashboard',
 
 // PUT /api/hospitals/:id/bloodstock - Update blood stock levels
 router.put('/:id/bloodstock',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('bloodstock:update'),
   [
     param('id')
       .isMongoId()
@@ -405,33 +657,30 @@ router.put('/:id/bloodstock',
   handleValidationErrors,
   async (req, res) => {
     try {
-      const { id } = req.params;
-      const { bloodType, change, operation = 'add' } = req.body;
+      const { bloodType, change } = req.body;
+      const hospital = req.hospital;
+      const previousStock = hospital.bloodStock[bloodType];
 
-      const hospital = await Hospital.findById(id);
-      if (!hospital) {
-        return res.status(404).json({
-          success: false,
-          error: 'Hospital not found'
-        });
-      }
-
-      // Update blood stock
-      const updated = hospital.updateBloodStock(bloodType, change);
-      if (!updated) {
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid blood type'
+      // Stock is kept as units: added units are unlabelled whole blood collected
+      // today, removed units are issued first-expiring-first-out
+      if (change > 0) {
+        await inventoryService.addUnits(hospital, Array.from({ length: change }, () => ({
+          component: 'whole_blood',
+          bloodType
+        })));
+      } else if (change < 0) {
+        await inventoryService.issueUnits(hospital, {
+          bloodType,
+          components: COMPONENTS_FOR_DONATION_TYPE.whole_blood,
+          units: -change
         });
       }
 
-      await hospital.save();
-
       res.json({
         success: true,
         data: {
           bloodType,
-          previousStock: hospital.bloodStock[bloodType] - change,
+          previousStock,
           currentStock: hospital.bloodStock[bloodType],
           change: change,
           totalStock: hospital.getTotalBloodStock()
@@ -440,6 +689,13 @@ router.put('/:id/bloodstock',
       });
 
     } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       console.error('Error updating blood stock:', error);
       res.status(500).json({
         success: false,
@@ -449,6 +705,466 @@ router.put('/:id/bloodstock',
   }
 );
 
+// POST /api/hospitals/:id/donations - Record a donation, from a scanned donor QR code or a donor ID
+router.post('/:id/donations',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('bloodstock:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body('token')
+      .optional()
+      .isString()
+      .isLength({ min: 10, max: 512 })
+      .withMessage('Invalid QR token'),
+    body('donorId')
+      .if(body('token').not().exists())
+      .isMongoId()
+      .withMessage('Either a QR token or a donor ID is required'),
+    body('bloodType')
+      .optional()
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    body('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
+    body('requestId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('bagId')
+      .optional({ values: 'falsy' })
+      .trim()
+      .isLength({ max: 40 })
+      .withMessage('Bag ID cannot exceed 40 characters')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { token, donorId, bloodType, donationType, requestId, bagId } = req.body;
+      let donor;
+
+      if (token) {
+        ({ donor } = await qrTokenService.verifyToken(token));
+      } else {
+        donor = await Donor.findById(donorId);
+        if (!donor) {
+          return res.status(404).json({
+            success: false,
+            error: 'Donor not found'
+          });
+        }
+      }
+
+      const { donation, hospital, unit } = await donationService.recordDonation({
+        donor,
+        hospital: req.hospital,
+        bloodType,
+        donationType,
+        requestId,
+        bagId,
+        recordedBy: req.staff ? req.staff._id : null,
+        source: token ? 'qr_scan' : 'manual'
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          donation: {
+            id: donation._id,
+            bloodType: donation.bloodType,
+            donationType: donation.donationType,
+            units: donation.units,
+            requestId: donation.requestId,
+            pointsAwarded: donation.pointsAwarded,
+            achievementsAwarded: donation.achievementsAwarded,
+            donatedAt: donation.donatedAt,
+            bagId: unit.bagId,
+            component: unit.component,
+            expiresAt: unit.expiresAt
+          },
+          donor: {
+            id: donor._id,
+            donorId: donor.donorId,
+            name: donor.name,
+            bloodType: donor.bloodType,
+            totalDonations: donor.totalDonations,
+            lastDonation: donor.lastDonation,
+            nextEligibleDate: donor.getNextEligibleDate(),
+            points: donor.points,
+            achievements: donor.achievements
+          },
+          bloodType: donation.bloodType,
+          currentStock: hospital.bloodStock[donation.bloodType],
+          totalStock: hospital.getTotalBloodStock()
+        },
+        message: 'Donation recorded successfully'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error recording donation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to record donation'
+      });
+    }
+  }
+);
+
+const formatUnit = (unit) => ({
+  id: unit._id,
+  bagId: unit.bagId,
+  component: unit.component,
+  bloodType: unit.bloodType,
+  status: unit.status,
+  collectedAt: unit.collectedAt,
+  expiresAt: unit.expiresAt,
+  requestId: unit.requestId,
+  donationId: unit.donationId,
+  discardReason: unit.discardReason
+});
+
+// GET /api/hospitals/:id/inventory - List blood units, first to expire first
+router.get('/:id/inventory',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('dashboard:view'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    query('status')
+      .optional()
+      .isIn(['available', 'reserved', 'issued', 'discarded'])
+      .withMessage('Invalid status'),
+    query('component')
+      .optional()
+      .isIn(BLOOD_COMPONENTS)
+      .withMessage('Invalid component'),
+    query('bloodType')
+      .optional()
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 200 })
+      .withMessage('Limit must be between 1 and 200')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { status = 'available', component, bloodType, limit = 100 } = req.query;
+      const filter = { hospitalId: req.hospital._id, status };
+      if (component) filter.component = component;
+      if (bloodType) filter.bloodType = bloodType;
+
+      const [units, summary] = await Promise.all([
+        BloodUnit.find(filter)
+          .sort(['available', 'reserved'].includes(status) ? { expiresAt: 1 } : { updatedAt: -1 })
+          .limit(parseInt(limit)),
+        inventoryService.getComponentSummary(req.hospital._id)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          units: units.map(formatUnit),
+          summary,
+          bloodStock: req.hospital.bloodStock
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching inventory:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch inventory'
+      });
+    }
+  }
+);
+
+// POST /api/hospitals/:id/inventory - Add a blood unit to stock
+router.post('/:id/inventory',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('bloodstock:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body('bagId')
+      .optional({ values: 'falsy' })
+      .trim()
+      .isLength({ max: 40 })
+      .withMessage('Bag ID cannot exceed 40 characters'),
+    body('component')
+      .isIn(BLOOD_COMPONENTS)
+      .withMessage('Invalid component'),
+    body('bloodType')
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    body('collectedAt')
+      .optional()
+      .isISO8601()
+      .withMessage('Invalid collection date')
+      .custom(value => new Date(value) <= new Date())
+      .withMessage('Collection date cannot be in the future'),
+    body('expiresAt')
+      .optional()
+      .isISO8601()
+      .withMessage('Invalid expiry date')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { bagId, component, bloodType, collectedAt, expiresAt } = req.body;
+
+      const [unit] = await inventoryService.addUnits(req.hospital, [{
+        bagId,
+        component,
+        bloodType,
+        collectedAt: collectedAt ? new Date(collectedAt) : undefined,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+      }]);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          unit: formatUnit(unit),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: 'Blood unit added to stock'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error adding blood unit:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to add blood unit'
+      });
+    }
+  }
+);
+
+// POST /api/hospitals/:id/inventory/issue - Issue units first-expiring-first-out
+router.post('/:id/inventory/issue',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('bloodstock:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body('bloodType')
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    body('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
+    body('units')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Units must be between 1 and 50'),
+    body('requestId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid request ID')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { bloodType, donationType = 'whole_blood', units = 1, requestId = null } = req.body;
+
+      const issued = await inventoryService.issueUnits(req.hospital, {
+        bloodType,
+        components: COMPONENTS_FOR_DONATION_TYPE[donationType],
+        units: parseInt(units),
+        requestId
+      });
+
+      res.json({
+        success: true,
+        data: {
+          units: issued.map(formatUnit),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: `${issued.length} unit(s) issued`
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error issuing blood units:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to issue blood units'
+      });
+    }
+  }
+);
+
+// PUT /api/hospitals/:id/inventory/:unitId/status - Reserve, release, issue or discard a unit
+router.put('/:id/inventory/:unitId/status',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('bloodstock:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    param('unitId')
+      .isMongoId()
+      .withMessage('Invalid unit ID'),
+    body('status')
+      .isIn(['available', 'reserved', 'issued', 'discarded'])
+      .withMessage('Invalid status'),
+    body('requestId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('discardReason')
+      .optional()
+      .isIn(['expired', 'damaged', 'failed_testing', 'other'])
+      .withMessage('Invalid discard reason')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { status, requestId, discardReason } = req.body;
+
+      const unit = await inventoryService.updateUnitStatus(req.hospital, req.params.unitId, {
+        status,
+        requestId,
+        discardReason
+      });
+
+      res.json({
+        success: true,
+        data: {
+          unit: formatUnit(unit),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: `Blood unit ${status}`
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error updating blood unit:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update blood unit'
+      });
+    }
+  }
+);
+
+// PUT /api/hospitals/:id/settings - Update hospital settings
+router.put('/:id/settings',
+  authenticateHospital,
+  requireHospitalSelf,
+  requirePermission('settings:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body(['autoAcceptCriticalRequests', 'notifyOnNewRequests', 'shareDataWithPartners', 'autoDonorDrive'])
+      .optional()
+      .isBoolean()
+      .withMessage('Settings must be booleans'),
+    body('serviceRadius')
+      .optional()
+      .isInt({ min: 5, max: 200 })
+      .withMessage('Service radius must be between 5 and 200 km'),
+    body('stockThresholds')
+      .optional()
+      .isObject()
+      .custom(value => Object.keys(value).every(bloodType => ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'].includes(bloodType)))
+      .withMessage('Stock thresholds must be keyed by blood type'),
+    body('stockThresholds.*')
+      .isInt({ min: 0, max: 1000 })
+      .withMessage('Stock thresholds must be between 0 and 1000 units'),
+    body('expiryAlertDays')
+      .optional()
+      .isInt({ min: 1, max: 14 })
+      .withMessage('Expiry alert must be between 1 and 14 days')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const {
+        autoAcceptCriticalRequests,
+        notifyOnNewRequests,
+        shareDataWithPartners,
+        serviceRadius,
+        stockThresholds,
+        expiryAlertDays,
+        autoDonorDrive
+      } = req.body;
+      const hospital = req.hospital;
+
+      if (autoAcceptCriticalRequests !== undefined) hospital.settings.autoAcceptCriticalRequests = autoAcceptCriticalRequests;
+      if (notifyOnNewRequests !== undefined) hospital.settings.notifyOnNewRequests = notifyOnNewRequests;
+      if (shareDataWithPartners !== undefined) hospital.settings.shareDataWithPartners = shareDataWithPartners;
+      if (serviceRadius !== undefined) hospital.serviceRadius = serviceRadius;
+      if (expiryAlertDays !== undefined) hospital.settings.expiryAlertDays = expiryAlertDays;
+      if (autoDonorDrive !== undefined) hospital.settings.autoDonorDrive = autoDonorDrive;
+      if (stockThresholds !== undefined) {
+        Object.entries(stockThresholds).forEach(([bloodType, threshold]) => {
+          hospital.settings.stockThresholds[bloodType] = parseInt(threshold);
+        });
+      }
+
+      await hospital.save();
+
+      res.json({
+        success: true,
+        data: {
+          settings: hospital.settings,
+          serviceRadius: hospital.serviceRadius
+        },
+        message: 'Settings updated successfully'
+      });
+
+    } catch (error) {
+      console.error('Error updating hospital settings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update settings'
+      });
+    }
+  }
+);
+
 // GET /api/hospitals/nearby - Get nearby hospitals
 router.get('/nearby',
   [
@@ -529,7 +1245,7 @@ router.get('/:id',
       const { id } = req.params;
 
       const hospital = await Hospital.findById(id)
-        .select('-password -qrSecret -verificationDocuments');
+        .select('-password -qrSecret -verificationDocuments -verificationReason -verificationReviewedBy');
 
       if (!hospital) {
         return res.status(404).json({
@@ -1,10 +1,20 @@
 import express from 'express';
 import { body, query, param, validationResult } from 'express-validator';
 import rateLimit from 'express-rate-limit';
-import BloodRequest from '../models/BloodRequest.js';
-import Hospital from '../models/Hospital.js';
+import BloodRequest, { MAX_UNITS_PER_REQUEST } from '../models/BloodRequest.js';
 import Donor from '../models/Donor.js';
-import { aiMatcher } from '../services/aiMatcher.js';
+import {
+  cancelRequest,
+  createBloodRequest,
+  editRequest,
+  extendRequest,
+  fulfilFromStock
+} from '../services/requestService.js';
+import { donorResponseService } from '../services/donorResponseService.js';
+import { trackingService } from '../services/trackingService.js';
+import { DONATION_TYPES } from '../utils/deferralRules.js';
+import { smsService } from '../services/smsService.js';
+import { authenticateHospital, authenticateRequester, requirePermission } from '../middleware/auth.js';
 
 const router = express.Router();
 
@@ -19,6 +29,18 @@ const bloodRequestLimiter = rateLimit({
   }
 });
 
+// Rate limiting for tracking PIN guesses. This only slows a single client
+// down; the PIN itself locks after a few misses from anywhere (trackingService)
+const trackingPinLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 attempts per request per client
+  keyGenerator: (req) => `${req.ip}:${req.params.id}`,
+  message: {
+    success: false,
+    error: 'Too many PIN attempts. Please wait before trying again.'
+  }
+});
+
 // Validation middleware
 const handleValidationErrors = (req, res, next) => {
   const errors = validationResult(req);
@@ -32,6 +54,30 @@ const handleValidationErrors = (req, res, next) => {
   next();
 };
 
+/**
+ * What anyone may see of a request: no requester phone, and no matched donors,
+ * whose names and live positions only the accepting hospital sees
+ */
+const formatPublicRequest = (request) => ({
+  _id: request._id,
+  requesterName: request.requesterName,
+  location: request.location,
+  bloodType: request.bloodType,
+  urgency: request.urgency,
+  donationType: request.donationType,
+  patientCondition: request.patientCondition,
+  status: request.status,
+  hospitalId: request.hospitalId,
+  unitsRequired: request.unitsRequired,
+  unitsFulfilled: request.unitsFulfilled,
+  matchedDonors: request.matchedDonors.length,
+  createdAt: request.createdAt,
+  updatedAt: request.updatedAt,
+  expiresAt: request.expiresAt,
+  timeRemaining: request.timeRemaining,
+  isExpired: request.isExpired()
+});
+
 // POST /api/requests/create - Create new blood request
 router.post('/create',
   bloodRequestLimiter,
@@ -56,84 +102,79 @@ router.post('/create',
       .optional()
       .isIn(['critical', 'urgent', 'normal'])
       .withMessage('Invalid urgency level'),
+    body('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
     body('patientCondition')
       .optional()
       .isLength({ max: 500 })
-      .withMessage('Patient condition must be less than 500 characters')
+      .withMessage('Patient condition must be less than 500 characters'),
+    body('unitsRequired')
+      .optional()
+      .isInt({ min: 1, max: MAX_UNITS_PER_REQUEST })
+      .withMessage(`Units required must be between 1 and ${MAX_UNITS_PER_REQUEST}`),
+    body('idempotencyKey')
+      .optional()
+      .isString()
+      .isLength({ min: 8, max: 64 })
+      .withMessage('Idempotency key must be between 8 and 64 characters')
   ],
   handleValidationErrors,
   async (req, res) => {
     try {
-      const { requesterPhone, requesterName, location, bloodType, urgency, patientCondition } = req.body;
-
-      // Check for existing active request from the same phone number
-      const existingRequest = await BloodRequest.findOne({
+      const {
         requesterPhone,
-        status: { $in: ['pending', 'accepted'] },
-        createdAt: { $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } // Last 24 hours
-      });
-
-      if (existingRequest) {
-        return res.status(400).json({
-          success: false,
-          error: 'You already have an active blood request. Please wait or contact the hospital.'
-        });
-      }
-
-      // Create new blood request
-      const bloodRequest = new BloodRequest({
+        requesterName,
+        location,
+        bloodType,
+        urgency,
+        donationType,
+        patientCondition,
+        unitsRequired,
+        idempotencyKey
+      } = req.body;
+
+      const { bloodRequest, matchedDonors, nearbyHospitals, estimatedResponseTime, replayed } = await createBloodRequest({
         requesterPhone,
         requesterName,
-        location: {
-          type: 'Point',
-          coordinates: [location.lng, location.lat]
-        },
+        location,
         bloodType,
-        urgency: urgency || 'normal',
-        patientCondition
+        urgency,
+        donationType,
+        patientCondition,
+        unitsRequired: unitsRequired && parseInt(unitsRequired),
+        idempotencyKey,
+        source: 'web'
       });
 
-      await bloodRequest.save();
-
-      // Find and match nearby donors using AI
-      const matchedDonors = await aiMatcher.findMatchingDonors(bloodRequest);
-
-      // Update request with matched donors
-      bloodRequest.matchedDonors = matchedDonors.map(donor => ({
-        donorId: donor._id,
-        matchScore: donor.matchScore,
-        contactedAt: new Date(),
-        response: 'pending'
-      }));
-
-      await bloodRequest.save();
-
-      // Find nearby hospitals for notification
-      const nearbyHospitals = await Hospital.findNearby(
-        location.lat,
-        location.lng,
-        50, // 50km radius
-        true // verified only
-      );
-
-      // Send real-time notifications (handled by Socket.io service)
-      // This would be handled by the client emitting the request event
-
-      res.status(201).json({
+      // A replay from the client's offline queue gets the original request back
+      res.status(replayed ? 200 : 201).json({
         success: true,
         data: {
           requestId: bloodRequest._id,
           status: bloodRequest.status,
           urgency: bloodRequest.urgency,
+          unitsRequired: bloodRequest.unitsRequired,
           expiresAt: bloodRequest.expiresAt,
           matchedDonors: matchedDonors.length,
           nearbyHospitals: nearbyHospitals.length,
-          estimatedResponseTime: '15-30 minutes'
+          estimatedResponseTime: estimatedResponseTime !== null ? `${estimatedResponseTime} minutes` : '15-30 minutes',
+          ...(replayed ? { replayed: true } : {})
         },
-        message: 'Blood request created successfully. Nearby hospitals and donors will be notified.'
+        message: replayed
+          ? 'Blood request already received.'
+          : 'Blood request created successfully. Nearby hospitals and donors will be notified.'
       });
 
     } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
       console.error('Error creating blood request:', error);
       res.status(500).json({
         success: false,
@@ -201,13 +242,12 @@ router.get('/nearby',
 
       // Calculate distance for each request
       const requestsWithDistance = requests.map(request => {
-        const requestObj = request.toObject();
+        const requestObj = formatPublicRequest(request);
         const distance = calculateDistance(
           parseFloat(lat), parseFloat(lng),
           request.location.coordinates[1], request.location.coordinates[0]
         );
         requestObj.distance = Math.round(distance * 10) / 10; // Round to 1 decimal place
-        requestObj.timeRemaining = request.timeRemaining;
         return requestObj;
       });
 
@@ -235,13 +275,12 @@ router.get('/nearby',
 
 // POST /api/requests/:id/accept - Accept a blood request (hospital only)
 router.post('/:id/accept',
+  authenticateHospital,
+  requirePermission('requests:accept'),
   [
     param('id')
       .isMongoId()
       .withMessage('Invalid request ID'),
-    body('hospitalId')
-      .isMongoId()
-      .withMessage('Invalid hospital ID'),
     body('estimatedTime')
       .optional()
       .isInt({ min: 5, max: 120 })
@@ -251,7 +290,9 @@ router.post('/:id/accept',
   async (req, res) => {
     try {
       const { id } = req.params;
-      const { hospitalId, estimatedTime } = req.body;
+      const { estimatedTime } = req.body;
+      const hospital = req.hospital;
+      const hospitalId = hospital._id;
 
       // Find the blood request
       const request = await BloodRequest.findById(id);
@@ -262,8 +303,8 @@ router.post('/:id/accept',
         });
       }
 
-      // Check if request is still active
-      if (request.status !== 'pending') {
+      // Check if request is still active; larger requests can be shared by several hospitals
+      if (!['pending', 'accepted'].includes(request.status)) {
         return res.status(400).json({
           success: false,
           error: 'Request is no longer available for acceptance'
@@ -278,26 +319,24 @@ router.post('/:id/accept',
         });
       }
 
-      // Verify hospital
-      const hospital = await Hospital.findById(hospitalId);
-      if (!hospital || !hospital.verified) {
-        return res.status(404).json({
+      // Check if hospital already accepted
+      if (request.acceptedHospitals.some(id => id.equals(hospitalId))) {
+        return res.status(400).json({
           success: false,
-          error: 'Hospital not found or not verified'
+          error: 'Hospital has already accepted this request'
         });
       }
 
-      // Check if hospital already accepted
-      if (request.acceptedHospitals.includes(hospitalId)) {
+      if (!request.isOpenToHospitals()) {
         return res.status(400).json({
           success: false,
-          error: 'Hospital has already accepted this request'
+          error: 'Request is no longer available for acceptance'
         });
       }
 
-      // Update request
+      // Update request; the first hospital to accept stays in charge of it
       request.acceptedHospitals.push(hospitalId);
-      request.hospitalId = hospitalId;
+      request.hospitalId = request.hospitalId || hospitalId;
       request.status = 'accepted';
       await request.save();
 
@@ -305,6 +344,10 @@ router.post('/:id/accept',
       hospital.updateStatistics(estimatedTime || 15, true);
       await hospital.save();
 
+      // Let SMS requesters know which hospital picked up their request
+      smsService.sendStatusUpdate(request, hospital);
+      trackingService.publish(request._id);
+
       // Get matched donors for notification
       const matchedDonors = await Donor.find({
         '_id': { $in: request.matchedDonors.map(d => d.donorId) }
@@ -315,6 +358,8 @@ router.post('/:id/accept',
         data: {
           requestId: request._id,
           status: request.status,
+          unitsRequired: request.unitsRequired,
+          unitsFulfilled: request.unitsFulfilled,
           hospital: {
             id: hospital._id,
             name: hospital.name,
@@ -337,6 +382,268 @@ router.post('/:id/accept',
   }
 );
 
+// POST /api/requests/:id/track/code - Text a one-time code to the requester's phone, if they lost the PIN
+router.post('/:id/track/code',
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID')
+  ],
+  handleValidationErrors,
+  trackingPinLimiter,
+  async (req, res) => {
+    try {
+      const { expiresAt } = await trackingService.sendCode(req.params.id);
+
+      res.json({
+        success: true,
+        data: { expiresAt },
+        message: 'A code has been sent to the phone number on the request'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error sending request access code:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send code'
+      });
+    }
+  }
+);
+
+// POST /api/requests/:id/track - Exchange the tracking PIN, or a code sent to the requester's phone, for a tracking token
+router.post('/:id/track',
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('pin')
+      .optional()
+      .matches(/^\d{6}$/)
+      .withMessage('PIN must be 6 digits'),
+    body('code')
+      .optional()
+      .matches(/^\d{6}$/)
+      .withMessage('Code must be 6 digits'),
+    body()
+      .custom(value => Boolean(value.pin || value.code))
+      .withMessage('PIN or code is required')
+  ],
+  handleValidationErrors,
+  trackingPinLimiter,
+  async (req, res) => {
+    try {
+      const { pin, code } = req.body;
+      const token = pin
+        ? await trackingService.verifyPin(req.params.id, pin)
+        : await trackingService.verifyCode(req.params.id, code);
+      const tracking = await trackingService.getTracking(req.params.id);
+
+      res.json({
+        success: true,
+        data: { token, tracking }
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error verifying tracking PIN:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify PIN'
+      });
+    }
+  }
+);
+
+// GET /api/requests/:id/track - Requester's view of a request (tracking token required)
+router.get('/:id/track',
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID')
+  ],
+  handleValidationErrors,
+  authenticateRequester,
+  async (req, res) => {
+    try {
+      res.json({
+        success: true,
+        data: await trackingService.getTracking(req.bloodRequest._id)
+      });
+
+    } catch (error) {
+      console.error('Error fetching request tracking:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch request tracking'
+      });
+    }
+  }
+);
+
+// PUT /api/requests/:id/cancel - Requester withdraws their request (tracking token required)
+router.put('/:id/cancel',
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('reason')
+      .optional()
+      .trim()
+      .isLength({ max: 200 })
+      .withMessage('Reason must be less than 200 characters')
+  ],
+  handleValidationErrors,
+  authenticateRequester,
+  async (req, res) => {
+    try {
+      await cancelRequest(req.bloodRequest, req.body.reason || undefined);
+
+      res.json({
+        success: true,
+        data: await trackingService.getTracking(req.bloodRequest._id),
+        message: 'Blood request cancelled'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error cancelling blood request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel blood request'
+      });
+    }
+  }
+);
+
+// PUT /api/requests/:id/extend - Requester keeps their request open for longer (tracking token required)
+router.put('/:id/extend',
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('hours')
+      .isInt({ min: 1, max: 24 })
+      .withMessage('Hours must be between 1 and 24')
+  ],
+  handleValidationErrors,
+  authenticateRequester,
+  async (req, res) => {
+    try {
+      await extendRequest(req.bloodRequest, parseInt(req.body.hours));
+
+      res.json({
+        success: true,
+        data: await trackingService.getTracking(req.bloodRequest._id),
+        message: 'Blood request extended'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error extending blood request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to extend blood request'
+      });
+    }
+  }
+);
+
+// PUT /api/requests/:id - Requester corrects their request (tracking token required).
+// Blood type and donation type are fixed once a hospital has accepted.
+router.put('/:id',
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('requesterName')
+      .optional()
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Name must be between 2 and 100 characters'),
+    body('bloodType')
+      .optional()
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    body('urgency')
+      .optional()
+      .isIn(['critical', 'urgent', 'normal'])
+      .withMessage('Invalid urgency level'),
+    body('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
+    body('patientCondition')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Patient condition must be less than 500 characters'),
+    body('unitsRequired')
+      .optional()
+      .isInt({ min: 1, max: MAX_UNITS_PER_REQUEST })
+      .withMessage(`Units required must be between 1 and ${MAX_UNITS_PER_REQUEST}`)
+  ],
+  handleValidationErrors,
+  authenticateRequester,
+  async (req, res) => {
+    try {
+      const { requesterName, bloodType, urgency, donationType, patientCondition, unitsRequired } = req.body;
+      await editRequest(req.bloodRequest, {
+        requesterName,
+        bloodType,
+        urgency,
+        donationType,
+        patientCondition,
+        unitsRequired: unitsRequired !== undefined ? parseInt(unitsRequired) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: await trackingService.getTracking(req.bloodRequest._id),
+        message: 'Blood request updated'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error updating blood request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update blood request'
+      });
+    }
+  }
+);
+
 // GET /api/requests/:id - Get specific blood request details
 router.get('/:id',
   [
@@ -350,8 +657,7 @@ router.get('/:id',
       const { id } = req.params;
 
       const request = await BloodRequest.findById(id)
-        .populate('hospitalId', 'name address phone location')
-        .populate('matchedDonors.donorId', 'name bloodType totalDonations');
+        .populate('hospitalId', 'name address phone location');
 
       if (!request) {
         return res.status(404).json({
@@ -360,13 +666,9 @@ router.get('/:id',
         });
       }
 
-      const requestObj = request.toObject();
-      requestObj.timeRemaining = request.timeRemaining;
-      requestObj.isExpired = request.isExpired();
-
       res.json({
         success: true,
-        data: requestObj
+        data: formatPublicRequest(request)
       });
 
     } catch (error) {
@@ -379,8 +681,10 @@ router.get('/:id',
   }
 );
 
-// PUT /api/requests/:id/status - Update request status
+// PUT /api/requests/:id/status - Update request status (accepting hospital only)
 router.put('/:id/status',
+  authenticateHospital,
+  requirePermission('requests:update'),
   [
     param('id')
       .isMongoId()
@@ -407,14 +711,36 @@ router.put('/:id/status',
         });
       }
 
+      // Only the hospital that accepted the request may move it along
+      if (!request.hospitalId || !request.hospitalId.equals(req.hospital._id)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only the hospital that accepted this request can update it'
+        });
+      }
+
+      // Requests stay open until every unit they need has been provided
+      if (status === 'completed' && request.status !== 'completed' && request.unitsRemaining > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `${request.unitsRemaining} of ${request.unitsRequired} units are still needed for this request`
+        });
+      }
+
       // Update status
       request.status = status;
       if (notes) {
         request.notes = notes;
       }
 
+      const statusChanged = request.isModified('status');
       await request.save();
 
+      if (statusChanged) {
+        smsService.sendStatusUpdate(request, req.hospital);
+        trackingService.publish(request._id);
+      }
+
       res.json({
         success: true,
         data: {
@@ -435,6 +761,114 @@ router.put('/:id/status',
   }
 );
 
+// POST /api/requests/:id/fulfil - Provide units for a request from stock (accepting hospitals only)
+router.post('/:id/fulfil',
+  authenticateHospital,
+  requirePermission('requests:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('units')
+      .isInt({ min: 1, max: MAX_UNITS_PER_REQUEST })
+      .withMessage(`Units must be between 1 and ${MAX_UNITS_PER_REQUEST}`)
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const request = await BloodRequest.findById(req.params.id);
+      if (!request) {
+        return res.status(404).json({
+          success: false,
+          error: 'Blood request not found'
+        });
+      }
+
+      const { bloodRequest, units } = await fulfilFromStock(request, req.hospital, parseInt(req.body.units));
+
+      res.json({
+        success: true,
+        data: {
+          requestId: bloodRequest._id,
+          status: bloodRequest.status,
+          unitsRequired: bloodRequest.unitsRequired,
+          unitsFulfilled: bloodRequest.unitsFulfilled,
+          unitsIssued: units.length,
+          bloodStock: req.hospital.bloodStock
+        },
+        message: `${units.length} unit(s) provided`
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error providing units for blood request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to provide units for blood request'
+      });
+    }
+  }
+);
+
+// PUT /api/requests/:id/donors/:donorId - Check in a matched donor or mark a no-show (accepting hospital only)
+router.put('/:id/donors/:donorId',
+  authenticateHospital,
+  requirePermission('requests:update'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    param('donorId')
+      .isMongoId()
+      .withMessage('Invalid donor ID'),
+    body('response')
+      .isIn(['arrived', 'no_show'])
+      .withMessage('Invalid donor response')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { match } = await donorResponseService.updateByHospital(
+        req.hospital,
+        req.params.id,
+        req.params.donorId,
+        req.body.response
+      );
+
+      res.json({
+        success: true,
+        data: {
+          requestId: req.params.id,
+          donorId: req.params.donorId,
+          response: match.response,
+          updatedAt: match.responseUpdatedAt
+        },
+        message: 'Donor response updated successfully'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error updating donor response:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update donor response'
+      });
+    }
+  }
+);
+
 // Helper function to calculate distance between two points
 function calculateDistance(lat1, lon1, lat2, lon2) {
   const R = 6371; // Earth's radius in km
@@ -0,0 +1,236 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import BloodRequest, { COMMITTED_DONOR_RESPONSES } from '../models/BloodRequest.js';
+import Hospital from '../models/Hospital.js';
+import { createBloodRequest } from '../services/requestService.js';
+import { smsService } from '../services/smsService.js';
+import { parseSmsMessage, SMS_FORMAT_HELP } from '../utils/smsParser.js';
+import { geocodePincode } from '../utils/geocoder.js';
+
+const router = express.Router();
+
+// Rate limiting for inbound SMS
+const inboundSmsLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // 10 messages per hour per phone number
+  keyGenerator: (req) => req.body.From || req.ip,
+  message: {
+    success: false,
+    error: 'Too many messages. Please wait before sending another.'
+  }
+});
+
+// Validation middleware
+const handleValidationErrors = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation Error',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+// Reject webhooks that were not signed by the SMS provider
+const verifyWebhookSignature = (req, res, next) => {
+  const url = process.env.SMS_WEBHOOK_URL || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  const signature = req.get('X-Twilio-Signature');
+
+  if (!smsService.validateWebhook(signature, url, req.body)) {
+    return res.status(403).json({
+      success: false,
+      error: 'Invalid webhook signature'
+    });
+  }
+  next();
+};
+
+// Only expose the fake gateway's outbox when it is the active gateway
+const requireFakeGateway = (req, res, next) => {
+  if (!smsService.isFake()) {
+    return res.status(404).json({
+      success: false,
+      error: 'Route not found'
+    });
+  }
+  next();
+};
+
+const STATUS_DESCRIPTIONS = {
+  pending: 'is waiting for a hospital to accept',
+  accepted: 'has been accepted',
+  completed: 'is complete',
+  cancelled: 'was closed'
+};
+
+// Build the reply for a blood request SMS
+const handleRequestCommand = async (from, parsed, messageSid) => {
+  if (parsed.error) {
+    return { reply: `OneBlood: ${parsed.error} ${SMS_FORMAT_HELP}` };
+  }
+
+  let location = parsed.location;
+  if (!location) {
+    location = await geocodePincode(parsed.pincode);
+    if (!location) {
+      return { reply: `OneBlood: PIN code ${parsed.pincode} not found. Send coordinates instead, e.g. 28.61,77.20` };
+    }
+  }
+
+  try {
+    const { bloodRequest, nearbyHospitals, replayed } = await createBloodRequest({
+      requesterPhone: from,
+      requesterName: parsed.requesterName,
+      location,
+      bloodType: parsed.bloodType,
+      urgency: parsed.urgency,
+      idempotencyKey: messageSid,
+      source: 'sms'
+    });
+
+    const hospitalCount = replayed ? null : nearbyHospitals.length;
+
+    return {
+      requestId: bloodRequest._id,
+      reply: `OneBlood: ${bloodRequest.bloodType} ${bloodRequest.urgency} request received. Ref ${bloodRequest._id}. ` +
+        `${hospitalCount !== null ? `${hospitalCount} nearby hospitals notified. ` : ''}` +
+        'We will SMS you when a hospital accepts. Reply STATUS to track.'
+    };
+  } catch (error) {
+    if (error.existingRequest) {
+      return {
+        requestId: error.existingRequest._id,
+        reply: `OneBlood: You already have an active request. Ref ${error.existingRequest._id}. Reply STATUS to track.`
+      };
+    }
+    throw error;
+  }
+};
+
+// Build the reply for a status SMS
+const handleStatusCommand = async (from, parsed) => {
+  const request = parsed.requestId
+    ? await BloodRequest.findOne({ _id: parsed.requestId, requesterPhone: from })
+    : await BloodRequest.findOne({ requesterPhone: from }).sort({ createdAt: -1 });
+
+  if (!request) {
+    return { reply: `OneBlood: No blood request found for this number. ${SMS_FORMAT_HELP}` };
+  }
+
+  let reply = `OneBlood: Your ${request.bloodType} request ${STATUS_DESCRIPTIONS[request.status]}.`;
+
+  if (request.status === 'accepted' && request.hospitalId) {
+    const hospital = await Hospital.findById(request.hospitalId).select('name phone');
+    if (hospital) {
+      reply += ` Hospital: ${hospital.name}, ${hospital.phone}.`;
+    }
+  }
+
+  if (request.status === 'pending' || request.status === 'accepted') {
+    const responded = request.matchedDonors.filter(d => COMMITTED_DONOR_RESPONSES.includes(d.response)).length;
+    reply += ` Donors responded: ${responded}. Time left: ${Math.floor(request.timeRemaining / 60)}h ${request.timeRemaining % 60}m.`;
+  }
+
+  return { requestId: request._id, reply: `${reply} Ref ${request._id}` };
+};
+
+// POST /api/sms/inbound - Inbound SMS webhook (Twilio format: From, Body, MessageSid)
+router.post('/inbound',
+  inboundSmsLimiter,
+  verifyWebhookSignature,
+  [
+    body('From')
+      .matches(/^\+?[1-9]\d{1,14}$/)
+      .withMessage('Invalid sender phone number'),
+    body('Body')
+      .isString()
+      .isLength({ max: 1600 })
+      .withMessage('Message body is required'),
+    body('MessageSid')
+      .optional()
+      .isLength({ min: 8, max: 64 })
+      .withMessage('Invalid message ID')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    const { From: from, Body: messageBody, MessageSid: messageSid } = req.body;
+
+    try {
+      const parsed = parseSmsMessage(messageBody);
+      let result;
+
+      if (parsed.command === 'request') {
+        result = await handleRequestCommand(from, parsed, messageSid);
+      } else if (parsed.command === 'status') {
+        result = await handleStatusCommand(from, parsed);
+      } else {
+        result = { reply: `OneBlood: ${parsed.error ? `${parsed.error} ` : ''}${SMS_FORMAT_HELP}` };
+      }
+
+      await smsService.send(from, result.reply);
+
+      // Twilio expects TwiML; the reply has already been sent through the API
+      if (!smsService.isFake()) {
+        return res.type('text/xml').send('<Response></Response>');
+      }
+
+      res.json({
+        success: true,
+        data: {
+          command: parsed.command,
+          requestId: result.requestId || null,
+          reply: result.reply
+        }
+      });
+
+    } catch (error) {
+      console.error('Error handling inbound SMS:', error);
+      await smsService.send(from, 'OneBlood: Sorry, we could not process your message. Please try again or call 108.');
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process inbound SMS'
+      });
+    }
+  }
+);
+
+// GET /api/sms/fake/outbox - Messages sent through the fake gateway
+router.get('/fake/outbox',
+  requireFakeGateway,
+  [
+    query('to')
+      .optional()
+      .matches(/^\+?[1-9]\d{1,14}$/)
+      .withMessage('Invalid phone number format')
+  ],
+  handleValidationErrors,
+  (req, res) => {
+    const messages = smsService.getGateway().getOutbox(req.query.to);
+
+    res.json({
+      success: true,
+      data: {
+        messages,
+        total: messages.length
+      }
+    });
+  }
+);
+
+// DELETE /api/sms/fake/outbox - Clear the fake gateway's outbox
+router.delete('/fake/outbox',
+  requireFakeGateway,
+  (req, res) => {
+    smsService.getGateway().clearOutbox();
+
+    res.json({
+      success: true,
+      message: 'Outbox cleared'
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,394 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import rateLimit from 'express-rate-limit';
+import crypto from 'crypto';
+import HospitalStaff from '../models/HospitalStaff.js';
+import { mailService } from '../services/mailService.js';
+import { tokenService } from '../services/tokenService.js';
+import { authenticateHospital, requirePermission } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const INVITE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const RESET_TTL = 60 * 60 * 1000; // 1 hour
+
+// Rate limiting for password reset emails
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3, // 3 reset emails per address per hour
+  keyGenerator: (req) => req.body.email || req.ip,
+  message: {
+    success: false,
+    error: 'Too many password reset requests. Please try again later.'
+  }
+});
+
+// Validation middleware
+const handleValidationErrors = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation Error',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+// Random one-time token for invitation and reset links; only the hash is stored
+const createLinkToken = () => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: tokenService.hashToken(token) };
+};
+
+const formatStaff = (staff) => ({
+  id: staff._id,
+  name: staff.name,
+  email: staff.email,
+  phone: staff.phone,
+  role: staff.role,
+  status: staff.status,
+  lastLoginAt: staff.lastLoginAt,
+  createdAt: staff.createdAt
+});
+
+const sendInvite = async (staff, hospital, token) => {
+  const inviteUrl = mailService.buildUrl(`/staff/accept-invite?token=${token}`);
+
+  const result = await mailService.send({
+    to: staff.email,
+    subject: `You have been invited to ${hospital.name} on OneBlood`,
+    text: `Hello ${staff.name},\n\n${hospital.name} has invited you to OneBlood as ${staff.role.replace(/_/g, ' ')}.\n\n` +
+      `Set your password here (valid for 7 days):\n${inviteUrl}\n`
+  });
+
+  return { emailed: result.success, inviteUrl };
+};
+
+const passwordRules = (field) => body(field)
+  .isLength({ min: 8, max: 128 })
+  .withMessage('Password must be at least 8 characters long');
+
+// GET /api/staff - List staff of the logged-in hospital
+router.get('/',
+  authenticateHospital,
+  requirePermission('staff:manage'),
+  async (req, res) => {
+    try {
+      const staff = await HospitalStaff.find({ hospitalId: req.hospital._id })
+        .sort({ createdAt: 1 });
+
+      res.json({
+        success: true,
+        data: {
+          staff: staff.map(formatStaff),
+          total: staff.length,
+          roles: HospitalStaff.getRoles()
+        }
+      });
+
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch staff'
+      });
+    }
+  }
+);
+
+// POST /api/staff/invite - Invite a new staff member by email
+router.post('/invite',
+  authenticateHospital,
+  requirePermission('staff:manage'),
+  [
+    body('name')
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Name must be between 2 and 100 characters'),
+    body('email')
+      .isEmail()
+      .withMessage('Invalid email format'),
+    body('phone')
+      .optional()
+      .matches(/^\+?[1-9]\d{1,14}$/)
+      .withMessage('Invalid phone number format'),
+    body('role')
+      .isIn(HospitalStaff.getRoles())
+      .withMessage('Invalid role')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { name, email, phone, role } = req.body;
+
+      const existingStaff = await HospitalStaff.findOne({ email: email.toLowerCase() });
+      if (existingStaff) {
+        return res.status(400).json({
+          success: false,
+          error: 'A staff account with this email already exists'
+        });
+      }
+
+      const { token, hash } = createLinkToken();
+
+      const staff = new HospitalStaff({
+        hospitalId: req.hospital._id,
+        name,
+        email,
+        phone,
+        role,
+        status: 'invited',
+        invitedBy: req.staff ? req.staff._id : null,
+        inviteTokenHash: hash,
+        inviteExpiresAt: new Date(Date.now() + INVITE_TTL)
+      });
+
+      await staff.save();
+
+      const { emailed, inviteUrl } = await sendInvite(staff, req.hospital, token);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          staff: formatStaff(staff),
+          emailed,
+          // Without email the admin has to pass the link on themselves
+          inviteUrl: emailed ? undefined : inviteUrl
+        },
+        message: emailed ? 'Invitation sent' : 'Staff member invited. Share the invitation link with them.'
+      });
+
+    } catch (error) {
+      console.error('Error inviting staff member:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to invite staff member'
+      });
+    }
+  }
+);
+
+// POST /api/staff/accept-invite - Set a password and activate an invited account
+router.post('/accept-invite',
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Invitation token is required'),
+    passwordRules('password')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { token, password } = req.body;
+
+      const staff = await HospitalStaff.findOne({
+        inviteTokenHash: tokenService.hashToken(token),
+        status: 'invited',
+        inviteExpiresAt: { $gt: new Date() }
+      });
+
+      if (!staff) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invitation is invalid or has expired'
+        });
+      }
+
+      staff.password = password; // Will be hashed by pre-save middleware
+      staff.status = 'active';
+      staff.inviteTokenHash = null;
+      staff.inviteExpiresAt = null;
+      await staff.save();
+
+      res.json({
+        success: true,
+        data: {
+          staff: formatStaff(staff)
+        },
+        message: 'Account activated. You can now log in.'
+      });
+
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to accept invitation'
+      });
+    }
+  }
+);
+
+// POST /api/staff/forgot-password - Email a password reset link
+router.post('/forgot-password',
+  passwordResetLimiter,
+  [
+    body('email')
+      .isEmail()
+      .withMessage('Invalid email format')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const staff = await HospitalStaff.findOne({ email: req.body.email.toLowerCase(), status: 'active' });
+
+      // Answer the same way for unknown addresses so accounts cannot be discovered
+      if (staff) {
+        const { token, hash } = createLinkToken();
+        staff.resetTokenHash = hash;
+        staff.resetExpiresAt = new Date(Date.now() + RESET_TTL);
+        await staff.save();
+
+        const resetUrl = mailService.buildUrl(`/staff/reset-password?token=${token}`);
+        const result = await mailService.send({
+          to: staff.email,
+          subject: 'Reset your OneBlood password',
+          text: `Hello ${staff.name},\n\nReset your password here (valid for 1 hour):\n${resetUrl}\n\n` +
+            'If you did not ask for this, you can ignore this email.'
+        });
+
+        if (!result.success && process.env.NODE_ENV !== 'production') {
+          console.log(`[staff] Password reset link for ${staff.email}: ${resetUrl}`);
+        }
+      }
+
+      res.json({
+        success: true,
+        message: 'If an account exists for this email, a reset link has been sent.'
+      });
+
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to request password reset'
+      });
+    }
+  }
+);
+
+// POST /api/staff/reset-password - Set a new password using a reset link
+router.post('/reset-password',
+  [
+    body('token')
+      .isString()
+      .notEmpty()
+      .withMessage('Reset token is required'),
+    passwordRules('password')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { token, password } = req.body;
+
+      const staff = await HospitalStaff.findOne({
+        resetTokenHash: tokenService.hashToken(token),
+        status: 'active',
+        resetExpiresAt: { $gt: new Date() }
+      });
+
+      if (!staff) {
+        return res.status(400).json({
+          success: false,
+          error: 'Reset link is invalid or has expired'
+        });
+      }
+
+      staff.password = password; // Will be hashed by pre-save middleware
+      staff.resetTokenHash = null;
+      staff.resetExpiresAt = null;
+      await staff.save();
+
+      // Log out every device that used the old password
+      await tokenService.revokeStaffSessions(staff._id, 'password_change');
+
+      res.json({
+        success: true,
+        message: 'Password updated. Please log in again.'
+      });
+
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset password'
+      });
+    }
+  }
+);
+
+// PUT /api/staff/:id - Change a staff member's role or disable/enable them
+router.put('/:id',
+  authenticateHospital,
+  requirePermission('staff:manage'),
+  [
+    param('id')
+      .isMongoId()
+      .withMessage('Invalid staff ID'),
+    body('role')
+      .optional()
+      .isIn(HospitalStaff.getRoles())
+      .withMessage('Invalid role'),
+    body('status')
+      .optional()
+      .isIn(['active', 'disabled'])
+      .withMessage('Status must be active or disabled')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role, status } = req.body;
+
+      const staff = await HospitalStaff.findOne({ _id: id, hospitalId: req.hospital._id });
+      if (!staff) {
+        return res.status(404).json({
+          success: false,
+          error: 'Staff member not found'
+        });
+      }
+
+      // Stop admins from locking themselves out
+      if (req.staff && req.staff._id.equals(staff._id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'You cannot change your own role or status'
+        });
+      }
+
+      if (status === 'active' && staff.status === 'invited') {
+        return res.status(400).json({
+          success: false,
+          error: 'Invited staff must accept their invitation first'
+        });
+      }
+
+      if (role) staff.role = role;
+      if (status) staff.status = status;
+      await staff.save();
+
+      if (status === 'disabled') {
+        await tokenService.revokeStaffSessions(staff._id, 'admin');
+      }
+
+      res.json({
+        success: true,
+        data: {
+          staff: formatStaff(staff)
+        },
+        message: 'Staff member updated successfully'
+      });
+
+    } catch (error) {
+      console.error('Error updating staff member:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update staff member'
+      });
+    }
+  }
+);
+
+export default router;
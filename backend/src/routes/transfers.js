@@ -0,0 +1,408 @@
+import express from 'express';
+import { body, query, param, validationResult } from 'express-validator';
+import BloodTransfer from '../models/BloodTransfer.js';
+import { transferService } from '../services/transferService.js';
+import { DONATION_TYPES } from '../utils/deferralRules.js';
+import { authenticateHospital, requirePermission } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation Error',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+const formatHospital = (hospital) => hospital && ({
+  id: hospital._id,
+  name: hospital.name,
+  phone: hospital.phone
+});
+
+const formatTransfer = (transfer, hospital) => ({
+  id: transfer._id,
+  direction: transfer.requestingHospitalId._id.equals(hospital._id) ? 'outgoing' : 'incoming',
+  requestingHospital: formatHospital(transfer.requestingHospitalId),
+  supplyingHospital: formatHospital(transfer.supplyingHospitalId),
+  bloodType: transfer.bloodType,
+  patientBloodType: transfer.patientBloodType,
+  donationType: transfer.donationType,
+  units: transfer.units,
+  unitsReserved: transfer.unitIds.length,
+  requestId: transfer.requestId,
+  status: transfer.status,
+  notes: transfer.notes,
+  rejectionReason: transfer.rejectionReason,
+  createdAt: transfer.createdAt,
+  respondedAt: transfer.respondedAt,
+  dispatchedAt: transfer.dispatchedAt,
+  receivedAt: transfer.receivedAt
+});
+
+const populateHospitals = (transfer) => transfer.populate([
+  { path: 'requestingHospitalId', select: 'name phone' },
+  { path: 'supplyingHospitalId', select: 'name phone' }
+]);
+
+const transferIdRule = param('id')
+  .isMongoId()
+  .withMessage('Invalid transfer ID');
+
+// GET /api/transfers/suppliers - Nearby hospitals with compatible stock to spare
+router.get('/suppliers',
+  authenticateHospital,
+  requirePermission('dashboard:view'),
+  [
+    query('bloodType')
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    query('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
+    query('units')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Units must be between 1 and 50')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { bloodType, donationType = 'whole_blood', units = 1 } = req.query;
+
+      const suppliers = await transferService.findSuppliers(req.hospital, {
+        bloodType,
+        donationType,
+        units: parseInt(units)
+      });
+
+      res.json({
+        success: true,
+        data: suppliers.map(({ hospital, distance, options }) => ({
+          hospital: {
+            ...formatHospital(hospital),
+            address: hospital.address,
+            isOpen: hospital.isOpen()
+          },
+          distance,
+          options
+        }))
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error searching partner hospitals:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to search partner hospitals'
+      });
+    }
+  }
+);
+
+// GET /api/transfers - Transfers the hospital has asked for or been asked for
+router.get('/',
+  authenticateHospital,
+  requirePermission('dashboard:view'),
+  [
+    query('direction')
+      .optional()
+      .isIn(['incoming', 'outgoing'])
+      .withMessage('Direction must be incoming or outgoing'),
+    query('open')
+      .optional()
+      .isBoolean()
+      .withMessage('open must be a boolean')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { direction, open } = req.query;
+      const hospitalId = req.hospital._id;
+
+      const filter = direction === 'incoming'
+        ? { supplyingHospitalId: hospitalId }
+        : direction === 'outgoing'
+          ? { requestingHospitalId: hospitalId }
+          : { $or: [{ supplyingHospitalId: hospitalId }, { requestingHospitalId: hospitalId }] };
+      if (open === 'true') {
+        filter.status = { $in: ['requested', 'accepted', 'dispatched'] };
+      }
+
+      const transfers = await BloodTransfer.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(50)
+        .populate('requestingHospitalId', 'name phone')
+        .populate('supplyingHospitalId', 'name phone');
+
+      res.json({
+        success: true,
+        data: transfers.map(transfer => formatTransfer(transfer, req.hospital))
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error fetching transfers:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch transfers'
+      });
+    }
+  }
+);
+
+// POST /api/transfers - Ask a partner hospital for units
+router.post('/',
+  authenticateHospital,
+  requirePermission('bloodstock:update'),
+  [
+    body('supplyingHospitalId')
+      .isMongoId()
+      .withMessage('Invalid hospital ID'),
+    body('bloodType')
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid blood type'),
+    body('patientBloodType')
+      .optional()
+      .isIn(['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'])
+      .withMessage('Invalid patient blood type'),
+    body('donationType')
+      .optional()
+      .isIn(DONATION_TYPES)
+      .withMessage('Invalid donation type'),
+    body('units')
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Units must be between 1 and 50'),
+    body('requestId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid request ID'),
+    body('notes')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Notes cannot exceed 500 characters')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { supplyingHospitalId, bloodType, patientBloodType, donationType, units, requestId, notes } = req.body;
+
+      const transfer = await transferService.createTransfer(req.hospital, {
+        supplyingHospitalId,
+        bloodType,
+        patientBloodType,
+        donationType,
+        units: parseInt(units),
+        requestId,
+        notes,
+        requestedBy: req.staff ? req.staff._id : null
+      });
+      await populateHospitals(transfer);
+
+      res.status(201).json({
+        success: true,
+        data: formatTransfer(transfer, req.hospital),
+        message: 'Transfer requested'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error requesting transfer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to request transfer'
+      });
+    }
+  }
+);
+
+// PUT /api/transfers/:id/respond - Supplier accepts or rejects a transfer request
+router.put('/:id/respond',
+  authenticateHospital,
+  requirePermission('bloodstock:update'),
+  [
+    transferIdRule,
+    body('accept')
+      .isBoolean()
+      .withMessage('accept must be a boolean'),
+    body('reason')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters')
+  ],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const { accept, reason } = req.body;
+
+      const transfer = await transferService.respond(req.hospital, req.params.id, {
+        accept: accept === true || accept === 'true',
+        reason
+      });
+      await populateHospitals(transfer);
+
+      res.json({
+        success: true,
+        data: {
+          transfer: formatTransfer(transfer, req.hospital),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: `Transfer ${transfer.status}`
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error responding to transfer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to respond to transfer'
+      });
+    }
+  }
+);
+
+// PUT /api/transfers/:id/dispatch - Supplier sends the reserved units
+router.put('/:id/dispatch',
+  authenticateHospital,
+  requirePermission('bloodstock:update'),
+  [transferIdRule],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const transfer = await transferService.dispatch(req.hospital, req.params.id);
+      await populateHospitals(transfer);
+
+      res.json({
+        success: true,
+        data: {
+          transfer: formatTransfer(transfer, req.hospital),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: 'Transfer dispatched'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error dispatching transfer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to dispatch transfer'
+      });
+    }
+  }
+);
+
+// PUT /api/transfers/:id/receive - Requesting hospital takes delivery of the units
+router.put('/:id/receive',
+  authenticateHospital,
+  requirePermission('bloodstock:update'),
+  [transferIdRule],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const transfer = await transferService.receive(req.hospital, req.params.id);
+      await populateHospitals(transfer);
+
+      res.json({
+        success: true,
+        data: {
+          transfer: formatTransfer(transfer, req.hospital),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: 'Transfer received'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error receiving transfer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to receive transfer'
+      });
+    }
+  }
+);
+
+// PUT /api/transfers/:id/cancel - Requesting hospital withdraws before dispatch
+router.put('/:id/cancel',
+  authenticateHospital,
+  requirePermission('bloodstock:update'),
+  [transferIdRule],
+  handleValidationErrors,
+  async (req, res) => {
+    try {
+      const transfer = await transferService.cancel(req.hospital, req.params.id);
+      await populateHospitals(transfer);
+
+      res.json({
+        success: true,
+        data: {
+          transfer: formatTransfer(transfer, req.hospital),
+          bloodStock: req.hospital.bloodStock
+        },
+        message: 'Transfer cancelled'
+      });
+
+    } catch (error) {
+      if (error.statusCode) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error cancelling transfer:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel transfer'
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,5 +1,7 @@
 import Donor from '../models/Donor.js';
 import BloodRequest from '../models/BloodRequest.js';
+import { eligibleToDonateFilter } from '../utils/deferralRules.js';
+import { donorTypesForRequest, isCompatible, preferenceRank } from '../utils/bloodCompatibility.js';
 import geolib from 'geolib';
 
 class AIMatcher {
@@ -16,29 +18,32 @@ class AIMatcher {
       urgent: 1.1,    // 10% boost for urgent requests
       normal: 1.0     // No boost for normal requests
     };
+  }
 
-    // Blood type compatibility matrix
-    this.bloodCompatibility = {
-      'O+': ['O+', 'A+', 'B+', 'AB+'],
-      'O-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
-      'A+': ['A+', 'AB+'],
-      'A-': ['A+', 'A-', 'AB+', 'AB-'],
-      'B+': ['B+', 'AB+'],
-      'B-': ['B+', 'B-', 'AB+', 'AB-'],
-      'AB+': ['AB+'],
-      'AB-': ['AB+', 'AB-']
-    };
+  /**
+   * Default search radius in km for a request's urgency
+   */
+  getSearchRadius(urgency) {
+    return urgency === 'critical' ? 50 : urgency === 'urgent' ? 40 : 30;
+  }
+
+  /**
+   * How many donors to contact at once for a request's urgency
+   */
+  getBatchSize(urgency) {
+    return urgency === 'critical' ? 10 : urgency === 'urgent' ? 8 : 6;
   }
 
   /**
-   * Find matching donors for a blood request using AI scoring
+   * Find matching donors for a blood request using AI scoring. Outreach waves
+   * pass a wider radius, other blood types and the donors already contacted.
    */
-  async findMatchingDonors(bloodRequest) {
+  async findMatchingDonors(bloodRequest, { radiusKm, bloodTypes, excludeDonorIds = [], limit } = {}) {
     try {
-      const { location, bloodType, urgency } = bloodRequest;
+      const { location, bloodType, urgency, donationType } = bloodRequest;
 
       // Search radius based on urgency
-      const searchRadius = urgency === 'critical' ? 50 : urgency === 'urgent' ? 40 : 30;
+      const searchRadius = radiusKm || this.getSearchRadius(urgency);
 
       // Find nearby eligible donors
       const nearbyDonors = await Donor.find({
@@ -51,11 +56,12 @@ class AIMatcher {
             $maxDistance: searchRadius * 1000 // Convert to meters
           }
         },
+        // Incompatible donors are never contacted; scarce ones only when critical
+        bloodType: { $in: bloodTypes || donorTypesForRequest(bloodType, urgency, donationType) },
+        _id: { $nin: excludeDonorIds },
         available: true,
-        $or: [
-          { lastDonation: null },
-          { lastDonation: { $lte: new Date(Date.now() - 56 * 24 * 60 * 60 * 1000) } }
-        ]
+        // Deferral depends on the component requested, the donor's last donation and sex
+        ...eligibleToDonateFilter(donationType)
       });
 
       // Calculate match scores for each donor
@@ -67,12 +73,13 @@ class AIMatcher {
         };
       });
 
-      // Sort by match score (highest first)
-      scoredDonors.sort((a, b) => b.matchScore - a.matchScore);
+      // Exact type matches first, then by match score (highest first)
+      scoredDonors.sort((a, b) =>
+        (b.bloodType === bloodType) - (a.bloodType === bloodType) || b.matchScore - a.matchScore
+      );
 
       // Return top donors (limit based on urgency)
-      const maxDonors = urgency === 'critical' ? 10 : urgency === 'urgent' ? 8 : 6;
-      return scoredDonors.slice(0, maxDonors);
+      return scoredDonors.slice(0, limit || this.getBatchSize(urgency));
 
     } catch (error) {
       console.error('Error finding matching donors:', error);
@@ -84,7 +91,7 @@ class AIMatcher {
    * Calculate match score between donor and blood request
    */
   calculateMatchScore(donor, bloodRequest) {
-    const { location, bloodType, urgency } = bloodRequest;
+    const { location, bloodType, urgency, donationType } = bloodRequest;
 
     let totalScore = 0;
 
@@ -97,7 +104,7 @@ class AIMatcher {
     totalScore += distanceScore * this.matchingWeights.distance;
 
     // Blood Type Compatibility Score (30% weight)
-    const compatibilityScore = this.calculateBloodTypeScore(donor.bloodType, bloodType);
+    const compatibilityScore = this.calculateBloodTypeScore(donor.bloodType, bloodType, donationType);
     totalScore += compatibilityScore * this.matchingWeights.bloodType;
 
     // Availability Score (20% weight)
@@ -131,25 +138,16 @@ class AIMatcher {
   }
 
   /**
-   * Calculate blood type compatibility score
+   * Calculate blood type compatibility score for the component requested
    */
-  calculateBloodTypeScore(donorBloodType, requestBloodType) {
-    // Exact match gets 100 points
-    if (donorBloodType === requestBloodType) return 100;
-
-    // Compatible types get scores based on rarity
-    const compatibleTypes = this.bloodCompatibility[donorBloodType] || [];
-
-    if (compatibleTypes.includes(requestBloodType)) {
-      // Universal donors get bonus points
-      if (donorBloodType === 'O-') return 95;
-      if (donorBloodType === 'O+') return 90;
-
-      // Other compatible types get good scores
-      return 85;
+  calculateBloodTypeScore(donorBloodType, requestBloodType, donationType = 'whole_blood') {
+    if (!isCompatible(donorBloodType, requestBloodType, donationType)) {
+      return 0; // Not compatible
     }
 
-    return 0; // Not compatible
+    // Exact match gets 100 points, less preferred compatible types fewer
+    const scores = [100, 95, 85, 75];
+    return scores[preferenceRank(donorBloodType, requestBloodType, donationType)];
   }
 
   /**
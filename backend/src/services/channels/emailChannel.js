@@ -0,0 +1,30 @@
+import { mailService } from '../mailService.js';
+
+/**
+ * Email alerts, sent through the shared SMTP mail service
+ */
+class EmailChannel {
+  constructor() {
+    this.name = 'email';
+    this.intrusive = false;
+  }
+
+  isConfigured() {
+    return mailService.isConfigured();
+  }
+
+  isEnabledFor(donor) {
+    return Boolean(donor.email) && donor.notificationPreferences?.email === true;
+  }
+
+  async send(donor, notification) {
+    return mailService.send({
+      to: donor.email,
+      subject: notification.title,
+      text: `${notification.body}\n\n${mailService.buildUrl(notification.url)}`
+    });
+  }
+}
+
+export const emailChannel = new EmailChannel();
+export default EmailChannel;
@@ -0,0 +1,78 @@
+import webpush from 'web-push';
+import Donor from '../../models/Donor.js';
+
+/**
+ * Web Push alerts to every browser the donor subscribed from
+ * (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT)
+ */
+class PushChannel {
+  constructor() {
+    this.name = 'push';
+    this.intrusive = true;
+    this.vapidConfigured = false;
+  }
+
+  isConfigured() {
+    if (this.vapidConfigured) return true;
+
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return false;
+
+    webpush.setVapidDetails(VAPID_SUBJECT || 'mailto:support@oneblood.in', VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+    this.vapidConfigured = true;
+    return true;
+  }
+
+  isEnabledFor(donor) {
+    return donor.notificationPreferences?.push !== false &&
+      Array.isArray(donor.pushSubscriptions) && donor.pushSubscriptions.length > 0;
+  }
+
+  async send(donor, notification) {
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.body,
+      url: notification.url,
+      tag: notification.tag,
+      urgency: notification.urgency
+    });
+
+    const results = await Promise.allSettled(donor.pushSubscriptions.map(subscription =>
+      webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: subscription.keys },
+        payload,
+        { TTL: notification.ttl, urgency: notification.urgency === 'normal' ? 'normal' : 'high' }
+      )
+    ));
+
+    // Browsers report unsubscribed endpoints with 404/410 - stop sending to them
+    const expiredEndpoints = donor.pushSubscriptions
+      .filter((subscription, index) => {
+        const result = results[index];
+        return result.status === 'rejected' && [404, 410].includes(result.reason?.statusCode);
+      })
+      .map(subscription => subscription.endpoint);
+
+    if (expiredEndpoints.length > 0) {
+      await Donor.updateOne(
+        { _id: donor._id },
+        { $pull: { pushSubscriptions: { endpoint: { $in: expiredEndpoints } } } }
+      );
+    }
+
+    if (results.some(result => result.status === 'fulfilled')) {
+      return { success: true };
+    }
+
+    const firstError = results.find(result => result.status === 'rejected')?.reason;
+    return {
+      success: false,
+      // Nothing left to retry if every subscription has expired
+      skipped: expiredEndpoints.length === donor.pushSubscriptions.length,
+      error: firstError?.body || firstError?.message || 'Push delivery failed'
+    };
+  }
+}
+
+export const pushChannel = new PushChannel();
+export default PushChannel;
@@ -0,0 +1,29 @@
+import { smsService } from '../smsService.js';
+
+/**
+ * Text message alerts through the configured SMS gateway
+ */
+class SmsChannel {
+  constructor() {
+    this.name = 'sms';
+    this.intrusive = true;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  isEnabledFor(donor) {
+    return Boolean(donor.phone) && donor.notificationPreferences?.sms !== false;
+  }
+
+  async send(donor, notification) {
+    const result = await smsService.send(donor.phone, notification.sms);
+    return result.success
+      ? { success: true, externalId: result.id }
+      : { success: false, error: result.error };
+  }
+}
+
+export const smsChannel = new SmsChannel();
+export default SmsChannel;
@@ -0,0 +1,38 @@
+/**
+ * In-app alerts for donors with the app open (joined to their donor_<id> room)
+ */
+class SocketChannel {
+  constructor() {
+    this.name = 'socket';
+    this.intrusive = false;
+    this.io = null;
+  }
+
+  setServer(io) {
+    this.io = io;
+  }
+
+  isConfigured() {
+    return Boolean(this.io);
+  }
+
+  isEnabledFor() {
+    // In-app alerts cannot be switched off; they only reach donors who are online
+    return true;
+  }
+
+  async send(donor, notification) {
+    const room = `donor_${donor._id}`;
+    const sockets = this.io.sockets.adapter.rooms.get(room);
+
+    if (!sockets || sockets.size === 0) {
+      return { success: false, skipped: true, error: 'Donor is not connected' };
+    }
+
+    this.io.to(room).emit(notification.event, notification.payload);
+    return { success: true };
+  }
+}
+
+export const socketChannel = new SocketChannel();
+export default SocketChannel;
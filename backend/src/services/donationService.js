@@ -0,0 +1,175 @@
+import mongoose from 'mongoose';
+import Donation from '../models/Donation.js';
+import BloodRequest from '../models/BloodRequest.js';
+import { COMPONENT_FROM_DONATION_TYPE } from '../models/BloodUnit.js';
+import { inventoryService } from './inventoryService.js';
+import { donorResponseService } from './donorResponseService.js';
+import { announceFulfilment, recordFulfilment } from './requestService.js';
+import { isCompatible } from '../utils/bloodCompatibility.js';
+
+// Negative types are rare enough in India that every donation counts
+const RARE_BLOOD_TYPES = ['A-', 'B-', 'O-', 'AB-'];
+
+// Achievements that depend on how many times the donor has given
+const DONATION_MILESTONES = [
+  { achievement: 'first_donation', donations: 1 },
+  { achievement: 'life_saver', donations: 5 },
+  { achievement: 'dedicated_donor', donations: 10 }
+];
+
+const donationError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+class DonationService {
+  constructor() {
+    this.pointsPerDonation = 50;
+    this.criticalRequestBonus = 50;
+    this.achievementBonus = 25;
+  }
+
+  /**
+   * Achievements the donor has just earned with a donation of bloodType
+   * (totalDonations must already include it)
+   */
+  evaluateAchievements(donor, { bloodType, request }) {
+    const earned = DONATION_MILESTONES
+      .filter(milestone => donor.totalDonations >= milestone.donations)
+      .map(milestone => milestone.achievement);
+
+    if (request && request.urgency === 'critical') {
+      earned.push('emergency_hero');
+    }
+
+    if (RARE_BLOOD_TYPES.includes(bloodType)) {
+      earned.push('rare_blood');
+    }
+
+    return earned.filter(achievement => !donor.achievements.includes(achievement));
+  }
+
+  /**
+   * Only requests this hospital is handling, and that are still open, can be credited
+   */
+  async findLinkedRequest(requestId, hospital) {
+    if (!requestId) return null;
+
+    const request = await BloodRequest.findById(requestId);
+    if (!request) {
+      throw donationError('Blood request not found', 404);
+    }
+
+    const handledHere = (request.hospitalId && request.hospitalId.equals(hospital._id)) ||
+      request.acceptedHospitals.some(id => id.equals(hospital._id));
+    if (!handledHere) {
+      throw donationError('This blood request was not accepted by your hospital', 403);
+    }
+
+    if (!['pending', 'accepted'].includes(request.status)) {
+      throw donationError(`Blood request is already ${request.status}`, 409);
+    }
+
+    return request;
+  }
+
+  /**
+   * Record a donation and apply its effects in one transaction: the donor's
+   * eligibility, totals, points and achievements, and a new unit in the hospital's
+   * inventory (under bagId when the bag is already labelled). A donation linked to a
+   * request counts as one of the units it needs. The donation type defaults to what the linked request needs, else whole blood.
+   * Throws an error with a statusCode when the donation is rejected.
+   */
+  async recordDonation({ donor, hospital, bloodType, donationType, requestId, bagId, recordedBy = null, source = 'manual' }) {
+    const request = await this.findLinkedRequest(requestId, hospital);
+    const type = donationType || (request ? request.donationType : null) || 'whole_blood';
+
+    if (!donor.isEligibleToDonate(type)) {
+      throw donationError('Donor is not eligible to donate yet', 409);
+    }
+
+    // Donors registered without a known type get it from the hospital's test
+    const donatedType = donor.bloodType === 'unknown' ? bloodType : donor.bloodType;
+    if (!donatedType) {
+      throw donationError('Blood type is required for donors whose type is unknown');
+    }
+
+    if (request && !isCompatible(donatedType, request.bloodType, request.donationType)) {
+      throw donationError(`${donatedType} blood cannot be given to a ${request.bloodType} patient for this request`);
+    }
+
+    let donation;
+    let unit;
+    let match = null;
+    let fulfilledRequest = null;
+    // Mongoose rolls the documents back if the transaction is retried or aborted
+    await mongoose.connection.transaction(async (session) => {
+      donor.bloodType = donatedType;
+      donor.lastDonation = new Date();
+      donor.lastDonationType = type;
+      donor.totalDonations += 1;
+
+      const achievementsAwarded = this.evaluateAchievements(donor, { bloodType: donatedType, request });
+      const pointsAwarded = this.pointsPerDonation +
+        (request && request.urgency === 'critical' ? this.criticalRequestBonus : 0) +
+        achievementsAwarded.length * this.achievementBonus;
+
+      donor.achievements.push(...achievementsAwarded);
+      donor.points += pointsAwarded;
+
+      donation = new Donation({
+        donorId: donor._id,
+        hospitalId: hospital._id,
+        requestId: request ? request._id : null,
+        bloodType: donatedType,
+        donationType: type,
+        source,
+        recordedBy,
+        pointsAwarded,
+        achievementsAwarded,
+        donatedAt: donor.lastDonation
+      });
+
+      await donation.save({ session });
+      await donor.save({ session });
+
+      // A donation for a patient goes straight to them, so it never joins the
+      // available stock that fulfilFromStock and transfers draw on. A donor
+      // drive is the hospital restocking, so its units go on the shelf.
+      const forPatient = request && request.source !== 'drive';
+      [unit] = await inventoryService.addUnits(hospital, [{
+        bagId,
+        component: COMPONENT_FROM_DONATION_TYPE[type],
+        bloodType: donatedType,
+        collectedAt: donation.donatedAt,
+        donationId: donation._id,
+        ...(forPatient ? { requestId: request._id, status: 'issued', issuedAt: donation.donatedAt } : {})
+      }], { session });
+
+      if (request) {
+        match = await donorResponseService.markDonated(request, donor._id, { session });
+        fulfilledRequest = await recordFulfilment(request, {
+          hospitalId: hospital._id,
+          donorId: donor._id,
+          source: 'donation'
+        }, { session });
+      }
+    });
+
+    if (match) {
+      donorResponseService.emitUpdate(request, match, donor);
+    }
+
+    if (fulfilledRequest) {
+      announceFulfilment(fulfilledRequest, { hospitalId: hospital._id, source: 'donation', units: 1 }).catch(error => {
+        console.error('Error announcing donation for request:', error);
+      });
+    }
+
+    return { donation, donor, hospital, request: fulfilledRequest || request, unit };
+  }
+}
+
+export const donationService = new DonationService();
+export default DonationService;
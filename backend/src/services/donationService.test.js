@@ -0,0 +1,97 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import BloodRequest from '../models/BloodRequest.js';
+import Donation from '../models/Donation.js';
+import Donor from '../models/Donor.js';
+import Hospital from '../models/Hospital.js';
+import { inventoryService } from './inventoryService.js';
+import { donationService } from './donationService.js';
+
+const hospital = new Hospital({ name: 'City Hospital' });
+const session = {};
+
+const makeDonor = () => {
+  const donor = new Donor({ name: 'Asha', phone: '+919876543210', bloodType: 'O+', totalDonations: 0 });
+  jest.spyOn(donor, 'save').mockResolvedValue(donor);
+  return donor;
+};
+
+const makeRequest = (overrides = {}) => new BloodRequest({
+  requesterName: 'Ramesh Kumar',
+  requesterPhone: '+919876543210',
+  bloodType: 'O+',
+  urgency: 'urgent',
+  status: 'accepted',
+  unitsRequired: 4,
+  unitsFulfilled: 0,
+  acceptedHospitals: [hospital._id],
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides
+});
+
+// The request as recordFulfilment's conditional update leaves it
+const withUnit = (request) => {
+  const updated = makeRequest({ ...request.toObject(), unitsFulfilled: request.unitsFulfilled + 1 });
+  jest.spyOn(updated, 'save').mockResolvedValue(updated);
+  return updated;
+};
+
+const record = (request) => {
+  jest.spyOn(donationService, 'findLinkedRequest').mockResolvedValue(request);
+  jest.spyOn(request, 'save').mockResolvedValue(request);
+  jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(withUnit(request));
+
+  return donationService.recordDonation({ donor: makeDonor(), hospital, requestId: request._id });
+};
+
+beforeEach(() => {
+  jest.spyOn(mongoose.connection, 'transaction').mockImplementation(callback => callback(session));
+  jest.spyOn(Donation.prototype, 'save').mockImplementation(function() { return Promise.resolve(this); });
+  jest.spyOn(inventoryService, 'addUnits').mockImplementation(async (_hospital, units) => units);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('recordDonation', () => {
+  test('issues a donation for a patient straight to their request', async () => {
+    const request = makeRequest();
+
+    const { unit } = await record(request);
+
+    expect(unit).toMatchObject({ requestId: request._id, status: 'issued' });
+    expect(inventoryService.addUnits).toHaveBeenCalledWith(hospital, [expect.anything()], { session });
+  });
+
+  test('puts a donor drive donation on the shelf and still counts it toward the drive', async () => {
+    const drive = makeRequest({ source: 'drive', requesterName: 'City Hospital donor drive' });
+
+    const { unit, request } = await record(drive);
+
+    expect(unit.status).toBeUndefined();
+    expect(unit.requestId).toBeUndefined();
+    expect(BloodRequest.findOneAndUpdate.mock.calls[0][1]).toMatchObject({
+      $inc: { unitsFulfilled: 1 },
+      $push: { fulfilments: expect.objectContaining({ source: 'donation', hospitalId: hospital._id }) }
+    });
+    expect(request.unitsFulfilled).toBe(1);
+  });
+
+  test('adds donations without a request to the available stock', async () => {
+    jest.spyOn(donationService, 'findLinkedRequest').mockResolvedValue(null);
+
+    const { unit } = await donationService.recordDonation({ donor: makeDonor(), hospital });
+
+    expect(unit.status).toBeUndefined();
+    expect(unit.requestId).toBeUndefined();
+  });
+
+  test('refuses blood the patient cannot receive', async () => {
+    jest.spyOn(donationService, 'findLinkedRequest').mockResolvedValue(makeRequest({ bloodType: 'O-' }));
+
+    await expect(donationService.recordDonation({ donor: makeDonor(), hospital, requestId: new mongoose.Types.ObjectId() }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    expect(inventoryService.addUnits).not.toHaveBeenCalled();
+  });
+});
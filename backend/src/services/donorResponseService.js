@@ -0,0 +1,225 @@
+import BloodRequest from '../models/BloodRequest.js';
+import Hospital from '../models/Hospital.js';
+import { aiMatcher } from './aiMatcher.js';
+import { smsService } from './smsService.js';
+import { trackingService } from './trackingService.js';
+import { isCompatible } from '../utils/bloodCompatibility.js';
+import { estimateTravelMinutes } from '../utils/travelTime.js';
+
+const responseError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Steps a donor can take themselves, from each response
+const DONOR_TRANSITIONS = {
+  pending: ['accepted', 'declined'],
+  accepted: ['en_route', 'declined'],
+  en_route: ['arrived', 'declined']
+};
+
+// Steps the accepting hospital records when the donor turns up, or does not.
+// 'donated' is only set by recording the donation, which also adds the unit
+const HOSPITAL_TRANSITIONS = {
+  accepted: ['arrived', 'no_show'],
+  en_route: ['arrived', 'no_show'],
+  arrived: ['no_show']
+};
+
+class DonorResponseService {
+  constructor() {
+    this.io = null;
+  }
+
+  setSocketServer(io) {
+    this.io = io;
+  }
+
+  async findOpenRequest(requestId) {
+    const request = await BloodRequest.findById(requestId);
+    if (!request) {
+      throw responseError('Request not found', 404);
+    }
+
+    if (!['pending', 'accepted'].includes(request.status) || request.isExpired()) {
+      throw responseError('This request is no longer open', 409);
+    }
+
+    return request;
+  }
+
+  applyTransition(match, response, transitions) {
+    if (!(transitions[match.response] || []).includes(response)) {
+      throw responseError(`Cannot change a response from ${match.response} to ${response}`, 409);
+    }
+
+    match.response = response;
+    match.responseUpdatedAt = new Date();
+
+    // Location is only kept while the donor is on the way
+    if (response !== 'en_route') {
+      match.currentLocation = undefined;
+      match.etaMinutes = undefined;
+    }
+  }
+
+  /**
+   * Where a donor should go: the accepting hospital, else the requester
+   */
+  async getDestination(request) {
+    if (request.hospitalId) {
+      const hospital = await Hospital.findById(request.hospitalId).select('location');
+      if (hospital) return hospital.location.coordinates;
+    }
+    return request.location.coordinates;
+  }
+
+  async estimateArrival(request, location) {
+    const destination = await this.getDestination(request);
+    const distance = aiMatcher.calculateDistance([location.lng, location.lat], destination) / 1000;
+    return estimateTravelMinutes(distance);
+  }
+
+  /**
+   * A donor answers an alert or reports progress. Donors who were not matched
+   * may still volunteer if their blood suits the patient.
+   */
+  async respond(donor, requestId, response) {
+    const request = await this.findOpenRequest(requestId);
+
+    let match = request.matchedDonors.find(entry => entry.donorId.equals(donor._id));
+    if (!match) {
+      if (!isCompatible(donor.bloodType, request.bloodType, request.donationType)) {
+        throw responseError('Your blood type is not compatible with this request');
+      }
+      request.matchedDonors.push({ donorId: donor._id, matchScore: 0, response: 'pending' });
+      match = request.matchedDonors[request.matchedDonors.length - 1];
+    }
+
+    const firstAnswer = match.response === 'pending';
+    this.applyTransition(match, response, DONOR_TRANSITIONS);
+
+    if (response === 'en_route' && donor.privacySettings.shareLocation) {
+      const [lng, lat] = donor.location.coordinates;
+      match.currentLocation = { lat, lng, updatedAt: new Date() };
+      match.etaMinutes = await this.estimateArrival(request, { lat, lng });
+    }
+
+    if (firstAnswer) {
+      match.respondedAt = match.responseUpdatedAt;
+      const askedAt = match.contactedAt || request.createdAt;
+      donor.responseHistory.push({
+        requestId: request._id,
+        responded: response === 'accepted',
+        responseTime: Math.max(1, Math.round((match.respondedAt - askedAt) / 60000))
+      });
+      await donor.save();
+    }
+
+    await request.save();
+
+    this.emitUpdate(request, match, donor);
+    smsService.sendDonorUpdate(request, match);
+    return { request, match };
+  }
+
+  /**
+   * The accepting hospital checks a donor in, records the donation or marks
+   * them as a no-show
+   */
+  async updateByHospital(hospital, requestId, donorId, response) {
+    const request = await BloodRequest.findById(requestId).populate('matchedDonors.donorId', 'name bloodType');
+    if (!request) {
+      throw responseError('Request not found', 404);
+    }
+
+    if (!request.hospitalId || !request.hospitalId.equals(hospital._id)) {
+      throw responseError('Only the hospital that accepted this request can update its donors', 403);
+    }
+
+    const match = request.matchedDonors.find(entry => entry.donorId && entry.donorId._id.equals(donorId));
+    if (!match) {
+      throw responseError('Donor is not matched to this request', 404);
+    }
+
+    this.applyTransition(match, response, HOSPITAL_TRANSITIONS);
+    await request.save();
+
+    this.emitUpdate(request, match, match.donorId);
+    if (this.io) {
+      this.io.to(`donor_${match.donorId._id}`).emit('response_recorded', { requestId: request._id, response });
+    }
+    smsService.sendDonorUpdate(request, match);
+    return { request, match };
+  }
+
+  /**
+   * Record a donation made against a request, if the donor was matched to it.
+   * Returns the updated match, or null.
+   */
+  async markDonated(request, donorId, { session } = {}) {
+    const match = request.matchedDonors.find(entry => entry.donorId.equals(donorId));
+    if (!match || ['donated', 'declined'].includes(match.response)) return null;
+
+    match.response = 'donated';
+    match.responseUpdatedAt = new Date();
+    match.currentLocation = undefined;
+    match.etaMinutes = undefined;
+    await request.save({ session });
+    return match;
+  }
+
+  /**
+   * Live position from a donor on the way to one or more requests. Nothing is
+   * stored or shared unless the donor allows location sharing.
+   */
+  async updateLocation(donor, location) {
+    if (!donor.privacySettings.shareLocation) return [];
+
+    const requests = await BloodRequest.find({
+      status: { $in: ['pending', 'accepted'] },
+      expiresAt: { $gt: new Date() },
+      matchedDonors: { $elemMatch: { donorId: donor._id, response: 'en_route' } }
+    });
+
+    for (const request of requests) {
+      const match = request.matchedDonors.find(entry => entry.donorId.equals(donor._id));
+      match.currentLocation = { lat: location.lat, lng: location.lng, updatedAt: new Date() };
+      match.etaMinutes = await this.estimateArrival(request, location);
+      await request.save();
+
+      this.emitUpdate(request, match, donor, 'donor_eta_updated');
+    }
+
+    return requests;
+  }
+
+  formatMatch(request, match, donor) {
+    return {
+      requestId: request._id,
+      donorId: donor._id,
+      donorName: donor.name,
+      bloodType: donor.bloodType,
+      response: match.response,
+      etaMinutes: match.etaMinutes ?? null,
+      location: match.currentLocation && match.currentLocation.lat !== undefined
+        ? { lat: match.currentLocation.lat, lng: match.currentLocation.lng }
+        : null,
+      updatedAt: match.responseUpdatedAt
+    };
+  }
+
+  /**
+   * Tell the accepting hospital and the requester how a donor is getting on
+   */
+  emitUpdate(request, match, donor, event = 'donor_responded') {
+    trackingService.publish(request._id);
+
+    if (!this.io || !request.hospitalId) return;
+    this.io.to(`hospital_${request.hospitalId}`).emit(event, this.formatMatch(request, match, donor));
+  }
+}
+
+export const donorResponseService = new DonorResponseService();
+export default DonorResponseService;
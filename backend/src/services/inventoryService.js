@@ -0,0 +1,210 @@
+import BloodUnit, { BLOOD_COMPONENTS, COMPONENTS_FOR_DONATION_TYPE } from '../models/BloodUnit.js';
+import Hospital from '../models/Hospital.js';
+
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'];
+
+const inventoryError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Status changes staff may make by hand; issued and discarded units are final
+const ALLOWED_TRANSITIONS = {
+  available: ['reserved', 'issued', 'discarded'],
+  reserved: ['available', 'issued', 'discarded']
+};
+
+class InventoryService {
+  /**
+   * Recompute the hospital's bloodStock summary from its usable units. bloodStock
+   * counts red-cell units (whole blood and packed red cells), which is what a
+   * whole-blood request draws on. Saves the hospital.
+   */
+  async refreshStockSummary(hospital, { session } = {}) {
+    const counts = await BloodUnit.aggregate([
+      {
+        $match: {
+          hospitalId: hospital._id,
+          status: 'available',
+          component: { $in: COMPONENTS_FOR_DONATION_TYPE.whole_blood },
+          expiresAt: { $gt: new Date() }
+        }
+      },
+      { $group: { _id: '$bloodType', count: { $sum: 1 } } }
+    ]).session(session || null);
+
+    for (const bloodType of BLOOD_TYPES) {
+      hospital.bloodStock[bloodType] = counts.find(entry => entry._id === bloodType)?.count || 0;
+    }
+
+    await hospital.save({ session });
+    return hospital.bloodStock;
+  }
+
+  /**
+   * Usable units per component and blood type, for the inventory screen
+   */
+  async getComponentSummary(hospitalId) {
+    const counts = await BloodUnit.aggregate([
+      { $match: { hospitalId, status: 'available', expiresAt: { $gt: new Date() } } },
+      {
+        $group: {
+          _id: { component: '$component', bloodType: '$bloodType' },
+          count: { $sum: 1 },
+          nextExpiry: { $min: '$expiresAt' }
+        }
+      }
+    ]);
+
+    return Object.fromEntries(BLOOD_COMPONENTS.map(component => [
+      component,
+      Object.fromEntries(BLOOD_TYPES.map(bloodType => {
+        const entry = counts.find(item => item._id.component === component && item._id.bloodType === bloodType);
+        return [bloodType, { count: entry ? entry.count : 0, nextExpiry: entry ? entry.nextExpiry : null }];
+      }))
+    ]));
+  }
+
+  /**
+   * Add units to stock. Pass a session to take part in a caller's transaction.
+   */
+  async addUnits(hospital, units, { session } = {}) {
+    let created;
+    try {
+      created = await BloodUnit.create(units.map(unit => ({
+        ...unit,
+        bagId: unit.bagId || BloodUnit.generateBagId(),
+        hospitalId: hospital._id
+      })), { session, ordered: true });
+    } catch (error) {
+      if (error.code === 11000) {
+        throw inventoryError('A unit with this bag ID is already in stock', 409);
+      }
+      throw error;
+    }
+
+    await this.refreshStockSummary(hospital, { session });
+    return created;
+  }
+
+  /**
+   * Take units out of stock first-expiring-first-out. `status` is 'issued' for units
+   * handed over, or 'reserved' to hold them for a request or transfer. bloodType
+   * may be a list of types, e.g. every type compatible with a patient.
+   */
+  async issueUnits(hospital, { bloodType, components, units = 1, requestId = null, transferId = null, status = 'issued' }) {
+    const candidates = await BloodUnit.findAvailable(hospital._id, bloodType, components).limit(units * 2 + 5);
+
+    const taken = [];
+    for (const candidate of candidates) {
+      if (taken.length === units) break;
+
+      // Another issue may have taken the unit since we read it
+      const unit = await BloodUnit.findOneAndUpdate(
+        { _id: candidate._id, status: 'available' },
+        {
+          $set: {
+            status,
+            requestId,
+            transferId,
+            [status === 'reserved' ? 'reservedAt' : 'issuedAt']: new Date(),
+            updatedAt: new Date()
+          }
+        },
+        { new: true }
+      );
+      if (unit) taken.push(unit);
+    }
+
+    if (taken.length < units) {
+      // Put back what we took so a partial issue does not leak stock
+      await BloodUnit.updateMany(
+        { _id: { $in: taken.map(unit => unit._id) } },
+        {
+          $set: { status: 'available', requestId: null, transferId: null, updatedAt: new Date() },
+          $unset: { reservedAt: 1, issuedAt: 1 }
+        }
+      );
+      throw inventoryError(`Only ${taken.length} of ${units} ${[].concat(bloodType).join('/')} units are available`, 409);
+    }
+
+    await this.refreshStockSummary(hospital);
+    return taken;
+  }
+
+  /**
+   * Move one unit to a new status by hand (reserve, release, issue or discard)
+   */
+  async updateUnitStatus(hospital, unitId, { status, requestId, discardReason }) {
+    const unit = await BloodUnit.findOne({ _id: unitId, hospitalId: hospital._id });
+    if (!unit) {
+      throw inventoryError('Blood unit not found', 404);
+    }
+
+    if (!(ALLOWED_TRANSITIONS[unit.status] || []).includes(status)) {
+      throw inventoryError(`Cannot change a ${unit.status} unit to ${status}`, 409);
+    }
+
+    // Transfer units move with the transfer workflow
+    if (unit.transferId && unit.status === 'reserved') {
+      throw inventoryError('Blood unit is reserved for a transfer to another hospital', 409);
+    }
+
+    if (status !== 'discarded' && unit.isExpired()) {
+      throw inventoryError('Blood unit has expired and can only be discarded', 409);
+    }
+
+    unit.status = status;
+    if (status === 'available') {
+      unit.requestId = null;
+      unit.reservedAt = undefined;
+    } else if (status === 'reserved') {
+      unit.requestId = requestId || null;
+      unit.reservedAt = new Date();
+    } else if (status === 'issued') {
+      unit.requestId = requestId || unit.requestId;
+      unit.issuedAt = new Date();
+    } else {
+      unit.discardReason = discardReason || 'other';
+      unit.discardedAt = new Date();
+    }
+
+    await unit.save();
+    await this.refreshStockSummary(hospital);
+    return unit;
+  }
+
+  /**
+   * Discard every unit past its expiry date. Returns the hospitals whose stock
+   * changed so they can be told.
+   */
+  async discardExpiredUnits() {
+    const now = new Date();
+    const expired = await BloodUnit.find({
+      status: { $in: ['available', 'reserved'] },
+      expiresAt: { $lte: now }
+    }).select('hospitalId');
+
+    if (expired.length === 0) {
+      return [];
+    }
+
+    await BloodUnit.updateMany(
+      { _id: { $in: expired.map(unit => unit._id) } },
+      { $set: { status: 'discarded', discardReason: 'expired', discardedAt: now, updatedAt: now } }
+    );
+
+    const hospitalIds = [...new Set(expired.map(unit => unit.hospitalId.toString()))];
+    const hospitals = await Hospital.find({ _id: { $in: hospitalIds } });
+    for (const hospital of hospitals) {
+      await this.refreshStockSummary(hospital);
+    }
+
+    console.log(`Discarded ${expired.length} expired blood units`);
+    return hospitals;
+  }
+}
+
+export const inventoryService = new InventoryService();
+export default InventoryService;
@@ -0,0 +1,62 @@
+import nodemailer from 'nodemailer';
+
+/**
+ * Sends email over SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ */
+class MailService {
+  constructor() {
+    this.transporter = null;
+  }
+
+  isConfigured() {
+    return Boolean(process.env.SMTP_HOST && process.env.SMTP_USER);
+  }
+
+  getTransporter() {
+    if (!this.transporter) {
+      const port = parseInt(process.env.SMTP_PORT || '587');
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS
+        }
+      });
+    }
+
+    return this.transporter;
+  }
+
+  // Absolute link into the frontend app
+  buildUrl(path) {
+    return `${process.env.FRONTEND_URL || 'http://localhost:5173'}${path}`;
+  }
+
+  /**
+   * Send an email, never throwing - returns { success, skipped?, externalId?, error? }
+   */
+  async send({ to, subject, text }) {
+    if (!this.isConfigured()) {
+      return { success: false, skipped: true, error: 'Email is not configured' };
+    }
+
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: process.env.SMTP_FROM || `OneBlood <${process.env.SMTP_USER}>`,
+        to,
+        subject,
+        text
+      });
+
+      return { success: true, externalId: info.messageId };
+    } catch (error) {
+      console.error(`Error sending email to ${to}:`, error.message);
+      return { success: false, error: error.message };
+    }
+  }
+}
+
+export const mailService = new MailService();
+export default MailService;
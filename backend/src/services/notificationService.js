@@ -0,0 +1,246 @@
+import BloodRequest from '../models/BloodRequest.js';
+import { aiMatcher } from './aiMatcher.js';
+import { socketChannel } from './channels/socketChannel.js';
+import { pushChannel } from './channels/pushChannel.js';
+import { smsChannel } from './channels/smsChannel.js';
+import { emailChannel } from './channels/emailChannel.js';
+
+class NotificationDispatcher {
+  constructor() {
+    this.channels = new Map();
+
+    this.maxAttempts = 3;
+    this.retryDelays = [30 * 1000, 2 * 60 * 1000]; // 30 seconds, then 2 minutes
+
+    this.urgencyLabels = {
+      critical: 'CRITICAL',
+      urgent: 'Urgent',
+      normal: 'Blood request'
+    };
+
+    [socketChannel, pushChannel, smsChannel, emailChannel].forEach(channel => {
+      this.registerChannel(channel);
+    });
+  }
+
+  /**
+   * Add or replace a channel adapter. Adapters implement:
+   * name, intrusive, isConfigured(), isEnabledFor(donor), send(donor, notification)
+   */
+  registerChannel(channel) {
+    this.channels.set(channel.name, channel);
+  }
+
+  setSocketServer(io) {
+    socketChannel.setServer(io);
+  }
+
+  /**
+   * Check whether the current time falls in the donor's quiet hours
+   */
+  isInQuietHours(donor, now = new Date()) {
+    const quietHours = donor.notificationPreferences?.quietHours;
+    if (!quietHours || !quietHours.enabled) return false;
+
+    const { start = '22:00', end = '07:00' } = quietHours;
+    const currentTime = new Intl.DateTimeFormat('en-GB', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      timeZone: process.env.NOTIFICATION_TIMEZONE || 'Asia/Kolkata'
+    }).format(now);
+
+    // Quiet hours usually span midnight (22:00 - 07:00)
+    return start <= end
+      ? currentTime >= start && currentTime < end
+      : currentTime >= start || currentTime < end;
+  }
+
+  /**
+   * Build the "blood needed" alert for one donor
+   */
+  buildBloodNeededNotification(bloodRequest, donor) {
+    const [lng, lat] = bloodRequest.location.coordinates;
+    const requestId = bloodRequest._id.toString();
+
+    const distanceKm = donor.location
+      ? Math.round(aiMatcher.calculateDistance(donor.location.coordinates, bloodRequest.location.coordinates) / 100) / 10
+      : null;
+    const distanceText = distanceKm !== null ? `${distanceKm} km from you` : 'near you';
+
+    const expiresInSeconds = Math.max(60, Math.floor((new Date(bloodRequest.expiresAt) - new Date()) / 1000));
+
+    return {
+      event: 'blood_needed',
+      payload: {
+        requestId: bloodRequest._id,
+        location: { lat, lng },
+        bloodType: bloodRequest.bloodType,
+        urgency: bloodRequest.urgency,
+        distance: distanceKm,
+        expiresAt: bloodRequest.expiresAt,
+        estimatedTime: '30 minutes'
+      },
+      title: `${this.urgencyLabels[bloodRequest.urgency] || 'Blood request'}: ${bloodRequest.bloodType} blood needed`,
+      body: `A patient ${distanceText} needs ${bloodRequest.bloodType} blood. Open OneBlood to respond.`,
+      sms: `OneBlood: ${bloodRequest.urgency.toUpperCase()} - ${bloodRequest.bloodType} blood needed ${distanceText}. ` +
+        `Open the OneBlood app to respond. Ref ${requestId}`,
+      url: `/donor-dashboard?request=${requestId}`,
+      tag: `request-${requestId}`,
+      urgency: bloodRequest.urgency,
+      ttl: expiresInSeconds
+    };
+  }
+
+  /**
+   * Pick the channels a donor should be reached on, honouring preferences
+   * and quiet hours (critical requests always get through)
+   */
+  planDeliveries(donor, urgency) {
+    const quiet = urgency !== 'critical' && this.isInQuietHours(donor);
+
+    return Array.from(this.channels.values())
+      .filter(channel => channel.isEnabledFor(donor))
+      .map(channel => {
+        if (!channel.isConfigured()) {
+          return { channel, status: 'skipped', error: 'Channel not configured' };
+        }
+        if (quiet && channel.intrusive) {
+          return { channel, status: 'suppressed', error: 'Quiet hours' };
+        }
+        return { channel, status: 'pending' };
+      });
+  }
+
+  /**
+   * Notify every matched donor about a blood request
+   */
+  async notifyDonorsForRequest(bloodRequest, donors) {
+    const results = await Promise.all(donors.map(donor =>
+      this.notifyDonor(bloodRequest, donor).catch(error => {
+        console.error(`Error notifying donor ${donor._id}:`, error);
+        return null;
+      })
+    ));
+
+    const contacted = results.filter(result => result && result.contacted).length;
+    console.log(`Request ${bloodRequest._id}: notified ${contacted}/${donors.length} donors`);
+
+    return results;
+  }
+
+  async notifyDonor(bloodRequest, donor) {
+    const notification = this.buildBloodNeededNotification(bloodRequest, donor);
+    const plan = this.planDeliveries(donor, bloodRequest.urgency);
+
+    const deliveries = await Promise.all(plan.map(async ({ channel, status, error }) => {
+      if (status !== 'pending') {
+        return { channel: channel.name, status, attempts: 0, error };
+      }
+      return this.attemptDelivery(channel, donor, notification, 1);
+    }));
+
+    await this.recordDeliveries(bloodRequest._id, donor._id, deliveries);
+
+    deliveries
+      .filter(delivery => delivery.status === 'failed' && delivery.attempts < this.maxAttempts)
+      .forEach(delivery => {
+        this.scheduleRetry(bloodRequest._id, donor, notification, delivery.channel, delivery.attempts);
+      });
+
+    return {
+      donorId: donor._id,
+      contacted: deliveries.some(delivery => delivery.status === 'sent'),
+      deliveries
+    };
+  }
+
+  async attemptDelivery(channel, donor, notification, attempt) {
+    let result;
+    try {
+      result = await channel.send(donor, notification);
+    } catch (error) {
+      result = { success: false, error: error.message };
+    }
+
+    return {
+      channel: channel.name,
+      status: result.success ? 'sent' : result.skipped ? 'skipped' : 'failed',
+      attempts: attempt,
+      externalId: result.externalId,
+      error: result.success ? undefined : result.error,
+      lastAttemptAt: new Date()
+    };
+  }
+
+  scheduleRetry(requestId, donor, notification, channelName, attempts) {
+    const delay = this.retryDelays[Math.min(attempts - 1, this.retryDelays.length - 1)];
+
+    setTimeout(async () => {
+      try {
+        // Stop retrying once the request is closed or the donor has answered
+        const request = await BloodRequest.findOne({
+          _id: requestId,
+          status: { $in: ['pending', 'accepted'] },
+          matchedDonors: { $elemMatch: { donorId: donor._id, response: 'pending' } }
+        }).select('_id');
+        if (!request) return;
+
+        const channel = this.channels.get(channelName);
+        const delivery = await this.attemptDelivery(channel, donor, notification, attempts + 1);
+        await this.updateDelivery(requestId, donor._id, delivery);
+
+        if (delivery.status === 'failed' && delivery.attempts < this.maxAttempts) {
+          this.scheduleRetry(requestId, donor, notification, channelName, delivery.attempts);
+        }
+      } catch (error) {
+        console.error(`Error retrying ${channelName} notification for donor ${donor._id}:`, error);
+      }
+    }, delay);
+  }
+
+  /**
+   * Write the delivery log onto BloodRequest.matchedDonors and stamp contactedAt
+   * the first time any channel reaches the donor
+   */
+  async recordDeliveries(requestId, donorId, deliveries) {
+    await BloodRequest.updateOne(
+      { _id: requestId, 'matchedDonors.donorId': donorId },
+      { $push: { 'matchedDonors.$.notifications': { $each: deliveries } } }
+    );
+
+    if (deliveries.some(delivery => delivery.status === 'sent')) {
+      await this.markContacted(requestId, donorId);
+    }
+  }
+
+  async updateDelivery(requestId, donorId, delivery) {
+    await BloodRequest.updateOne(
+      { _id: requestId },
+      {
+        $set: {
+          'matchedDonors.$[match].notifications.$[note].status': delivery.status,
+          'matchedDonors.$[match].notifications.$[note].attempts': delivery.attempts,
+          'matchedDonors.$[match].notifications.$[note].externalId': delivery.externalId,
+          'matchedDonors.$[match].notifications.$[note].error': delivery.error,
+          'matchedDonors.$[match].notifications.$[note].lastAttemptAt': delivery.lastAttemptAt
+        }
+      },
+      { arrayFilters: [{ 'match.donorId': donorId }, { 'note.channel': delivery.channel }] }
+    );
+
+    if (delivery.status === 'sent') {
+      await this.markContacted(requestId, donorId);
+    }
+  }
+
+  async markContacted(requestId, donorId) {
+    await BloodRequest.updateOne(
+      { _id: requestId, matchedDonors: { $elemMatch: { donorId, contactedAt: null } } },
+      { $set: { 'matchedDonors.$.contactedAt': new Date() } }
+    );
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
+export default NotificationDispatcher;
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import OtpCode from '../models/OtpCode.js';
+import { smsService } from './smsService.js';
+
+class OtpService {
+  constructor() {
+    this.codeLength = 6;
+    this.maxAttempts = 5;
+    this.resendCooldown = 60 * 1000; // 1 minute between codes for the same phone
+
+    this.messages = {
+      donor_login: (code) =>
+        `OneBlood: Your login code is ${code}. It expires in 10 minutes. Do not share it with anyone.`,
+      request_access: (code) =>
+        `OneBlood: Your code to manage your blood request is ${code}. It expires in 10 minutes. Do not share it with anyone.`,
+      donor_registration: (code) =>
+        `OneBlood: Your code to finish registering as a donor is ${code}. It expires in 10 minutes. Do not share it with anyone.`
+    };
+  }
+
+  hashCode(phone, code) {
+    return crypto
+      .createHmac('sha256', process.env.JWT_SECRET || 'fallback_secret')
+      .update(`${phone}:${code}`)
+      .digest('hex');
+  }
+
+  generateCode() {
+    return crypto.randomInt(0, 10 ** this.codeLength).toString().padStart(this.codeLength, '0');
+  }
+
+  /**
+   * Text a fresh code to the phone, replacing any earlier unused code.
+   * Returns { sent: false, retryAfter } while the resend cooldown is running.
+   */
+  async sendCode(phone, purpose = 'donor_login') {
+    const latest = await OtpCode.findOne({ phone, purpose, consumedAt: null }).sort({ createdAt: -1 });
+    if (latest && Date.now() - latest.createdAt.getTime() < this.resendCooldown) {
+      return {
+        sent: false,
+        retryAfter: Math.ceil((this.resendCooldown - (Date.now() - latest.createdAt.getTime())) / 1000)
+      };
+    }
+
+    const code = this.generateCode();
+
+    // Older codes stop working once a new one is sent
+    await OtpCode.updateMany({ phone, purpose, consumedAt: null }, { $set: { consumedAt: new Date() } });
+    const otp = await OtpCode.create({ phone, purpose, codeHash: this.hashCode(phone, code) });
+
+    const result = await smsService.send(phone, this.messages[purpose](code));
+
+    if (!result.success) {
+      await OtpCode.deleteOne({ _id: otp._id });
+      return { sent: false, error: 'Could not send the code by SMS' };
+    }
+
+    return { sent: true, expiresAt: otp.expiresAt };
+  }
+
+  /**
+   * Check a code against the latest one sent to the phone. Each code can be
+   * used once and is burned after too many wrong guesses.
+   */
+  async verifyCode(phone, code, purpose = 'donor_login') {
+    const otp = await OtpCode.findOne({ phone, purpose, consumedAt: null }).sort({ createdAt: -1 });
+    if (!otp || !otp.isUsable(this.maxAttempts)) {
+      return { valid: false, error: 'Code expired or not found. Please request a new one.' };
+    }
+
+    const expected = Buffer.from(otp.codeHash, 'hex');
+    const actual = Buffer.from(this.hashCode(phone, code), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      otp.attempts += 1;
+      await otp.save();
+
+      const attemptsLeft = this.maxAttempts - otp.attempts;
+      return {
+        valid: false,
+        error: attemptsLeft > 0
+          ? `Incorrect code. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+          : 'Too many incorrect attempts. Please request a new code.'
+      };
+    }
+
+    // Claim the code atomically so two concurrent verifications cannot both succeed
+    const claimed = await OtpCode.updateOne(
+      { _id: otp._id, consumedAt: null },
+      { $set: { consumedAt: new Date() } }
+    );
+
+    if (claimed.modifiedCount === 0) {
+      return { valid: false, error: 'Code already used. Please request a new one.' };
+    }
+
+    return { valid: true };
+  }
+}
+
+export const otpService = new OtpService();
+export default OtpService;
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import Donor from '../models/Donor.js';
+
+const TOKEN_PREFIX = 'OB1';
+
+const qrError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+class QrTokenService {
+  constructor() {
+    this.cardTtl = 365 * 24 * 60 * 60 * 1000; // printed donor cards, 1 year
+    this.appTtl = 24 * 60 * 60 * 1000; // QR shown in the app, 24 hours
+  }
+
+  // Each donor signs with their own qrSecret, so rotating it revokes every card they hold
+  sign(payload, secret) {
+    return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+  }
+
+  /**
+   * Tokens are "OB1.<payload>.<signature>". The payload only carries the public donor
+   * code, blood type and validity window (seconds) - no phone number or secret.
+   */
+  createToken(donor, ttl = this.appTtl) {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const payload = Buffer.from(JSON.stringify({
+      d: donor.donorId,
+      b: donor.bloodType,
+      i: issuedAt,
+      v: issuedAt + Math.floor(ttl / 1000)
+    })).toString('base64url');
+
+    return {
+      token: `${TOKEN_PREFIX}.${payload}.${this.sign(payload, donor.qrSecret)}`,
+      validUntil: new Date((issuedAt + Math.floor(ttl / 1000)) * 1000)
+    };
+  }
+
+  parseToken(token) {
+    const [prefix, payload, signature] = (token || '').trim().split('.');
+    if (prefix !== TOKEN_PREFIX || !payload || !signature) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (typeof claims.d !== 'string' || !Number.isInteger(claims.i) || !Number.isInteger(claims.v)) {
+        return null;
+      }
+      return { payload, signature, claims };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check a scanned token and return the donor it belongs to.
+   * Throws an error with a statusCode when the token is forged, expired or stale.
+   */
+  async verifyToken(token) {
+    const parsed = this.parseToken(token);
+    if (!parsed) {
+      throw qrError('Not a OneBlood donor QR code');
+    }
+
+    const { payload, signature, claims } = parsed;
+    const donor = await Donor.findOne({ donorId: claims.d });
+    if (!donor) {
+      throw qrError('Invalid QR code');
+    }
+
+    const expected = Buffer.from(this.sign(payload, donor.qrSecret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw qrError('Invalid QR code');
+    }
+
+    if (claims.v * 1000 < Date.now()) {
+      throw qrError('QR code has expired');
+    }
+
+    // The donor's blood type changed since the card was issued (e.g. after testing)
+    if (claims.b !== donor.bloodType) {
+      throw qrError('QR code is outdated. Ask the donor for a new one.');
+    }
+
+    return {
+      donor,
+      issuedAt: new Date(claims.i * 1000),
+      validUntil: new Date(claims.v * 1000)
+    };
+  }
+
+  toDataURL(token) {
+    return QRCode.toDataURL(token, {
+      width: 256,
+      margin: 2,
+      color: {
+        dark: '#000000',
+        light: '#FFFFFF'
+      }
+    });
+  }
+}
+
+export const qrTokenService = new QrTokenService();
+export default QrTokenService;
@@ -0,0 +1,721 @@
+import BloodRequest, { COMMITTED_DONOR_RESPONSES } from '../models/BloodRequest.js';
+import Donor from '../models/Donor.js';
+import Hospital from '../models/Hospital.js';
+import BloodUnit, { COMPONENTS_FOR_DONATION_TYPE } from '../models/BloodUnit.js';
+import { aiMatcher } from './aiMatcher.js';
+import { inventoryService } from './inventoryService.js';
+import { notificationDispatcher } from './notificationService.js';
+import { smsService } from './smsService.js';
+import { trackingService } from './trackingService.js';
+import { estimateTravelMinutes } from '../utils/travelTime.js';
+import { compatibleDonorTypes, donorTypesForRequest, isCompatible } from '../utils/bloodCompatibility.js';
+
+// Hospitals this close to the requester are alerted as soon as a request is raised
+const HOSPITAL_ALERT_RADIUS_KM = 50;
+
+/**
+ * Outreach for a request no donor has committed to. The first wave goes out
+ * when the request is raised; each later one follows if nobody has said yes
+ * by the time the urgency's escalation timeout runs out.
+ */
+const OUTREACH_WAVES = [
+  // The urgency's search radius and preferred blood types
+  { radiusFactor: 1 },
+  // The next ranked donors, twice as far out
+  { radiusFactor: 2 },
+  // Further still, with every compatible type including scarce ones
+  { radiusFactor: 3, allCompatibleTypes: true },
+  // Every verified hospital in the region
+  { hospitalRadiusKm: 200 }
+];
+
+// Minutes without a committed donor before the next wave, overridable with
+// OUTREACH_ESCALATION_MINUTES, e.g. {"critical":5,"urgent":15,"normal":45}
+const DEFAULT_ESCALATION_MINUTES = {
+  critical: 10,
+  urgent: 20,
+  normal: 60
+};
+
+// Fields a requester may correct; once a hospital has accepted, it is
+// preparing for this patient and the blood needed is fixed, though not how much
+const REQUESTER_EDITABLE_FIELDS = {
+  pending: ['requesterName', 'bloodType', 'donationType', 'urgency', 'patientCondition', 'unitsRequired'],
+  accepted: ['requesterName', 'urgency', 'patientCondition', 'unitsRequired']
+};
+
+// Extensions cannot keep a request open longer than this from when it was raised
+const MAX_REQUEST_LIFETIME_HOURS = 72;
+
+let io = null;
+
+/**
+ * Socket server used to alert nearby hospitals; set once by initializeSocket
+ */
+export const setSocketServer = (server) => {
+  io = server;
+};
+
+export const getEscalationMinutes = (urgency) => {
+  let overrides = {};
+  try {
+    overrides = JSON.parse(process.env.OUTREACH_ESCALATION_MINUTES || '{}');
+  } catch {
+    console.error('Ignoring invalid OUTREACH_ESCALATION_MINUTES');
+  }
+
+  const minutes = Number(overrides[urgency]);
+  return minutes > 0 ? minutes : DEFAULT_ESCALATION_MINUTES[urgency] || DEFAULT_ESCALATION_MINUTES.normal;
+};
+
+/**
+ * When the wave after the given one is due, or null if it was the last
+ */
+const scheduleNextWave = (urgency, wave) => {
+  if (wave >= OUTREACH_WAVES.length) return null;
+  return new Date(Date.now() + getEscalationMinutes(urgency) * 60 * 1000);
+};
+
+const acceptsNewRequests = (hospital) => hospital.settings.notifyOnNewRequests !== false;
+
+// Number of the latest wave; outreach starts again from 1 when a requester
+// changes the blood needed
+const currentWave = (bloodRequest) => {
+  const waves = bloodRequest.outreachWaves;
+  return waves.length > 0 ? waves[waves.length - 1].wave : 0;
+};
+
+const firstWave = (bloodRequest, donorsContacted, hospitalsAlerted = 0) => ({
+  wave: 1,
+  radiusKm: aiMatcher.getSearchRadius(bloodRequest.urgency),
+  bloodTypes: donorTypesForRequest(bloodRequest.bloodType, bloodRequest.urgency, bloodRequest.donationType),
+  donorsContacted,
+  hospitalsAlerted,
+  startedAt: new Date()
+});
+
+const changeError = (message, statusCode = 409) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+// Units provided plus those on their way: donors who said yes and have not given yet
+const unitsPromised = (bloodRequest) => (bloodRequest.unitsFulfilled || 0) +
+  bloodRequest.matchedDonors.filter(match => ['accepted', 'en_route', 'arrived'].includes(match.response)).length;
+
+const toMatchedDonors = (donors) => donors.map(donor => ({
+  donorId: donor._id,
+  matchScore: donor.matchScore,
+  contactedAt: null,
+  response: 'pending'
+}));
+
+/**
+ * Minutes until a hospital could have blood with the requester: its usual
+ * response time plus the trip
+ */
+const estimateResponseMinutes = (hospital, distanceKm) => {
+  return Math.round(hospital.averageResponseTime) + estimateTravelMinutes(distanceKm);
+};
+
+// Nearby hospitals with their distance and response estimate, fastest first
+const estimateHospitalResponses = (nearbyHospitals, location) => nearbyHospitals
+  .map(hospital => {
+    const distance = hospital.calculateDistance(location.lat, location.lng);
+    return {
+      hospital,
+      distance: Math.round(distance * 10) / 10,
+      estimatedResponseTime: estimateResponseMinutes(hospital, distance)
+    };
+  })
+  .sort((a, b) => a.estimatedResponseTime - b.estimatedResponseTime);
+
+/**
+ * Send a new request to each nearby hospital's room, with that hospital's own
+ * distance and response estimate. Returns the estimates, fastest first.
+ */
+const alertNearbyHospitals = (bloodRequest, nearbyHospitals, location) => {
+  const estimates = estimateHospitalResponses(nearbyHospitals, location);
+
+  if (io) {
+    estimates
+      .filter(({ hospital }) => acceptsNewRequests(hospital))
+      .forEach(({ hospital, distance, estimatedResponseTime }) => {
+        io.to(`hospital_${hospital._id}`).emit('new_request', {
+          requestId: bloodRequest._id,
+          requesterPhone: bloodRequest.requesterPhone,
+          requesterName: bloodRequest.requesterName,
+          location,
+          bloodType: bloodRequest.bloodType,
+          urgency: bloodRequest.urgency,
+          donationType: bloodRequest.donationType,
+          patientCondition: bloodRequest.patientCondition,
+          unitsRequired: bloodRequest.unitsRequired,
+          unitsFulfilled: bloodRequest.unitsFulfilled,
+          createdAt: bloodRequest.createdAt,
+          expiresAt: bloodRequest.expiresAt,
+          distance,
+          estimatedResponseTime
+        });
+      });
+  }
+
+  return estimates;
+};
+
+// Rebuild what createBloodRequest returned for a request a client sent again,
+// without alerting anyone a second time
+const replayResult = async (bloodRequest) => {
+  const [lng, lat] = bloodRequest.location.coordinates;
+  const nearbyHospitals = await Hospital.findNearby(lat, lng, HOSPITAL_ALERT_RADIUS_KM, true);
+  const estimates = estimateHospitalResponses(nearbyHospitals, { lat, lng });
+
+  return {
+    bloodRequest,
+    matchedDonors: bloodRequest.matchedDonors,
+    nearbyHospitals,
+    estimatedResponseTime: estimates.length > 0 ? estimates[0].estimatedResponseTime : null,
+    replayed: true
+  };
+};
+
+/**
+ * Create a blood request, match and alert donors, and alert nearby hospitals.
+ * Shared by every intake channel (REST, SMS, socket) so they apply the same
+ * duplicate checks, matching and notifications.
+ *
+ * Throws an error with a statusCode when the request is rejected.
+ */
+export const createBloodRequest = async ({
+  requesterPhone,
+  requesterName,
+  location,
+  bloodType,
+  urgency,
+  donationType,
+  patientCondition,
+  unitsRequired,
+  idempotencyKey,
+  source = 'web'
+}) => {
+  // Replayed request from a client retry - return the original
+  if (idempotencyKey) {
+    const replayedRequest = await BloodRequest.findOne({ idempotencyKey });
+    if (replayedRequest) {
+      return replayResult(replayedRequest);
+    }
+  }
+
+  // Check for existing active request from the same phone number
+  const existingRequest = await BloodRequest.findOne({
+    requesterPhone,
+    status: { $in: ['pending', 'accepted'] },
+    createdAt: { $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } // Last 24 hours
+  });
+
+  if (existingRequest) {
+    const error = new Error('You already have an active blood request. Please wait or contact the hospital.');
+    error.statusCode = 400;
+    error.existingRequest = existingRequest;
+    throw error;
+  }
+
+  // Create new blood request
+  const bloodRequest = new BloodRequest({
+    requesterPhone,
+    requesterName,
+    location: {
+      type: 'Point',
+      coordinates: [location.lng, location.lat]
+    },
+    bloodType,
+    urgency: urgency || 'normal',
+    donationType: donationType || 'whole_blood',
+    patientCondition,
+    unitsRequired: unitsRequired || 1,
+    idempotencyKey,
+    source
+  });
+
+  // Requesters follow progress on the tracking page with a PIN sent to their phone
+  const trackingPin = trackingService.generatePin();
+  bloodRequest.trackingPinHash = trackingService.hashPin(bloodRequest._id, trackingPin);
+
+  try {
+    await bloodRequest.save();
+  } catch (error) {
+    // Concurrent retry with the same key won the race - return its request
+    if (error.code === 11000 && idempotencyKey) {
+      const replayedRequest = await BloodRequest.findOne({ idempotencyKey });
+      if (replayedRequest) {
+        return replayResult(replayedRequest);
+      }
+    }
+    throw error;
+  }
+
+  // Find and match nearby donors using AI
+  const matchedDonors = await aiMatcher.findMatchingDonors(bloodRequest);
+
+  // Find nearby hospitals for notification
+  const nearbyHospitals = await Hospital.findNearby(
+    location.lat,
+    location.lng,
+    HOSPITAL_ALERT_RADIUS_KM,
+    true // verified only
+  );
+
+  // Update request with matched donors and log the first outreach wave
+  // contactedAt is stamped by the notification dispatcher once a channel delivers
+  bloodRequest.matchedDonors = toMatchedDonors(matchedDonors);
+  bloodRequest.outreachWaves = [
+    firstWave(bloodRequest, matchedDonors.length, nearbyHospitals.filter(acceptsNewRequests).length)
+  ];
+  bloodRequest.nextEscalationAt = scheduleNextWave(bloodRequest.urgency, 1);
+
+  await bloodRequest.save();
+
+  // Alert donors in the background so the requester is not kept waiting
+  notificationDispatcher.notifyDonorsForRequest(bloodRequest, matchedDonors).catch(error => {
+    console.error('Error notifying matched donors:', error);
+  });
+
+  const estimates = alertNearbyHospitals(bloodRequest, nearbyHospitals, location);
+
+  smsService.sendTrackingPin(bloodRequest, trackingPin);
+
+  return {
+    bloodRequest,
+    matchedDonors,
+    nearbyHospitals,
+    // Fastest nearby hospital, in minutes; null when none are in range
+    estimatedResponseTime: estimates.length > 0 ? estimates[0].estimatedResponseTime : null,
+    replayed: false
+  };
+};
+
+/**
+ * Send a request's next outreach wave: more donors further out, or every
+ * hospital in the region. Returns the wave logged, or null if none are left.
+ */
+export const escalateRequest = async (bloodRequest) => {
+  const waveNumber = currentWave(bloodRequest) + 1;
+  const plan = OUTREACH_WAVES[waveNumber - 1];
+  if (!plan) {
+    return null;
+  }
+
+  const { bloodType, urgency, donationType } = bloodRequest;
+  const [lng, lat] = bloodRequest.location.coordinates;
+  const wave = {
+    wave: waveNumber,
+    bloodTypes: [],
+    donorsContacted: 0,
+    hospitalsAlerted: 0,
+    startedAt: new Date()
+  };
+
+  let donors = [];
+  if (plan.hospitalRadiusKm) {
+    wave.radiusKm = plan.hospitalRadiusKm;
+
+    // Hospitals near the requester heard about it when it was raised
+    const regionalHospitals = await Hospital.findNearby(lat, lng, plan.hospitalRadiusKm, true);
+    const furtherHospitals = regionalHospitals.filter(hospital =>
+      hospital.calculateDistance(lat, lng) > HOSPITAL_ALERT_RADIUS_KM
+    );
+
+    alertNearbyHospitals(bloodRequest, furtherHospitals, { lat, lng });
+    wave.hospitalsAlerted = furtherHospitals.filter(acceptsNewRequests).length;
+  } else {
+    wave.radiusKm = aiMatcher.getSearchRadius(urgency) * plan.radiusFactor;
+    wave.bloodTypes = plan.allCompatibleTypes
+      ? compatibleDonorTypes(bloodType, donationType)
+      : donorTypesForRequest(bloodType, urgency, donationType);
+
+    donors = await aiMatcher.findMatchingDonors(bloodRequest, {
+      radiusKm: wave.radiusKm,
+      bloodTypes: wave.bloodTypes,
+      excludeDonorIds: bloodRequest.matchedDonors.map(match => match.donorId)
+    });
+    wave.donorsContacted = donors.length;
+  }
+
+  // Pushed rather than saved so donor answers arriving meanwhile are kept
+  await BloodRequest.updateOne(
+    { _id: bloodRequest._id },
+    {
+      $push: {
+        matchedDonors: { $each: toMatchedDonors(donors) },
+        outreachWaves: wave
+      },
+      $set: { nextEscalationAt: scheduleNextWave(urgency, waveNumber) }
+    }
+  );
+
+  trackingService.publish(bloodRequest._id);
+
+  if (donors.length > 0) {
+    notificationDispatcher.notifyDonorsForRequest(bloodRequest, donors).catch(error => {
+      console.error('Error notifying escalated donors:', error);
+    });
+  }
+
+  if (io && bloodRequest.hospitalId) {
+    io.to(`hospital_${bloodRequest.hospitalId}`).emit('request_escalated', {
+      requestId: bloodRequest._id,
+      bloodType,
+      ...wave
+    });
+  }
+
+  console.log(`Request ${bloodRequest._id}: outreach wave ${waveNumber} contacted ${wave.donorsContacted} donors, alerted ${wave.hospitalsAlerted} hospitals`);
+  return wave;
+};
+
+/**
+ * Send the next wave for every open request whose escalation is due. Requests
+ * with enough donors committed to cover the units still needed are checked
+ * again later instead, in case a donor drops out. Returns the waves sent.
+ */
+export const escalateDueRequests = async () => {
+  const now = new Date();
+  const dueRequests = await BloodRequest.find({
+    nextEscalationAt: { $lte: now },
+    status: { $in: ['pending', 'accepted'] },
+    expiresAt: { $gt: now }
+  });
+
+  const waves = [];
+  for (const request of dueRequests) {
+    // Claim the request so a second server does not send the same wave
+    const claimed = await BloodRequest.findOneAndUpdate(
+      { _id: request._id, nextEscalationAt: request.nextEscalationAt },
+      { $set: { nextEscalationAt: null } },
+      { new: true }
+    );
+    if (!claimed) continue;
+
+    try {
+      if (unitsPromised(claimed) >= claimed.unitsRequired) {
+        claimed.nextEscalationAt = scheduleNextWave(claimed.urgency, currentWave(claimed));
+        await claimed.save();
+        continue;
+      }
+
+      const wave = await escalateRequest(claimed);
+      if (wave) waves.push({ requestId: claimed._id, ...wave });
+    } catch (error) {
+      console.error(`Error escalating request ${claimed._id}:`, error);
+    }
+  }
+
+  return waves;
+};
+
+const assertOpen = (bloodRequest) => {
+  if (!['pending', 'accepted'].includes(bloodRequest.status) || bloodRequest.isExpired()) {
+    throw changeError('This request is no longer active');
+  }
+};
+
+// Close a request once every unit it needs has been provided
+const completeIfFulfilled = (bloodRequest) => {
+  if (bloodRequest.unitsRemaining > 0) return false;
+
+  bloodRequest.status = 'completed';
+  bloodRequest.nextEscalationAt = null;
+  return true;
+};
+
+/**
+ * Every hospital that was shown the request, out to the widest wave that
+ * alerted hospitals, and any further away that accepted it
+ */
+const alertedHospitalIds = async (bloodRequest) => {
+  const [lng, lat] = bloodRequest.location.coordinates;
+  const radiusKm = Math.max(
+    HOSPITAL_ALERT_RADIUS_KM,
+    ...bloodRequest.outreachWaves.filter(wave => wave.hospitalsAlerted > 0).map(wave => wave.radiusKm)
+  );
+  const hospitals = await Hospital.findNearby(lat, lng, radiusKm, true).select('_id');
+  return new Set([
+    ...hospitals.map(hospital => hospital._id.toString()),
+    ...bloodRequest.acceptedHospitals.map(hospitalId => hospitalId.toString())
+  ]);
+};
+
+/**
+ * Tell everyone working on a request that it changed: the requester cancelled,
+ * extended or corrected it, or its last unit was provided. Hospitals that were
+ * alerted, matched donors (by SMS too for those who said yes) and the tracking
+ * page all hear. Donors dropped by a blood type change hear they are no longer
+ * needed.
+ */
+const notifyRequestChange = async (bloodRequest, action, changes = {}, removedMatches = []) => {
+  const payload = {
+    requestId: bloodRequest._id,
+    action,
+    changes,
+    status: bloodRequest.status,
+    bloodType: bloodRequest.bloodType,
+    urgency: bloodRequest.urgency,
+    donationType: bloodRequest.donationType,
+    patientCondition: bloodRequest.patientCondition,
+    unitsRequired: bloodRequest.unitsRequired,
+    unitsFulfilled: bloodRequest.unitsFulfilled,
+    expiresAt: bloodRequest.expiresAt
+  };
+
+  const activeMatches = bloodRequest.matchedDonors.filter(match => !['declined', 'no_show'].includes(match.response));
+  const committed = [...activeMatches, ...removedMatches]
+    .filter(match => COMMITTED_DONOR_RESPONSES.includes(match.response) && match.response !== 'donated');
+
+  if (io) {
+    const hospitalIds = await alertedHospitalIds(bloodRequest);
+    hospitalIds.forEach(hospitalId => io.to(`hospital_${hospitalId}`).emit('request_updated', payload));
+
+    activeMatches.forEach(match => io.to(`donor_${match.donorId}`).emit('request_updated', payload));
+    removedMatches.forEach(match => io.to(`donor_${match.donorId}`).emit('request_updated', { ...payload, removed: true }));
+  }
+
+  // Donors on their way should not find out only when they arrive
+  if (action !== 'extended' && committed.length > 0) {
+    const removedIds = new Set(removedMatches.map(match => match.donorId.toString()));
+    const donors = await Donor.find({ _id: { $in: committed.map(match => match.donorId) } }).select('phone');
+    donors.forEach(donor => {
+      smsService.sendRequestChange(donor, bloodRequest, removedIds.has(donor._id.toString()) ? 'removed' : action);
+    });
+  }
+
+  trackingService.publish(bloodRequest._id);
+};
+
+/**
+ * Requester withdraws a request they no longer need
+ */
+export const cancelRequest = async (bloodRequest, reason) => {
+  assertOpen(bloodRequest);
+
+  bloodRequest.status = 'cancelled';
+  bloodRequest.cancelledAt = new Date();
+  bloodRequest.cancellationReason = reason;
+  bloodRequest.nextEscalationAt = null;
+  await bloodRequest.save();
+
+  smsService.sendStatusUpdate(bloodRequest);
+  await notifyRequestChange(bloodRequest, 'cancelled', reason ? { reason } : {});
+  return bloodRequest;
+};
+
+/**
+ * Requester keeps a request open for longer while the patient still needs blood
+ */
+export const extendRequest = async (bloodRequest, hours) => {
+  assertOpen(bloodRequest);
+
+  const latest = new Date(bloodRequest.createdAt.getTime() + MAX_REQUEST_LIFETIME_HOURS * 60 * 60 * 1000);
+  const extended = new Date(Math.min(bloodRequest.expiresAt.getTime() + hours * 60 * 60 * 1000, latest.getTime()));
+  if (extended <= bloodRequest.expiresAt) {
+    throw changeError(`Requests cannot stay open longer than ${MAX_REQUEST_LIFETIME_HOURS} hours`);
+  }
+
+  bloodRequest.expiresAt = extended;
+  await bloodRequest.save();
+
+  await notifyRequestChange(bloodRequest, 'extended', { expiresAt: extended });
+  return bloodRequest;
+};
+
+/**
+ * Requester corrects their request. A new blood type or component drops the
+ * donors who can no longer give and starts outreach again for the new need.
+ */
+export const editRequest = async (bloodRequest, updates) => {
+  assertOpen(bloodRequest);
+
+  const editable = REQUESTER_EDITABLE_FIELDS[bloodRequest.status];
+  const changes = {};
+  for (const [field, value] of Object.entries(updates)) {
+    if (value === undefined || value === bloodRequest[field]) continue;
+    if (!editable.includes(field)) {
+      throw changeError(`The ${field} cannot be changed after a hospital has accepted the request. Please call the hospital.`);
+    }
+    changes[field] = value;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw changeError('Nothing to change', 400);
+  }
+
+  if (changes.unitsRequired !== undefined && changes.unitsRequired < bloodRequest.unitsFulfilled) {
+    throw changeError(`${bloodRequest.unitsFulfilled} units have already been provided for this request`);
+  }
+
+  Object.assign(bloodRequest, changes);
+
+  let removedMatches = [];
+  let newDonors = [];
+  if (changes.bloodType || changes.donationType) {
+    const donors = await Donor.find({ _id: { $in: bloodRequest.matchedDonors.map(match => match.donorId) } }).select('bloodType');
+    const stillCompatible = new Set(donors
+      .filter(donor => isCompatible(donor.bloodType, bloodRequest.bloodType, bloodRequest.donationType))
+      .map(donor => donor._id.toString()));
+
+    removedMatches = bloodRequest.matchedDonors.filter(match => !stillCompatible.has(match.donorId.toString()));
+    bloodRequest.matchedDonors = bloodRequest.matchedDonors.filter(match => stillCompatible.has(match.donorId.toString()));
+
+    newDonors = await aiMatcher.findMatchingDonors(bloodRequest, {
+      excludeDonorIds: bloodRequest.matchedDonors.map(match => match.donorId)
+    });
+    bloodRequest.matchedDonors.push(...toMatchedDonors(newDonors));
+    bloodRequest.outreachWaves.push(firstWave(bloodRequest, newDonors.length));
+    bloodRequest.nextEscalationAt = scheduleNextWave(bloodRequest.urgency, 1);
+  } else if (changes.urgency && bloodRequest.nextEscalationAt) {
+    // A more urgent request should not wait out the old, longer timeout
+    const sooner = scheduleNextWave(bloodRequest.urgency, currentWave(bloodRequest));
+    if (sooner && sooner < bloodRequest.nextEscalationAt) {
+      bloodRequest.nextEscalationAt = sooner;
+    }
+  }
+
+  // Asking for fewer units can mean the request already has all it needs
+  const completed = completeIfFulfilled(bloodRequest);
+
+  await bloodRequest.save();
+
+  if (newDonors.length > 0 && !completed) {
+    notificationDispatcher.notifyDonorsForRequest(bloodRequest, newDonors).catch(error => {
+      console.error('Error notifying donors for edited request:', error);
+    });
+  }
+
+  if (completed) {
+    smsService.sendStatusUpdate(bloodRequest);
+  }
+  await notifyRequestChange(bloodRequest, completed ? 'fulfilled' : 'edited', changes, removedMatches);
+  return bloodRequest;
+};
+
+/**
+ * Count units provided towards a request, by a hospital from its stock or by
+ * a donor giving at an accepting hospital. The request completes once every
+ * unit it needs has been provided. Inside a transaction, pass its session and
+ * announce the fulfilment once it has committed.
+ *
+ * Throws an error with a statusCode when the request does not need the units.
+ */
+export const recordFulfilment = async (bloodRequest, { hospitalId, donorId = null, source, units = 1 }, { session } = {}) => {
+  assertOpen(bloodRequest);
+  if (units > bloodRequest.unitsRemaining) {
+    throw changeError(`Only ${bloodRequest.unitsRemaining} more units are needed for this request`);
+  }
+
+  // Counted in the database so contributions from several hospitals at once all add up
+  const updated = await BloodRequest.findOneAndUpdate(
+    {
+      _id: bloodRequest._id,
+      status: { $in: ['pending', 'accepted'] },
+      $expr: {
+        $lte: [{ $add: [{ $ifNull: ['$unitsFulfilled', 0] }, units] }, { $ifNull: ['$unitsRequired', 1] }]
+      }
+    },
+    {
+      $inc: { unitsFulfilled: units },
+      $push: { fulfilments: { hospitalId, donorId, source, units, recordedAt: new Date() } }
+    },
+    { new: true, session }
+  );
+  if (!updated) {
+    throw changeError('This request no longer needs that many units. Please refresh and try again.');
+  }
+
+  if (completeIfFulfilled(updated)) {
+    await updated.save({ session });
+  }
+  return updated;
+};
+
+/**
+ * Tell the hospitals that were alerted how many units a request has now, and
+ * everyone working on it once it has all it needs
+ */
+export const announceFulfilment = async (bloodRequest, { hospitalId, source, units }) => {
+  if (io) {
+    const payload = {
+      requestId: bloodRequest._id,
+      bloodType: bloodRequest.bloodType,
+      hospitalId,
+      source,
+      units,
+      unitsRequired: bloodRequest.unitsRequired,
+      unitsFulfilled: bloodRequest.unitsFulfilled,
+      status: bloodRequest.status
+    };
+    const hospitalIds = await alertedHospitalIds(bloodRequest);
+    hospitalIds.forEach(id => io.to(`hospital_${id}`).emit('request_fulfilment', payload));
+  }
+
+  if (bloodRequest.status === 'completed') {
+    smsService.sendStatusUpdate(bloodRequest);
+    await notifyRequestChange(bloodRequest, 'fulfilled');
+  } else {
+    trackingService.publish(bloodRequest._id);
+  }
+};
+
+/**
+ * An accepting hospital provides units for a request from its own stock,
+ * issuing the first to expire among every type the patient can receive
+ */
+export const fulfilFromStock = async (bloodRequest, hospital, units) => {
+  assertOpen(bloodRequest);
+
+  if (!bloodRequest.acceptedHospitals.some(id => id.equals(hospital._id))) {
+    throw changeError('Only hospitals that accepted this request can provide units for it', 403);
+  }
+  // A drive restocks the hospital's own shelves; only recorded donations count toward it
+  if (bloodRequest.source === 'drive') {
+    throw changeError('Donor drives are filled by recorded donations, not from stock');
+  }
+  if (units > bloodRequest.unitsRemaining) {
+    throw changeError(`Only ${bloodRequest.unitsRemaining} more units are needed for this request`);
+  }
+  // Stock goes out whether or not the hospital is taking new requests right now
+  const available = await BloodUnit.countAvailable(
+    hospital._id,
+    compatibleDonorTypes(bloodRequest.bloodType, bloodRequest.donationType),
+    COMPONENTS_FOR_DONATION_TYPE[bloodRequest.donationType]
+  );
+  if (available < units) {
+    throw changeError(`Not enough compatible units in stock for ${units} units of ${bloodRequest.bloodType}`);
+  }
+
+  // Set aside first, so the units go back on the shelf if the request no longer needs them
+  const reserved = await inventoryService.issueUnits(hospital, {
+    bloodType: compatibleDonorTypes(bloodRequest.bloodType, bloodRequest.donationType),
+    components: COMPONENTS_FOR_DONATION_TYPE[bloodRequest.donationType],
+    units,
+    requestId: bloodRequest._id,
+    status: 'reserved'
+  });
+
+  let updated;
+  try {
+    updated = await recordFulfilment(bloodRequest, { hospitalId: hospital._id, source: 'stock', units });
+  } catch (error) {
+    for (const unit of reserved) {
+      await inventoryService.updateUnitStatus(hospital, unit._id, { status: 'available' });
+    }
+    throw error;
+  }
+
+  const issued = [];
+  for (const unit of reserved) {
+    issued.push(await inventoryService.updateUnitStatus(hospital, unit._id, { status: 'issued', requestId: bloodRequest._id }));
+  }
+
+  await announceFulfilment(updated, { hospitalId: hospital._id, source: 'stock', units });
+  return { bloodRequest: updated, units: issued };
+};
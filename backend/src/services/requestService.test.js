@@ -0,0 +1,167 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import BloodRequest from '../models/BloodRequest.js';
+import BloodUnit from '../models/BloodUnit.js';
+import Hospital from '../models/Hospital.js';
+import { inventoryService } from './inventoryService.js';
+import { createBloodRequest, fulfilFromStock, recordFulfilment } from './requestService.js';
+
+const hospital = new Hospital({ name: 'City Hospital' });
+
+const openRequest = (overrides = {}) => new BloodRequest({
+  requesterName: 'Ramesh Kumar',
+  requesterPhone: '+919876543210',
+  bloodType: 'A+',
+  urgency: 'urgent',
+  status: 'accepted',
+  unitsRequired: 3,
+  unitsFulfilled: 0,
+  acceptedHospitals: [hospital._id],
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides
+});
+
+// What the atomic update returns: the request with the units added
+const afterUpdate = (request, units) => {
+  const updated = openRequest({ _id: request._id, unitsRequired: request.unitsRequired, unitsFulfilled: request.unitsFulfilled + units });
+  jest.spyOn(updated, 'save').mockResolvedValue(updated);
+  return updated;
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createBloodRequest', () => {
+  test('answers a replayed request with the original and the nearby hospitals\' estimate', async () => {
+    const request = openRequest({ location: { type: 'Point', coordinates: [77.2, 28.6] }, idempotencyKey: 'queued-1' });
+    const nearby = new Hospital({ name: 'City Hospital', averageResponseTime: 20 });
+    jest.spyOn(nearby, 'calculateDistance').mockReturnValue(0);
+    jest.spyOn(BloodRequest, 'findOne').mockResolvedValue(request);
+    jest.spyOn(Hospital, 'findNearby').mockResolvedValue([nearby]);
+    const save = jest.spyOn(request, 'save');
+
+    const result = await createBloodRequest({ idempotencyKey: 'queued-1' });
+
+    expect(result.replayed).toBe(true);
+    expect(result.bloodRequest).toBe(request);
+    expect(result.nearbyHospitals).toHaveLength(1);
+    expect(result.estimatedResponseTime).toBeGreaterThanOrEqual(20);
+    expect(save).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordFulfilment', () => {
+  test('adds the units in one conditional update', async () => {
+    const request = openRequest();
+    const findOneAndUpdate = jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(afterUpdate(request, 2));
+
+    const updated = await recordFulfilment(request, { hospitalId: hospital._id, source: 'stock', units: 2 });
+
+    const [filter, update] = findOneAndUpdate.mock.calls[0];
+    expect(filter._id).toBe(request._id);
+    expect(filter.status).toEqual({ $in: ['pending', 'accepted'] });
+    expect(filter.$expr).toBeDefined();
+    expect(update.$inc).toEqual({ unitsFulfilled: 2 });
+    expect(update.$push.fulfilments).toMatchObject({ hospitalId: hospital._id, source: 'stock', units: 2 });
+    expect(updated.unitsFulfilled).toBe(2);
+    expect(updated.status).toBe('accepted');
+    expect(updated.save).not.toHaveBeenCalled();
+  });
+
+  test('completes the request with its last unit', async () => {
+    const request = openRequest({ unitsFulfilled: 2 });
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(afterUpdate(request, 1));
+
+    const updated = await recordFulfilment(request, { hospitalId: hospital._id, source: 'donation' });
+
+    expect(updated.status).toBe('completed');
+    expect(updated.nextEscalationAt).toBeNull();
+    expect(updated.save).toHaveBeenCalled();
+  });
+
+  test('refuses more units than the request still needs', async () => {
+    const findOneAndUpdate = jest.spyOn(BloodRequest, 'findOneAndUpdate');
+
+    await expect(recordFulfilment(openRequest({ unitsFulfilled: 2 }), { hospitalId: hospital._id, source: 'stock', units: 2 }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'Only 1 more units are needed for this request' });
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  test('refuses closed requests', async () => {
+    await expect(recordFulfilment(openRequest({ status: 'cancelled' }), { hospitalId: hospital._id, source: 'stock' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('fails when another hospital filled the request first', async () => {
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(recordFulfilment(openRequest(), { hospitalId: hospital._id, source: 'stock' }))
+      .rejects.toMatchObject({ statusCode: 409, message: expect.stringContaining('no longer needs') });
+  });
+});
+
+describe('fulfilFromStock', () => {
+  const units = [{ _id: new mongoose.Types.ObjectId() }, { _id: new mongoose.Types.ObjectId() }];
+
+  beforeEach(() => {
+    jest.spyOn(BloodUnit, 'countAvailable').mockResolvedValue(5);
+    jest.spyOn(inventoryService, 'issueUnits').mockResolvedValue(units);
+    jest.spyOn(inventoryService, 'updateUnitStatus').mockImplementation(async (_hospital, unitId, { status }) => ({ _id: unitId, status }));
+  });
+
+  test('reserves compatible units, records them and then issues them', async () => {
+    const request = openRequest();
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(afterUpdate(request, 2));
+
+    const result = await fulfilFromStock(request, hospital, 2);
+
+    expect(inventoryService.issueUnits).toHaveBeenCalledWith(hospital, expect.objectContaining({
+      bloodType: ['A+', 'A-', 'O+', 'O-'],
+      units: 2,
+      requestId: request._id,
+      status: 'reserved'
+    }));
+    expect(result.bloodRequest.unitsFulfilled).toBe(2);
+    expect(result.units.map(unit => unit.status)).toEqual(['issued', 'issued']);
+  });
+
+  test('puts the units back when the request no longer needs them', async () => {
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(fulfilFromStock(openRequest(), hospital, 2)).rejects.toMatchObject({ statusCode: 409 });
+
+    const statuses = inventoryService.updateUnitStatus.mock.calls.map(([, , change]) => change.status);
+    expect(statuses).toEqual(['available', 'available']);
+  });
+
+  test('only lets hospitals that accepted the request provide units', async () => {
+    const other = new Hospital({ name: 'Other Hospital' });
+
+    await expect(fulfilFromStock(openRequest(), other, 1)).rejects.toMatchObject({ statusCode: 403 });
+    expect(inventoryService.issueUnits).not.toHaveBeenCalled();
+  });
+
+  test('hands out stock from a hospital that is outside its opening hours', async () => {
+    const closed = new Hospital({ name: 'Night Clinic' });
+    jest.spyOn(closed, 'isOpen').mockReturnValue(false);
+    const request = openRequest({ acceptedHospitals: [closed._id] });
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockResolvedValue(afterUpdate(request, 2));
+
+    const result = await fulfilFromStock(request, closed, 2);
+
+    expect(result.units).toHaveLength(2);
+  });
+
+  test('leaves donor drives to recorded donations', async () => {
+    await expect(fulfilFromStock(openRequest({ source: 'drive' }), hospital, 1)).rejects.toMatchObject({ statusCode: 409 });
+    expect(inventoryService.issueUnits).not.toHaveBeenCalled();
+  });
+
+  test('refuses when the hospital does not hold enough compatible units', async () => {
+    BloodUnit.countAvailable.mockResolvedValue(1);
+
+    await expect(fulfilFromStock(openRequest(), hospital, 2)).rejects.toMatchObject({ statusCode: 409 });
+    expect(inventoryService.issueUnits).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,207 @@
+import twilio from 'twilio';
+import { mailService } from './mailService.js';
+
+/**
+ * Sends SMS through Twilio
+ */
+class TwilioGateway {
+  constructor({ accountSid, authToken, fromNumber }) {
+    this.client = twilio(accountSid, authToken);
+    this.authToken = authToken;
+    this.fromNumber = fromNumber;
+    this.name = 'twilio';
+  }
+
+  async send(to, body) {
+    const message = await this.client.messages.create({
+      to,
+      from: this.fromNumber,
+      body
+    });
+
+    return { id: message.sid, status: message.status };
+  }
+
+  validateWebhook(signature, url, params) {
+    return twilio.validateRequest(this.authToken, signature || '', url, params);
+  }
+}
+
+/**
+ * Local stand-in for Twilio: keeps outbound messages in memory so they can be
+ * inspected through /api/sms/fake/outbox during development and testing
+ */
+class FakeGateway {
+  constructor() {
+    this.outbox = [];
+    this.maxMessages = 200;
+    this.name = 'fake';
+  }
+
+  async send(to, body) {
+    const message = {
+      id: `FAKE${Date.now().toString(36).toUpperCase()}${this.outbox.length}`,
+      to,
+      body,
+      status: 'delivered',
+      sentAt: new Date()
+    };
+
+    this.outbox.push(message);
+    if (this.outbox.length > this.maxMessages) {
+      this.outbox.shift();
+    }
+
+    console.log(`[fake-sms] -> ${to}: ${body}`);
+    return { id: message.id, status: message.status };
+  }
+
+  validateWebhook() {
+    return true;
+  }
+
+  getOutbox(to) {
+    return to ? this.outbox.filter(message => message.to === to) : [...this.outbox];
+  }
+
+  clearOutbox() {
+    this.outbox = [];
+  }
+}
+
+class SMSService {
+  constructor() {
+    this.gateway = null;
+
+    this.statusMessages = {
+      accepted: (request, hospital) =>
+        `OneBlood: ${hospital ? hospital.name : 'A hospital'} has accepted your ${request.bloodType} blood request` +
+        `${hospital && hospital.phone ? `. Call ${hospital.phone}` : ''}. Ref ${request._id}`,
+      completed: (request) =>
+        `OneBlood: Your ${request.bloodType} blood request is complete. Ref ${request._id}`,
+      cancelled: (request) =>
+        `OneBlood: Your ${request.bloodType} blood request was closed` +
+        `${request.isExpired() ? ' after it expired' : ''}. Reply BLOOD to send a new one. Ref ${request._id}`
+    };
+
+    // Changes to a request, for donors who have said they will come
+    this.requestChangeMessages = {
+      cancelled: (request) =>
+        `OneBlood: The ${request.bloodType} blood request you agreed to help with has been cancelled by the requester. ` +
+        `Thank you - you do not need to come. Ref ${request._id}`,
+      edited: (request) =>
+        `OneBlood: The ${request.bloodType} blood request you agreed to help with has been updated. ` +
+        `Open the OneBlood app for details. Ref ${request._id}`,
+      fulfilled: (request) =>
+        `OneBlood: The ${request.bloodType} blood request you agreed to help with now has all the blood it needs. ` +
+        `Thank you - you do not need to come. Ref ${request._id}`,
+      removed: (request) =>
+        `OneBlood: The blood request you agreed to help with now needs ${request.bloodType}, which your blood type cannot give. ` +
+        `Thank you - you do not need to come. Ref ${request._id}`
+    };
+
+    // Progress of a donor who said yes, for the requester waiting on them
+    this.donorMessages = {
+      en_route: (request, match) =>
+        `OneBlood: A donor is on the way for your ${request.bloodType} request` +
+        `${match.etaMinutes != null ? `, about ${match.etaMinutes} min away` : ''}. Ref ${request._id}`,
+      arrived: (request) =>
+        `OneBlood: A donor for your ${request.bloodType} request has arrived at the hospital. Ref ${request._id}`
+    };
+  }
+
+  /**
+   * Pick the gateway on first use so dotenv has already been loaded
+   */
+  getGateway() {
+    if (this.gateway) return this.gateway;
+
+    const provider = process.env.SMS_PROVIDER ||
+      (process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_ACCOUNT_SID.startsWith('AC') ? 'twilio' : 'fake');
+
+    if (provider === 'twilio') {
+      this.gateway = new TwilioGateway({
+        accountSid: process.env.TWILIO_ACCOUNT_SID,
+        authToken: process.env.TWILIO_AUTH_TOKEN,
+        fromNumber: process.env.TWILIO_PHONE_NUMBER
+      });
+    } else {
+      this.gateway = new FakeGateway();
+    }
+
+    console.log(`SMS gateway: ${this.gateway.name}`);
+    return this.gateway;
+  }
+
+  isFake() {
+    return this.getGateway().name === 'fake';
+  }
+
+  /**
+   * Send an SMS, never throwing - SMS failures must not break request handling
+   */
+  async send(to, body) {
+    try {
+      const result = await this.getGateway().send(to, body);
+      return { success: true, ...result };
+    } catch (error) {
+      console.error(`Error sending SMS to ${to}:`, error.message);
+      return { success: false, error: error.message };
+    }
+  }
+
+  validateWebhook(signature, url, params) {
+    return this.getGateway().validateWebhook(signature, url, params);
+  }
+
+  /**
+   * Tell an SMS requester that their request changed status
+   */
+  async sendStatusUpdate(request, hospital = null) {
+    if (request.source !== 'sms') return null;
+
+    const buildMessage = this.statusMessages[request.status];
+    if (!buildMessage) return null;
+
+    return this.send(request.requesterPhone, buildMessage(request, hospital));
+  }
+
+  /**
+   * Tell a donor who said yes that the request changed, was cancelled or no longer needs them
+   */
+  async sendRequestChange(donor, request, action) {
+    const buildMessage = this.requestChangeMessages[action];
+    if (!buildMessage || !donor.phone) return null;
+
+    return this.send(donor.phone, buildMessage(request));
+  }
+
+  /**
+   * Send the requester the link and PIN for the tracking page
+   */
+  async sendTrackingPin(request, pin) {
+    if (request.source === 'drive') return null;
+
+    return this.send(
+      request.requesterPhone,
+      `OneBlood: Follow your ${request.bloodType} blood request live at ${mailService.buildUrl(`/track/${request._id}`)} ` +
+        `with PIN ${pin}. Do not share it with anyone.`
+    );
+  }
+
+  /**
+   * Tell a requester that a donor is on the way or has arrived. Donor drives
+   * are raised by the hospital itself, so nobody is waiting on an SMS.
+   */
+  async sendDonorUpdate(request, match) {
+    if (request.source === 'drive') return null;
+
+    const buildMessage = this.donorMessages[match.response];
+    if (!buildMessage) return null;
+
+    return this.send(request.requesterPhone, buildMessage(request, match));
+  }
+}
+
+export const smsService = new SMSService();
+export default SMSService;
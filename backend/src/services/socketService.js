@@ -3,12 +3,33 @@ import jwt from 'jsonwebtoken';
 import BloodRequest from '../models/BloodRequest.js';
 import Hospital from '../models/Hospital.js';
 import Donor from '../models/Donor.js';
+import HospitalStaff from '../models/HospitalStaff.js';
+import { smsService } from './smsService.js';
+import { notificationDispatcher } from './notificationService.js';
+import { tokenService } from './tokenService.js';
+import { inventoryService } from './inventoryService.js';
+import { stockAlertService } from './stockAlertService.js';
+import { transferService } from './transferService.js';
+import {
+  createBloodRequest,
+  escalateDueRequests,
+  setSocketServer as setRequestSocketServer
+} from './requestService.js';
+import { donorResponseService } from './donorResponseService.js';
+import { trackingService } from './trackingService.js';
 
 const connectedHospitals = new Map(); // hospitalId -> socketId
 const connectedDonors = new Map(); // donorId -> socketId
 const hospitalRooms = new Map(); // hospitalId -> Set of socketIds
 
 export const initializeSocket = (io) => {
+  // In-app donor alerts, new request alerts, donor progress and transfer updates go out through this server
+  notificationDispatcher.setSocketServer(io);
+  transferService.setSocketServer(io);
+  donorResponseService.setSocketServer(io);
+  trackingService.setSocketServer(io);
+  setRequestSocketServer(io);
+
   // Authentication middleware
   io.use(async (socket, next) => {
     try {
@@ -20,13 +41,35 @@ export const initializeSocket = (io) => {
 
       const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
 
+      // Requesters on the tracking page hold a token for one request, not a login session
+      if (decoded.type === 'tracking') {
+        socket.userType = 'tracking';
+        socket.userId = decoded.requestId;
+        return next();
+      }
+
+      // Tokens belong to a login session that may have been logged out or revoked
+      if (!decoded.sid || !(await tokenService.isSessionActive(decoded.sid))) {
+        return next(new Error('Session expired'));
+      }
+
       if (decoded.type === 'hospital') {
         const hospital = await Hospital.findById(decoded.id);
         if (!hospital || !hospital.verified) {
           return next(new Error('Invalid or unverified hospital'));
         }
+
+        let staff = null;
+        if (decoded.staffId) {
+          staff = await HospitalStaff.findById(decoded.staffId);
+          if (!staff || staff.status !== 'active' || !staff.hospitalId.equals(hospital._id)) {
+            return next(new Error('Staff account is not active'));
+          }
+        }
+
         socket.hospitalId = hospital._id.toString();
         socket.hospitalData = hospital;
+        socket.hospitalRole = staff ? staff.role : 'admin';
       } else if (decoded.type === 'donor') {
         const donor = await Donor.findById(decoded.id);
         if (!donor) {
@@ -49,6 +92,12 @@ export const initializeSocket = (io) => {
   io.on('connection', (socket) => {
     console.log(`User connected: ${socket.userId} (${socket.userType})`);
 
+    // Tracking sockets only listen, so none of the handlers below are registered
+    if (socket.userType === 'tracking') {
+      handleTrackingConnection(socket);
+      return;
+    }
+
     // Handle hospital joining dashboard
     if (socket.userType === 'hospital') {
       handleHospitalConnection(socket, io);
@@ -94,6 +143,16 @@ export const initializeSocket = (io) => {
   schedulePeriodicTasks(io);
 };
 
+const handleTrackingConnection = async (socket) => {
+  socket.join(`tracking_${socket.userId}`);
+
+  try {
+    socket.emit('tracking_update', await trackingService.getTracking(socket.userId));
+  } catch (error) {
+    console.error('Error sending request tracking:', error);
+  }
+};
+
 const handleHospitalConnection = (socket, io) => {
   const hospitalId = socket.hospitalId;
 
@@ -141,75 +200,52 @@ const handleDisconnection = (socket) => {
 
 const handleEmergencyRequest = async (socket, data, io) => {
   try {
-    const { requesterPhone, requesterName, location, bloodType, urgency, patientCondition } = data;
-
-    // Create blood request
-    const bloodRequest = new BloodRequest({
+    const {
       requesterPhone,
       requesterName,
-      location: {
-        type: 'Point',
-        coordinates: [location.lng, location.lat]
-      },
+      location,
       bloodType,
-      urgency: urgency || 'normal',
-      patientCondition
-    });
-
-    await bloodRequest.save();
-
-    // Find nearby hospitals
-    const nearbyHospitals = await Hospital.findNearby(
-      location.lat,
-      location.lng,
-      50, // 50km radius
-      true // verified only
-    );
+      urgency,
+      donationType,
+      patientCondition,
+      unitsRequired,
+      idempotencyKey
+    } = data;
 
-    // Broadcast to nearby hospitals
-    const requestCluster = getLocationCluster([location.lng, location.lat]);
+    if (!location || typeof location.lat !== 'number' || typeof location.lng !== 'number') {
+      return socket.emit('error', { message: 'A valid location is required' });
+    }
 
-    io.to(`hospital_cluster_${requestCluster}`).emit('new_request', {
-      requestId: bloodRequest._id,
+    // Same intake as the REST and SMS channels: matching, donor and hospital alerts
+    const { bloodRequest, replayed } = await createBloodRequest({
       requesterPhone,
       requesterName,
       location,
       bloodType,
       urgency,
+      donationType,
       patientCondition,
-      createdAt: bloodRequest.createdAt,
-      distance: 'calculating...',
-      estimatedResponseTime: '15 minutes'
-    });
-
-    // Find matching donors
-    const matchingDonors = await Donor.findNearbyEligible(
-      location.lat,
-      location.lng,
-      bloodType,
-      30 // 30km radius
-    );
-
-    // Notify matching donors
-    matchingDonors.forEach(donor => {
-      io.to(`donor_${donor._id}`).emit('blood_needed', {
-        requestId: bloodRequest._id,
-        location,
-        bloodType,
-        urgency,
-        estimatedTime: '30 minutes'
-      });
+      unitsRequired,
+      idempotencyKey,
+      source: 'socket'
     });
 
     // Acknowledge request creation
     socket.emit('request_created', {
       requestId: bloodRequest._id,
-      status: 'pending',
-      message: 'Request sent to nearby hospitals and donors'
+      status: bloodRequest.status,
+      replayed,
+      message: replayed ? 'Blood request already received' : 'Request sent to nearby hospitals and donors'
     });
 
-    console.log(`Emergency request created: ${bloodRequest._id}`);
+    if (!replayed) {
+      console.log(`Emergency request created: ${bloodRequest._id}`);
+    }
   } catch (error) {
+    if (error.statusCode) {
+      return socket.emit('error', { message: error.message });
+    }
+
     console.error('Error handling emergency request:', error);
     socket.emit('error', { message: 'Failed to create emergency request' });
   }
@@ -220,20 +256,35 @@ const handleAcceptRequest = async (socket, data, io) => {
     const { requestId } = data;
     const hospitalId = socket.hospitalId;
 
+    if (socket.userType !== 'hospital') {
+      return socket.emit('error', { message: 'Only hospitals can accept requests' });
+    }
+
+    if (!HospitalStaff.roleHasPermission(socket.hospitalRole, 'requests:accept')) {
+      return socket.emit('error', { message: 'Your role does not allow accepting requests' });
+    }
+
     // Update request
     const request = await BloodRequest.findById(requestId);
     if (!request) {
       return socket.emit('error', { message: 'Request not found' });
     }
 
-    // Add hospital to accepted list
-    if (!request.acceptedHospitals.includes(hospitalId)) {
-      request.acceptedHospitals.push(hospitalId);
-      request.hospitalId = hospitalId;
-      request.status = 'accepted';
-      await request.save();
+    // A repeated accept must not count toward the hospital's statistics again
+    if (request.acceptedHospitals.some(id => id.equals(hospitalId))) {
+      return socket.emit('error', { message: 'Hospital has already accepted this request' });
+    }
+
+    if (!request.isOpenToHospitals()) {
+      return socket.emit('error', { message: 'Request is no longer available for acceptance' });
     }
 
+    // Add hospital to accepted list; the first hospital to accept stays in charge
+    request.acceptedHospitals.push(hospitalId);
+    request.hospitalId = request.hospitalId || hospitalId;
+    request.status = 'accepted';
+    await request.save();
+
     // Update hospital statistics
     const hospital = await Hospital.findById(hospitalId);
     if (hospital) {
@@ -241,8 +292,9 @@ const handleAcceptRequest = async (socket, data, io) => {
       await hospital.save();
     }
 
-    // Notify requester (via SMS in real implementation)
-    // For now, emit to the original requester if connected
+    // Notify requester by SMS if they asked over SMS, and on the tracking page
+    smsService.sendStatusUpdate(request, hospital);
+    trackingService.publish(request._id);
 
     // Notify matched donors
     request.matchedDonors.forEach(matchedDonor => {
@@ -270,64 +322,35 @@ const handleAcceptRequest = async (socket, data, io) => {
 const handleDonorResponse = async (socket, data, io) => {
   try {
     const { requestId, response } = data;
-    const donorId = socket.donorId;
 
-    const request = await BloodRequest.findById(requestId);
-    if (!request) {
-      return socket.emit('error', { message: 'Request not found' });
+    if (socket.userType !== 'donor') {
+      return socket.emit('error', { message: 'Only donors can respond to requests' });
     }
 
-    // Update or add donor response
-    const existingMatch = request.matchedDonors.find(
-      match => match.donorId.toString() === donorId
-    );
-
-    if (existingMatch) {
-      existingMatch.response = response;
-      existingMatch.contactedAt = new Date();
-    } else {
-      request.matchedDonors.push({
-        donorId,
-        matchScore: 0.8, // Calculate actual score
-        contactedAt: new Date(),
-        response
-      });
+    if (!['accepted', 'declined', 'en_route', 'arrived'].includes(response)) {
+      return socket.emit('error', { message: 'Invalid response' });
     }
 
-    await request.save();
-
-    // Update donor response history
-    const donor = await Donor.findById(donorId);
-    if (donor) {
-      donor.responseHistory.push({
-        requestId,
-        responded: response === 'accepted',
-        responseTime: 5 // Calculate actual response time
-      });
-      await donor.save();
+    const donor = await Donor.findById(socket.donorId);
+    if (!donor) {
+      return socket.emit('error', { message: 'Donor not found' });
     }
 
-    // Notify hospital if there's an accepting hospital
-    if (request.hospitalId) {
-      io.to(`hospital_${request.hospitalId}`).emit('donor_responded', {
-        requestId,
-        donorId,
-        donorName: donor.name,
-        bloodType: donor.bloodType,
-        response,
-        estimatedArrival: '25 minutes'
-      });
-    }
+    const { match } = await donorResponseService.respond(donor, requestId, response);
 
     // Acknowledge response
     socket.emit('response_recorded', {
       requestId,
       response,
-      message: 'Your response has been recorded'
+      etaMinutes: match.etaMinutes ?? null
     });
 
-    console.log(`Donor ${donorId} responded ${response} to request ${requestId}`);
+    console.log(`Donor ${donor._id} responded ${response} to request ${requestId}`);
   } catch (error) {
+    if (error.statusCode) {
+      return socket.emit('error', { message: error.message });
+    }
+
     console.error('Error handling donor response:', error);
     socket.emit('error', { message: 'Failed to record response' });
   }
@@ -338,9 +361,14 @@ const handleLocationUpdate = async (socket, data, io) => {
     const { location } = data;
 
     if (socket.userType === 'donor') {
-      await Donor.findByIdAndUpdate(socket.donorId, {
+      const donor = await Donor.findByIdAndUpdate(socket.donorId, {
         'location.coordinates': [location.lng, location.lat]
-      });
+      }, { new: true });
+
+      // Donors on their way share their position and arrival estimate
+      if (donor) {
+        await donorResponseService.updateLocation(donor, location);
+      }
 
       // Update donor's cluster room
       const newCluster = getLocationCluster([location.lng, location.lat]);
@@ -412,6 +440,9 @@ const schedulePeriodicTasks = (io) => {
         request.status = 'cancelled';
         await request.save();
 
+        smsService.sendStatusUpdate(request);
+        trackingService.publish(request._id);
+
         // Notify relevant parties
         if (request.hospitalId) {
           io.to(`hospital_${request.hospitalId}`).emit('request_expired', {
@@ -433,6 +464,44 @@ const schedulePeriodicTasks = (io) => {
       console.error('Error cleaning up expired requests:', error);
     }
   }, 5 * 60 * 1000); // Every 5 minutes
+
+  // Discard expired blood units every hour
+  setInterval(async () => {
+    try {
+      const hospitals = await inventoryService.discardExpiredUnits();
+
+      for (const hospital of hospitals) {
+        io.to(`hospital_${hospital._id}`).emit('inventory_updated', {
+          bloodStock: hospital.bloodStock,
+          totalStock: hospital.getTotalBloodStock()
+        });
+      }
+    } catch (error) {
+      console.error('Error discarding expired blood units:', error);
+    }
+  }, 60 * 60 * 1000); // Every hour
+
+  // Warn blood banks about low stock and units about to expire every 15 minutes
+  setInterval(async () => {
+    try {
+      const alerts = await stockAlertService.checkAllHospitals();
+
+      for (const alert of alerts) {
+        io.to(`hospital_${alert.hospitalId}`).emit('stock_alert', alert);
+      }
+    } catch (error) {
+      console.error('Error checking blood stock levels:', error);
+    }
+  }, 15 * 60 * 1000); // Every 15 minutes
+
+  // Widen the search for requests nobody has answered every minute
+  setInterval(async () => {
+    try {
+      await escalateDueRequests();
+    } catch (error) {
+      console.error('Error escalating unanswered requests:', error);
+    }
+  }, 60 * 1000); // Every minute
 };
 
 export { connectedHospitals, connectedDonors };
\ No newline at end of file
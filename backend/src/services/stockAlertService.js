@@ -0,0 +1,182 @@
+import Hospital from '../models/Hospital.js';
+import BloodUnit from '../models/BloodUnit.js';
+import BloodRequest, { MAX_UNITS_PER_REQUEST } from '../models/BloodRequest.js';
+import { aiMatcher } from './aiMatcher.js';
+import { notificationDispatcher } from './notificationService.js';
+import { mailService } from './mailService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class StockAlertService {
+  constructor() {
+    // Donor drives stay open longer than patient requests
+    this.driveDurationDays = 3;
+  }
+
+  /**
+   * Check one hospital's stock. Alerts once when a type first falls below its
+   * threshold and once per unit about to expire, and starts donor drives for
+   * newly low types if the hospital has opted in. Returns null when there is
+   * nothing new to report.
+   */
+  async checkHospital(hospital) {
+    const lowTypes = hospital.getLowStockTypes();
+    const newlyLow = lowTypes.filter(bloodType => !hospital.lowStockAlerted.includes(bloodType));
+
+    const expiring = await BloodUnit.findExpiringSoon(hospital._id, hospital.settings.expiryAlertDays || 3)
+      .where({ expiryAlertedAt: null });
+
+    const lowStockChanged = lowTypes.length !== hospital.lowStockAlerted.length || newlyLow.length > 0;
+    if (lowStockChanged) {
+      // Types that recovered drop out, so a later shortage alerts again
+      hospital.lowStockAlerted = lowTypes;
+      await hospital.save();
+    }
+
+    if (newlyLow.length === 0 && expiring.length === 0) {
+      return null;
+    }
+
+    if (expiring.length > 0) {
+      await BloodUnit.updateMany(
+        { _id: { $in: expiring.map(unit => unit._id) } },
+        { $set: { expiryAlertedAt: new Date() } }
+      );
+    }
+
+    const lowStock = [];
+    for (const bloodType of newlyLow) {
+      const drive = hospital.settings.autoDonorDrive
+        ? await this.startDonorDrive(hospital, bloodType).catch(error => {
+          console.error(`Error starting ${bloodType} donor drive for hospital ${hospital._id}:`, error);
+          return null;
+        })
+        : null;
+
+      lowStock.push({
+        bloodType,
+        current: hospital.bloodStock[bloodType],
+        threshold: hospital.settings.stockThresholds[bloodType],
+        driveRequestId: drive ? drive.bloodRequest._id : null,
+        donorsNotified: drive ? drive.matchedDonors.length : 0
+      });
+    }
+
+    const alert = {
+      hospitalId: hospital._id,
+      lowStock,
+      expiring: expiring.map(unit => ({
+        id: unit._id,
+        bagId: unit.bagId,
+        component: unit.component,
+        bloodType: unit.bloodType,
+        expiresAt: unit.expiresAt
+      }))
+    };
+
+    await this.sendAlertEmail(hospital, alert);
+    return alert;
+  }
+
+  /**
+   * Raise a normal-urgency request at the hospital and alert nearby donors whose
+   * blood the patients of that type can take. Reuses an open drive for the type.
+   */
+  async startDonorDrive(hospital, bloodType) {
+    const openDrive = await BloodRequest.findOne({
+      hospitalId: hospital._id,
+      bloodType,
+      source: 'drive',
+      status: { $in: ['pending', 'accepted'] },
+      expiresAt: { $gt: new Date() }
+    });
+    if (openDrive) {
+      return { bloodRequest: openDrive, matchedDonors: [] };
+    }
+
+    // The drive stays open until the shortfall below the minimum has been donated
+    const shortfall = (hospital.settings.stockThresholds?.[bloodType] || 0) - (hospital.bloodStock[bloodType] || 0);
+
+    const bloodRequest = new BloodRequest({
+      requesterPhone: hospital.phone,
+      requesterName: hospital.name,
+      location: hospital.location,
+      bloodType,
+      urgency: 'normal',
+      patientCondition: `Blood bank donor drive: ${bloodType} stock is low`,
+      unitsRequired: Math.min(Math.max(shortfall, 1), MAX_UNITS_PER_REQUEST),
+      hospitalId: hospital._id,
+      status: 'accepted',
+      acceptedHospitals: [hospital._id],
+      source: 'drive',
+      expiresAt: new Date(Date.now() + this.driveDurationDays * DAY_MS)
+    });
+    await bloodRequest.save();
+
+    const matchedDonors = await aiMatcher.findMatchingDonors(bloodRequest);
+
+    bloodRequest.matchedDonors = matchedDonors.map(donor => ({
+      donorId: donor._id,
+      matchScore: donor.matchScore,
+      contactedAt: null,
+      response: 'pending'
+    }));
+    await bloodRequest.save();
+
+    notificationDispatcher.notifyDonorsForRequest(bloodRequest, matchedDonors).catch(error => {
+      console.error('Error notifying donors for drive:', error);
+    });
+
+    return { bloodRequest, matchedDonors };
+  }
+
+  async sendAlertEmail(hospital, alert) {
+    const lines = [];
+
+    if (alert.lowStock.length > 0) {
+      lines.push('Blood types below your minimum stock level:');
+      alert.lowStock.forEach(({ bloodType, current, threshold, driveRequestId }) => {
+        lines.push(`  ${bloodType}: ${current} units (minimum ${threshold})${driveRequestId ? ' - donor drive started' : ''}`);
+      });
+      lines.push('');
+    }
+
+    if (alert.expiring.length > 0) {
+      lines.push('Units about to expire:');
+      alert.expiring.forEach(({ bagId, component, bloodType, expiresAt }) => {
+        lines.push(`  ${bagId} ${bloodType} ${component.replace(/_/g, ' ')} - expires ${expiresAt.toDateString()}`);
+      });
+      lines.push('');
+    }
+
+    lines.push(`Review your inventory: ${mailService.buildUrl('/hospital-dashboard')}`);
+
+    return mailService.send({
+      to: hospital.email,
+      subject: `OneBlood stock alert for ${hospital.name}`,
+      text: lines.join('\n')
+    });
+  }
+
+  /**
+   * Check every verified hospital. Returns the alerts raised.
+   */
+  async checkAllHospitals() {
+    const hospitals = await Hospital.find({ verified: true });
+    const alerts = [];
+
+    for (const hospital of hospitals) {
+      try {
+        const alert = await this.checkHospital(hospital);
+        if (alert) alerts.push(alert);
+      } catch (error) {
+        console.error(`Error checking stock for hospital ${hospital._id}:`, error);
+      }
+    }
+
+    return alerts;
+  }
+}
+
+export const stockAlertService = new StockAlertService();
+export default StockAlertService;
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import Session from '../models/Session.js';
+
+class TokenService {
+  constructor() {
+    this.accessTokenTtl = 15 * 60; // 15 minutes, in seconds
+    this.refreshTokenTtl = 30 * 24 * 60 * 60 * 1000; // 30 days, in ms
+  }
+
+  getSecret() {
+    return process.env.JWT_SECRET || 'fallback_secret';
+  }
+
+  hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  signAccessToken(session) {
+    const payload = { id: session.subjectId, type: session.subjectType, sid: session._id };
+    if (session.staffId) {
+      payload.staffId = session.staffId;
+    }
+
+    return jwt.sign(
+      payload,
+      this.getSecret(),
+      { expiresIn: this.accessTokenTtl }
+    );
+  }
+
+  /**
+   * Refresh tokens are "<sessionId>.<random secret>"; only the secret's hash is stored
+   */
+  buildTokens(session, secret) {
+    return {
+      accessToken: this.signAccessToken(session),
+      refreshToken: `${session._id}.${secret}`,
+      expiresIn: this.accessTokenTtl,
+      refreshExpiresAt: session.expiresAt
+    };
+  }
+
+  parseRefreshToken(refreshToken) {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!secret || !/^[a-f\d]{24}$/i.test(sessionId)) {
+      return {};
+    }
+    return { sessionId, secret };
+  }
+
+  /**
+   * Start a new login session and issue its access/refresh token pair
+   */
+  async issueTokens(subjectId, subjectType, { userAgent, ip, staffId } = {}) {
+    const secret = crypto.randomBytes(32).toString('base64url');
+
+    const session = await Session.create({
+      subjectId,
+      subjectType,
+      staffId: staffId || null,
+      refreshTokenHash: this.hashToken(secret),
+      userAgent: userAgent ? userAgent.slice(0, 500) : undefined,
+      ip,
+      expiresAt: new Date(Date.now() + this.refreshTokenTtl)
+    });
+
+    return this.buildTokens(session, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. Each refresh token works once;
+   * presenting an old one again revokes the whole session since it was likely stolen.
+   */
+  async rotateRefreshToken(refreshToken, subjectType) {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      return null;
+    }
+
+    const session = await Session.findOne({ _id: sessionId, subjectType });
+    if (!session || !session.isActive()) {
+      return null;
+    }
+
+    if (session.refreshTokenHash !== this.hashToken(secret)) {
+      session.revokedAt = new Date();
+      session.revokedReason = 'refresh_reuse';
+      await session.save();
+      return null;
+    }
+
+    const nextSecret = crypto.randomBytes(32).toString('base64url');
+    session.refreshTokenHash = this.hashToken(nextSecret);
+    session.lastUsedAt = new Date();
+    await session.save();
+
+    return {
+      subjectId: session.subjectId,
+      tokens: this.buildTokens(session, nextSecret)
+    };
+  }
+
+  /**
+   * Verify an access token and make sure its session has not been revoked
+   */
+  async verifyAccessToken(token, subjectType) {
+    const decoded = jwt.verify(token, this.getSecret());
+
+    if (decoded.type !== subjectType || !decoded.sid) {
+      return null;
+    }
+
+    const active = await this.isSessionActive(decoded.sid);
+    return active ? decoded : null;
+  }
+
+  async isSessionActive(sessionId) {
+    const session = await Session.findById(sessionId);
+    return Boolean(session && session.isActive());
+  }
+
+  async revokeRefreshToken(refreshToken, subjectType, reason = 'logout') {
+    const { sessionId, secret } = this.parseRefreshToken(refreshToken);
+    if (!sessionId) {
+      return false;
+    }
+
+    const result = await Session.updateOne(
+      { _id: sessionId, subjectType, refreshTokenHash: this.hashToken(secret), revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * End every session of a user, e.g. "log out everywhere" or after a credential change
+   */
+  async revokeAllSessions(subjectId, subjectType, reason = 'logout') {
+    const result = await Session.updateMany(
+      { subjectId, subjectType, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  async revokeStaffSessions(staffId, reason = 'logout') {
+    const result = await Session.updateMany(
+      { staffId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    return result.modifiedCount;
+  }
+}
+
+export const tokenService = new TokenService();
+export default TokenService;
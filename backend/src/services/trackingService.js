@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import BloodRequest, { COMMITTED_DONOR_RESPONSES } from '../models/BloodRequest.js';
+import { otpService } from './otpService.js';
+
+const trackingError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/**
+ * Lets a requester follow and manage their request without an account. The PIN
+ * texted when the request was raised, or a one-time code sent to the same
+ * phone, is exchanged for a token scoped to that one request. The token opens
+ * the tracking page and its read-only socket room.
+ */
+class TrackingService {
+  constructor() {
+    this.io = null;
+    this.pinLength = 6;
+    this.maxPinAttempts = 5;
+    this.tokenTtl = 24 * 60 * 60; // 24 hours, in seconds
+  }
+
+  setSocketServer(io) {
+    this.io = io;
+  }
+
+  getSecret() {
+    return process.env.JWT_SECRET || 'fallback_secret';
+  }
+
+  generatePin() {
+    return crypto.randomInt(0, 10 ** this.pinLength).toString().padStart(this.pinLength, '0');
+  }
+
+  hashPin(requestId, pin) {
+    return crypto
+      .createHmac('sha256', this.getSecret())
+      .update(`${requestId}:${pin}`)
+      .digest('hex');
+  }
+
+  issueToken(request) {
+    return jwt.sign({ type: 'tracking', requestId: request._id }, this.getSecret(), { expiresIn: this.tokenTtl });
+  }
+
+  /**
+   * Check a PIN against the one sent for the request and issue a tracking token.
+   * Each guess uses up an attempt before it is checked, so parallel guesses
+   * cannot get past the limit; after that the PIN is locked for good.
+   */
+  async verifyPin(requestId, pin) {
+    const found = await BloodRequest.findById(requestId).select('+trackingPinHash');
+    if (!found || !found.trackingPinHash) {
+      throw trackingError('Request not found', 404);
+    }
+
+    const request = await BloodRequest.findOneAndUpdate(
+      { _id: found._id, trackingPinAttempts: { $not: { $gte: this.maxPinAttempts } } },
+      { $inc: { trackingPinAttempts: 1 } },
+      { new: true }
+    ).select('+trackingPinHash +trackingPinAttempts');
+    if (!request) {
+      throw trackingError('Too many incorrect PINs. Please get a code by SMS instead.', 423);
+    }
+
+    const expected = Buffer.from(request.trackingPinHash, 'hex');
+    const actual = Buffer.from(this.hashPin(request._id, pin), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      const attemptsLeft = this.maxPinAttempts - request.trackingPinAttempts;
+      throw trackingError(attemptsLeft > 0
+        ? `Incorrect PIN. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+        : 'Too many incorrect PINs. Please get a code by SMS instead.', attemptsLeft > 0 ? 401 : 423);
+    }
+
+    await BloodRequest.updateOne({ _id: request._id }, { $set: { trackingPinAttempts: 0 } });
+    return this.issueToken(request);
+  }
+
+  /**
+   * Text a one-time code to the request's phone, for requesters who lost the PIN
+   */
+  async sendCode(requestId) {
+    const request = await BloodRequest.findById(requestId).select('requesterPhone source');
+    if (!request || request.source === 'drive') {
+      throw trackingError('Request not found', 404);
+    }
+
+    const result = await otpService.sendCode(request.requesterPhone, 'request_access');
+    if (!result.sent && result.retryAfter) {
+      throw trackingError(`Please wait ${result.retryAfter} seconds before requesting another code`, 429);
+    }
+    if (!result.sent) {
+      throw trackingError(result.error || 'Could not send the code by SMS', 502);
+    }
+
+    return result;
+  }
+
+  async verifyCode(requestId, code) {
+    const request = await BloodRequest.findById(requestId).select('requesterPhone source');
+    if (!request || request.source === 'drive') {
+      throw trackingError('Request not found', 404);
+    }
+
+    const result = await otpService.verifyCode(request.requesterPhone, code, 'request_access');
+    if (!result.valid) {
+      throw trackingError(result.error, 401);
+    }
+
+    return this.issueToken(request);
+  }
+
+  /**
+   * The request ID a tracking token was issued for. Throws for anything else,
+   * including hospital and donor access tokens.
+   */
+  verifyToken(token) {
+    let decoded;
+    try {
+      decoded = jwt.verify(token || '', this.getSecret());
+    } catch {
+      throw trackingError('Tracking link expired. Please enter your PIN again.', 401);
+    }
+
+    if (decoded.type !== 'tracking' || !decoded.requestId) {
+      throw trackingError('Invalid tracking token', 401);
+    }
+    return decoded.requestId;
+  }
+
+  async getTracking(requestId) {
+    const request = await BloodRequest.findById(requestId).populate('hospitalId', 'name address phone location');
+    if (!request) {
+      throw trackingError('Request not found', 404);
+    }
+    return this.buildTracking(request);
+  }
+
+  /**
+   * What the requester may see: progress, never donor identities or positions
+   */
+  buildTracking(request) {
+    const hospital = request.hospitalId && request.hospitalId.name ? request.hospitalId : null;
+    const onTheWay = request.matchedDonors.filter(match => match.response === 'en_route');
+    const etas = onTheWay.map(match => match.etaMinutes).filter(eta => eta != null);
+
+    return {
+      requestId: request._id,
+      requesterName: request.requesterName,
+      patientCondition: request.patientCondition || '',
+      status: request.isExpired() && ['pending', 'accepted'].includes(request.status) ? 'cancelled' : request.status,
+      bloodType: request.bloodType,
+      urgency: request.urgency,
+      donationType: request.donationType,
+      hospital: hospital && {
+        name: hospital.name,
+        address: hospital.address,
+        phone: hospital.phone,
+        location: {
+          lat: hospital.location.coordinates[1],
+          lng: hospital.location.coordinates[0]
+        }
+      },
+      unitsRequired: request.unitsRequired || 1,
+      unitsFulfilled: request.unitsFulfilled || 0,
+      // Hospitals sharing a larger request, including the one shown above
+      hospitalsAccepted: request.acceptedHospitals.length,
+      donorsContacted: request.matchedDonors.length,
+      donorsResponded: request.matchedDonors.filter(match => COMMITTED_DONOR_RESPONSES.includes(match.response)).length,
+      donorsOnTheWay: onTheWay.length,
+      donorsArrived: request.matchedDonors.filter(match => ['arrived', 'donated'].includes(match.response)).length,
+      etaMinutes: etas.length > 0 ? Math.min(...etas) : null,
+      createdAt: request.createdAt,
+      updatedAt: request.updatedAt,
+      expiresAt: request.expiresAt
+    };
+  }
+
+  /**
+   * Push the latest progress to anyone tracking the request. Never throws, so
+   * callers can fire and forget.
+   */
+  async publish(requestId) {
+    if (!this.io) return;
+
+    try {
+      const tracking = await this.getTracking(requestId);
+      this.io.to(`tracking_${requestId}`).emit('tracking_update', tracking);
+    } catch (error) {
+      console.error(`Error publishing tracking for request ${requestId}:`, error);
+    }
+  }
+}
+
+export const trackingService = new TrackingService();
+export default TrackingService;
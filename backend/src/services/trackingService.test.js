@@ -0,0 +1,71 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import BloodRequest from '../models/BloodRequest.js';
+import { trackingService } from './trackingService.js';
+
+const requestId = new mongoose.Types.ObjectId();
+const PIN = '123456';
+
+// Mongoose queries are chained with .select() before they are awaited
+const query = (result) => ({ select: jest.fn().mockResolvedValue(result) });
+
+const storedRequest = (attempts) => ({
+  _id: requestId,
+  trackingPinHash: trackingService.hashPin(requestId, PIN),
+  trackingPinAttempts: attempts
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('verifyPin', () => {
+  beforeEach(() => {
+    jest.spyOn(BloodRequest, 'findById').mockReturnValue(query(storedRequest(0)));
+    jest.spyOn(BloodRequest, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  test('issues a tracking token for the right PIN and clears the misses', async () => {
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockReturnValue(query(storedRequest(3)));
+
+    const token = await trackingService.verifyPin(requestId, PIN);
+
+    expect(trackingService.verifyToken(token)).toBe(requestId.toString());
+    expect(BloodRequest.updateOne).toHaveBeenCalledWith({ _id: requestId }, { $set: { trackingPinAttempts: 0 } });
+  });
+
+  test('uses up an attempt before checking the PIN', async () => {
+    const findOneAndUpdate = jest.spyOn(BloodRequest, 'findOneAndUpdate').mockReturnValue(query(storedRequest(1)));
+
+    await expect(trackingService.verifyPin(requestId, '000000'))
+      .rejects.toMatchObject({ statusCode: 401, message: 'Incorrect PIN. 4 attempts left.' });
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: requestId, trackingPinAttempts: { $not: { $gte: trackingService.maxPinAttempts } } },
+      { $inc: { trackingPinAttempts: 1 } },
+      { new: true }
+    );
+    expect(BloodRequest.updateOne).not.toHaveBeenCalled();
+  });
+
+  test('locks the PIN on the last wrong guess', async () => {
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockReturnValue(query(storedRequest(trackingService.maxPinAttempts)));
+
+    await expect(trackingService.verifyPin(requestId, '000000'))
+      .rejects.toMatchObject({ statusCode: 423, message: expect.stringContaining('code by SMS') });
+  });
+
+  test('refuses even the right PIN once it is locked', async () => {
+    // No attempts left, so the conditional update matches nothing
+    jest.spyOn(BloodRequest, 'findOneAndUpdate').mockReturnValue(query(null));
+
+    await expect(trackingService.verifyPin(requestId, PIN)).rejects.toMatchObject({ statusCode: 423 });
+  });
+
+  test('does not say whether a request without a PIN exists', async () => {
+    BloodRequest.findById.mockReturnValue(query(null));
+    const findOneAndUpdate = jest.spyOn(BloodRequest, 'findOneAndUpdate');
+
+    await expect(trackingService.verifyPin(requestId, PIN)).rejects.toMatchObject({ statusCode: 404 });
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,310 @@
+import BloodTransfer from '../models/BloodTransfer.js';
+import BloodUnit, { COMPONENTS_FOR_DONATION_TYPE } from '../models/BloodUnit.js';
+import Hospital from '../models/Hospital.js';
+import { compatibleDonorTypes } from '../utils/bloodCompatibility.js';
+import { inventoryService } from './inventoryService.js';
+
+const transferError = (message, statusCode = 400) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+class TransferService {
+  constructor() {
+    this.io = null;
+  }
+
+  setSocketServer(io) {
+    this.io = io;
+  }
+
+  /**
+   * Donor types a patient of bloodType can receive for the component, most
+   * preferred first
+   */
+  getCompatibleTypes(bloodType, donationType) {
+    return compatibleDonorTypes(bloodType, donationType);
+  }
+
+  /**
+   * Nearby hospitals that share their stock and hold enough units of a type
+   * compatible with the patient. Each result lists the types it could send.
+   */
+  async findSuppliers(hospital, { bloodType, donationType = 'whole_blood', units = 1 }) {
+    const [lng, lat] = hospital.location.coordinates;
+    const nearby = await Hospital.findNearby(lat, lng, hospital.serviceRadius, true);
+    const partners = nearby.filter(partner =>
+      !partner._id.equals(hospital._id) && partner.settings.shareDataWithPartners
+    );
+
+    if (partners.length === 0) {
+      return [];
+    }
+
+    const compatibleTypes = this.getCompatibleTypes(bloodType, donationType);
+    const counts = await BloodUnit.aggregate([
+      {
+        $match: {
+          hospitalId: { $in: partners.map(partner => partner._id) },
+          bloodType: { $in: compatibleTypes },
+          component: { $in: COMPONENTS_FOR_DONATION_TYPE[donationType] },
+          status: 'available',
+          expiresAt: { $gt: new Date() }
+        }
+      },
+      { $group: { _id: { hospitalId: '$hospitalId', bloodType: '$bloodType' }, count: { $sum: 1 } } }
+    ]);
+
+    // findNearby returns the closest first, so the order is kept
+    return partners
+      .map(partner => ({
+        hospital: partner,
+        distance: Math.round(partner.calculateDistance(lat, lng) * 10) / 10,
+        options: compatibleTypes
+          .map(type => ({
+            bloodType: type,
+            available: counts.find(entry => entry._id.hospitalId.equals(partner._id) && entry._id.bloodType === type)?.count || 0
+          }))
+          .filter(option => option.available >= units)
+      }))
+      .filter(supplier => supplier.options.length > 0);
+  }
+
+  async createTransfer(hospital, { supplyingHospitalId, bloodType, patientBloodType, donationType, units, requestId, notes, requestedBy }) {
+    if (hospital._id.equals(supplyingHospitalId)) {
+      throw transferError('A hospital cannot request a transfer from itself');
+    }
+
+    const supplier = await Hospital.findById(supplyingHospitalId);
+    if (!supplier || !supplier.verified || !supplier.settings.shareDataWithPartners) {
+      throw transferError('Hospital is not accepting transfer requests', 404);
+    }
+
+    const patientType = patientBloodType || bloodType;
+    if (!this.getCompatibleTypes(patientType, donationType).includes(bloodType)) {
+      throw transferError(`${bloodType} blood is not compatible with a ${patientType} patient`);
+    }
+
+    const transfer = new BloodTransfer({
+      requestingHospitalId: hospital._id,
+      supplyingHospitalId: supplier._id,
+      bloodType,
+      patientBloodType: patientType,
+      donationType,
+      units,
+      requestId,
+      notes,
+      requestedBy
+    });
+    await transfer.save();
+
+    this.emitUpdate(transfer);
+    return transfer;
+  }
+
+  /**
+   * Load a transfer the hospital is a party to, checking it is in one of the
+   * expected states
+   */
+  async findTransfer(hospital, transferId, { side, statuses }) {
+    const transfer = await BloodTransfer.findById(transferId);
+    const sideId = transfer && (side === 'supplier' ? transfer.supplyingHospitalId : transfer.requestingHospitalId);
+
+    if (!transfer || !sideId.equals(hospital._id)) {
+      throw transferError('Transfer not found', 404);
+    }
+
+    if (!statuses.includes(transfer.status)) {
+      throw transferError(`Transfer is already ${transfer.status}`, 409);
+    }
+
+    return transfer;
+  }
+
+  /**
+   * Move a transfer on only if it is still in one of the expected states, so
+   * two people acting on it at once cannot both move it. Stock is only touched
+   * once this has succeeded.
+   */
+  async moveTransfer(transfer, statuses, update) {
+    const moved = await BloodTransfer.findOneAndUpdate(
+      { _id: transfer._id, status: { $in: statuses } },
+      update,
+      { new: true }
+    );
+    if (!moved) {
+      throw transferError('Transfer has just been updated by someone else', 409);
+    }
+    return moved;
+  }
+
+  /**
+   * Put units still reserved for a transfer back into the supplier's stock
+   */
+  async releaseUnits(transfer) {
+    const result = await BloodUnit.updateMany(
+      { transferId: transfer._id, status: 'reserved' },
+      {
+        $set: { status: 'available', transferId: null, updatedAt: new Date() },
+        $unset: { reservedAt: 1 }
+      }
+    );
+    if (result.modifiedCount === 0) {
+      return undefined;
+    }
+
+    const supplier = await Hospital.findById(transfer.supplyingHospitalId);
+    return supplier ? inventoryService.refreshStockSummary(supplier) : undefined;
+  }
+
+  /**
+   * Supplier accepts (setting units aside first-expiring-first-out) or rejects
+   */
+  async respond(hospital, transferId, { accept, reason }) {
+    const found = await this.findTransfer(hospital, transferId, { side: 'supplier', statuses: ['requested'] });
+
+    if (!accept) {
+      const transfer = await this.moveTransfer(found, ['requested'], {
+        $set: { status: 'rejected', rejectionReason: reason, respondedAt: new Date() }
+      });
+      this.emitUpdate(transfer);
+      return transfer;
+    }
+
+    let transfer = await this.moveTransfer(found, ['requested'], {
+      $set: { status: 'accepted', respondedAt: new Date() }
+    });
+
+    let reserved;
+    try {
+      reserved = await inventoryService.issueUnits(hospital, {
+        bloodType: transfer.bloodType,
+        components: COMPONENTS_FOR_DONATION_TYPE[transfer.donationType],
+        units: transfer.units,
+        transferId: transfer._id,
+        status: 'reserved'
+      });
+    } catch (error) {
+      // Not enough stock: the request stays open for the supplier to reject
+      await BloodTransfer.updateOne(
+        { _id: transfer._id, status: 'accepted' },
+        { $set: { status: 'requested' }, $unset: { respondedAt: 1 } }
+      );
+      throw error;
+    }
+
+    try {
+      // The requester may have cancelled while the units were being reserved
+      transfer = await this.moveTransfer(transfer, ['accepted'], {
+        $set: { unitIds: reserved.map(unit => unit._id) }
+      });
+    } catch (error) {
+      await this.releaseUnits(transfer);
+      throw error;
+    }
+
+    this.emitUpdate(transfer, { supplierStock: hospital.bloodStock });
+    return transfer;
+  }
+
+  /**
+   * Supplier sends the reserved units on their way. Units that expired while
+   * reserved have been discarded and are left behind.
+   */
+  async dispatch(hospital, transferId) {
+    const found = await this.findTransfer(hospital, transferId, { side: 'supplier', statuses: ['accepted'] });
+
+    const now = new Date();
+    const transfer = await this.moveTransfer(found, ['accepted'], {
+      $set: { status: 'dispatched', dispatchedAt: now }
+    });
+
+    const result = await BloodUnit.updateMany(
+      { _id: { $in: transfer.unitIds }, transferId: transfer._id, status: 'reserved' },
+      { $set: { status: 'issued', issuedAt: now, updatedAt: now } }
+    );
+    if (result.modifiedCount === 0) {
+      await BloodTransfer.updateOne(
+        { _id: transfer._id, status: 'dispatched' },
+        { $set: { status: 'accepted' }, $unset: { dispatchedAt: 1 } }
+      );
+      throw transferError('None of the reserved units are still usable', 409);
+    }
+
+    this.emitUpdate(transfer);
+    return transfer;
+  }
+
+  /**
+   * Requesting hospital takes delivery; the units join its stock under their
+   * original bag IDs and expiry dates
+   */
+  async receive(hospital, transferId) {
+    const found = await this.findTransfer(hospital, transferId, { side: 'requester', statuses: ['dispatched'] });
+
+    const transfer = await this.moveTransfer(found, ['dispatched'], {
+      $set: { status: 'received', receivedAt: new Date() }
+    });
+
+    const sent = await BloodUnit.find({ _id: { $in: transfer.unitIds }, transferId: transfer._id, status: 'issued' });
+    try {
+      await inventoryService.addUnits(hospital, sent.map(unit => ({
+        bagId: unit.bagId,
+        component: unit.component,
+        bloodType: unit.bloodType,
+        collectedAt: unit.collectedAt,
+        expiresAt: unit.expiresAt,
+        donationId: unit.donationId
+      })));
+    } catch (error) {
+      await BloodTransfer.updateOne(
+        { _id: transfer._id, status: 'received' },
+        { $set: { status: 'dispatched' }, $unset: { receivedAt: 1 } }
+      );
+      throw error;
+    }
+
+    this.emitUpdate(transfer, { requesterStock: hospital.bloodStock });
+    return transfer;
+  }
+
+  /**
+   * Requesting hospital withdraws before dispatch; reserved units go back to the supplier
+   */
+  async cancel(hospital, transferId) {
+    const found = await this.findTransfer(hospital, transferId, { side: 'requester', statuses: ['requested', 'accepted'] });
+
+    const transfer = await this.moveTransfer(found, ['requested', 'accepted'], {
+      $set: { status: 'cancelled', cancelledAt: new Date() }
+    });
+
+    // Released by transfer rather than unitIds, which a supplier still
+    // accepting may not have recorded yet
+    const supplierStock = await this.releaseUnits(transfer);
+
+    this.emitUpdate(transfer, { supplierStock });
+    return transfer;
+  }
+
+  /**
+   * Tell both hospitals about a status change, with fresh stock for the side
+   * whose stock moved
+   */
+  emitUpdate(transfer, { supplierStock, requesterStock } = {}) {
+    if (!this.io) return;
+
+    const payload = { transferId: transfer._id, status: transfer.status };
+    this.io.to(`hospital_${transfer.requestingHospitalId}`).emit('transfer_updated', {
+      ...payload,
+      bloodStock: requesterStock
+    });
+    this.io.to(`hospital_${transfer.supplyingHospitalId}`).emit('transfer_updated', {
+      ...payload,
+      bloodStock: supplierStock
+    });
+  }
+}
+
+export const transferService = new TransferService();
+export default TransferService;
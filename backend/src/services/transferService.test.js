@@ -0,0 +1,190 @@
+import { jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import BloodTransfer from '../models/BloodTransfer.js';
+import BloodUnit from '../models/BloodUnit.js';
+import Hospital from '../models/Hospital.js';
+import { inventoryService } from './inventoryService.js';
+import { transferService } from './transferService.js';
+
+const supplier = new Hospital({ name: 'Supplying Hospital' });
+const requester = new Hospital({ name: 'Requesting Hospital' });
+
+const makeTransfer = (overrides = {}) => new BloodTransfer({
+  requestingHospitalId: requester._id,
+  supplyingHospitalId: supplier._id,
+  bloodType: 'O+',
+  patientBloodType: 'A+',
+  donationType: 'whole_blood',
+  units: 2,
+  status: 'requested',
+  ...overrides
+});
+
+// The transfer as the conditional update leaves it
+const moved = (transfer, changes) => makeTransfer({ _id: transfer._id, ...transfer.toObject(), ...changes });
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('moveTransfer', () => {
+  test('only moves a transfer still in one of the expected states', async () => {
+    const transfer = makeTransfer();
+    const findOneAndUpdate = jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(moved(transfer, { status: 'rejected' }));
+
+    const result = await transferService.moveTransfer(transfer, ['requested'], { $set: { status: 'rejected' } });
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: transfer._id, status: { $in: ['requested'] } },
+      { $set: { status: 'rejected' } },
+      { new: true }
+    );
+    expect(result.status).toBe('rejected');
+  });
+
+  test('fails when someone else moved the transfer first', async () => {
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(transferService.moveTransfer(makeTransfer(), ['requested'], { $set: { status: 'rejected' } }))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('respond', () => {
+  const units = [{ _id: new mongoose.Types.ObjectId() }, { _id: new mongoose.Types.ObjectId() }];
+
+  beforeEach(() => {
+    jest.spyOn(inventoryService, 'issueUnits').mockResolvedValue(units);
+    jest.spyOn(BloodTransfer, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+    jest.spyOn(BloodUnit, 'updateMany').mockResolvedValue({ modifiedCount: 2 });
+    jest.spyOn(Hospital, 'findById').mockResolvedValue(supplier);
+    jest.spyOn(inventoryService, 'refreshStockSummary').mockResolvedValue({});
+  });
+
+  test('accepts the transfer before setting units aside, then records them', async () => {
+    const transfer = makeTransfer();
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    const findOneAndUpdate = jest.spyOn(BloodTransfer, 'findOneAndUpdate')
+      .mockResolvedValueOnce(moved(transfer, { status: 'accepted' }))
+      .mockResolvedValueOnce(moved(transfer, { status: 'accepted', unitIds: units.map(unit => unit._id) }));
+
+    const result = await transferService.respond(supplier, transfer._id, { accept: true });
+
+    expect(findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: transfer._id, status: { $in: ['requested'] } });
+    expect(findOneAndUpdate.mock.invocationCallOrder[0]).toBeLessThan(inventoryService.issueUnits.mock.invocationCallOrder[0]);
+    expect(inventoryService.issueUnits).toHaveBeenCalledWith(supplier, expect.objectContaining({
+      bloodType: 'O+',
+      units: 2,
+      transferId: transfer._id,
+      status: 'reserved'
+    }));
+    expect(result.status).toBe('accepted');
+    expect(result.unitIds).toEqual(units.map(unit => unit._id));
+  });
+
+  test('leaves stock alone when another response got there first', async () => {
+    const transfer = makeTransfer();
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(transferService.respond(supplier, transfer._id, { accept: true })).rejects.toMatchObject({ statusCode: 409 });
+    expect(inventoryService.issueUnits).not.toHaveBeenCalled();
+  });
+
+  test('reopens the transfer when there is not enough stock', async () => {
+    const transfer = makeTransfer();
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(moved(transfer, { status: 'accepted' }));
+    const shortage = Object.assign(new Error('Only 1 of 2 O+ units are available'), { statusCode: 409 });
+    inventoryService.issueUnits.mockRejectedValue(shortage);
+
+    await expect(transferService.respond(supplier, transfer._id, { accept: true })).rejects.toBe(shortage);
+    expect(BloodTransfer.updateOne).toHaveBeenCalledWith(
+      { _id: transfer._id, status: 'accepted' },
+      { $set: { status: 'requested' }, $unset: { respondedAt: 1 } }
+    );
+  });
+
+  test('puts the units back when the requester cancelled while they were reserved', async () => {
+    const transfer = makeTransfer();
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate')
+      .mockResolvedValueOnce(moved(transfer, { status: 'accepted' }))
+      .mockResolvedValueOnce(null);
+
+    await expect(transferService.respond(supplier, transfer._id, { accept: true })).rejects.toMatchObject({ statusCode: 409 });
+    expect(BloodUnit.updateMany).toHaveBeenCalledWith(
+      { transferId: transfer._id, status: 'reserved' },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'available', transferId: null }) })
+    );
+    expect(inventoryService.refreshStockSummary).toHaveBeenCalledWith(supplier);
+  });
+
+  test('rejects without touching stock', async () => {
+    const transfer = makeTransfer();
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(moved(transfer, { status: 'rejected', rejectionReason: 'Low stock' }));
+
+    const result = await transferService.respond(supplier, transfer._id, { accept: false, reason: 'Low stock' });
+
+    expect(result.status).toBe('rejected');
+    expect(inventoryService.issueUnits).not.toHaveBeenCalled();
+  });
+
+  test('is only open to the supplying hospital', async () => {
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(makeTransfer());
+
+    await expect(transferService.respond(requester, new mongoose.Types.ObjectId(), { accept: true }))
+      .rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('cancel', () => {
+  beforeEach(() => {
+    jest.spyOn(Hospital, 'findById').mockResolvedValue(supplier);
+    jest.spyOn(inventoryService, 'refreshStockSummary').mockResolvedValue({ 'O+': 4 });
+  });
+
+  test('cancels, then returns reserved units to the supplier', async () => {
+    const transfer = makeTransfer({ status: 'accepted' });
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    const findOneAndUpdate = jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(moved(transfer, { status: 'cancelled' }));
+    const updateMany = jest.spyOn(BloodUnit, 'updateMany').mockResolvedValue({ modifiedCount: 2 });
+
+    const result = await transferService.cancel(requester, transfer._id);
+
+    expect(findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: transfer._id, status: { $in: ['requested', 'accepted'] } });
+    expect(findOneAndUpdate.mock.invocationCallOrder[0]).toBeLessThan(updateMany.mock.invocationCallOrder[0]);
+    expect(updateMany.mock.calls[0][0]).toEqual({ transferId: transfer._id, status: 'reserved' });
+    expect(inventoryService.refreshStockSummary).toHaveBeenCalledWith(supplier);
+    expect(result.status).toBe('cancelled');
+  });
+
+  test('does not refresh the supplier\'s stock when nothing was reserved', async () => {
+    const transfer = makeTransfer();
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(moved(transfer, { status: 'cancelled' }));
+    jest.spyOn(BloodUnit, 'updateMany').mockResolvedValue({ modifiedCount: 0 });
+
+    await transferService.cancel(requester, transfer._id);
+
+    expect(inventoryService.refreshStockSummary).not.toHaveBeenCalled();
+  });
+
+  test('leaves the units alone when the supplier dispatched first', async () => {
+    const transfer = makeTransfer({ status: 'accepted' });
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(transfer);
+    jest.spyOn(BloodTransfer, 'findOneAndUpdate').mockResolvedValue(null);
+    const updateMany = jest.spyOn(BloodUnit, 'updateMany');
+
+    await expect(transferService.cancel(requester, transfer._id)).rejects.toMatchObject({ statusCode: 409 });
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  test('refuses transfers already on their way', async () => {
+    jest.spyOn(BloodTransfer, 'findById').mockResolvedValue(makeTransfer({ status: 'dispatched' }));
+
+    await expect(transferService.cancel(requester, new mongoose.Types.ObjectId()))
+      .rejects.toMatchObject({ statusCode: 409, message: 'Transfer is already dispatched' });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Red-cell compatibility (whole blood, packed and double red cells): the
+ * patient types each donor type can give to
+ */
+export const RED_CELL_COMPATIBILITY = {
+  'O+': ['O+', 'A+', 'B+', 'AB+'],
+  'O-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'A+': ['A+', 'AB+'],
+  'A-': ['A+', 'A-', 'AB+', 'AB-'],
+  'B+': ['B+', 'AB+'],
+  'B-': ['B+', 'B-', 'AB+', 'AB-'],
+  'AB+': ['AB+'],
+  'AB-': ['AB+', 'AB-']
+};
+
+/**
+ * Plasma compatibility runs the other way: AB plasma carries no anti-A or
+ * anti-B and suits everyone, O plasma only suits O patients. Plasma holds no
+ * red cells, so the Rh factor does not matter.
+ */
+export const PLASMA_COMPATIBILITY = {
+  'AB+': ['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
+  'AB-': ['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
+  'A+': ['A+', 'A-', 'O+', 'O-'],
+  'A-': ['A+', 'A-', 'O+', 'O-'],
+  'B+': ['B+', 'B-', 'O+', 'O-'],
+  'B-': ['B+', 'B-', 'O+', 'O-'],
+  'O+': ['O+', 'O-'],
+  'O-': ['O+', 'O-']
+};
+
+/**
+ * Platelets can cross ABO groups, but an Rh-negative patient must not be
+ * sensitised, so only Rh-negative platelets go to Rh-negative patients
+ */
+export const PLATELET_COMPATIBILITY = {
+  'O+': ['O+', 'A+', 'B+', 'AB+'],
+  'O-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'A+': ['O+', 'A+', 'B+', 'AB+'],
+  'A-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'B+': ['O+', 'A+', 'B+', 'AB+'],
+  'B-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'AB+': ['O+', 'A+', 'B+', 'AB+'],
+  'AB-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-']
+};
+
+// Matrix that applies to each donation type a request can ask for
+export const COMPATIBILITY_BY_DONATION_TYPE = {
+  whole_blood: RED_CELL_COMPATIBILITY,
+  double_red_cells: RED_CELL_COMPATIBILITY,
+  platelets: PLATELET_COMPATIBILITY,
+  plasma: PLASMA_COMPATIBILITY
+};
+
+// Rare types held back for their own patients unless a life is at stake
+export const SCARCE_BLOOD_TYPES = ['O-', 'AB-'];
+
+const aboGroup = (bloodType) => bloodType.slice(0, -1);
+
+export const getCompatibilityMatrix = (donationType = 'whole_blood') => {
+  return COMPATIBILITY_BY_DONATION_TYPE[donationType] || RED_CELL_COMPATIBILITY;
+};
+
+export const isCompatible = (donorType, patientType, donationType = 'whole_blood') => {
+  return (getCompatibilityMatrix(donationType)[donorType] || []).includes(patientType);
+};
+
+/**
+ * How strongly a compatible donor type is preferred, 0 being best: the
+ * patient's own type, then the same ABO group. Platelets then prefer donors
+ * whose plasma suits the patient, since each bag carries some plasma.
+ */
+export const preferenceRank = (donorType, patientType, donationType = 'whole_blood') => {
+  if (donorType === patientType) return 0;
+  if (aboGroup(donorType) === aboGroup(patientType)) return 1;
+  if (donationType !== 'platelets') return 2;
+  return isCompatible(donorType, patientType, 'plasma') ? 2 : 3;
+};
+
+/**
+ * Donor types a patient can receive for a donation type, most preferred first
+ */
+export const compatibleDonorTypes = (patientType, donationType = 'whole_blood') => {
+  return Object.keys(getCompatibilityMatrix(donationType))
+    .filter(donorType => isCompatible(donorType, patientType, donationType))
+    .sort((a, b) => preferenceRank(a, patientType, donationType) - preferenceRank(b, patientType, donationType));
+};
+
+/**
+ * Donor types worth contacting for a request. Scarce donors of another type
+ * are only asked for critical requests.
+ */
+export const donorTypesForRequest = (patientType, urgency = 'normal', donationType = 'whole_blood') => {
+  return compatibleDonorTypes(patientType, donationType).filter(donorType =>
+    donorType === patientType || urgency === 'critical' || !SCARCE_BLOOD_TYPES.includes(donorType)
+  );
+};
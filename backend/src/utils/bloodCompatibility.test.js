@@ -0,0 +1,97 @@
+import {
+  RED_CELL_COMPATIBILITY,
+  PLASMA_COMPATIBILITY,
+  PLATELET_COMPATIBILITY,
+  compatibleDonorTypes,
+  donorTypesForRequest,
+  getCompatibilityMatrix,
+  isCompatible,
+  preferenceRank
+} from './bloodCompatibility.js';
+
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'];
+
+describe('compatibility matrices', () => {
+  test.each([RED_CELL_COMPATIBILITY, PLASMA_COMPATIBILITY, PLATELET_COMPATIBILITY])('cover every donor type', (matrix) => {
+    expect(Object.keys(matrix).sort()).toEqual([...BLOOD_TYPES].sort());
+  });
+
+  test('every donor type can give to its own type', () => {
+    for (const matrix of [RED_CELL_COMPATIBILITY, PLASMA_COMPATIBILITY, PLATELET_COMPATIBILITY]) {
+      for (const bloodType of BLOOD_TYPES) {
+        expect(matrix[bloodType]).toContain(bloodType);
+      }
+    }
+  });
+
+  test('O- red cells suit everyone and AB+ patients take any red cells', () => {
+    expect(RED_CELL_COMPATIBILITY['O-']).toHaveLength(8);
+    for (const bloodType of BLOOD_TYPES) {
+      expect(isCompatible(bloodType, 'AB+')).toBe(true);
+    }
+  });
+
+  test('Rh-positive red cells never go to Rh-negative patients', () => {
+    for (const donorType of BLOOD_TYPES.filter(type => type.endsWith('+'))) {
+      for (const patientType of BLOOD_TYPES.filter(type => type.endsWith('-'))) {
+        expect(isCompatible(donorType, patientType, 'whole_blood')).toBe(false);
+      }
+    }
+  });
+
+  test('plasma runs the other way and ignores the Rh factor', () => {
+    expect(isCompatible('AB+', 'O-', 'plasma')).toBe(true);
+    expect(isCompatible('O-', 'A+', 'plasma')).toBe(false);
+    expect(isCompatible('A+', 'A-', 'plasma')).toBe(true);
+  });
+
+  test('platelets cross ABO groups but keep Rh-negative patients on Rh-negative bags', () => {
+    expect(isCompatible('A+', 'O+', 'platelets')).toBe(true);
+    expect(isCompatible('A+', 'O-', 'platelets')).toBe(false);
+    expect(isCompatible('B-', 'A-', 'platelets')).toBe(true);
+  });
+
+  test('double red cells use the red-cell matrix and unknown types fall back to it', () => {
+    expect(getCompatibilityMatrix('double_red_cells')).toBe(RED_CELL_COMPATIBILITY);
+    expect(getCompatibilityMatrix('unknown')).toBe(RED_CELL_COMPATIBILITY);
+    expect(getCompatibilityMatrix()).toBe(RED_CELL_COMPATIBILITY);
+  });
+
+  test('unknown donor types are never compatible', () => {
+    expect(isCompatible('unknown', 'A+')).toBe(false);
+  });
+});
+
+describe('compatibleDonorTypes', () => {
+  test('puts the patient\'s own type first, then the same ABO group', () => {
+    const types = compatibleDonorTypes('A+');
+    expect(types[0]).toBe('A+');
+    expect(types[1]).toBe('A-');
+    expect(types.sort()).toEqual(['A+', 'A-', 'O+', 'O-'].sort());
+  });
+
+  test('prefers platelet donors whose plasma also suits the patient', () => {
+    expect(preferenceRank('O+', 'A+', 'platelets')).toBe(3);
+    expect(preferenceRank('AB+', 'A+', 'platelets')).toBe(2);
+    const types = compatibleDonorTypes('A+', 'platelets');
+    expect(types.indexOf('AB+')).toBeLessThan(types.indexOf('O+'));
+  });
+});
+
+describe('donorTypesForRequest', () => {
+  test('holds back O- and AB- donors of another type unless the request is critical', () => {
+    expect(donorTypesForRequest('A-', 'normal')).toEqual(['A-']);
+    expect(donorTypesForRequest('A-', 'urgent')).not.toContain('O-');
+    expect(donorTypesForRequest('A-', 'critical')).toEqual(['A-', 'O-']);
+  });
+
+  test('always asks donors of the patient\'s own scarce type', () => {
+    expect(donorTypesForRequest('O-', 'normal')).toEqual(['O-']);
+    expect(donorTypesForRequest('AB-', 'normal')).toEqual(['AB-', 'A-', 'B-']);
+  });
+
+  test('only holds back the scarce types', () => {
+    expect(donorTypesForRequest('AB+', 'normal').sort())
+      .toEqual(['AB+', 'A+', 'A-', 'B+', 'B-', 'O+'].sort());
+  });
+});
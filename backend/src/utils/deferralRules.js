@@ -0,0 +1,102 @@
+// What a donor gives (or a request needs): whole blood or an apheresis component
+export const DONATION_TYPES = ['whole_blood', 'platelets', 'plasma', 'double_red_cells'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a donor must wait after a donation of one type (outer key) before giving
+ * the next type (inner key), by sex. Whole blood follows the NBTC guidelines of
+ * 90 days for men and 120 for women; apheresis donors recover plasma within days.
+ * Override any entry with the DEFERRAL_RULES env var, e.g.
+ *   DEFERRAL_RULES='{"platelets":{"platelets":{"male":7,"female":7}}}'
+ */
+export const DEFAULT_DEFERRAL_RULES = {
+  whole_blood: {
+    whole_blood: { male: 90, female: 120 },
+    platelets: { male: 28, female: 28 },
+    plasma: { male: 28, female: 28 },
+    double_red_cells: { male: 90, female: 120 }
+  },
+  platelets: {
+    whole_blood: { male: 28, female: 28 },
+    platelets: { male: 2, female: 2 },
+    plasma: { male: 2, female: 2 },
+    double_red_cells: { male: 28, female: 28 }
+  },
+  plasma: {
+    whole_blood: { male: 28, female: 28 },
+    platelets: { male: 2, female: 2 },
+    plasma: { male: 14, female: 14 },
+    double_red_cells: { male: 28, female: 28 }
+  },
+  double_red_cells: {
+    whole_blood: { male: 180, female: 180 },
+    platelets: { male: 28, female: 28 },
+    plasma: { male: 28, female: 28 },
+    double_red_cells: { male: 180, female: 180 }
+  }
+};
+
+let cachedOverride = null;
+let cachedRules = DEFAULT_DEFERRAL_RULES;
+
+export const getDeferralRules = () => {
+  const override = process.env.DEFERRAL_RULES || '';
+  if (override === cachedOverride) {
+    return cachedRules;
+  }
+
+  cachedOverride = override;
+  cachedRules = DEFAULT_DEFERRAL_RULES;
+  if (!override) {
+    return cachedRules;
+  }
+
+  try {
+    const parsed = JSON.parse(override);
+    cachedRules = Object.fromEntries(DONATION_TYPES.map(previousType => [
+      previousType,
+      Object.fromEntries(DONATION_TYPES.map(nextType => [
+        nextType,
+        { ...DEFAULT_DEFERRAL_RULES[previousType][nextType], ...parsed[previousType]?.[nextType] }
+      ]))
+    ]));
+  } catch (error) {
+    console.error('Ignoring invalid DEFERRAL_RULES:', error.message);
+  }
+
+  return cachedRules;
+};
+
+/**
+ * Deferral in days before `nextType` after a `previousType` donation. Donors who
+ * have not told us their sex get the longer of the two intervals.
+ */
+export const getDeferralDays = (previousType, nextType, sex) => {
+  const rule = getDeferralRules()[previousType || 'whole_blood'][nextType || 'whole_blood'];
+  return rule[sex] ?? Math.max(rule.male, rule.female);
+};
+
+/**
+ * Mongo filter for donors who may give `nextType` at `now`: one clause per
+ * previous donation type and sex, since each has its own deferral.
+ */
+export const eligibleToDonateFilter = (nextType = 'whole_blood', now = new Date()) => {
+  const clauses = [{ lastDonation: null }];
+
+  for (const previousType of DONATION_TYPES) {
+    // Donations recorded before donation types existed were whole blood
+    const lastDonationType = previousType === 'whole_blood' ? { $in: ['whole_blood', null] } : previousType;
+
+    for (const sex of ['male', 'female', null]) {
+      const days = getDeferralDays(previousType, nextType, sex || undefined);
+      clauses.push({
+        lastDonationType,
+        sex: sex || { $nin: ['male', 'female'] },
+        lastDonation: { $lte: new Date(now.getTime() - days * DAY_MS) }
+      });
+    }
+  }
+
+  return { $or: clauses };
+};
@@ -0,0 +1,98 @@
+import { jest } from '@jest/globals';
+import {
+  DEFAULT_DEFERRAL_RULES,
+  DONATION_TYPES,
+  eligibleToDonateFilter,
+  getDeferralDays,
+  getDeferralRules
+} from './deferralRules.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+afterEach(() => {
+  delete process.env.DEFERRAL_RULES;
+});
+
+describe('getDeferralDays', () => {
+  test('whole blood donors wait 90 days for men and 120 for women', () => {
+    expect(getDeferralDays('whole_blood', 'whole_blood', 'male')).toBe(90);
+    expect(getDeferralDays('whole_blood', 'whole_blood', 'female')).toBe(120);
+  });
+
+  test('donors who have not given their sex get the longer interval', () => {
+    expect(getDeferralDays('whole_blood', 'whole_blood')).toBe(120);
+    expect(getDeferralDays('whole_blood', 'whole_blood', 'other')).toBe(120);
+  });
+
+  test('apheresis donors come back sooner than whole blood donors', () => {
+    expect(getDeferralDays('platelets', 'platelets', 'female')).toBe(2);
+    expect(getDeferralDays('plasma', 'plasma', 'male')).toBe(14);
+    expect(getDeferralDays('double_red_cells', 'whole_blood', 'male')).toBe(180);
+  });
+
+  test('a missing donation type counts as whole blood', () => {
+    expect(getDeferralDays(null, undefined, 'male')).toBe(90);
+  });
+});
+
+describe('getDeferralRules', () => {
+  test('uses the defaults without an override', () => {
+    expect(getDeferralRules()).toBe(DEFAULT_DEFERRAL_RULES);
+  });
+
+  test('merges DEFERRAL_RULES over the defaults', () => {
+    process.env.DEFERRAL_RULES = '{"whole_blood":{"whole_blood":{"female":100}}}';
+
+    expect(getDeferralDays('whole_blood', 'whole_blood', 'female')).toBe(100);
+    expect(getDeferralDays('whole_blood', 'whole_blood', 'male')).toBe(90);
+    expect(getDeferralDays('platelets', 'platelets', 'female')).toBe(2);
+  });
+
+  test('ignores an override that is not valid JSON', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.DEFERRAL_RULES = '{not json';
+
+    expect(getDeferralRules()).toBe(DEFAULT_DEFERRAL_RULES);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('eligibleToDonateFilter', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  test('lets donors who never gave through', () => {
+    expect(eligibleToDonateFilter('whole_blood', now).$or[0]).toEqual({ lastDonation: null });
+  });
+
+  test('has one clause per previous donation type and sex', () => {
+    expect(eligibleToDonateFilter('whole_blood', now).$or).toHaveLength(1 + DONATION_TYPES.length * 3);
+  });
+
+  test('applies each sex its own whole blood deferral', () => {
+    const clauses = eligibleToDonateFilter('whole_blood', now).$or;
+    const clauseFor = (sex) => clauses.find(clause =>
+      clause.sex === sex && clause.lastDonationType?.$in?.includes('whole_blood')
+    );
+
+    expect(clauseFor('male').lastDonation.$lte).toEqual(new Date(now.getTime() - 90 * DAY_MS));
+    expect(clauseFor('female').lastDonation.$lte).toEqual(new Date(now.getTime() - 120 * DAY_MS));
+  });
+
+  test('treats donors of unknown sex with the longer deferral', () => {
+    const clause = eligibleToDonateFilter('whole_blood', now).$or.find(entry =>
+      entry.sex?.$nin && entry.lastDonationType?.$in
+    );
+
+    expect(clause.sex).toEqual({ $nin: ['male', 'female'] });
+    expect(clause.lastDonation.$lte).toEqual(new Date(now.getTime() - 120 * DAY_MS));
+  });
+
+  test('uses the interval for the next donation type', () => {
+    const clause = eligibleToDonateFilter('platelets', now).$or.find(entry =>
+      entry.lastDonationType === 'platelets' && entry.sex === 'male'
+    );
+
+    expect(clause.lastDonation.$lte).toEqual(new Date(now.getTime() - 2 * DAY_MS));
+  });
+});
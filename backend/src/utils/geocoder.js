@@ -0,0 +1,49 @@
+// PIN codes rarely move; avoid hitting the geocoder for every SMS from the same area
+const pincodeCache = new Map(); // pincode -> { lat, lng }
+
+/**
+ * Resolve an Indian postal PIN code to approximate coordinates.
+ * Returns null when the PIN code cannot be found.
+ */
+export const geocodePincode = async (pincode) => {
+  if (pincodeCache.has(pincode)) {
+    return pincodeCache.get(pincode);
+  }
+
+  const params = new URLSearchParams({
+    postalcode: pincode,
+    country: 'India',
+    format: 'json',
+    limit: '1'
+  });
+
+  try {
+    const geocoderUrl = process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org/search';
+    const response = await fetch(`${geocoderUrl}?${params}`, {
+      headers: { 'User-Agent': 'OneBlood/1.0 (SMS request intake)' },
+      signal: AbortSignal.timeout(5000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`);
+    }
+
+    const results = await response.json();
+    if (!results.length) {
+      return null;
+    }
+
+    const location = {
+      lat: parseFloat(results[0].lat),
+      lng: parseFloat(results[0].lon)
+    };
+
+    pincodeCache.set(pincode, location);
+    return location;
+  } catch (error) {
+    console.error(`Error geocoding PIN code ${pincode}:`, error.message);
+    return null;
+  }
+};
+
+export default geocodePincode;
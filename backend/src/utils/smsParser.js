@@ -0,0 +1,116 @@
+const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'];
+const URGENCY_LEVELS = ['critical', 'urgent', 'normal'];
+
+const REQUEST_KEYWORDS = ['BLOOD', 'REQ'];
+const STATUS_KEYWORDS = ['STATUS', 'TRACK'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+// Ways people write the Rh factor on a phone keypad
+const RH_SUFFIXES = {
+  '+': '+', 'POS': '+', '+VE': '+', 'POSITIVE': '+',
+  '-': '-', 'NEG': '-', '-VE': '-', 'NEGATIVE': '-'
+};
+
+export const SMS_FORMAT_HELP =
+  'Send: BLOOD <type> <CRITICAL/URGENT/NORMAL> <PIN code or lat,lng> <name>. ' +
+  'Example: BLOOD O+ URGENT 110001 Ramesh Kumar. Send STATUS to track your request.';
+
+/**
+ * Normalise a blood type written as "O+", "o pos", "ONEG", "AB-ve" etc.
+ * Returns the canonical type and how many tokens were consumed.
+ */
+const parseBloodType = (tokens) => {
+  const [first = '', second = ''] = tokens;
+
+  const match = first.match(/^(AB|A|B|O)(.*)$/);
+  if (!match) return null;
+
+  const [, group, attachedRh] = match;
+
+  if (attachedRh && RH_SUFFIXES[attachedRh]) {
+    return { bloodType: `${group}${RH_SUFFIXES[attachedRh]}`, consumed: 1 };
+  }
+
+  if (!attachedRh && RH_SUFFIXES[second]) {
+    return { bloodType: `${group}${RH_SUFFIXES[second]}`, consumed: 2 };
+  }
+
+  return null;
+};
+
+const parseLocation = (token) => {
+  if (/^[1-9]\d{5}$/.test(token)) {
+    return { pincode: token };
+  }
+
+  const coords = token.match(/^(-?\d{1,2}(?:\.\d+)?),(-?\d{1,3}(?:\.\d+)?)$/);
+  if (coords) {
+    const lat = parseFloat(coords[1]);
+    const lng = parseFloat(coords[2]);
+    if (lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180) {
+      return { location: { lat, lng } };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Parse an inbound SMS into a command.
+ *
+ * Supported messages:
+ *   BLOOD <type> [urgency] <PIN code | lat,lng> <name>
+ *   STATUS [requestId]
+ *   HELP
+ */
+export const parseSmsMessage = (body = '') => {
+  const original = body.trim().replace(/\s*,\s*/g, ',');
+  const tokens = original.toUpperCase().split(/\s+/).filter(Boolean);
+  const keyword = tokens.shift();
+
+  if (!keyword || HELP_KEYWORDS.includes(keyword)) {
+    return { command: 'help' };
+  }
+
+  if (STATUS_KEYWORDS.includes(keyword)) {
+    const requestId = tokens[0] && /^[0-9A-F]{24}$/.test(tokens[0]) ? tokens[0].toLowerCase() : null;
+    return { command: 'status', requestId };
+  }
+
+  if (!REQUEST_KEYWORDS.includes(keyword)) {
+    return { command: 'unknown', error: 'Message not understood.' };
+  }
+
+  const bloodTypeResult = parseBloodType(tokens);
+  if (!bloodTypeResult || !BLOOD_TYPES.includes(bloodTypeResult.bloodType)) {
+    return { command: 'request', error: 'Blood type missing or invalid (e.g. O+, AB-).' };
+  }
+  tokens.splice(0, bloodTypeResult.consumed);
+
+  let urgency = 'normal';
+  if (tokens[0] && URGENCY_LEVELS.includes(tokens[0].toLowerCase())) {
+    urgency = tokens.shift().toLowerCase();
+  }
+
+  const locationResult = tokens[0] ? parseLocation(tokens[0]) : null;
+  if (!locationResult) {
+    return { command: 'request', error: 'PIN code or coordinates missing (e.g. 110001 or 28.61,77.20).' };
+  }
+  tokens.shift();
+
+  // Names keep the sender's capitalisation from the original message
+  const requesterName = original.split(/\s+/).slice(-tokens.length).join(' ');
+  if (tokens.length === 0 || requesterName.length < 2 || requesterName.length > 100) {
+    return { command: 'request', error: 'Name missing.' };
+  }
+
+  return {
+    command: 'request',
+    bloodType: bloodTypeResult.bloodType,
+    urgency,
+    requesterName,
+    ...locationResult
+  };
+};
+
+export default parseSmsMessage;
@@ -0,0 +1,76 @@
+import { parseSmsMessage } from './smsParser.js';
+
+describe('parseSmsMessage', () => {
+  test('parses a full blood request', () => {
+    expect(parseSmsMessage('BLOOD O+ URGENT 110001 Ramesh Kumar')).toEqual({
+      command: 'request',
+      bloodType: 'O+',
+      urgency: 'urgent',
+      requesterName: 'Ramesh Kumar',
+      pincode: '110001'
+    });
+  });
+
+  test('defaults the urgency to normal', () => {
+    const result = parseSmsMessage('REQ B- 560001 Asha');
+
+    expect(result.urgency).toBe('normal');
+    expect(result.bloodType).toBe('B-');
+  });
+
+  test.each([
+    ['o pos', 'O+'],
+    ['ONEG', 'O-'],
+    ['AB-ve', 'AB-'],
+    ['ab +VE', 'AB+'],
+    ['A negative', 'A-'],
+    ['b positive', 'B+']
+  ])('understands the blood type written as "%s"', (written, bloodType) => {
+    expect(parseSmsMessage(`blood ${written} 110001 Ramesh`).bloodType).toBe(bloodType);
+  });
+
+  test('accepts coordinates, with or without spaces around the comma', () => {
+    expect(parseSmsMessage('BLOOD A+ CRITICAL 28.61,77.20 Sita').location).toEqual({ lat: 28.61, lng: 77.2 });
+    expect(parseSmsMessage('BLOOD A+ 28.61 , 77.20 Sita').location).toEqual({ lat: 28.61, lng: 77.2 });
+  });
+
+  test('keeps the sender\'s capitalisation in the name', () => {
+    expect(parseSmsMessage('blood o+ 110001 Ramesh kumar').requesterName).toBe('Ramesh kumar');
+  });
+
+  test('ignores extra whitespace', () => {
+    expect(parseSmsMessage('  BLOOD   O+   110001   Ramesh  ').requesterName).toBe('Ramesh');
+  });
+
+  test.each([
+    ['BLOOD', 'Blood type missing or invalid (e.g. O+, AB-).'],
+    ['BLOOD C+ 110001 Ramesh', 'Blood type missing or invalid (e.g. O+, AB-).'],
+    ['BLOOD O 110001 Ramesh', 'Blood type missing or invalid (e.g. O+, AB-).'],
+    ['BLOOD O+ Ramesh', 'PIN code or coordinates missing (e.g. 110001 or 28.61,77.20).'],
+    ['BLOOD O+ 012345 Ramesh', 'PIN code or coordinates missing (e.g. 110001 or 28.61,77.20).'],
+    ['BLOOD O+ 95.0,77.2 Ramesh', 'PIN code or coordinates missing (e.g. 110001 or 28.61,77.20).'],
+    ['BLOOD O+ 110001', 'Name missing.'],
+    ['BLOOD O+ 110001 R', 'Name missing.']
+  ])('rejects "%s"', (body, error) => {
+    expect(parseSmsMessage(body)).toEqual({ command: 'request', error });
+  });
+
+  test('parses STATUS with and without a request ID', () => {
+    expect(parseSmsMessage('STATUS')).toEqual({ command: 'status', requestId: null });
+    expect(parseSmsMessage('track 65A1B2C3D4E5F60718293A4B')).toEqual({
+      command: 'status',
+      requestId: '65a1b2c3d4e5f60718293a4b'
+    });
+    expect(parseSmsMessage('STATUS 1234')).toEqual({ command: 'status', requestId: null });
+  });
+
+  test('answers empty messages and HELP with help', () => {
+    expect(parseSmsMessage('')).toEqual({ command: 'help' });
+    expect(parseSmsMessage()).toEqual({ command: 'help' });
+    expect(parseSmsMessage('info')).toEqual({ command: 'help' });
+  });
+
+  test('flags anything else as unknown', () => {
+    expect(parseSmsMessage('hello there')).toEqual({ command: 'unknown', error: 'Message not understood.' });
+  });
+});
@@ -0,0 +1,9 @@
+// Rough road speed used to turn a straight-line distance into travel time
+export const AVERAGE_TRAVEL_SPEED_KMH = 30;
+
+/**
+ * Minutes to cover a straight-line distance by road
+ */
+export const estimateTravelMinutes = (distanceKm) => {
+  return Math.round((distanceKm / AVERAGE_TRAVEL_SPEED_KMH) * 60);
+};
@@ -1,7 +1,9 @@
-import React, { Suspense } from 'react';
+import React, { Suspense, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { LoadingSpinner } from './components/LoadingSpinner';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { OfflineQueueService } from './services/OfflineQueueService';
 import './i18n';
 import './App.css';
 
@@ -11,8 +13,14 @@ const DonorRegistration = React.lazy(() => import('./pages/DonorRegistration'));
 const HospitalDashboard = React.lazy(() => import('./pages/HospitalDashboard'));
 const DonorDashboard = React.lazy(() => import('./pages/DonorDashboard'));
 const AnimationShowcase = React.lazy(() => import('./pages/AnimationShowcase'));
+const StaffAccount = React.lazy(() => import('./pages/StaffAccount'));
+const AdminConsole = React.lazy(() => import('./pages/AdminConsole'));
+const TrackRequest = React.lazy(() => import('./pages/TrackRequest'));
 
 function App() {
+  // Send queued blood requests in the background, whichever page is open
+  useEffect(() => OfflineQueueService.start(), []);
+
   return (
     <ErrorBoundary>
       <Router>
@@ -25,9 +33,14 @@ function App() {
               <Route path="/hospital-dashboard" element={<HospitalDashboard />} />
               <Route path="/donor-dashboard" element={<DonorDashboard />} />
               <Route path="/animations" element={<AnimationShowcase />} />
+              <Route path="/staff/accept-invite" element={<StaffAccount mode="invite" />} />
+              <Route path="/staff/reset-password" element={<StaffAccount mode="reset" />} />
+              <Route path="/admin" element={<AdminConsole />} />
+              <Route path="/track/:requestId" element={<TrackRequest />} />
               <Route path="*" element={<EmergencyBloodRequest />} />
             </Routes>
           </Suspense>
+          <UpdatePrompt />
         </div>
       </Router>
     </ErrorBoundary>
@@ -0,0 +1,331 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  HospitalService,
+  BLOOD_TYPES,
+  type BloodType,
+  type DashboardRequest,
+  type RecordedDonation,
+  type ScannedDonor
+} from '../services/HospitalService';
+import { DONATION_TYPES, type DonationType } from '../services/DonorService';
+import './DonorScanner.css';
+
+// The Barcode Detection API is not in TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 300;
+
+interface DonorScannerProps {
+  hospitalId: string;
+  canRecord: boolean;
+  // Requests this hospital accepted, which a donation can be credited to
+  requests: DashboardRequest[];
+  onDonationRecorded: (donation: RecordedDonation) => void;
+}
+
+export const DonorScanner: React.FC<DonorScannerProps> = ({ hospitalId, canRecord, requests, onDonationRecorded }) => {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState('');
+  const [manualToken, setManualToken] = useState('');
+  const [token, setToken] = useState('');
+  const [scanned, setScanned] = useState<ScannedDonor | null>(null);
+  const [recorded, setRecorded] = useState<RecordedDonation | null>(null);
+  const [testedType, setTestedType] = useState<BloodType | ''>('');
+  const [requestId, setRequestId] = useState('');
+  const [donationType, setDonationType] = useState<DonationType>('whole_blood');
+  const [bagId, setBagId] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const cameraSupported = Boolean(getBarcodeDetector() && navigator.mediaDevices?.getUserMedia);
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setCameraOn(false);
+  }, []);
+
+  const verify = useCallback(async (value: string) => {
+    setBusy(true);
+    setError('');
+    setScanned(null);
+    setRecorded(null);
+    setTestedType('');
+    setRequestId('');
+    setDonationType('whole_blood');
+    setBagId('');
+
+    const result = await HospitalService.verifyDonorQr(value.trim());
+    setBusy(false);
+
+    if (result.success && result.data) {
+      setToken(value.trim());
+      setScanned(result.data);
+    } else {
+      setError(result.error || t('error'));
+    }
+  }, [t]);
+
+  // Poll the video feed for a QR code until one is found or the camera is turned off
+  useEffect(() => {
+    if (!cameraOn) return;
+
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) return;
+
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+    let cancelled = false;
+
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+
+      try {
+        const [code] = await detector.detect(video);
+        if (code && !cancelled) {
+          cancelled = true;
+          stopCamera();
+          verify(code.rawValue);
+        }
+      } catch (detectError) {
+        console.error('QR detection failed:', detectError);
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [cameraOn, stopCamera, verify]);
+
+  // Release the camera when the scanner goes away
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const startCamera = async () => {
+    setCameraError('');
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setCameraOn(true);
+    } catch (startError) {
+      console.error('Could not start camera:', startError);
+      setCameraError(t('scanner_camera_denied'));
+      stopCamera();
+    }
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (manualToken.trim()) verify(manualToken);
+  };
+
+  const recordDonation = async () => {
+    if (!scanned) return;
+
+    setBusy(true);
+    setError('');
+    const result = await HospitalService.recordDonation(hospitalId, {
+      token,
+      bloodType: testedType || undefined,
+      donationType,
+      requestId: requestId || undefined,
+      bagId: bagId.trim() || undefined
+    });
+    setBusy(false);
+
+    if (result.success && result.data) {
+      setRecorded(result.data);
+      setManualToken('');
+      onDonationRecorded(result.data);
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  const reset = () => {
+    setScanned(null);
+    setRecorded(null);
+    setToken('');
+    setError('');
+  };
+
+  // A linked request decides which component is collected
+  const selectRequest = (id: string) => {
+    setRequestId(id);
+    const request = requests.find(item => item.id === id);
+    if (request) setDonationType(request.donationType);
+  };
+
+  const needsBloodType = scanned?.donor.bloodType === 'unknown';
+  const typeEligibility = scanned?.eligibility.byType.find(entry => entry.donationType === donationType);
+  const eligible = typeEligibility ? typeEligibility.eligible : Boolean(scanned?.eligibility.eligible);
+  const nextEligibleDate = typeEligibility ? typeEligibility.nextEligibleDate : scanned?.eligibility.nextEligibleDate;
+
+  return (
+    <div className="donor-scanner">
+      <div className="donor-scanner-input">
+        {cameraSupported ? (
+          <>
+            <video ref={videoRef} className={cameraOn ? 'active' : ''} muted playsInline />
+            <button
+              type="button"
+              className="hospital-button primary"
+              onClick={cameraOn ? stopCamera : startCamera}
+              disabled={busy}
+            >
+              {cameraOn ? t('scanner_stop_camera') : t('scanner_start_camera')}
+            </button>
+          </>
+        ) : (
+          <p className="hospital-empty">{t('scanner_camera_unsupported')}</p>
+        )}
+        {cameraError && <div className="hospital-error" role="alert">{cameraError}</div>}
+
+        <form onSubmit={handleManualSubmit}>
+          <label htmlFor="donor-scanner-token">{t('scanner_manual_entry')}</label>
+          <div>
+            <input
+              id="donor-scanner-token"
+              value={manualToken}
+              onChange={(e) => setManualToken(e.target.value)}
+              placeholder="OB1.…"
+              autoComplete="off"
+            />
+            <button type="submit" className="hospital-button" disabled={busy || !manualToken.trim()}>
+              {t('scanner_verify')}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="donor-scanner-result" aria-live="polite">
+        {error && <div className="hospital-error" role="alert">{error}</div>}
+
+        {!scanned && !error && <p className="hospital-empty">{t('scanner_waiting')}</p>}
+
+        {scanned && (
+          <div className={`donor-scanner-donor ${eligible ? 'eligible' : 'ineligible'}`}>
+            <header>
+              <span className="hospital-blood-type">
+                {scanned.donor.bloodType === 'unknown' ? '?' : scanned.donor.bloodType}
+              </span>
+              <div>
+                <strong>{scanned.donor.name}</strong>
+                <small>{scanned.donor.donorId}</small>
+              </div>
+            </header>
+
+            <p className="donor-scanner-status">
+              {eligible
+                ? t('scanner_eligible', { donationType: t(`donation_type_${donationType}`) })
+                : !scanned.donor.available
+                  ? t('scanner_unavailable')
+                  : t('scanner_not_eligible_until', {
+                    donationType: t(`donation_type_${donationType}`),
+                    date: new Date(nextEligibleDate || '').toLocaleDateString()
+                  })}
+            </p>
+            <dl>
+              <dt>{t('scanner_total_donations')}</dt>
+              <dd>{scanned.donor.totalDonations}</dd>
+              <dt>{t('scanner_last_donation')}</dt>
+              <dd>{scanned.donor.lastDonation ? new Date(scanned.donor.lastDonation).toLocaleDateString() : '—'}</dd>
+            </dl>
+
+            {recorded ? (
+              <div className="donor-scanner-recorded">
+                <p>
+                  {t('scanner_recorded', {
+                    bloodType: recorded.bloodType,
+                    bagId: recorded.donation.bagId,
+                    date: new Date(recorded.donor.nextEligibleDate).toLocaleDateString()
+                  })}
+                </p>
+                <p>
+                  {t('scanner_points_awarded', { count: recorded.donation.pointsAwarded })}
+                  {recorded.donation.achievementsAwarded.length > 0 && (
+                    <> {t('scanner_badges_awarded', {
+                      badges: recorded.donation.achievementsAwarded.map(badge => t(`donor_badge_${badge}`)).join(', ')
+                    })}</>
+                  )}
+                </p>
+              </div>
+            ) : canRecord && (
+              <div className="donor-scanner-actions">
+                <label>
+                  {t('scanner_donation_type')}
+                  <select value={donationType} onChange={(e) => setDonationType(e.target.value as DonationType)}>
+                    {DONATION_TYPES.map(type => <option key={type} value={type}>{t(`donation_type_${type}`)}</option>)}
+                  </select>
+                </label>
+                {needsBloodType && (
+                  <label>
+                    {t('scanner_tested_blood_type')}
+                    <select value={testedType} onChange={(e) => setTestedType(e.target.value as BloodType)}>
+                      <option value="">—</option>
+                      {BLOOD_TYPES.map(bloodType => <option key={bloodType} value={bloodType}>{bloodType}</option>)}
+                    </select>
+                  </label>
+                )}
+                {requests.length > 0 && (
+                  <label>
+                    {t('scanner_for_request')}
+                    <select value={requestId} onChange={(e) => selectRequest(e.target.value)}>
+                      <option value="">{t('scanner_no_request')}</option>
+                      {requests.map(request => (
+                        <option key={request.id} value={request.id}>
+                          {request.bloodType} · {request.requesterName} · {t(request.urgency)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <label>
+                  {t('scanner_bag_id')}
+                  <input
+                    value={bagId}
+                    onChange={(e) => setBagId(e.target.value)}
+                    placeholder={t('scanner_bag_id_auto')}
+                    maxLength={40}
+                    autoComplete="off"
+                  />
+                </label>
+                <button
+                  className="hospital-button primary"
+                  onClick={recordDonation}
+                  disabled={busy || !eligible || (needsBloodType && !testedType)}
+                >
+                  {t('scanner_record_donation')}
+                </button>
+              </div>
+            )}
+
+            <button className="hospital-link" onClick={reset}>{t('scanner_scan_next')}</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DonorScanner;
@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  BLOOD_COMPONENTS,
+  BLOOD_TYPES,
+  HospitalService,
+  type BloodComponent,
+  type BloodType,
+  type BloodUnit,
+  type DiscardReason,
+  type InventoryData,
+  type UnitStatus
+} from '../services/HospitalService';
+import './InventoryPanel.css';
+
+const UNIT_STATUSES: UnitStatus[] = ['available', 'reserved', 'issued', 'discarded'];
+
+const DISCARD_REASONS: DiscardReason[] = ['damaged', 'failed_testing', 'expired', 'other'];
+
+// Units this close to expiry are flagged so they get used first
+const EXPIRING_SOON_MS = 3 * 24 * 60 * 60 * 1000;
+
+interface InventoryPanelProps {
+  hospitalId: string;
+  canEdit: boolean;
+  // Bumped by the dashboard when stock changed elsewhere, to reload the list
+  version: number;
+  onStockChanged: (bloodStock: Record<BloodType, number>) => void;
+}
+
+export const InventoryPanel: React.FC<InventoryPanelProps> = ({ hospitalId, canEdit, version, onStockChanged }) => {
+  const { t } = useTranslation();
+
+  const [inventory, setInventory] = useState<InventoryData | null>(null);
+  const [status, setStatus] = useState<UnitStatus>('available');
+  const [component, setComponent] = useState<BloodComponent | ''>('');
+  const [bloodType, setBloodType] = useState<BloodType | ''>('');
+  const [discardReason, setDiscardReason] = useState<DiscardReason>('damaged');
+  const [newUnit, setNewUnit] = useState({
+    bagId: '',
+    component: 'whole_blood' as BloodComponent,
+    bloodType: 'O+' as BloodType,
+    collectedAt: ''
+  });
+  const [error, setError] = useState('');
+  const [busyUnitId, setBusyUnitId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const load = useCallback(async () => {
+    const result = await HospitalService.getInventory(hospitalId, {
+      status,
+      component: component || undefined,
+      bloodType: bloodType || undefined
+    });
+
+    if (result.success && result.data) {
+      setInventory(result.data);
+      setError('');
+    } else {
+      setError(result.error || t('error'));
+    }
+  }, [hospitalId, status, component, bloodType, t]);
+
+  useEffect(() => {
+    load();
+  }, [load, version]);
+
+  const changeStatus = async (unit: BloodUnit, nextStatus: UnitStatus) => {
+    if (nextStatus === 'discarded' && !window.confirm(t('inventory_confirm_discard', { bagId: unit.bagId }))) return;
+
+    setBusyUnitId(unit.id);
+    setError('');
+    const result = await HospitalService.updateUnitStatus(hospitalId, unit.id, {
+      status: nextStatus,
+      discardReason: nextStatus === 'discarded' ? discardReason : undefined
+    });
+    setBusyUnitId(null);
+
+    if (result.success && result.data) {
+      onStockChanged(result.data.bloodStock);
+      await load();
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  const addUnit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setIsAdding(true);
+    setError('');
+    const result = await HospitalService.addUnit(hospitalId, {
+      bagId: newUnit.bagId.trim() || undefined,
+      component: newUnit.component,
+      bloodType: newUnit.bloodType,
+      collectedAt: newUnit.collectedAt ? new Date(newUnit.collectedAt).toISOString() : undefined
+    });
+    setIsAdding(false);
+
+    if (result.success && result.data) {
+      setNewUnit(previous => ({ ...previous, bagId: '' }));
+      onStockChanged(result.data.bloodStock);
+      await load();
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  if (!inventory) {
+    return error
+      ? <div className="hospital-error" role="alert">{error}</div>
+      : <p className="hospital-empty">{t('loading')}</p>;
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className="inventory-panel">
+      <table className="inventory-summary">
+        <thead>
+          <tr>
+            <th scope="col">{t('inventory_component')}</th>
+            {BLOOD_TYPES.map(type => <th key={type} scope="col">{type}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {BLOOD_COMPONENTS.map(item => (
+            <tr key={item}>
+              <th scope="row">{t(`component_${item}`)}</th>
+              {BLOOD_TYPES.map(type => {
+                const { count, nextExpiry } = inventory.summary[item][type];
+                const expiringSoon = nextExpiry !== null && new Date(nextExpiry).getTime() - now < EXPIRING_SOON_MS;
+                return (
+                  <td
+                    key={type}
+                    className={expiringSoon ? 'expiring' : ''}
+                    title={nextExpiry ? t('inventory_next_expiry', { date: new Date(nextExpiry).toLocaleDateString() }) : undefined}
+                  >
+                    {count}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="inventory-filters">
+        <select value={status} onChange={(e) => setStatus(e.target.value as UnitStatus)} aria-label={t('inventory_status')}>
+          {UNIT_STATUSES.map(item => <option key={item} value={item}>{t(`inventory_status_${item}`)}</option>)}
+        </select>
+        <select
+          value={component}
+          onChange={(e) => setComponent(e.target.value as BloodComponent | '')}
+          aria-label={t('inventory_component')}
+        >
+          <option value="">{t('inventory_all_components')}</option>
+          {BLOOD_COMPONENTS.map(item => <option key={item} value={item}>{t(`component_${item}`)}</option>)}
+        </select>
+        <select
+          value={bloodType}
+          onChange={(e) => setBloodType(e.target.value as BloodType | '')}
+          aria-label={t('blood_type')}
+        >
+          <option value="">{t('inventory_all_blood_types')}</option>
+          {BLOOD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        {canEdit && (
+          <label>
+            {t('inventory_discard_reason')}
+            <select value={discardReason} onChange={(e) => setDiscardReason(e.target.value as DiscardReason)}>
+              {DISCARD_REASONS.map(reason => <option key={reason} value={reason}>{t(`inventory_reason_${reason}`)}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {error && <div className="hospital-error" role="alert">{error}</div>}
+
+      {inventory.units.length === 0 ? (
+        <p className="hospital-empty">{t('inventory_no_units')}</p>
+      ) : (
+        <ul className="inventory-units">
+          {inventory.units.map(unit => {
+            const expiringSoon = ['available', 'reserved'].includes(unit.status) &&
+              new Date(unit.expiresAt).getTime() - now < EXPIRING_SOON_MS;
+            const busy = busyUnitId === unit.id;
+
+            return (
+              <li key={unit.id} className={`inventory-unit ${unit.status} ${expiringSoon ? 'expiring' : ''}`}>
+                <span className="hospital-blood-type">{unit.bloodType}</span>
+                <div className="inventory-unit-details">
+                  <strong>{unit.bagId}</strong>
+                  <span>{t(`component_${unit.component}`)}</span>
+                  <small>
+                    {unit.status === 'discarded' && unit.discardReason
+                      ? t(`inventory_reason_${unit.discardReason}`)
+                      : t('inventory_expires', { date: new Date(unit.expiresAt).toLocaleDateString() })}
+                  </small>
+                </div>
+                {canEdit && (unit.status === 'available' || unit.status === 'reserved') && (
+                  <div className="inventory-unit-actions">
+                    {unit.status === 'available' ? (
+                      <button className="hospital-button" disabled={busy} onClick={() => changeStatus(unit, 'reserved')}>
+                        {t('inventory_reserve')}
+                      </button>
+                    ) : (
+                      <button className="hospital-button" disabled={busy} onClick={() => changeStatus(unit, 'available')}>
+                        {t('inventory_release')}
+                      </button>
+                    )}
+                    <button className="hospital-button primary" disabled={busy} onClick={() => changeStatus(unit, 'issued')}>
+                      {t('inventory_issue')}
+                    </button>
+                    <button className="hospital-button" disabled={busy} onClick={() => changeStatus(unit, 'discarded')}>
+                      {t('inventory_discard')}
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form className="inventory-add" onSubmit={addUnit}>
+          <h3>{t('inventory_add_unit')}</h3>
+          <input
+            value={newUnit.bagId}
+            onChange={(e) => setNewUnit(previous => ({ ...previous, bagId: e.target.value }))}
+            placeholder={t('inventory_bag_id')}
+            aria-label={t('inventory_bag_id')}
+            maxLength={40}
+            autoComplete="off"
+          />
+          <select
+            value={newUnit.component}
+            onChange={(e) => setNewUnit(previous => ({ ...previous, component: e.target.value as BloodComponent }))}
+            aria-label={t('inventory_component')}
+          >
+            {BLOOD_COMPONENTS.map(item => <option key={item} value={item}>{t(`component_${item}`)}</option>)}
+          </select>
+          <select
+            value={newUnit.bloodType}
+            onChange={(e) => setNewUnit(previous => ({ ...previous, bloodType: e.target.value as BloodType }))}
+            aria-label={t('blood_type')}
+          >
+            {BLOOD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <label>
+            {t('inventory_collected_on')}
+            <input
+              type="date"
+              value={newUnit.collectedAt}
+              max={new Date().toISOString().slice(0, 10)}
+              onChange={(e) => setNewUnit(previous => ({ ...previous, collectedAt: e.target.value }))}
+            />
+          </label>
+          <button type="submit" className="hospital-button primary" disabled={isAdding}>
+            {isAdding ? t('loading') : t('inventory_add')}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default InventoryPanel;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BLOOD_TYPES, type BloodType, type Urgency } from '../services/HospitalService';
+import { MAX_UNITS_PER_REQUEST } from '../services/BloodRequestService';
+import { DONATION_TYPES, type DonationType } from '../services/DonorService';
+import { TrackingService, type RequestChanges, type RequestTracking } from '../services/TrackingService';
+import './RequestManagePanel.css';
+
+const URGENCIES: Urgency[] = ['critical', 'urgent', 'normal'];
+const EXTENSION_HOURS = [2, 6, 12, 24];
+
+interface RequestManagePanelProps {
+  tracking: RequestTracking;
+  token: string;
+  onChanged: (tracking: RequestTracking) => void;
+  // The tracking token expired; the page asks for the PIN again
+  onUnauthorized: (message?: string) => void;
+}
+
+// Requester's controls on the tracking page: extend, correct or cancel an open request
+export const RequestManagePanel: React.FC<RequestManagePanelProps> = ({ tracking, token, onChanged, onUnauthorized }) => {
+  const { t } = useTranslation();
+
+  const [hours, setHours] = useState(EXTENSION_HOURS[1]);
+  const [draft, setDraft] = useState<RequestChanges | null>(null);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Once a hospital accepts, it is preparing for the patient and the blood needed is fixed
+  const bloodLocked = tracking.status === 'accepted';
+
+  const run = async (action: () => ReturnType<typeof TrackingService.extend>) => {
+    setIsBusy(true);
+    setError('');
+    const result = await action();
+    setIsBusy(false);
+
+    if (result.success && result.data) {
+      onChanged(result.data);
+      return true;
+    }
+    if (result.status === 401 || result.status === 403) {
+      onUnauthorized(result.error);
+    } else {
+      setError(result.error || t('error'));
+    }
+    return false;
+  };
+
+  const startEditing = () => {
+    setDraft({
+      requesterName: tracking.requesterName,
+      bloodType: tracking.bloodType,
+      donationType: tracking.donationType,
+      urgency: tracking.urgency,
+      patientCondition: tracking.patientCondition,
+      unitsRequired: tracking.unitsRequired
+    });
+  };
+
+  const saveEdit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+
+    // Only send what changed, so locked fields are never touched
+    const changes = Object.fromEntries(
+      Object.entries(draft).filter(([field, value]) => value !== tracking[field as keyof RequestTracking])
+    ) as RequestChanges;
+    if (Object.keys(changes).length === 0) {
+      setDraft(null);
+      return;
+    }
+
+    if (await run(() => TrackingService.edit(tracking.requestId, token, changes))) {
+      setDraft(null);
+    }
+  };
+
+  const cancelRequest = async () => {
+    const reason = window.prompt(t('track_cancel_reason'));
+    if (reason === null) return;
+    await run(() => TrackingService.cancel(tracking.requestId, token, reason.trim() || undefined));
+  };
+
+  return (
+    <section className="request-manage">
+      <h2>{t('track_manage')}</h2>
+
+      {draft ? (
+        <form className="request-manage-edit" onSubmit={saveEdit}>
+          <label>
+            {t('your_name')}
+            <input
+              value={draft.requesterName}
+              maxLength={100}
+              onChange={(e) => setDraft({ ...draft, requesterName: e.target.value })}
+            />
+          </label>
+          <label>
+            {t('blood_type')}
+            <select
+              value={draft.bloodType}
+              disabled={bloodLocked}
+              onChange={(e) => setDraft({ ...draft, bloodType: e.target.value as BloodType })}
+            >
+              {BLOOD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+          <label>
+            {t('donation_type')}
+            <select
+              value={draft.donationType}
+              disabled={bloodLocked}
+              onChange={(e) => setDraft({ ...draft, donationType: e.target.value as DonationType })}
+            >
+              {DONATION_TYPES.map(type => <option key={type} value={type}>{t(`donation_type_${type}`)}</option>)}
+            </select>
+          </label>
+          <label>
+            {t('urgency_level')}
+            <select
+              value={draft.urgency}
+              onChange={(e) => setDraft({ ...draft, urgency: e.target.value as Urgency })}
+            >
+              {URGENCIES.map(urgency => <option key={urgency} value={urgency}>{t(urgency)}</option>)}
+            </select>
+          </label>
+          <label>
+            {t('units_required')}
+            <select
+              value={draft.unitsRequired}
+              onChange={(e) => setDraft({ ...draft, unitsRequired: Number(e.target.value) })}
+            >
+              {/* Units already provided cannot be taken back */}
+              {Array.from({ length: MAX_UNITS_PER_REQUEST }, (_, index) => index + 1)
+                .filter(units => units >= tracking.unitsFulfilled)
+                .map(units => <option key={units} value={units}>{units}</option>)}
+            </select>
+          </label>
+          <label>
+            {t('patient_condition')}
+            <textarea
+              value={draft.patientCondition}
+              maxLength={500}
+              rows={3}
+              onChange={(e) => setDraft({ ...draft, patientCondition: e.target.value })}
+            />
+          </label>
+          {bloodLocked && <p className="request-manage-hint">{t('track_edit_locked')}</p>}
+          <div className="request-manage-actions">
+            <button type="submit" className="track-button" disabled={isBusy}>
+              {isBusy ? t('loading') : t('track_save_changes')}
+            </button>
+            <button type="button" className="request-manage-secondary" onClick={() => setDraft(null)}>
+              {t('cancel')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <div className="request-manage-extend">
+            <select value={hours} onChange={(e) => setHours(Number(e.target.value))} aria-label={t('track_extend_hours')}>
+              {EXTENSION_HOURS.map(option => (
+                <option key={option} value={option}>{t('track_extend_option', { hours: option })}</option>
+              ))}
+            </select>
+            <button
+              className="request-manage-secondary"
+              disabled={isBusy}
+              onClick={() => run(() => TrackingService.extend(tracking.requestId, token, hours))}
+            >
+              {t('track_extend')}
+            </button>
+          </div>
+          <div className="request-manage-actions">
+            <button className="request-manage-secondary" disabled={isBusy} onClick={startEditing}>
+              {t('track_edit')}
+            </button>
+            <button className="request-manage-danger" disabled={isBusy} onClick={cancelRequest}>
+              {t('track_cancel')}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="error-message" role="alert">{error}</div>}
+    </section>
+  );
+};
+
+export default RequestManagePanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BLOOD_TYPES, HospitalService, type BloodType, type StockSettings } from '../services/HospitalService';
+import './StockAlertSettings.css';
+
+interface StockAlertSettingsProps {
+  hospitalId: string;
+  settings: StockSettings;
+  onSaved: (settings: StockSettings) => void;
+}
+
+export const StockAlertSettings: React.FC<StockAlertSettingsProps> = ({ hospitalId, settings, onSaved }) => {
+  const { t } = useTranslation();
+
+  const [draft, setDraft] = useState<StockSettings>(settings);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setThreshold = (bloodType: BloodType, value: string) => {
+    setSaved(false);
+    setDraft(previous => ({
+      ...previous,
+      stockThresholds: { ...previous.stockThresholds, [bloodType]: Math.max(0, parseInt(value) || 0) }
+    }));
+  };
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    setIsSaving(true);
+    setError('');
+    const result = await HospitalService.updateSettings(hospitalId, draft);
+    setIsSaving(false);
+
+    if (result.success && result.data) {
+      const { stockThresholds, expiryAlertDays, autoDonorDrive } = result.data.settings;
+      onSaved({ stockThresholds, expiryAlertDays, autoDonorDrive });
+      setSaved(true);
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  return (
+    <form className="stock-alert-settings" onSubmit={save}>
+      <p className="hospital-empty">{t('stock_alerts_help')}</p>
+      <div className="stock-alert-thresholds">
+        {BLOOD_TYPES.map(bloodType => (
+          <label key={bloodType}>
+            <span className="hospital-blood-type">{bloodType}</span>
+            <input
+              type="number"
+              min={0}
+              max={1000}
+              value={draft.stockThresholds[bloodType] ?? 0}
+              onChange={(e) => setThreshold(bloodType, e.target.value)}
+              aria-label={t('stock_alerts_minimum', { bloodType })}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="stock-alert-options">
+        <label>
+          {t('stock_alerts_expiry_days')}
+          <input
+            type="number"
+            min={1}
+            max={14}
+            value={draft.expiryAlertDays}
+            onChange={(e) => {
+              setSaved(false);
+              setDraft(previous => ({ ...previous, expiryAlertDays: Math.min(14, Math.max(1, parseInt(e.target.value) || 1)) }));
+            }}
+          />
+        </label>
+        <label className="stock-alert-checkbox">
+          <input
+            type="checkbox"
+            checked={draft.autoDonorDrive}
+            onChange={(e) => {
+              setSaved(false);
+              setDraft(previous => ({ ...previous, autoDonorDrive: e.target.checked }));
+            }}
+          />
+          {t('stock_alerts_auto_drive')}
+        </label>
+        <button type="submit" className="hospital-button primary" disabled={isSaving}>
+          {isSaving ? t('loading') : t('stock_alerts_save')}
+        </button>
+        {saved && <span className="stock-alert-saved">{t('stock_alerts_saved')}</span>}
+      </div>
+      {error && <div className="hospital-error" role="alert">{error}</div>}
+    </form>
+  );
+};
+
+export default StockAlertSettings;
@@ -0,0 +1,275 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BLOOD_TYPES, type BloodType } from '../services/HospitalService';
+import { DONATION_TYPES, type DonationType } from '../services/DonorService';
+import {
+  TransferService,
+  type BloodTransfer,
+  type TransferSupplier
+} from '../services/TransferService';
+import './TransferPanel.css';
+
+// What the hospital is short of, e.g. picked from an accepted request it cannot fill
+export interface TransferNeed {
+  bloodType: BloodType;
+  donationType: DonationType;
+  units: number;
+  requestId?: string;
+}
+
+interface TransferPanelProps {
+  canEdit: boolean;
+  need: TransferNeed | null;
+  // Bumped by the dashboard when a transfer changed elsewhere, to reload the list
+  version: number;
+  onStockChanged: (bloodStock: Record<BloodType, number>) => void;
+}
+
+export const TransferPanel: React.FC<TransferPanelProps> = ({ canEdit, need, version, onStockChanged }) => {
+  const { t } = useTranslation();
+
+  const [search, setSearch] = useState<TransferNeed>({ bloodType: 'O+', donationType: 'whole_blood', units: 1 });
+  const [suppliers, setSuppliers] = useState<TransferSupplier[] | null>(null);
+  const [transfers, setTransfers] = useState<BloodTransfer[]>([]);
+  const [error, setError] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTransfers = useCallback(async () => {
+    const result = await TransferService.getTransfers();
+    if (result.success && result.data) {
+      setTransfers(result.data);
+    } else {
+      setError(result.error || t('error'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers, version]);
+
+  const findSuppliers = useCallback(async (query: TransferNeed) => {
+    setIsSearching(true);
+    setError('');
+    const result = await TransferService.findSuppliers(query);
+    setIsSearching(false);
+
+    if (result.success && result.data) {
+      setSuppliers(result.data);
+    } else {
+      setSuppliers(null);
+      setError(result.error || t('error'));
+    }
+  }, [t]);
+
+  // A request picked on the dashboard starts a search straight away
+  useEffect(() => {
+    if (!need) return;
+    setSearch(need);
+    findSuppliers(need);
+  }, [need, findSuppliers]);
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    findSuppliers(search);
+  };
+
+  const requestTransfer = async (supplier: TransferSupplier, bloodType: BloodType) => {
+    setBusyId(supplier.hospital.id);
+    setError('');
+    const result = await TransferService.requestTransfer({
+      supplyingHospitalId: supplier.hospital.id,
+      bloodType,
+      patientBloodType: search.bloodType,
+      donationType: search.donationType,
+      units: search.units,
+      requestId: search.requestId
+    });
+    setBusyId(null);
+
+    if (result.success) {
+      setSuppliers(null);
+      await loadTransfers();
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  const updateTransfer = async (transfer: BloodTransfer, action: 'accept' | 'reject' | 'dispatch' | 'receive' | 'cancel') => {
+    let reason: string | undefined;
+    if (action === 'reject') {
+      const answer = window.prompt(t('transfer_reject_reason'));
+      if (answer === null) return;
+      reason = answer.trim() || undefined;
+    }
+    if (action === 'cancel' && !window.confirm(t('transfer_confirm_cancel'))) return;
+
+    setBusyId(transfer.id);
+    setError('');
+    const result = action === 'accept' || action === 'reject'
+      ? await TransferService.respond(transfer.id, action === 'accept', reason)
+      : await TransferService.advance(transfer.id, action);
+    setBusyId(null);
+
+    if (result.success && result.data) {
+      onStockChanged(result.data.bloodStock);
+      await loadTransfers();
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  const renderActions = (transfer: BloodTransfer) => {
+    if (!canEdit) return null;
+    const busy = busyId === transfer.id;
+
+    if (transfer.direction === 'incoming') {
+      if (transfer.status === 'requested') {
+        return (
+          <>
+            <button className="hospital-button primary" disabled={busy} onClick={() => updateTransfer(transfer, 'accept')}>
+              {t('transfer_accept')}
+            </button>
+            <button className="hospital-button" disabled={busy} onClick={() => updateTransfer(transfer, 'reject')}>
+              {t('transfer_reject')}
+            </button>
+          </>
+        );
+      }
+      if (transfer.status === 'accepted') {
+        return (
+          <button className="hospital-button primary" disabled={busy} onClick={() => updateTransfer(transfer, 'dispatch')}>
+            {t('transfer_dispatch')}
+          </button>
+        );
+      }
+      return null;
+    }
+
+    if (transfer.status === 'dispatched') {
+      return (
+        <button className="hospital-button success" disabled={busy} onClick={() => updateTransfer(transfer, 'receive')}>
+          {t('transfer_receive')}
+        </button>
+      );
+    }
+    if (transfer.status === 'requested' || transfer.status === 'accepted') {
+      return (
+        <button className="hospital-button" disabled={busy} onClick={() => updateTransfer(transfer, 'cancel')}>
+          {t('cancel')}
+        </button>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="transfer-panel">
+      {canEdit && (
+        <div className="transfer-search">
+          <form onSubmit={handleSearch}>
+            <label>
+              {t('transfer_patient_type')}
+              <select
+                value={search.bloodType}
+                onChange={(e) => setSearch(previous => ({ ...previous, bloodType: e.target.value as BloodType }))}
+              >
+                {BLOOD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label>
+              {t('donation_type')}
+              <select
+                value={search.donationType}
+                onChange={(e) => setSearch(previous => ({ ...previous, donationType: e.target.value as DonationType }))}
+              >
+                {DONATION_TYPES.map(type => <option key={type} value={type}>{t(`donation_type_${type}`)}</option>)}
+              </select>
+            </label>
+            <label>
+              {t('transfer_units')}
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={search.units}
+                onChange={(e) => setSearch(previous => ({ ...previous, units: Math.min(50, Math.max(1, parseInt(e.target.value) || 1)) }))}
+              />
+            </label>
+            <button type="submit" className="hospital-button primary" disabled={isSearching}>
+              {isSearching ? t('loading') : t('transfer_find')}
+            </button>
+          </form>
+
+          {suppliers && (suppliers.length === 0 ? (
+            <p className="hospital-empty">{t('transfer_no_suppliers')}</p>
+          ) : (
+            <ul className="transfer-suppliers">
+              {suppliers.map(supplier => (
+                <li key={supplier.hospital.id}>
+                  <div>
+                    <strong>{supplier.hospital.name}</strong>
+                    <small>
+                      {t('transfer_distance', { distance: supplier.distance })}
+                      {!supplier.hospital.isOpen && ` · ${t('transfer_closed')}`}
+                    </small>
+                  </div>
+                  <div className="transfer-options">
+                    {supplier.options.map(option => (
+                      <button
+                        key={option.bloodType}
+                        className="hospital-button"
+                        disabled={busyId === supplier.hospital.id}
+                        onClick={() => requestTransfer(supplier, option.bloodType)}
+                      >
+                        {t('transfer_request_type', { bloodType: option.bloodType, count: option.available })}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="hospital-error" role="alert">{error}</div>}
+
+      {transfers.length === 0 ? (
+        <p className="hospital-empty">{t('transfer_none')}</p>
+      ) : (
+        <ul className="transfer-list">
+          {transfers.map(transfer => (
+            <li key={transfer.id} className={`transfer-item ${transfer.status}`}>
+              <span className="hospital-blood-type">{transfer.bloodType}</span>
+              <div className="transfer-item-details">
+                <strong>
+                  {transfer.direction === 'outgoing'
+                    ? t('transfer_from', { name: transfer.supplyingHospital.name })
+                    : t('transfer_to', { name: transfer.requestingHospital.name })}
+                </strong>
+                <span>
+                  {t('transfer_summary', {
+                    count: transfer.units,
+                    donationType: t(`donation_type_${transfer.donationType}`)
+                  })}
+                  {transfer.patientBloodType !== transfer.bloodType && (
+                    <> · {t('transfer_for_patient', { bloodType: transfer.patientBloodType })}</>
+                  )}
+                </span>
+                <small>
+                  <span className={`transfer-status ${transfer.status}`}>{t(`transfer_status_${transfer.status}`)}</span>
+                  {transfer.rejectionReason && ` · ${transfer.rejectionReason}`}
+                  {' · '}{new Date(transfer.createdAt).toLocaleString()}
+                </small>
+              </div>
+              <div className="transfer-item-actions">{renderActions(transfer)}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TransferPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTranslation } from 'react-i18next';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import './UpdatePrompt.css';
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+export const UpdatePrompt: React.FC = () => {
+  const { t } = useTranslation();
+
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW(_swUrl, registration) {
+      // Long-lived tabs (hospital screens) should still notice new deployments
+      if (registration) {
+        setInterval(() => {
+          registration.update();
+        }, UPDATE_CHECK_INTERVAL);
+      }
+    },
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+
+  const close = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <AnimatePresence>
+      {(needRefresh || offlineReady) && (
+        <motion.div
+          className="update-prompt"
+          role="alert"
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 50 }}
+        >
+          <p>{needRefresh ? t('update_available') : t('offline_ready')}</p>
+
+          <div className="update-prompt-actions">
+            {needRefresh && (
+              <button
+                className="update-prompt-reload"
+                onClick={() => updateServiceWorker(true)}
+              >
+                {t('reload')}
+              </button>
+            )}
+            <button className="update-prompt-close" onClick={close}>
+              {t('close')}
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect } from 'react';
+import { OfflineQueueService } from '../services/OfflineQueueService';
+import type { QueuedRequest } from '../services/OfflineQueueService';
+
+export interface UseOfflineQueueReturn {
+  entries: QueuedRequest[];
+  pendingCount: number;
+  isOnline: boolean;
+  flush: (options?: { force?: boolean }) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const useOfflineQueue = (): UseOfflineQueueReturn => {
+  const [entries, setEntries] = useState<QueuedRequest[]>([]);
+  const [isOnline, setIsOnline] = useState(
+    typeof navigator !== 'undefined' ? navigator.onLine : true
+  );
+
+  useEffect(() => {
+    const unsubscribe = OfflineQueueService.subscribe(setEntries);
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const flush = useCallback((options?: { force?: boolean }) => OfflineQueueService.flush(options), []);
+
+  const remove = useCallback((id: string) => OfflineQueueService.remove(id), []);
+
+  const pendingCount = entries.filter(
+    entry => entry.status === 'queued' || entry.status === 'sending'
+  ).length;
+
+  return {
+    entries,
+    pendingCount,
+    isOnline,
+    flush,
+    remove
+  };
+};
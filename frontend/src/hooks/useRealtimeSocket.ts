@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { io, type Socket } from 'socket.io-client';
+import { AuthService } from '../services/AuthService';
+
+type SocketRole = 'hospital' | 'donor';
+
+// Each handler declares the payload shape of the event it listens to
+export type SocketHandlers = Record<string, (payload: never) => void>;
+
+export interface UseRealtimeSocketReturn {
+  isConnected: boolean;
+  error: string | null;
+  emit: (event: string, payload?: unknown) => void;
+}
+
+const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
+
+/**
+ * Keeps a Socket.io connection open for the logged-in hospital or donor while
+ * `enabled`. Handlers may change between renders without reconnecting.
+ */
+export const useRealtimeSocket = (
+  role: SocketRole,
+  handlers: SocketHandlers,
+  enabled = true
+): UseRealtimeSocketReturn => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Called on every (re)connect so a refreshed access token is picked up
+    const socket = io(SOCKET_URL, {
+      auth: (cb) => {
+        AuthService.getAccessToken(role).then(token => cb({ token }));
+      }
+    });
+    socketRef.current = socket;
+
+    // The server rejects the handshake when the token has expired or the
+    // session was revoked; Socket.io does not retry those on its own
+    let retried = false;
+
+    socket.on('connect', () => {
+      retried = false;
+      setIsConnected(true);
+      setError(null);
+    });
+
+    socket.on('disconnect', () => setIsConnected(false));
+
+    socket.on('connect_error', async (err) => {
+      setError(err.message);
+      if (socket.active || retried) return;
+      retried = true;
+      if (await AuthService.refresh(role)) socket.connect();
+    });
+
+    socket.onAny((event: string, payload: unknown) => {
+      const handler = handlersRef.current[event] as ((payload: unknown) => void) | undefined;
+      handler?.(payload);
+    });
+
+    return () => {
+      socket.disconnect();
+      socketRef.current = null;
+      setIsConnected(false);
+    };
+  }, [role, enabled]);
+
+  const emit = useCallback((event: string, payload?: unknown) => {
+    socketRef.current?.emit(event, payload);
+  }, []);
+
+  return {
+    isConnected,
+    error,
+    emit
+  };
+};
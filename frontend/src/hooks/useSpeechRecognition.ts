@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
 export interface UseSpeechRecognitionReturn {
   listening: boolean;
@@ -18,7 +18,7 @@ declare global {
   }
 }
 
-export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
+export const useSpeechRecognition = (lang: string = 'en-US'): UseSpeechRecognitionReturn => {
   const [listening, setListening] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [interimTranscript, setInterimTranscript] = useState('');
@@ -37,7 +37,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
         const recognition = new SpeechRecognition();
         recognition.continuous = false;
         recognition.interimResults = true;
-        recognition.lang = 'en-US';
+        recognition.lang = lang;
 
         recognition.onstart = () => {
           setListening(true);
@@ -88,7 +88,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
         recognitionRef.current.stop();
       }
     };
-  }, []);
+  }, [lang]);
 
   const startListening = useCallback(() => {
     if (supported && recognitionRef.current && !listening) {
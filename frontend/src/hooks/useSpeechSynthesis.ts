@@ -1,7 +1,7 @@
 import { useState, useCallback, useEffect } from 'react';
 
 export interface UseSpeechSynthesisReturn {
-  speak: (text: string, options?: SpeechSynthesisUtterance) => void;
+  speak: (text: string, options?: Partial<SpeechSynthesisUtterance>) => void;
   cancel: () => void;
   pause: () => void;
   resume: () => void;
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+import { io } from 'socket.io-client';
+import type { RequestTracking } from '../services/TrackingService';
+
+const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3001';
+
+/**
+ * Read-only Socket.io connection for the requester's tracking page. The
+ * server sends the full tracking state on connect and after every change.
+ */
+export const useTrackingSocket = (
+  token: string | null,
+  onUpdate: (tracking: RequestTracking) => void
+): { isConnected: boolean } => {
+  const [isConnected, setIsConnected] = useState(false);
+  const onUpdateRef = useRef(onUpdate);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const socket = io(SOCKET_URL, { auth: { token } });
+
+    socket.on('connect', () => setIsConnected(true));
+    socket.on('disconnect', () => setIsConnected(false));
+    socket.on('tracking_update', (tracking: RequestTracking) => onUpdateRef.current(tracking));
+
+    return () => {
+      socket.disconnect();
+      setIsConnected(false);
+    };
+  }, [token]);
+
+  return { isConnected };
+};
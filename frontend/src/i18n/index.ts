@@ -49,6 +49,16 @@ const resources = {
       urgent: "Urgent",
       normal: "Normal",
 
+      // Donation types
+      donation_type: "Blood component needed",
+      donation_type_whole_blood: "Whole blood",
+      donation_type_platelets: "Platelets",
+      donation_type_plasma: "Plasma",
+      donation_type_double_red_cells: "Double red cells",
+      compatible_donor_types: "Can receive from: {{types}}",
+      units_required: "Units needed",
+      units_required_hint: "One unit is one bag of blood. Ask the doctor if you are not sure.",
+
       // Request submission
       sending_request: "Sending emergency request...",
       contacting_hospitals: "Contacting nearby hospitals...",
@@ -62,6 +72,431 @@ const resources = {
       request_failed: "Failed to send request. Please try again.",
       request_error: "An error occurred while sending your request",
 
+      // Request tracking
+      track_request: "Track this request",
+      track_pin_sent: "We have texted a PIN to your phone to follow this request live.",
+      track_title: "Your Blood Request",
+      track_enter_pin: "Enter the 6-digit PIN we sent to your phone by SMS.",
+      track_pin: "PIN",
+      track_pin_invalid: "The PIN has 6 digits",
+      track_view: "View Progress",
+      track_live: "Live",
+      track_offline: "Reconnecting...",
+      track_status_pending: "Looking for a hospital",
+      track_status_accepted: "Accepted by a hospital",
+      track_status_completed: "Completed",
+      track_status_cancelled: "Closed",
+      track_hospital: "Hospital",
+      track_waiting_for_hospital: "Nearby hospitals have been alerted. You will see here who accepts.",
+      track_call_hospital: "Call hospital",
+      track_directions: "Directions",
+      track_donors_contacted: "Donors contacted",
+      track_donors_responded: "Donors coming",
+      track_donors_on_the_way: "On the way",
+      track_donors_arrived: "Arrived",
+      track_eta: "Nearest donor",
+      track_eta_minutes: "about {{minutes}} min",
+      track_time_remaining: "Time remaining",
+      track_read_aloud: "Read aloud",
+      track_voice_updates: "Speak updates",
+      track_voice_pending: "Your {{bloodType}} blood request is waiting for a hospital.",
+      track_voice_accepted: "{{name}} has accepted your {{bloodType}} blood request.",
+      track_voice_completed: "Your {{bloodType}} blood request is complete.",
+      track_voice_cancelled: "Your {{bloodType}} blood request has been closed.",
+      track_voice_donors: "Donors coming: {{count}}.",
+      track_voice_eta: "The nearest donor is about {{minutes}} minutes away.",
+      track_voice_arrived: "Donors arrived: {{count}}.",
+      track_lost_pin: "Lost the PIN? Get a code by SMS",
+      track_use_pin: "I have my PIN",
+      track_code_intro: "We will text a one-time code to the phone number used for this request.",
+      track_send_code: "Send Code",
+      track_enter_code: "Enter the 6-digit code we just sent to your phone.",
+      track_code: "Code",
+      track_code_invalid: "The code has 6 digits",
+      track_manage: "Manage request",
+      track_extend: "Keep open longer",
+      track_extend_hours: "Extra time",
+      track_extend_option: "+{{hours}} hours",
+      track_edit: "Correct details",
+      track_edit_locked: "A hospital has accepted this request, so the blood type and component can no longer change. Please call the hospital.",
+      track_save_changes: "Save Changes",
+      track_cancel: "Cancel request",
+      track_cancel_reason: "Why are you cancelling? (optional)",
+      track_units: "Units of blood",
+      track_units_progress: "{{fulfilled}} of {{required}} units provided",
+      track_hospitals_sharing: "{{count}} hospitals are sharing this request",
+      track_voice_units: "{{fulfilled}} of {{required}} units provided.",
+
+      // Offline queue
+      request_queued: "Request Saved",
+      request_queued_description: "You are offline. Your request is saved on this phone and will be sent automatically when the internet is back.",
+      request_queued_voice: "You are offline. Your request is saved and will be sent automatically.",
+      connection: "Connection",
+      online: "Online",
+      offline: "Offline",
+      queue_status: "Status",
+      queue_status_queued: "Waiting to send",
+      queue_status_sending: "Sending...",
+      queue_status_sent: "Sent",
+      queue_status_failed: "Could not be sent",
+      send_attempts: "Send attempts",
+      next_attempt: "Next attempt at",
+      queued_requests_count: "{{count}} requests waiting to send",
+      send_now: "Send Now",
+
+      // App updates
+      update_available: "A new version of OneBlood is available.",
+      offline_ready: "OneBlood is ready to work offline.",
+      reload: "Reload",
+
+      // Staff accounts
+      staff_accept_invite: "Join your hospital on OneBlood",
+      staff_accept_invite_description: "Choose a password to activate your staff account.",
+      staff_reset_password: "Reset Password",
+      staff_reset_password_description: "Choose a new password for your staff account.",
+      staff_forgot_password_description: "Enter your work email and we will send you a reset link.",
+      staff_email: "Work Email",
+      staff_password: "Password",
+      staff_confirm_password: "Confirm Password",
+      staff_password_too_short: "Password must be at least 8 characters long",
+      staff_passwords_do_not_match: "Passwords do not match",
+      staff_email_invalid: "Please enter a valid email address",
+      staff_activate_account: "Activate Account",
+      staff_set_password: "Set Password",
+      staff_send_reset_link: "Send Reset Link",
+      staff_account_activated: "Your account is active. You can now log in from the hospital dashboard.",
+      staff_password_updated: "Your password has been updated. Please log in again.",
+      staff_reset_link_sent: "If an account exists for this email, a reset link has been sent.",
+      staff_go_to_dashboard: "Go to Hospital Dashboard",
+
+      // Admin console
+      admin_console: "OneBlood Admin",
+      admin_log_in: "Log In",
+      admin_log_out: "Log Out",
+      admin_tab_pending: "Pending",
+      admin_tab_approved: "Approved",
+      admin_tab_rejected: "Rejected",
+      admin_tab_audit: "Audit Log",
+      admin_search_placeholder: "Search by name, email or license",
+      admin_no_hospitals: "No hospitals here.",
+      admin_select_hospital: "Select a hospital to review.",
+      admin_license: "License",
+      admin_email: "Email",
+      admin_phone: "Phone",
+      admin_address: "Address",
+      admin_contact_person: "Contact person",
+      admin_location: "Location",
+      admin_documents: "Documents",
+      admin_documents_count: "{{count}} documents",
+      admin_no_documents: "No documents uploaded yet.",
+      admin_document_unavailable: "This document could not be opened.",
+      admin_decision: "Decision",
+      admin_reason_placeholder: "Reason (required to reject)",
+      admin_reason_required: "Please give a reason of at least 5 characters.",
+      admin_approve: "Approve",
+      admin_reject: "Reject",
+      admin_revoke: "Revoke Verification",
+      admin_history: "History",
+
+      // Hospital dashboard
+      hospital_forgot_password: "Forgot your password?",
+      hospital_live: "Live",
+      hospital_reconnecting: "Reconnecting...",
+      hospital_active_requests: "Active Requests",
+      hospital_available_donors: "Available Donors",
+      hospital_units_in_stock: "Units in Stock",
+      hospital_no_requests: "No active requests in your service area.",
+      hospital_donors_matched: "{{count}} donors matched",
+      hospital_donor_eta: "about {{minutes}} min away",
+      hospital_donor_arrived: "Arrived",
+      hospital_donor_no_show: "No-show",
+      donor_response_accepted: "Coming",
+      donor_response_en_route: "On the way",
+      donor_response_arrived: "Arrived",
+      donor_response_donated: "Donated",
+      donor_response_no_show: "Did not turn up",
+      hospital_accept: "Accept",
+      hospital_share_request: "Help With Units",
+      hospital_provide_units: "Provide From Stock",
+      hospital_units_to_provide: "Units to provide",
+      hospital_units_progress: "{{fulfilled}} of {{required}} units provided",
+      hospital_confirm_cancel: "Cancel this request? The requester will be notified.",
+      hospital_request_map: "Request Map",
+      hospital_blood_stock: "Blood Stock",
+      hospital_stock_step: "Units per change",
+      hospital_donors_nearby: "{{count}} donors nearby",
+      hospital_add_units: "Add {{count}} units of {{bloodType}}",
+      hospital_remove_units: "Remove {{count}} units of {{bloodType}}",
+      hospital_live_activity: "Live Activity",
+      hospital_no_activity: "New requests and donor responses will appear here.",
+      hospital_activity_new_request: "New {{bloodType}} request from {{name}}",
+      hospital_activity_donor_accepted: "{{name}} ({{bloodType}}) agreed to donate",
+      hospital_activity_donor_en_route: "{{name}} ({{bloodType}}) is on the way",
+      hospital_activity_donor_arrived: "{{name}} ({{bloodType}}) has arrived",
+      hospital_activity_donor_donated: "{{name}} ({{bloodType}}) donated",
+      hospital_activity_donor_no_show: "{{name}} ({{bloodType}}) did not turn up",
+      hospital_activity_donor_declined: "{{name}} ({{bloodType}}) declined",
+      hospital_activity_expired: "A request expired",
+      hospital_activity_escalated_donors: "No donor yet for {{bloodType}}: asked {{count}} more donors within {{radius}} km",
+      hospital_activity_escalated_hospitals: "No donor yet for {{bloodType}}: alerted {{count}} more hospitals in the region",
+      hospital_activity_request_cancelled: "The requester cancelled a {{bloodType}} request",
+      hospital_activity_request_extended: "A {{bloodType}} request was kept open longer",
+      hospital_activity_request_edited: "The requester updated a {{bloodType}} request",
+      hospital_activity_request_fulfilled: "A {{bloodType}} request has all the units it needs",
+      hospital_activity_units_stock: "{{count}} units provided from stock for a {{bloodType}} request ({{fulfilled}} of {{required}})",
+      hospital_activity_units_donation: "A donor gave for a {{bloodType}} request ({{fulfilled}} of {{required}})",
+      hospital_activity_donation: "Donation recorded from {{name}} ({{bloodType}})",
+      hospital_verification_title: "Verification in progress",
+      hospital_verification_pending: "Your hospital is waiting for review. Upload your license and registration documents so we can verify you.",
+      hospital_verification_rejected: "Your verification was not approved. Upload updated documents to request another review.",
+      hospital_document_license: "License",
+      hospital_document_registration: "Registration certificate",
+      hospital_document_other: "Other document",
+      hospital_upload_document: "Upload Document",
+
+      // Donor QR scanner
+      scanner_title: "Scan Donor Card",
+      scanner_start_camera: "Start Camera",
+      scanner_stop_camera: "Stop Camera",
+      scanner_camera_unsupported: "This browser cannot scan QR codes with the camera. Enter the code from the card instead.",
+      scanner_camera_denied: "Could not open the camera. Check the browser's camera permission.",
+      scanner_manual_entry: "Or enter the QR code text",
+      scanner_verify: "Verify",
+      scanner_waiting: "Scan a donor's QR code to check their eligibility.",
+      scanner_eligible: "Eligible to donate {{donationType}} today",
+      scanner_unavailable: "Donor is marked unavailable",
+      scanner_not_eligible_until: "Not eligible for {{donationType}} until {{date}}",
+      scanner_donation_type: "Donation type",
+      scanner_total_donations: "Total donations",
+      scanner_last_donation: "Last donation",
+      scanner_tested_blood_type: "Tested blood type",
+      scanner_record_donation: "Record Donation",
+      scanner_recorded: "Donation recorded. Bag {{bagId}} ({{bloodType}}) added to stock. Next eligible on {{date}}.",
+      scanner_scan_next: "Scan next donor",
+      scanner_for_request: "For request",
+      scanner_no_request: "Not for a specific request",
+      scanner_points_awarded: "+{{count}} points for the donor.",
+      scanner_badges_awarded: "New badges: {{badges}}",
+      scanner_bag_id: "Bag ID",
+      scanner_bag_id_auto: "Generated if blank",
+
+      // Blood unit inventory
+      inventory_title: "Blood Unit Inventory",
+      inventory_component: "Component",
+      inventory_status: "Status",
+      inventory_status_available: "Available",
+      inventory_status_reserved: "Reserved",
+      inventory_status_issued: "Issued",
+      inventory_status_discarded: "Discarded",
+      inventory_all_components: "All components",
+      inventory_all_blood_types: "All blood types",
+      inventory_discard_reason: "Discard reason",
+      inventory_reason_expired: "Expired",
+      inventory_reason_damaged: "Damaged",
+      inventory_reason_failed_testing: "Failed testing",
+      inventory_reason_other: "Other",
+      inventory_no_units: "No units match these filters.",
+      inventory_expires: "Expires {{date}}",
+      inventory_next_expiry: "Next unit expires {{date}}",
+      inventory_reserve: "Reserve",
+      inventory_release: "Release",
+      inventory_issue: "Issue",
+      inventory_discard: "Discard",
+      inventory_confirm_discard: "Discard bag {{bagId}}? This cannot be undone.",
+      inventory_add_unit: "Add a unit",
+      inventory_bag_id: "Bag ID (optional)",
+      inventory_collected_on: "Collected on",
+      inventory_add: "Add Unit",
+      component_whole_blood: "Whole blood",
+      component_packed_red_cells: "Packed red cells",
+      component_platelets: "Platelets",
+      component_fresh_frozen_plasma: "Fresh frozen plasma",
+      component_cryoprecipitate: "Cryoprecipitate",
+      hospital_activity_units_expired: "Expired blood units were discarded",
+      hospital_activity_low_stock: "{{bloodType}} stock is low ({{count}} units)",
+      hospital_activity_low_stock_drive: "{{bloodType}} stock is low ({{count}} units). Donor drive started",
+      hospital_activity_units_expiring: "{{count}} units expire soon",
+      hospital_low_stock: "Below minimum stock: {{types}}",
+      hospital_units_expiring: "{{count}} units expire within {{days}} days",
+      hospital_stock_minimum: "min {{count}}",
+
+      // Stock alert settings
+      stock_alerts_title: "Stock Alerts",
+      stock_alerts_help: "Minimum units to keep of each blood type. Set 0 to turn off the alert for a type.",
+      stock_alerts_minimum: "Minimum {{bloodType}} units",
+      stock_alerts_expiry_days: "Warn days before expiry",
+      stock_alerts_auto_drive: "Start a donor drive when a type runs low",
+      stock_alerts_save: "Save Alerts",
+      stock_alerts_saved: "Saved",
+
+      // Inter-hospital transfers
+      transfer_title: "Transfers Between Hospitals",
+      transfer_patient_type: "Patient blood type",
+      transfer_units: "Units",
+      transfer_find: "Find Partner Stock",
+      transfer_no_suppliers: "No partner hospital nearby shares enough compatible stock.",
+      transfer_distance: "{{distance}} km away",
+      transfer_closed: "closed now",
+      transfer_request_type: "Request {{bloodType}} ({{count}} available)",
+      transfer_none: "No transfers yet.",
+      transfer_from: "From {{name}}",
+      transfer_to: "To {{name}}",
+      transfer_summary: "{{count}} units of {{donationType}}",
+      transfer_for_patient: "for a {{bloodType}} patient",
+      transfer_status_requested: "Requested",
+      transfer_status_accepted: "Accepted",
+      transfer_status_rejected: "Rejected",
+      transfer_status_dispatched: "On the way",
+      transfer_status_received: "Received",
+      transfer_status_cancelled: "Cancelled",
+      transfer_accept: "Accept",
+      transfer_reject: "Reject",
+      transfer_dispatch: "Mark Dispatched",
+      transfer_receive: "Mark Received",
+      transfer_reject_reason: "Reason for rejecting (optional)",
+      transfer_confirm_cancel: "Cancel this transfer request?",
+      hospital_find_transfer: "Find Transfer",
+      hospital_activity_transfer_requested: "New transfer request",
+      hospital_activity_transfer_accepted: "Transfer accepted",
+      hospital_activity_transfer_rejected: "Transfer rejected",
+      hospital_activity_transfer_dispatched: "Transfer dispatched",
+      hospital_activity_transfer_received: "Transfer received",
+      hospital_activity_transfer_cancelled: "Transfer cancelled",
+
+      // Donor dashboard
+      donor_dashboard: "Donor Dashboard",
+      donor_login_description: "Enter the phone number you registered with and we will text you a login code.",
+      donor_enter_code: "Enter the 6-digit code we sent you.",
+      donor_code_sent: "If this number is registered, a login code is on its way.",
+      donor_login_code: "Login Code",
+      donor_send_code: "Send Code",
+      donor_verify_code: "Log In",
+      donor_change_number: "Use a different number",
+      donor_welcome: "Hello, {{name}}",
+      donor_points: "{{count}} points",
+      donor_points_label: "Points",
+      donor_alerts: "Blood Needed Near You",
+      donor_distance_away: "{{distance}} km away",
+      donor_expires_in: "expires in {{time}}",
+      donor_accept: "I Can Help",
+      donor_decline: "Not Now",
+      donor_commitments: "Your Responses",
+      donor_on_my_way: "I'm On My Way",
+      donor_arrived: "I've Arrived",
+      donor_cannot_make_it: "Can't Make It",
+      donor_confirm_cannot_make_it: "Let the hospital know you can't make it?",
+      donor_going_to: "Go to {{name}}",
+      donor_going_to_patient: "Go to the patient's location",
+      donor_directions: "Directions",
+      donor_eta: "About {{minutes}} min away",
+      donor_sharing_location: "Sharing your location with the hospital until you arrive",
+      donor_location_private: "Location sharing is off, so the hospital only sees your status",
+      donor_next_donation: "Next Donation",
+      donor_days: "days",
+      donor_hours: "{{count}} hours",
+      donor_ready: "Ready",
+      donor_eligible_on: "You can donate again on {{date}}.",
+      donor_eligible_now: "You are eligible to donate.",
+      donor_interval_rule: "After your last donation you wait {{days}} days before giving whole blood again.",
+      donor_type_eligible_now: "Now",
+      donor_available: "Available for requests",
+      donor_unavailable: "Not taking requests",
+      donor_total_donations: "Donations",
+      donor_badges: "Badges",
+      donor_badge_earned: "Earned",
+      donor_badge_first_donation: "First Donation",
+      donor_badge_first_donation_hint: "Complete your first donation",
+      donor_badge_life_saver: "Life Saver",
+      donor_badge_life_saver_hint: "Donate 5 times",
+      donor_badge_dedicated_donor: "Dedicated Donor",
+      donor_badge_dedicated_donor_hint: "Donate 10 times",
+      donor_badge_regular_donor: "Regular Donor",
+      donor_badge_regular_donor_hint: "Donate regularly whenever you are eligible",
+      donor_badge_emergency_hero: "Emergency Hero",
+      donor_badge_emergency_hero_hint: "Donate for a critical request",
+      donor_badge_rare_blood: "Rare Blood",
+      donor_badge_rare_blood_hint: "Donate a rare blood type",
+      donor_badge_community_leader: "Community Leader",
+      donor_badge_community_leader_hint: "Bring new donors to OneBlood",
+      donor_health: "Health",
+      donor_iron_level: "Hemoglobin (g/dL)",
+      donor_pulse: "Pulse (bpm)",
+      donor_systolic: "Blood pressure (systolic)",
+      donor_blood_pressure_placeholder: "Blood pressure, e.g. 120/80",
+      donor_save_reading: "Save Reading",
+      donor_no_readings: "No readings yet.",
+      donor_timeline: "Your History",
+      donor_timeline_registered: "Joined OneBlood",
+      donor_timeline_donation: "Donated {{donationType}} ({{bloodType}}) at {{hospital}}",
+      donor_timeline_a_hospital: "a hospital",
+      donor_timeline_response_accepted: "Answered a {{urgency}} {{bloodType}} request",
+      donor_timeline_response_declined: "Passed on a {{urgency}} {{bloodType}} request",
+
+      // Donor registration
+      register_title: "Become a Blood Donor",
+      register_voice_guide: "Voice guide",
+      register_step_personal: "About you",
+      register_step_bloodType: "Blood type",
+      register_step_location: "Location",
+      register_step_screening: "Health check",
+      register_step_consent: "Consent",
+      register_voice_personal: "Let's register you as a blood donor. Please enter your name, phone number and date of birth.",
+      register_voice_bloodType: "What is your blood type? Say it, or choose I don't know.",
+      register_voice_location: "Share your location so we can alert you about requests nearby.",
+      register_voice_screening: "A few quick health questions. Answer yes or no.",
+      register_voice_consent: "Please check your details and give your consent to finish.",
+      register_voice_done: "You are registered. Thank you for joining OneBlood.",
+      register_voice_not_understood: "Sorry, I did not catch that. Please try again.",
+      register_date_of_birth: "Date of Birth",
+      register_sex: "Sex",
+      register_sex_hint: "Used to work out how long you wait between donations.",
+      register_sex_unspecified: "Prefer not to say",
+      register_sex_female: "Female",
+      register_sex_male: "Male",
+      register_sex_other: "Other",
+      register_dob_required: "Date of birth is required",
+      register_age_range: "Donors must be between {{min}} and {{max}} years old",
+      register_blood_type_prompt: "Select your blood type.",
+      register_blood_type_required: "Please choose your blood type",
+      register_blood_type_unknown: "I don't know",
+      register_blood_type_unknown_note: "No problem. Your blood type will be recorded at your first donation. Until then you will not receive blood type alerts.",
+      register_use_my_location: "Use my current location",
+      register_find_address: "Find this address on the map",
+      register_address_too_short: "Please enter your full address (at least 10 characters)",
+      register_address_not_found: "We could not find that address. Try using your current location.",
+      register_screening_intro: "Answer a few questions about your health today.",
+      register_screening_feeling_well: "Are you feeling well today?",
+      register_screening_weight: "Do you weigh at least 50 kg?",
+      register_screening_recent_illness: "Have you had a fever, infection or taken antibiotics in the last 2 weeks?",
+      register_screening_tattoo: "Have you had a tattoo or piercing in the last 6 months?",
+      register_screening_pregnancy: "Are you pregnant or breastfeeding?",
+      register_screening_chronic_condition: "Do you have heart disease, diabetes on insulin, or a blood disorder?",
+      register_screening_incomplete: "Please answer all the questions",
+      register_screening_deferred: "You may not be able to donate right now. You can still register; you will be marked unavailable until you switch it on from your dashboard.",
+      register_yes: "Yes",
+      register_no: "No",
+      register_consent_text: "I agree that OneBlood may store my details and contact me by phone, SMS or notification when someone nearby needs my blood type.",
+      register_consent_required: "Consent is required to register",
+      register_code: "Verification Code",
+      register_code_intro: "We will text a 6-digit code to your phone number to confirm it is yours.",
+      register_code_sent: "We sent a 6-digit code to your phone.",
+      register_code_required: "Enter the 6-digit code we texted you",
+      register_send_code: "Send Code",
+      register_resend_code: "Resend Code",
+      register_submit: "Register",
+      register_failed: "Registration failed. Please try again.",
+      register_complete: "Welcome to OneBlood!",
+      register_complete_description: "Your donor card is ready. Show it at the blood bank when you donate.",
+      register_complete_deferred: "Your donor card is ready. You are marked unavailable for now; switch availability on from your dashboard when you are able to donate.",
+      register_card_title: "Donor ID Card",
+      register_donor_id: "Donor ID",
+      register_member_since: "Member since",
+      register_valid_until: "Valid until",
+      register_qr_alt: "Donor QR code",
+      register_print_card: "Print Card",
+      register_download_card: "Download Card",
+      register_go_to_dashboard: "Go to My Dashboard",
+
       // Voice Navigation
       voice_welcome: "Welcome to OneBlood. I can help you navigate using voice commands.",
       voice_listening: "Listening...",
@@ -152,6 +587,16 @@ const resources = {
       urgent: "तत्काल",
       normal: "सामान्य",
 
+      // Donation types
+      donation_type: "आवश्यक रक्त घटक",
+      donation_type_whole_blood: "संपूर्ण रक्त",
+      donation_type_platelets: "प्लेटलेट्स",
+      donation_type_plasma: "प्लाज़्मा",
+      donation_type_double_red_cells: "डबल रेड सेल्स",
+      compatible_donor_types: "इनसे रक्त ले सकते हैं: {{types}}",
+      units_required: "आवश्यक यूनिट",
+      units_required_hint: "एक यूनिट यानी रक्त की एक थैली। पक्का न हो तो डॉक्टर से पूछें।",
+
       // Request submission
       sending_request: "आपातकालीन अनुरोध भेजा जा रहा है...",
       contacting_hospitals: "नजदीकी अस्पतालों से संपर्क किया जा रहा है...",
@@ -165,6 +610,431 @@ const resources = {
       request_failed: "अनुरोध भेजने में असफल। कृपया पुन: प्रयास करें।",
       request_error: "आपका अनुरोध भेजते समय एक त्रुटि हुई",
 
+      // Request tracking
+      track_request: "इस अनुरोध को ट्रैक करें",
+      track_pin_sent: "इस अनुरोध की लाइव जानकारी के लिए हमने आपके फोन पर एक PIN भेजा है।",
+      track_title: "आपका रक्त अनुरोध",
+      track_enter_pin: "SMS से आपके फोन पर भेजा गया 6 अंकों का PIN दर्ज करें।",
+      track_pin: "PIN",
+      track_pin_invalid: "PIN में 6 अंक होते हैं",
+      track_view: "प्रगति देखें",
+      track_live: "लाइव",
+      track_offline: "फिर से जुड़ रहा है...",
+      track_status_pending: "अस्पताल की तलाश जारी है",
+      track_status_accepted: "अस्पताल ने स्वीकार किया",
+      track_status_completed: "पूरा हुआ",
+      track_status_cancelled: "बंद",
+      track_hospital: "अस्पताल",
+      track_waiting_for_hospital: "नजदीकी अस्पतालों को सूचित कर दिया गया है। जो अस्पताल स्वीकार करेगा, वह यहां दिखेगा।",
+      track_call_hospital: "अस्पताल को कॉल करें",
+      track_directions: "रास्ता देखें",
+      track_donors_contacted: "संपर्क किए गए दाता",
+      track_donors_responded: "आने वाले दाता",
+      track_donors_on_the_way: "रास्ते में",
+      track_donors_arrived: "पहुंच गए",
+      track_eta: "सबसे नजदीकी दाता",
+      track_eta_minutes: "लगभग {{minutes}} मिनट",
+      track_time_remaining: "बचा हुआ समय",
+      track_read_aloud: "पढ़कर सुनाएं",
+      track_voice_updates: "अपडेट बोलें",
+      track_voice_pending: "आपका {{bloodType}} रक्त अनुरोध अस्पताल की प्रतीक्षा में है।",
+      track_voice_accepted: "{{name}} ने आपका {{bloodType}} रक्त अनुरोध स्वीकार कर लिया है।",
+      track_voice_completed: "आपका {{bloodType}} रक्त अनुरोध पूरा हो गया है।",
+      track_voice_cancelled: "आपका {{bloodType}} रक्त अनुरोध बंद कर दिया गया है।",
+      track_voice_donors: "आने वाले दाता: {{count}}।",
+      track_voice_eta: "सबसे नजदीकी दाता लगभग {{minutes}} मिनट दूर है।",
+      track_voice_arrived: "पहुंचे हुए दाता: {{count}}।",
+      track_lost_pin: "PIN खो गया? SMS से कोड पाएं",
+      track_use_pin: "मेरे पास PIN है",
+      track_code_intro: "हम इस अनुरोध के फोन नंबर पर एक बार इस्तेमाल होने वाला कोड भेजेंगे।",
+      track_send_code: "कोड भेजें",
+      track_enter_code: "अभी आपके फोन पर भेजा गया 6 अंकों का कोड दर्ज करें।",
+      track_code: "कोड",
+      track_code_invalid: "कोड में 6 अंक होते हैं",
+      track_manage: "अनुरोध प्रबंधित करें",
+      track_extend: "और समय तक खुला रखें",
+      track_extend_hours: "अतिरिक्त समय",
+      track_extend_option: "+{{hours}} घंटे",
+      track_edit: "विवरण सुधारें",
+      track_edit_locked: "एक अस्पताल ने यह अनुरोध स्वीकार कर लिया है, इसलिए रक्त समूह और घटक अब नहीं बदले जा सकते। कृपया अस्पताल को कॉल करें।",
+      track_save_changes: "बदलाव सहेजें",
+      track_cancel: "अनुरोध रद्द करें",
+      track_cancel_reason: "आप अनुरोध क्यों रद्द कर रहे हैं? (वैकल्पिक)",
+      track_units: "रक्त की यूनिट",
+      track_units_progress: "{{required}} में से {{fulfilled}} यूनिट मिल गईं",
+      track_hospitals_sharing: "{{count}} अस्पताल मिलकर यह अनुरोध पूरा कर रहे हैं",
+      track_voice_units: "{{required}} में से {{fulfilled}} यूनिट मिल गई हैं।",
+
+      // Offline queue
+      request_queued: "अनुरोध सहेजा गया",
+      request_queued_description: "आप ऑफ़लाइन हैं। आपका अनुरोध इस फोन पर सहेजा गया है और इंटरनेट वापस आने पर अपने आप भेज दिया जाएगा।",
+      request_queued_voice: "आप ऑफ़लाइन हैं। आपका अनुरोध सहेजा गया है और अपने आप भेज दिया जाएगा।",
+      connection: "कनेक्शन",
+      online: "ऑनलाइन",
+      offline: "ऑफ़लाइन",
+      queue_status: "स्थिति",
+      queue_status_queued: "भेजने की प्रतीक्षा में",
+      queue_status_sending: "भेजा जा रहा है...",
+      queue_status_sent: "भेजा गया",
+      queue_status_failed: "भेजा नहीं जा सका",
+      send_attempts: "भेजने के प्रयास",
+      next_attempt: "अगला प्रयास",
+      queued_requests_count: "{{count}} अनुरोध भेजे जाने की प्रतीक्षा में",
+      send_now: "अभी भेजें",
+
+      // App updates
+      update_available: "वनब्लड का नया संस्करण उपलब्ध है।",
+      offline_ready: "वनब्लड अब ऑफ़लाइन काम करने के लिए तैयार है।",
+      reload: "रीलोड करें",
+
+      // Staff accounts
+      staff_accept_invite: "वनब्लड पर अपने अस्पताल से जुड़ें",
+      staff_accept_invite_description: "अपना स्टाफ खाता सक्रिय करने के लिए पासवर्ड चुनें।",
+      staff_reset_password: "पासवर्ड रीसेट करें",
+      staff_reset_password_description: "अपने स्टाफ खाते के लिए नया पासवर्ड चुनें।",
+      staff_forgot_password_description: "अपना कार्य ईमेल दर्ज करें, हम आपको रीसेट लिंक भेजेंगे।",
+      staff_email: "कार्य ईमेल",
+      staff_password: "पासवर्ड",
+      staff_confirm_password: "पासवर्ड की पुष्टि करें",
+      staff_password_too_short: "पासवर्ड कम से कम 8 अक्षरों का होना चाहिए",
+      staff_passwords_do_not_match: "पासवर्ड मेल नहीं खाते",
+      staff_email_invalid: "कृपया एक मान्य ईमेल पता दर्ज करें",
+      staff_activate_account: "खाता सक्रिय करें",
+      staff_set_password: "पासवर्ड सेट करें",
+      staff_send_reset_link: "रीसेट लिंक भेजें",
+      staff_account_activated: "आपका खाता सक्रिय है। अब आप अस्पताल डैशबोर्ड से लॉग इन कर सकते हैं।",
+      staff_password_updated: "आपका पासवर्ड अपडेट हो गया है। कृपया फिर से लॉग इन करें।",
+      staff_reset_link_sent: "यदि इस ईमेल के लिए कोई खाता है, तो रीसेट लिंक भेज दिया गया है।",
+      staff_go_to_dashboard: "अस्पताल डैशबोर्ड पर जाएं",
+
+      // Admin console
+      admin_console: "वनब्लड एडमिन",
+      admin_log_in: "लॉग इन करें",
+      admin_log_out: "लॉग आउट करें",
+      admin_tab_pending: "लंबित",
+      admin_tab_approved: "स्वीकृत",
+      admin_tab_rejected: "अस्वीकृत",
+      admin_tab_audit: "ऑडिट लॉग",
+      admin_search_placeholder: "नाम, ईमेल या लाइसेंस से खोजें",
+      admin_no_hospitals: "यहां कोई अस्पताल नहीं है।",
+      admin_select_hospital: "समीक्षा के लिए एक अस्पताल चुनें।",
+      admin_license: "लाइसेंस",
+      admin_email: "ईमेल",
+      admin_phone: "फोन",
+      admin_address: "पता",
+      admin_contact_person: "संपर्क व्यक्ति",
+      admin_location: "स्थान",
+      admin_documents: "दस्तावेज़",
+      admin_documents_count: "{{count}} दस्तावेज़",
+      admin_no_documents: "अभी तक कोई दस्तावेज़ अपलोड नहीं किया गया।",
+      admin_document_unavailable: "यह दस्तावेज़ खोला नहीं जा सका।",
+      admin_decision: "निर्णय",
+      admin_reason_placeholder: "कारण (अस्वीकार करने के लिए आवश्यक)",
+      admin_reason_required: "कृपया कम से कम 5 अक्षरों का कारण दें।",
+      admin_approve: "स्वीकृत करें",
+      admin_reject: "अस्वीकार करें",
+      admin_revoke: "सत्यापन रद्द करें",
+      admin_history: "इतिहास",
+
+      // Hospital dashboard
+      hospital_forgot_password: "पासवर्ड भूल गए?",
+      hospital_live: "लाइव",
+      hospital_reconnecting: "फिर से कनेक्ट हो रहा है...",
+      hospital_active_requests: "सक्रिय अनुरोध",
+      hospital_available_donors: "उपलब्ध रक्तदाता",
+      hospital_units_in_stock: "स्टॉक में यूनिट",
+      hospital_no_requests: "आपके सेवा क्षेत्र में कोई सक्रिय अनुरोध नहीं है।",
+      hospital_donors_matched: "{{count}} रक्तदाता मिले",
+      hospital_donor_eta: "लगभग {{minutes}} मिनट दूर",
+      hospital_donor_arrived: "पहुंच गए",
+      hospital_donor_no_show: "नहीं आए",
+      donor_response_accepted: "आ रहे हैं",
+      donor_response_en_route: "रास्ते में",
+      donor_response_arrived: "पहुंच गए",
+      donor_response_donated: "रक्तदान किया",
+      donor_response_no_show: "नहीं आए",
+      hospital_accept: "स्वीकार करें",
+      hospital_share_request: "यूनिट देने में मदद करें",
+      hospital_provide_units: "स्टॉक से दें",
+      hospital_units_to_provide: "देने वाली यूनिट",
+      hospital_units_progress: "{{required}} में से {{fulfilled}} यूनिट दी गईं",
+      hospital_confirm_cancel: "यह अनुरोध रद्द करें? अनुरोधकर्ता को सूचित किया जाएगा।",
+      hospital_request_map: "अनुरोध मानचित्र",
+      hospital_blood_stock: "रक्त स्टॉक",
+      hospital_stock_step: "प्रति बदलाव यूनिट",
+      hospital_donors_nearby: "{{count}} रक्तदाता पास में",
+      hospital_add_units: "{{bloodType}} की {{count}} यूनिट जोड़ें",
+      hospital_remove_units: "{{bloodType}} की {{count}} यूनिट घटाएं",
+      hospital_live_activity: "लाइव गतिविधि",
+      hospital_no_activity: "नए अनुरोध और रक्तदाताओं के जवाब यहां दिखेंगे।",
+      hospital_activity_new_request: "{{name}} से नया {{bloodType}} अनुरोध",
+      hospital_activity_donor_accepted: "{{name}} ({{bloodType}}) रक्तदान के लिए तैयार हैं",
+      hospital_activity_donor_en_route: "{{name}} ({{bloodType}}) आ रहे हैं",
+      hospital_activity_donor_arrived: "{{name}} ({{bloodType}}) पहुंच गए हैं",
+      hospital_activity_donor_donated: "{{name}} ({{bloodType}}) ने रक्तदान किया",
+      hospital_activity_donor_no_show: "{{name}} ({{bloodType}}) नहीं आए",
+      hospital_activity_donor_declined: "{{name}} ({{bloodType}}) ने मना किया",
+      hospital_activity_expired: "एक अनुरोध की समय सीमा समाप्त हो गई",
+      hospital_activity_escalated_donors: "{{bloodType}} के लिए अभी तक कोई दाता नहीं: {{radius}} किमी के भीतर {{count}} और दाताओं से पूछा गया",
+      hospital_activity_escalated_hospitals: "{{bloodType}} के लिए अभी तक कोई दाता नहीं: क्षेत्र के {{count}} और अस्पतालों को सूचित किया गया",
+      hospital_activity_request_cancelled: "अनुरोधकर्ता ने {{bloodType}} अनुरोध रद्द कर दिया",
+      hospital_activity_request_extended: "{{bloodType}} अनुरोध को और समय तक खुला रखा गया",
+      hospital_activity_request_edited: "अनुरोधकर्ता ने {{bloodType}} अनुरोध में बदलाव किया",
+      hospital_activity_request_fulfilled: "{{bloodType}} अनुरोध को सभी आवश्यक यूनिट मिल गईं",
+      hospital_activity_units_stock: "{{bloodType}} अनुरोध के लिए स्टॉक से {{count}} यूनिट दी गईं ({{required}} में से {{fulfilled}})",
+      hospital_activity_units_donation: "{{bloodType}} अनुरोध के लिए एक दाता ने रक्तदान किया ({{required}} में से {{fulfilled}})",
+      hospital_activity_donation: "{{name}} ({{bloodType}}) का रक्तदान दर्ज किया गया",
+      hospital_verification_title: "सत्यापन जारी है",
+      hospital_verification_pending: "आपका अस्पताल समीक्षा की प्रतीक्षा में है। सत्यापन के लिए अपना लाइसेंस और पंजीकरण दस्तावेज़ अपलोड करें।",
+      hospital_verification_rejected: "आपका सत्यापन स्वीकृत नहीं हुआ। दोबारा समीक्षा के लिए अपडेट किए गए दस्तावेज़ अपलोड करें।",
+      hospital_document_license: "लाइसेंस",
+      hospital_document_registration: "पंजीकरण प्रमाणपत्र",
+      hospital_document_other: "अन्य दस्तावेज़",
+      hospital_upload_document: "दस्तावेज़ अपलोड करें",
+
+      // Donor QR scanner
+      scanner_title: "रक्तदाता कार्ड स्कैन करें",
+      scanner_start_camera: "कैमरा शुरू करें",
+      scanner_stop_camera: "कैमरा बंद करें",
+      scanner_camera_unsupported: "यह ब्राउज़र कैमरे से QR कोड स्कैन नहीं कर सकता। कार्ड का कोड दर्ज करें।",
+      scanner_camera_denied: "कैमरा नहीं खुल सका। ब्राउज़र की कैमरा अनुमति जांचें।",
+      scanner_manual_entry: "या QR कोड का टेक्स्ट दर्ज करें",
+      scanner_verify: "सत्यापित करें",
+      scanner_waiting: "पात्रता जांचने के लिए रक्तदाता का QR कोड स्कैन करें।",
+      scanner_eligible: "आज {{donationType}} दान के योग्य",
+      scanner_unavailable: "रक्तदाता अनुपलब्ध के रूप में चिह्नित है",
+      scanner_not_eligible_until: "{{date}} तक {{donationType}} दान के योग्य नहीं",
+      scanner_donation_type: "दान का प्रकार",
+      scanner_total_donations: "कुल रक्तदान",
+      scanner_last_donation: "पिछला रक्तदान",
+      scanner_tested_blood_type: "जांचा गया रक्त समूह",
+      scanner_record_donation: "रक्तदान दर्ज करें",
+      scanner_recorded: "रक्तदान दर्ज किया गया। बैग {{bagId}} ({{bloodType}}) स्टॉक में जोड़ा गया। अगली पात्रता {{date}} को।",
+      scanner_scan_next: "अगला रक्तदाता स्कैन करें",
+      scanner_for_request: "अनुरोध के लिए",
+      scanner_no_request: "किसी विशेष अनुरोध के लिए नहीं",
+      scanner_points_awarded: "रक्तदाता को +{{count}} अंक।",
+      scanner_badges_awarded: "नए बैज: {{badges}}",
+      scanner_bag_id: "बैग आईडी",
+      scanner_bag_id_auto: "खाली छोड़ने पर अपने आप बनेगी",
+
+      // Blood unit inventory
+      inventory_title: "रक्त यूनिट इन्वेंटरी",
+      inventory_component: "घटक",
+      inventory_status: "स्थिति",
+      inventory_status_available: "उपलब्ध",
+      inventory_status_reserved: "आरक्षित",
+      inventory_status_issued: "जारी",
+      inventory_status_discarded: "नष्ट",
+      inventory_all_components: "सभी घटक",
+      inventory_all_blood_types: "सभी रक्त समूह",
+      inventory_discard_reason: "नष्ट करने का कारण",
+      inventory_reason_expired: "समाप्त",
+      inventory_reason_damaged: "क्षतिग्रस्त",
+      inventory_reason_failed_testing: "जांच में असफल",
+      inventory_reason_other: "अन्य",
+      inventory_no_units: "इन फ़िल्टर से कोई यूनिट मेल नहीं खाती।",
+      inventory_expires: "{{date}} को समाप्त",
+      inventory_next_expiry: "अगली यूनिट {{date}} को समाप्त होगी",
+      inventory_reserve: "आरक्षित करें",
+      inventory_release: "मुक्त करें",
+      inventory_issue: "जारी करें",
+      inventory_discard: "नष्ट करें",
+      inventory_confirm_discard: "बैग {{bagId}} नष्ट करें? इसे पूर्ववत नहीं किया जा सकता।",
+      inventory_add_unit: "यूनिट जोड़ें",
+      inventory_bag_id: "बैग आईडी (वैकल्पिक)",
+      inventory_collected_on: "संग्रह की तिथि",
+      inventory_add: "यूनिट जोड़ें",
+      component_whole_blood: "संपूर्ण रक्त",
+      component_packed_red_cells: "पैक्ड लाल कोशिकाएं",
+      component_platelets: "प्लेटलेट्स",
+      component_fresh_frozen_plasma: "फ्रेश फ्रोज़न प्लाज़्मा",
+      component_cryoprecipitate: "क्रायोप्रेसिपिटेट",
+      hospital_activity_units_expired: "समाप्त रक्त यूनिट नष्ट की गईं",
+      hospital_activity_low_stock: "{{bloodType}} का स्टॉक कम है ({{count}} यूनिट)",
+      hospital_activity_low_stock_drive: "{{bloodType}} का स्टॉक कम है ({{count}} यूनिट)। रक्तदान अभियान शुरू किया गया",
+      hospital_activity_units_expiring: "{{count}} यूनिट जल्द समाप्त होंगी",
+      hospital_low_stock: "न्यूनतम से कम स्टॉक: {{types}}",
+      hospital_units_expiring: "{{count}} यूनिट {{days}} दिनों में समाप्त होंगी",
+      hospital_stock_minimum: "न्यूनतम {{count}}",
+
+      // Stock alert settings
+      stock_alerts_title: "स्टॉक अलर्ट",
+      stock_alerts_help: "हर रक्त समूह की न्यूनतम यूनिट। किसी समूह का अलर्ट बंद करने के लिए 0 रखें।",
+      stock_alerts_minimum: "न्यूनतम {{bloodType}} यूनिट",
+      stock_alerts_expiry_days: "समाप्ति से कितने दिन पहले चेतावनी दें",
+      stock_alerts_auto_drive: "किसी समूह का स्टॉक कम होने पर रक्तदान अभियान शुरू करें",
+      stock_alerts_save: "अलर्ट सहेजें",
+      stock_alerts_saved: "सहेजा गया",
+
+      // Inter-hospital transfers
+      transfer_title: "अस्पतालों के बीच स्थानांतरण",
+      transfer_patient_type: "मरीज़ का रक्त समूह",
+      transfer_units: "यूनिट",
+      transfer_find: "साझेदार स्टॉक खोजें",
+      transfer_no_suppliers: "आस-पास कोई साझेदार अस्पताल पर्याप्त संगत स्टॉक साझा नहीं करता।",
+      transfer_distance: "{{distance}} किमी दूर",
+      transfer_closed: "अभी बंद",
+      transfer_request_type: "{{bloodType}} मांगें ({{count}} उपलब्ध)",
+      transfer_none: "अभी कोई स्थानांतरण नहीं।",
+      transfer_from: "{{name}} से",
+      transfer_to: "{{name}} को",
+      transfer_summary: "{{donationType}} की {{count}} यूनिट",
+      transfer_for_patient: "{{bloodType}} मरीज़ के लिए",
+      transfer_status_requested: "अनुरोधित",
+      transfer_status_accepted: "स्वीकृत",
+      transfer_status_rejected: "अस्वीकृत",
+      transfer_status_dispatched: "रास्ते में",
+      transfer_status_received: "प्राप्त",
+      transfer_status_cancelled: "रद्द",
+      transfer_accept: "स्वीकार करें",
+      transfer_reject: "अस्वीकार करें",
+      transfer_dispatch: "भेजा गया चिह्नित करें",
+      transfer_receive: "प्राप्त चिह्नित करें",
+      transfer_reject_reason: "अस्वीकार करने का कारण (वैकल्पिक)",
+      transfer_confirm_cancel: "यह स्थानांतरण अनुरोध रद्द करें?",
+      hospital_find_transfer: "स्थानांतरण खोजें",
+      hospital_activity_transfer_requested: "नया स्थानांतरण अनुरोध",
+      hospital_activity_transfer_accepted: "स्थानांतरण स्वीकृत",
+      hospital_activity_transfer_rejected: "स्थानांतरण अस्वीकृत",
+      hospital_activity_transfer_dispatched: "स्थानांतरण भेजा गया",
+      hospital_activity_transfer_received: "स्थानांतरण प्राप्त हुआ",
+      hospital_activity_transfer_cancelled: "स्थानांतरण रद्द",
+
+      // Donor dashboard
+      donor_dashboard: "रक्तदाता डैशबोर्ड",
+      donor_login_description: "अपना पंजीकृत फोन नंबर दर्ज करें, हम आपको लॉगिन कोड SMS करेंगे।",
+      donor_enter_code: "हमारे द्वारा भेजा गया 6 अंकों का कोड दर्ज करें।",
+      donor_code_sent: "यदि यह नंबर पंजीकृत है, तो लॉगिन कोड भेजा जा रहा है।",
+      donor_login_code: "लॉगिन कोड",
+      donor_send_code: "कोड भेजें",
+      donor_verify_code: "लॉग इन करें",
+      donor_change_number: "दूसरा नंबर इस्तेमाल करें",
+      donor_welcome: "नमस्ते, {{name}}",
+      donor_points: "{{count}} अंक",
+      donor_points_label: "अंक",
+      donor_alerts: "आपके पास रक्त की आवश्यकता",
+      donor_distance_away: "{{distance}} किमी दूर",
+      donor_expires_in: "{{time}} में समाप्त",
+      donor_accept: "मैं मदद कर सकता हूं",
+      donor_decline: "अभी नहीं",
+      donor_commitments: "आपके जवाब",
+      donor_on_my_way: "मैं रास्ते में हूं",
+      donor_arrived: "मैं पहुंच गया हूं",
+      donor_cannot_make_it: "नहीं आ पाऊंगा",
+      donor_confirm_cannot_make_it: "अस्पताल को बताएं कि आप नहीं आ पाएंगे?",
+      donor_going_to: "{{name}} जाएं",
+      donor_going_to_patient: "मरीज़ के स्थान पर जाएं",
+      donor_directions: "रास्ता देखें",
+      donor_eta: "लगभग {{minutes}} मिनट दूर",
+      donor_sharing_location: "पहुंचने तक आपका स्थान अस्पताल के साथ साझा किया जा रहा है",
+      donor_location_private: "स्थान साझा करना बंद है, अस्पताल केवल आपकी स्थिति देखता है",
+      donor_next_donation: "अगला रक्तदान",
+      donor_days: "दिन",
+      donor_hours: "{{count}} घंटे",
+      donor_ready: "तैयार",
+      donor_eligible_on: "आप {{date}} को फिर से रक्तदान कर सकते हैं।",
+      donor_eligible_now: "आप रक्तदान करने के योग्य हैं।",
+      donor_interval_rule: "पिछले रक्तदान के बाद संपूर्ण रक्तदान के लिए {{days}} दिन प्रतीक्षा करनी होती है।",
+      donor_type_eligible_now: "अभी",
+      donor_available: "अनुरोधों के लिए उपलब्ध",
+      donor_unavailable: "अनुरोध नहीं ले रहे",
+      donor_total_donations: "रक्तदान",
+      donor_badges: "बैज",
+      donor_badge_earned: "प्राप्त",
+      donor_badge_first_donation: "पहला रक्तदान",
+      donor_badge_first_donation_hint: "अपना पहला रक्तदान पूरा करें",
+      donor_badge_life_saver: "जीवन रक्षक",
+      donor_badge_life_saver_hint: "5 बार रक्तदान करें",
+      donor_badge_dedicated_donor: "समर्पित रक्तदाता",
+      donor_badge_dedicated_donor_hint: "10 बार रक्तदान करें",
+      donor_badge_regular_donor: "नियमित रक्तदाता",
+      donor_badge_regular_donor_hint: "योग्य होने पर नियमित रूप से रक्तदान करें",
+      donor_badge_emergency_hero: "आपातकालीन नायक",
+      donor_badge_emergency_hero_hint: "गंभीर अनुरोध के लिए रक्तदान करें",
+      donor_badge_rare_blood: "दुर्लभ रक्त",
+      donor_badge_rare_blood_hint: "दुर्लभ रक्त समूह का रक्तदान करें",
+      donor_badge_community_leader: "सामुदायिक नेता",
+      donor_badge_community_leader_hint: "नए रक्तदाताओं को वनब्लड से जोड़ें",
+      donor_health: "स्वास्थ्य",
+      donor_iron_level: "हीमोग्लोबिन (g/dL)",
+      donor_pulse: "नाड़ी (bpm)",
+      donor_systolic: "रक्तचाप (सिस्टोलिक)",
+      donor_blood_pressure_placeholder: "रक्तचाप, जैसे 120/80",
+      donor_save_reading: "रीडिंग सहेजें",
+      donor_no_readings: "अभी तक कोई रीडिंग नहीं।",
+      donor_timeline: "आपका इतिहास",
+      donor_timeline_registered: "वनब्लड से जुड़े",
+      donor_timeline_donation: "{{hospital}} में {{donationType}} ({{bloodType}}) दान किया",
+      donor_timeline_a_hospital: "एक अस्पताल",
+      donor_timeline_response_accepted: "{{urgency}} {{bloodType}} अनुरोध का जवाब दिया",
+      donor_timeline_response_declined: "{{urgency}} {{bloodType}} अनुरोध को छोड़ा",
+
+      // Donor registration
+      register_title: "रक्तदाता बनें",
+      register_voice_guide: "आवाज़ मार्गदर्शन",
+      register_step_personal: "आपके बारे में",
+      register_step_bloodType: "रक्त समूह",
+      register_step_location: "स्थान",
+      register_step_screening: "स्वास्थ्य जांच",
+      register_step_consent: "सहमति",
+      register_voice_personal: "आइए आपको रक्तदाता के रूप में पंजीकृत करें। कृपया अपना नाम, फोन नंबर और जन्म तिथि दर्ज करें।",
+      register_voice_bloodType: "आपका रक्त समूह क्या है? बोलें, या पता नहीं चुनें।",
+      register_voice_location: "अपना स्थान साझा करें ताकि हम आपको पास के अनुरोधों की सूचना दे सकें।",
+      register_voice_screening: "कुछ छोटे स्वास्थ्य प्रश्न। हाँ या नहीं में उत्तर दें।",
+      register_voice_consent: "कृपया अपना विवरण जांचें और पूरा करने के लिए सहमति दें।",
+      register_voice_done: "आप पंजीकृत हो गए हैं। वनब्लड से जुड़ने के लिए धन्यवाद।",
+      register_voice_not_understood: "क्षमा करें, मैं समझ नहीं पाया। कृपया फिर से प्रयास करें।",
+      register_date_of_birth: "जन्म तिथि",
+      register_sex: "लिंग",
+      register_sex_hint: "दो रक्तदानों के बीच प्रतीक्षा अवधि तय करने के लिए उपयोग होता है।",
+      register_sex_unspecified: "बताना नहीं चाहते",
+      register_sex_female: "महिला",
+      register_sex_male: "पुरुष",
+      register_sex_other: "अन्य",
+      register_dob_required: "जन्म तिथि आवश्यक है",
+      register_age_range: "रक्तदाता की आयु {{min}} से {{max}} वर्ष के बीच होनी चाहिए",
+      register_blood_type_prompt: "अपना रक्त समूह चुनें।",
+      register_blood_type_required: "कृपया अपना रक्त समूह चुनें",
+      register_blood_type_unknown: "पता नहीं",
+      register_blood_type_unknown_note: "कोई बात नहीं। आपका रक्त समूह पहले रक्तदान पर दर्ज किया जाएगा। तब तक आपको रक्त समूह अलर्ट नहीं मिलेंगे।",
+      register_use_my_location: "मेरा वर्तमान स्थान इस्तेमाल करें",
+      register_find_address: "इस पते को मानचित्र पर खोजें",
+      register_address_too_short: "कृपया अपना पूरा पता दर्ज करें (कम से कम 10 अक्षर)",
+      register_address_not_found: "हमें वह पता नहीं मिला। अपना वर्तमान स्थान इस्तेमाल करके देखें।",
+      register_screening_intro: "आज अपने स्वास्थ्य के बारे में कुछ प्रश्नों के उत्तर दें।",
+      register_screening_feeling_well: "क्या आप आज स्वस्थ महसूस कर रहे हैं?",
+      register_screening_weight: "क्या आपका वज़न कम से कम 50 किलो है?",
+      register_screening_recent_illness: "क्या पिछले 2 सप्ताह में आपको बुखार, संक्रमण हुआ है या आपने एंटीबायोटिक ली है?",
+      register_screening_tattoo: "क्या पिछले 6 महीनों में आपने टैटू या पियर्सिंग करवाई है?",
+      register_screening_pregnancy: "क्या आप गर्भवती हैं या स्तनपान करा रही हैं?",
+      register_screening_chronic_condition: "क्या आपको हृदय रोग, इंसुलिन वाला मधुमेह या कोई रक्त विकार है?",
+      register_screening_incomplete: "कृपया सभी प्रश्नों के उत्तर दें",
+      register_screening_deferred: "हो सकता है आप अभी रक्तदान न कर सकें। आप फिर भी पंजीकरण कर सकते हैं; जब तक आप डैशबोर्ड से इसे चालू नहीं करते, आप अनुपलब्ध रहेंगे।",
+      register_yes: "हाँ",
+      register_no: "नहीं",
+      register_consent_text: "मैं सहमत हूं कि वनब्लड मेरा विवरण संग्रहीत कर सकता है और पास में किसी को मेरे रक्त समूह की आवश्यकता होने पर फोन, SMS या सूचना द्वारा मुझसे संपर्क कर सकता है।",
+      register_consent_required: "पंजीकरण के लिए सहमति आवश्यक है",
+      register_code: "सत्यापन कोड",
+      register_code_intro: "यह पुष्टि करने के लिए कि फोन नंबर आपका है, हम उस पर 6 अंकों का कोड भेजेंगे।",
+      register_code_sent: "हमने आपके फोन पर 6 अंकों का कोड भेजा है।",
+      register_code_required: "हमारे द्वारा भेजा गया 6 अंकों का कोड दर्ज करें",
+      register_send_code: "कोड भेजें",
+      register_resend_code: "कोड फिर से भेजें",
+      register_submit: "पंजीकरण करें",
+      register_failed: "पंजीकरण विफल रहा। कृपया फिर से प्रयास करें।",
+      register_complete: "वनब्लड में आपका स्वागत है!",
+      register_complete_description: "आपका रक्तदाता कार्ड तैयार है। रक्तदान करते समय इसे ब्लड बैंक में दिखाएं।",
+      register_complete_deferred: "आपका रक्तदाता कार्ड तैयार है। अभी आप अनुपलब्ध हैं; रक्तदान के योग्य होने पर डैशबोर्ड से उपलब्धता चालू करें।",
+      register_card_title: "रक्तदाता पहचान पत्र",
+      register_donor_id: "रक्तदाता आईडी",
+      register_member_since: "सदस्य तिथि",
+      register_valid_until: "मान्य तिथि तक",
+      register_qr_alt: "रक्तदाता QR कोड",
+      register_print_card: "कार्ड प्रिंट करें",
+      register_download_card: "कार्ड डाउनलोड करें",
+      register_go_to_dashboard: "मेरे डैशबोर्ड पर जाएं",
+
       // Voice Navigation
       voice_welcome: "वनब्लड में आपका स्वागत है। मैं आपको वॉयस कमांड का उपयोग करके नेविगेट करने में मदद कर सकता हूं।",
       voice_listening: "सुन रहे हैं...",
@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AuthService } from '../services/AuthService';
+import {
+  AdminService,
+  type AuditLogEntry,
+  type HospitalReview,
+  type HospitalSummary,
+  type VerificationStatus
+} from '../services/AdminService';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import './AdminConsole.css';
+
+type Tab = VerificationStatus | 'audit';
+
+const TABS: Tab[] = ['pending', 'approved', 'rejected', 'audit'];
+
+const AuditEntries: React.FC<{ entries: AuditLogEntry[] }> = ({ entries }) => (
+  <ul className="admin-audit">
+    {entries.map(entry => (
+      <li key={entry._id}>
+        <span className={`admin-action ${entry.action.split('.')[1]}`}>{entry.action}</span>
+        <span>{entry.actorName || entry.actorType}</span>
+        <time>{new Date(entry.createdAt).toLocaleString()}</time>
+        {entry.reason && <p>{entry.reason}</p>}
+      </li>
+    ))}
+  </ul>
+);
+
+const AdminConsole: React.FC = () => {
+  const { t } = useTranslation();
+
+  const [session, setSession] = useState(() => AuthService.getSession('admin'));
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loginError, setLoginError] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+  const [tab, setTab] = useState<Tab>('pending');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [hospitals, setHospitals] = useState<HospitalSummary[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState('');
+
+  const [selected, setSelected] = useState<HospitalReview | null>(null);
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const [reason, setReason] = useState('');
+  const [decisionError, setDecisionError] = useState('');
+  const [isDeciding, setIsDeciding] = useState(false);
+
+  const loadList = useCallback(async () => {
+    setIsLoading(true);
+    setListError('');
+
+    if (tab === 'audit') {
+      const result = await AdminService.getAuditLog(100);
+      if (result.success && result.data) setAuditEntries(result.data.entries);
+      else setListError(result.error || t('error'));
+    } else {
+      const result = await AdminService.getHospitals(tab, appliedSearch);
+      if (result.success && result.data) setHospitals(result.data.hospitals);
+      else setListError(result.error || t('error'));
+    }
+
+    // A failed refresh clears the stored session
+    setSession(AuthService.getSession('admin'));
+    setIsLoading(false);
+  }, [tab, appliedSearch, t]);
+
+  const adminId = session?.user.id;
+
+  useEffect(() => {
+    if (adminId) loadList();
+  }, [adminId, loadList]);
+
+  const selectHospital = async (hospitalId: string) => {
+    setDecisionError('');
+    setReason('');
+    const result = await AdminService.getHospital(hospitalId);
+    if (result.success && result.data) {
+      setSelected(result.data.hospital);
+      setHistory(result.data.history);
+    } else {
+      setDecisionError(result.error || t('error'));
+    }
+  };
+
+  const handleLogin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoggingIn(true);
+    setLoginError('');
+
+    const result = await AuthService.loginAdmin(email, password);
+    setIsLoggingIn(false);
+
+    if (result.success && result.data) {
+      setSession(result.data);
+      setPassword('');
+    } else {
+      setLoginError(result.error || t('error'));
+    }
+  };
+
+  const handleLogout = async () => {
+    await AuthService.logout('admin');
+    setSession(null);
+    setSelected(null);
+  };
+
+  const decide = async (approve: boolean) => {
+    if (!selected) return;
+
+    if (!approve && reason.trim().length < 5) {
+      setDecisionError(t('admin_reason_required'));
+      return;
+    }
+
+    setIsDeciding(true);
+    setDecisionError('');
+
+    const result = approve
+      ? await AdminService.approveHospital(selected.id, reason.trim())
+      : await AdminService.rejectHospital(selected.id, reason.trim());
+
+    setIsDeciding(false);
+
+    if (!result.success) {
+      setDecisionError(result.error || t('error'));
+      return;
+    }
+
+    await selectHospital(selected.id);
+    await loadList();
+  };
+
+  const openDocument = async (documentId: string) => {
+    if (!selected) return;
+    const opened = await AdminService.openDocument(selected.id, documentId);
+    if (!opened) setDecisionError(t('admin_document_unavailable'));
+  };
+
+  if (!session) {
+    return (
+      <div className="admin-console admin-login">
+        <form className="admin-card" onSubmit={handleLogin}>
+          <h1>{t('admin_console')}</h1>
+          <label htmlFor="admin-email">{t('staff_email')}</label>
+          <input
+            id="admin-email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+          <label htmlFor="admin-password">{t('staff_password')}</label>
+          <input
+            id="admin-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          {loginError && <div className="admin-error" role="alert">{loginError}</div>}
+          <button type="submit" className="admin-button primary" disabled={isLoggingIn}>
+            {isLoggingIn ? t('loading') : t('admin_log_in')}
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="admin-console">
+      <header className="admin-header">
+        <h1>{t('admin_console')}</h1>
+        <div className="admin-user">
+          <span>{session.user.name}</span>
+          <button className="admin-button" onClick={handleLogout}>{t('admin_log_out')}</button>
+        </div>
+      </header>
+
+      <nav className="admin-tabs">
+        {TABS.map(item => (
+          <button
+            key={item}
+            className={`admin-tab ${tab === item ? 'active' : ''}`}
+            onClick={() => { setTab(item); setSelected(null); }}
+          >
+            {t(`admin_tab_${item}`)}
+          </button>
+        ))}
+      </nav>
+
+      <main className="admin-body">
+        <section className="admin-list">
+          {tab !== 'audit' && (
+            <form className="admin-search" onSubmit={(e) => { e.preventDefault(); setAppliedSearch(search.trim()); }}>
+              <input
+                type="search"
+                placeholder={t('admin_search_placeholder')}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </form>
+          )}
+
+          {isLoading && <LoadingSpinner size="small" text={t('loading')} />}
+          {listError && <div className="admin-error" role="alert">{listError}</div>}
+
+          {!isLoading && tab !== 'audit' && hospitals.length === 0 && (
+            <p className="admin-empty">{t('admin_no_hospitals')}</p>
+          )}
+
+          {tab !== 'audit' && hospitals.map(hospital => (
+            <button
+              key={hospital.id}
+              className={`admin-list-item ${selected?.id === hospital.id ? 'selected' : ''}`}
+              onClick={() => selectHospital(hospital.id)}
+            >
+              <strong>{hospital.name}</strong>
+              <span>{t('admin_license')}: {hospital.licenseNumber}</span>
+              <span>{t('admin_documents_count', { count: hospital.documents })} · {new Date(hospital.createdAt).toLocaleDateString()}</span>
+            </button>
+          ))}
+
+          {tab === 'audit' && (
+            <AuditEntries entries={auditEntries} />
+          )}
+        </section>
+
+        {tab !== 'audit' && (
+          <section className="admin-detail">
+            {!selected ? (
+              <p className="admin-empty">{t('admin_select_hospital')}</p>
+            ) : (
+              <>
+                <h2>{selected.name}</h2>
+                <span className={`admin-status ${selected.verificationStatus}`}>
+                  {t(`admin_tab_${selected.verificationStatus}`)}
+                </span>
+
+                <dl className="admin-facts">
+                  <dt>{t('admin_license')}</dt>
+                  <dd>{selected.licenseNumber}</dd>
+                  <dt>{t('admin_email')}</dt>
+                  <dd>{selected.email}</dd>
+                  <dt>{t('admin_phone')}</dt>
+                  <dd>{selected.phone}</dd>
+                  <dt>{t('admin_address')}</dt>
+                  <dd>{selected.address}</dd>
+                  {selected.contactPerson && (
+                    <>
+                      <dt>{t('admin_contact_person')}</dt>
+                      <dd>{selected.contactPerson.name}, {selected.contactPerson.position} ({selected.contactPerson.phone})</dd>
+                    </>
+                  )}
+                  <dt>{t('admin_location')}</dt>
+                  <dd>{selected.location.lat.toFixed(4)}, {selected.location.lng.toFixed(4)}</dd>
+                </dl>
+
+                <h3>{t('admin_documents')}</h3>
+                {selected.documents.length === 0 ? (
+                  <p className="admin-empty">{t('admin_no_documents')}</p>
+                ) : (
+                  <ul className="admin-documents">
+                    {selected.documents.map(doc => (
+                      <li key={doc.id}>
+                        <button className="admin-link" onClick={() => openDocument(doc.id)}>
+                          {doc.originalName || doc.kind}
+                        </button>
+                        <span>{doc.kind} · {new Date(doc.uploadDate).toLocaleDateString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <h3>{t('admin_decision')}</h3>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={t('admin_reason_placeholder')}
+                  maxLength={1000}
+                  rows={3}
+                />
+                {decisionError && <div className="admin-error" role="alert">{decisionError}</div>}
+                <div className="admin-actions">
+                  {!selected.verified && (
+                    <button className="admin-button approve" onClick={() => decide(true)} disabled={isDeciding}>
+                      {t('admin_approve')}
+                    </button>
+                  )}
+                  {selected.verificationStatus !== 'rejected' && (
+                    <button className="admin-button reject" onClick={() => decide(false)} disabled={isDeciding}>
+                      {selected.verified ? t('admin_revoke') : t('admin_reject')}
+                    </button>
+                  )}
+                </div>
+
+                {history.length > 0 && (
+                  <>
+                    <h3>{t('admin_history')}</h3>
+                    <AuditEntries entries={history} />
+                  </>
+                )}
+              </>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -1,15 +1,654 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import { AuthService, type AuthSession } from '../services/AuthService';
+import {
+  ACHIEVEMENTS,
+  DonorService,
+  type Achievement,
+  type BloodNeededAlert,
+  type DonorCommitment,
+  type DonorDashboardData,
+  type HealthReading
+} from '../services/DonorService';
+import { BloodRequestService } from '../services/BloodRequestService';
+import { LocationService } from '../services/LocationService';
+import { useRealtimeSocket } from '../hooks/useRealtimeSocket';
+import { LoadingSpinner } from '../components/LoadingSpinner';
 import './DonorDashboard.css';
 
+const BADGE_ICONS: Record<Achievement, string> = {
+  first_donation: '🩸',
+  life_saver: '❤️',
+  dedicated_donor: '🏅',
+  regular_donor: '📅',
+  emergency_hero: '🚑',
+  rare_blood: '💎',
+  community_leader: '🤝'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+// How often a donor on the way sends their position
+const LOCATION_INTERVAL_MS = 30 * 1000;
+
+interface ChartPoint {
+  value: number;
+  date: string;
+}
+
+interface MetricChartProps {
+  title: string;
+  unit: string;
+  points: ChartPoint[];
+  // Healthy range, drawn as a band behind the line
+  normal: [number, number];
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 12;
+
+const MetricChart: React.FC<MetricChartProps> = ({ title, unit, points, normal }) => {
+  const { t } = useTranslation();
+
+  const values = points.map(point => point.value);
+  const min = Math.min(normal[0], ...values);
+  const max = Math.max(normal[1], ...values);
+  const span = max - min || 1;
+
+  const x = (index: number) => points.length === 1
+    ? CHART_WIDTH / 2
+    : CHART_PADDING + (index / (points.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - min) / span) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const latest = points[points.length - 1];
+
+  return (
+    <figure className="donor-chart">
+      <figcaption>
+        <span>{title}</span>
+        {latest && <strong>{latest.value} {unit}</strong>}
+      </figcaption>
+      {points.length === 0 ? (
+        <p className="donor-empty">{t('donor_no_readings')}</p>
+      ) : (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} role="img" aria-label={title}>
+          <rect
+            className="donor-chart-normal"
+            x={0}
+            y={y(normal[1])}
+            width={CHART_WIDTH}
+            height={y(normal[0]) - y(normal[1])}
+          />
+          <polyline
+            className="donor-chart-line"
+            points={points.map((point, index) => `${x(index)},${y(point.value)}`).join(' ')}
+          />
+          {points.map((point, index) => (
+            <circle key={point.date + index} className="donor-chart-dot" cx={x(index)} cy={y(point.value)} r={3}>
+              <title>{`${point.value} ${unit} · ${new Date(point.date).toLocaleDateString()}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </figure>
+  );
+};
+
+const toChartPoints = (history: HealthReading[], pick: (reading: HealthReading) => number | undefined): ChartPoint[] => {
+  return history.flatMap(reading => {
+    const value = pick(reading);
+    return value === undefined || value === null ? [] : [{ value, date: reading.recordedAt }];
+  });
+};
+
 const DonorDashboard: React.FC = () => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const highlightedRequest = searchParams.get('request');
+
+  const [session, setSession] = useState<AuthSession | null>(() => AuthService.getSession('donor'));
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [loginError, setLoginError] = useState('');
+  const [loginNotice, setLoginNotice] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+
+  const [dashboard, setDashboard] = useState<DonorDashboardData | null>(null);
+  const [alerts, setAlerts] = useState<BloodNeededAlert[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [isSavingAvailability, setIsSavingAvailability] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const [health, setHealth] = useState({ bloodPressure: '', ironLevel: '', pulse: '' });
+  const [isSavingHealth, setIsSavingHealth] = useState(false);
+
+  const donorId = session?.user.id;
+
+  const loadDashboard = useCallback(async () => {
+    if (!donorId) return;
+
+    const result = await DonorService.getDashboard(donorId);
+    if (result.success && result.data) {
+      setDashboard(result.data);
+      setAlerts(result.data.alerts);
+      setLoadError('');
+    } else {
+      setLoadError(result.error || t('error'));
+    }
+
+    // A failed refresh clears the stored session
+    setSession(AuthService.getSession('donor'));
+  }, [donorId, t]);
+
+  useEffect(() => {
+    loadDashboard();
+  }, [loadDashboard]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const socketHandlers = useMemo(() => ({
+    blood_needed: (alert: BloodNeededAlert) => {
+      setAlerts(previous => previous.some(item => item.requestId === alert.requestId)
+        ? previous
+        : [alert, ...previous]);
+    },
+    response_recorded: (event: { requestId: string }) => {
+      setRespondingTo(null);
+      setAlerts(previous => previous.filter(item => item.requestId !== event.requestId));
+      loadDashboard();
+    },
+    request_expired: (event: { requestId: string }) => {
+      setAlerts(previous => previous.filter(item => item.requestId !== event.requestId));
+    },
+    // The requester cancelled, extended or corrected a request, or it has all
+    // the blood it needs; removed means our blood type no longer matches it
+    request_updated: (event: Pick<BloodNeededAlert, 'requestId' | 'bloodType' | 'urgency' | 'expiresAt'> & { status: string; removed?: boolean }) => {
+      setAlerts(previous => !['pending', 'accepted'].includes(event.status) || event.removed
+        ? previous.filter(item => item.requestId !== event.requestId)
+        : previous.map(item => item.requestId === event.requestId
+          ? { ...item, bloodType: event.bloodType, urgency: event.urgency, expiresAt: event.expiresAt }
+          : item));
+      loadDashboard();
+    },
+    error: (event: { message: string }) => {
+      setRespondingTo(null);
+      setActionError(event.message);
+    }
+  }), [loadDashboard]);
+
+  const { isConnected, emit } = useRealtimeSocket('donor', socketHandlers, Boolean(donorId));
+
+  const isEnRoute = Boolean(dashboard?.commitments.some(commitment => commitment.response === 'en_route'));
+  const shareLocation = Boolean(dashboard?.donor.shareLocation);
+
+  // Follow the donor's position while they are on their way, if they allow it
+  useEffect(() => {
+    if (!isEnRoute || !shareLocation || !isConnected) return;
+
+    let lastSent = 0;
+    let watchId: number;
+    try {
+      watchId = LocationService.watchLocation(location => {
+        if (Date.now() - lastSent < LOCATION_INTERVAL_MS) return;
+        lastSent = Date.now();
+        emit('update_location', { location: { lat: location.lat, lng: location.lng } });
+      });
+    } catch {
+      return;
+    }
+
+    return () => LocationService.clearWatch(watchId);
+  }, [isEnRoute, shareLocation, isConnected, emit]);
+
+  const requestCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoggingIn(true);
+    setLoginError('');
+
+    const result = await AuthService.requestDonorCode(phone.trim());
+    setIsLoggingIn(false);
+
+    if (result.success) {
+      setCodeSent(true);
+      setLoginNotice(t('donor_code_sent'));
+    } else if (result.retryAfter) {
+      // A code is already on its way; let them type it in
+      setCodeSent(true);
+      setLoginError(result.error || t('error'));
+    } else {
+      setLoginError(result.error || t('error'));
+    }
+  };
+
+  const verifyCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoggingIn(true);
+    setLoginError('');
+
+    const result = await AuthService.loginDonor(phone.trim(), code.trim());
+    setIsLoggingIn(false);
+
+    if (result.success && result.data) {
+      setSession(result.data);
+      setCode('');
+      setCodeSent(false);
+      setLoginNotice('');
+    } else {
+      setLoginError(result.error || t('error'));
+    }
+  };
+
+  const handleLogout = async () => {
+    await AuthService.logout('donor');
+    setSession(null);
+    setDashboard(null);
+    setAlerts([]);
+  };
+
+  const toggleAvailability = async () => {
+    if (!dashboard || !donorId) return;
+
+    setIsSavingAvailability(true);
+    setActionError('');
+    const result = await DonorService.setAvailability(donorId, !dashboard.donor.available);
+    setIsSavingAvailability(false);
+
+    if (result.success) {
+      await loadDashboard();
+    } else {
+      setActionError(result.error || t('error'));
+    }
+  };
+
+  const respond = (requestId: string, response: 'accepted' | 'declined' | 'en_route' | 'arrived') => {
+    setRespondingTo(requestId);
+    setActionError('');
+    emit('donor_response', { requestId, response });
+  };
+
+  const cancelCommitment = (commitment: DonorCommitment) => {
+    if (!window.confirm(t('donor_confirm_cannot_make_it'))) return;
+    respond(commitment.requestId, 'declined');
+  };
+
+  const saveHealth = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!donorId) return;
+
+    const metrics = {
+      bloodPressure: health.bloodPressure.trim() || undefined,
+      ironLevel: health.ironLevel ? Number(health.ironLevel) : undefined,
+      pulse: health.pulse ? Number(health.pulse) : undefined
+    };
+
+    if (!metrics.bloodPressure && metrics.ironLevel === undefined && metrics.pulse === undefined) return;
+
+    setIsSavingHealth(true);
+    setActionError('');
+    const result = await DonorService.updateHealth(donorId, metrics);
+    setIsSavingHealth(false);
+
+    if (result.success) {
+      setHealth({ bloodPressure: '', ironLevel: '', pulse: '' });
+      await loadDashboard();
+    } else {
+      setActionError(result.error || t('error'));
+    }
+  };
+
+  if (!session) {
+    return (
+      <div className="donor-dashboard donor-login">
+        <form className="donor-card" onSubmit={codeSent ? verifyCode : requestCode}>
+          <h1>{t('donor_dashboard')}</h1>
+          <p>{codeSent ? loginNotice || t('donor_enter_code') : t('donor_login_description')}</p>
+          <label htmlFor="donor-phone">{t('phone_number')}</label>
+          <input
+            id="donor-phone"
+            type="tel"
+            autoComplete="tel"
+            placeholder="+919876543210"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            disabled={codeSent}
+            required
+          />
+          {codeSent && (
+            <>
+              <label htmlFor="donor-code">{t('donor_login_code')}</label>
+              <input
+                id="donor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="\d{6}"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+              />
+            </>
+          )}
+          {loginError && <div className="donor-error" role="alert">{loginError}</div>}
+          <button type="submit" className="donor-button primary" disabled={isLoggingIn}>
+            {isLoggingIn ? t('loading') : codeSent ? t('donor_verify_code') : t('donor_send_code')}
+          </button>
+          {codeSent && (
+            <button
+              type="button"
+              className="donor-link"
+              onClick={() => { setCodeSent(false); setCode(''); setLoginError(''); }}
+            >
+              {t('donor_change_number')}
+            </button>
+          )}
+        </form>
+      </div>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <div className="donor-dashboard donor-login">
+        {loadError
+          ? <div className="donor-error" role="alert">{loadError}</div>
+          : <LoadingSpinner size="medium" text={t('loading')} />}
+      </div>
+    );
+  }
+
+  const { donor, eligibility } = dashboard;
+  const nextEligible = eligibility.nextEligibleDate ? new Date(eligibility.nextEligibleDate).getTime() : null;
+  const remainingMs = nextEligible ? Math.max(0, nextEligible - now) : 0;
+  const waitProgress = nextEligible
+    ? Math.min(1, 1 - remainingMs / (eligibility.intervalDays * DAY_MS))
+    : 1;
+
   return (
     <div className="donor-dashboard">
-      <div className="container">
-        <h1>Donor Dashboard</h1>
-        <p>This page is under construction. It will include achievements, health tracking, and donation history.</p>
-      </div>
+      <header className="donor-header">
+        <div>
+          <h1>{t('donor_welcome', { name: donor.name })}</h1>
+          <span className="donor-meta">
+            <span className="donor-blood-type">{donor.bloodType === 'unknown' ? '?' : donor.bloodType}</span>
+            {donor.donorId} · {t('donor_points', { count: donor.points })}
+          </span>
+        </div>
+        <div className="donor-user">
+          <span className={`donor-connection ${isConnected ? 'online' : 'offline'}`}>
+            {isConnected ? t('hospital_live') : t('hospital_reconnecting')}
+          </span>
+          <button className="donor-button" onClick={handleLogout}>{t('admin_log_out')}</button>
+        </div>
+      </header>
+
+      {loadError && <div className="donor-error" role="alert">{loadError}</div>}
+      {actionError && <div className="donor-error" role="alert">{actionError}</div>}
+
+      <main className="donor-body">
+        {dashboard.commitments.length > 0 && (
+          <section className="donor-card donor-commitments">
+            <h2>{t('donor_commitments')}</h2>
+            <ul>
+              {dashboard.commitments.map(commitment => {
+                const busy = !isConnected || respondingTo === commitment.requestId;
+                return (
+                  <li key={commitment.requestId} className={`donor-commitment ${commitment.response}`}>
+                    <span className="donor-blood-type">{commitment.bloodType}</span>
+                    <div>
+                      <strong>
+                        {commitment.hospital
+                          ? t('donor_going_to', { name: commitment.hospital.name })
+                          : t('donor_going_to_patient')}
+                      </strong>
+                      {commitment.hospital && <span>{commitment.hospital.address}</span>}
+                      <span>
+                        {t(`donor_response_${commitment.response}`)}
+                        {commitment.response === 'en_route' && commitment.etaMinutes !== null && (
+                          <> · {t('donor_eta', { minutes: commitment.etaMinutes })}</>
+                        )}
+                      </span>
+                      {commitment.response === 'en_route' && (
+                        <small>{shareLocation ? t('donor_sharing_location') : t('donor_location_private')}</small>
+                      )}
+                      <a
+                        href={`https://www.google.com/maps/dir/?api=1&destination=${commitment.destination.lat},${commitment.destination.lng}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        {t('donor_directions')}
+                      </a>
+                    </div>
+                    <div className="donor-alert-actions">
+                      {commitment.response === 'accepted' && (
+                        <button className="donor-button primary" disabled={busy} onClick={() => respond(commitment.requestId, 'en_route')}>
+                          {t('donor_on_my_way')}
+                        </button>
+                      )}
+                      {commitment.response === 'en_route' && (
+                        <button className="donor-button primary" disabled={busy} onClick={() => respond(commitment.requestId, 'arrived')}>
+                          {t('donor_arrived')}
+                        </button>
+                      )}
+                      {commitment.response !== 'arrived' && (
+                        <button className="donor-button" disabled={busy} onClick={() => cancelCommitment(commitment)}>
+                          {t('donor_cannot_make_it')}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {alerts.length > 0 && (
+          <section className="donor-card donor-alerts">
+            <h2>{t('donor_alerts')}</h2>
+            <ul>
+              {alerts.map(alert => (
+                <li
+                  key={alert.requestId}
+                  className={`donor-alert ${alert.urgency} ${highlightedRequest === alert.requestId ? 'highlighted' : ''}`}
+                >
+                  <span className="donor-blood-type">{alert.bloodType}</span>
+                  <div>
+                    <strong>{t(alert.urgency)}</strong>
+                    <span>
+                      {alert.distance !== null && t('donor_distance_away', { distance: alert.distance })}
+                      {' · '}
+                      {t('donor_expires_in', { time: BloodRequestService.formatTimeRemaining(alert.expiresAt) })}
+                    </span>
+                  </div>
+                  <div className="donor-alert-actions">
+                    <button
+                      className="donor-button primary"
+                      disabled={!isConnected || respondingTo === alert.requestId}
+                      onClick={() => respond(alert.requestId, 'accepted')}
+                    >
+                      {t('donor_accept')}
+                    </button>
+                    <button
+                      className="donor-button"
+                      disabled={!isConnected || respondingTo === alert.requestId}
+                      onClick={() => respond(alert.requestId, 'declined')}
+                    >
+                      {t('donor_decline')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="donor-card donor-eligibility">
+          <h2>{t('donor_next_donation')}</h2>
+          <div
+            className="donor-progress"
+            style={{ '--progress': `${waitProgress * 360}deg` } as React.CSSProperties}
+          >
+            {remainingMs > 0 ? (
+              <div>
+                <strong>{Math.floor(remainingMs / DAY_MS)}</strong>
+                <span>{t('donor_days')}</span>
+                <small>{t('donor_hours', { count: Math.floor((remainingMs % DAY_MS) / (60 * 60 * 1000)) })}</small>
+              </div>
+            ) : (
+              <div>
+                <strong>✓</strong>
+                <span>{t('donor_ready')}</span>
+              </div>
+            )}
+          </div>
+          <p>
+            {remainingMs > 0
+              ? t('donor_eligible_on', { date: new Date(nextEligible!).toLocaleDateString() })
+              : t('donor_eligible_now')}
+          </p>
+          <p className="donor-hint">{t('donor_interval_rule', { days: eligibility.intervalDays })}</p>
+          <ul className="donor-eligibility-types">
+            {eligibility.byType.filter(entry => entry.donationType !== 'whole_blood').map(entry => (
+              <li key={entry.donationType} className={entry.eligible ? 'eligible' : ''}>
+                <span>{t(`donation_type_${entry.donationType}`)}</span>
+                <span>
+                  {entry.eligible || !entry.nextEligibleDate
+                    ? t('donor_type_eligible_now')
+                    : new Date(entry.nextEligibleDate).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <label className="donor-toggle">
+            <input
+              type="checkbox"
+              checked={donor.available}
+              onChange={toggleAvailability}
+              disabled={isSavingAvailability}
+            />
+            <span className="donor-toggle-track" aria-hidden="true" />
+            <span>{donor.available ? t('donor_available') : t('donor_unavailable')}</span>
+          </label>
+        </section>
+
+        <section className="donor-card donor-stats">
+          <div>
+            <strong>{donor.totalDonations}</strong>
+            <span>{t('donor_total_donations')}</span>
+          </div>
+          <div>
+            <strong>{donor.achievements.length}/{ACHIEVEMENTS.length}</strong>
+            <span>{t('donor_badges')}</span>
+          </div>
+          <div>
+            <strong>{donor.points}</strong>
+            <span>{t('donor_points_label')}</span>
+          </div>
+        </section>
+
+        <section className="donor-card donor-badges">
+          <h2>{t('donor_badges')}</h2>
+          <ul>
+            {ACHIEVEMENTS.map(achievement => {
+              const earned = donor.achievements.includes(achievement);
+              return (
+                <li key={achievement} className={earned ? 'earned' : 'locked'} title={t(`donor_badge_${achievement}_hint`)}>
+                  <span className="donor-badge-icon" aria-hidden="true">{earned ? BADGE_ICONS[achievement] : '🔒'}</span>
+                  <strong>{t(`donor_badge_${achievement}`)}</strong>
+                  <small>{earned ? t('donor_badge_earned') : t(`donor_badge_${achievement}_hint`)}</small>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+
+        <section className="donor-card donor-health">
+          <h2>{t('donor_health')}</h2>
+          <div className="donor-charts">
+            <MetricChart
+              title={t('donor_iron_level')}
+              unit="g/dL"
+              points={toChartPoints(dashboard.health.history, reading => reading.ironLevel)}
+              normal={[12.5, 17.5]}
+            />
+            <MetricChart
+              title={t('donor_pulse')}
+              unit="bpm"
+              points={toChartPoints(dashboard.health.history, reading => reading.pulse)}
+              normal={[60, 100]}
+            />
+            <MetricChart
+              title={t('donor_systolic')}
+              unit="mmHg"
+              points={toChartPoints(dashboard.health.history, reading =>
+                reading.bloodPressure ? Number(reading.bloodPressure.split('/')[0]) : undefined
+              )}
+              normal={[100, 140]}
+            />
+          </div>
+
+          <form className="donor-health-form" onSubmit={saveHealth}>
+            <input
+              placeholder={t('donor_blood_pressure_placeholder')}
+              pattern="\d{2,3}/\d{2,3}"
+              value={health.bloodPressure}
+              onChange={(e) => setHealth({ ...health, bloodPressure: e.target.value })}
+            />
+            <input
+              type="number"
+              step="0.1"
+              min={8}
+              max={20}
+              placeholder={t('donor_iron_level')}
+              value={health.ironLevel}
+              onChange={(e) => setHealth({ ...health, ironLevel: e.target.value })}
+            />
+            <input
+              type="number"
+              min={60}
+              max={100}
+              placeholder={t('donor_pulse')}
+              value={health.pulse}
+              onChange={(e) => setHealth({ ...health, pulse: e.target.value })}
+            />
+            <button type="submit" className="donor-button primary" disabled={isSavingHealth}>
+              {isSavingHealth ? t('loading') : t('donor_save_reading')}
+            </button>
+          </form>
+        </section>
+
+        <section className="donor-card donor-timeline">
+          <h2>{t('donor_timeline')}</h2>
+          <ol>
+            {dashboard.timeline.map((entry, index) => (
+              <li key={`${entry.type}-${entry.date}-${index}`} className={entry.type}>
+                <time>{new Date(entry.date).toLocaleDateString()}</time>
+                <span>
+                  {t(`donor_timeline_${entry.type}`, {
+                    bloodType: entry.bloodType,
+                    urgency: entry.urgency ? t(entry.urgency) : '',
+                    hospital: entry.hospitalName || t('donor_timeline_a_hospital'),
+                    donationType: t(`donation_type_${entry.donationType || 'whole_blood'}`)
+                  })}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </main>
     </div>
   );
 };
 
-export default DonorDashboard;
\ No newline at end of file
+export default DonorDashboard;
@@ -1,15 +1,689 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
+import { useSpeechRecognition } from '../hooks/useSpeechRecognition';
+import { LocationService } from '../services/LocationService';
+import { BLOOD_TYPES } from '../services/HospitalService';
+import {
+  DonorService,
+  type DonorBloodType,
+  type DonorRegistrationResult,
+  type DonorSex
+} from '../services/DonorService';
+import { LoadingSpinner } from '../components/LoadingSpinner';
 import './DonorRegistration.css';
 
+type Step = 'personal' | 'bloodType' | 'location' | 'screening' | 'consent' | 'done';
+
+type VoiceTarget = 'name' | 'address' | 'bloodType' | 'screening';
+
+const STEPS: Step[] = ['personal', 'bloodType', 'location', 'screening', 'consent'];
+
+const MIN_AGE = 18;
+const MAX_AGE = 65;
+
+// Answers that let someone donate today; anything else defers them
+const SCREENING_QUESTIONS: { id: string; eligibleAnswer: boolean }[] = [
+  { id: 'feeling_well', eligibleAnswer: true },
+  { id: 'weight', eligibleAnswer: true },
+  { id: 'recent_illness', eligibleAnswer: false },
+  { id: 'tattoo', eligibleAnswer: false },
+  { id: 'pregnancy', eligibleAnswer: false },
+  { id: 'chronic_condition', eligibleAnswer: false }
+];
+
+interface RegistrationForm {
+  name: string;
+  phone: string;
+  email: string;
+  dateOfBirth: string;
+  sex: DonorSex | '';
+  bloodType: DonorBloodType | '';
+  address: string;
+  location: { lat: number; lng: number } | null;
+  screening: Record<string, boolean>;
+  consent: boolean;
+  code: string;
+}
+
+const INITIAL_FORM: RegistrationForm = {
+  name: '',
+  phone: '',
+  email: '',
+  dateOfBirth: '',
+  sex: '',
+  bloodType: '',
+  address: '',
+  location: null,
+  screening: {},
+  consent: false,
+  code: ''
+};
+
+// Same calculation as the Donor model's dateOfBirth validator
+const getAge = (dateOfBirth: string): number => {
+  return Math.floor((Date.now() - new Date(dateOfBirth).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+};
+
+// "A positive", "o minus", "AB+" and "I don't know" all work
+const parseBloodType = (spoken: string): DonorBloodType | null => {
+  const text = spoken.toLowerCase();
+
+  if (/don'?t know|not sure|unknown|पता नहीं|मालूम नहीं/.test(text)) return 'unknown';
+
+  const group = text.match(/\b(ab|a|b|o)\b/)?.[1] ?? (text.includes('ए बी') ? 'ab' : null);
+  const sign = /positive|plus|\+|पॉजिटिव/.test(text) ? '+' : /negative|minus|-|नेगेटिव/.test(text) ? '-' : null;
+  if (!group || !sign) return null;
+
+  return `${group.toUpperCase()}${sign}` as DonorBloodType;
+};
+
+const parseYesNo = (spoken: string): boolean | null => {
+  const text = spoken.toLowerCase();
+  if (/\b(yes|yeah|yep|haan)\b/.test(text) || text.includes('हाँ') || text.includes('हां')) return true;
+  if (/\b(no|nope|nahi)\b/.test(text) || text.includes('नहीं')) return false;
+  return null;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = reject;
+  image.src = src;
+});
+
 const DonorRegistration: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const speechLang = i18n.language === 'hi' ? 'hi-IN' : 'en-US';
+  const { speak, cancel, supported: speechSupported } = useSpeechSynthesis();
+  const {
+    listening,
+    transcript,
+    startListening,
+    stopListening,
+    resetTranscript,
+    supported: recognitionSupported
+  } = useSpeechRecognition(speechLang);
+
+  const [step, setStep] = useState<Step>('personal');
+  const [form, setForm] = useState<RegistrationForm>(INITIAL_FORM);
+  const [errors, setErrors] = useState<Partial<Record<keyof RegistrationForm | 'submit', string>>>({});
+  const [voiceEnabled, setVoiceEnabled] = useState(true);
+  const [voiceTarget, setVoiceTarget] = useState<VoiceTarget | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [codeSentTo, setCodeSentTo] = useState('');
+  const [result, setResult] = useState<DonorRegistrationResult | null>(null);
+
+  const say = useCallback((text: string) => {
+    if (voiceEnabled) speak(text, { lang: speechLang });
+  }, [voiceEnabled, speak, speechLang]);
+
+  const deferred = SCREENING_QUESTIONS.some(question =>
+    question.id in form.screening && form.screening[question.id] !== question.eligibleAnswer
+  );
+  const nextQuestion = SCREENING_QUESTIONS.find(question => !(question.id in form.screening));
+
+  // Read each step's instructions aloud as the donor reaches it
+  useEffect(() => {
+    say(t(`register_voice_${step}`));
+  }, [step, say, t]);
+
+  useEffect(() => {
+    return () => cancel();
+  }, [cancel]);
+
+  // Apply what the donor said to the field they were dictating into
+  useEffect(() => {
+    if (!transcript || !voiceTarget) return;
+
+    if (voiceTarget === 'name' || voiceTarget === 'address') {
+      setForm(previous => ({ ...previous, [voiceTarget]: transcript }));
+    } else if (voiceTarget === 'bloodType') {
+      const bloodType = parseBloodType(transcript);
+      if (bloodType) {
+        setForm(previous => ({ ...previous, bloodType }));
+        say(bloodType === 'unknown' ? t('register_blood_type_unknown') : bloodType);
+      } else {
+        say(t('register_voice_not_understood'));
+      }
+    } else if (voiceTarget === 'screening' && nextQuestion) {
+      const answer = parseYesNo(transcript);
+      if (answer === null) {
+        say(t('register_voice_not_understood'));
+      } else {
+        setForm(previous => ({ ...previous, screening: { ...previous.screening, [nextQuestion.id]: answer } }));
+      }
+    }
+
+    resetTranscript();
+    setVoiceTarget(null);
+  }, [transcript, voiceTarget, nextQuestion, resetTranscript, say, t]);
+
+  const listenFor = (target: VoiceTarget) => {
+    if (listening) {
+      stopListening();
+      setVoiceTarget(null);
+      return;
+    }
+
+    cancel();
+    resetTranscript();
+    setVoiceTarget(target);
+    if (target === 'screening' && nextQuestion) {
+      say(t(`register_screening_${nextQuestion.id}`));
+    }
+    startListening();
+  };
+
+  const update = <K extends keyof RegistrationForm>(field: K, value: RegistrationForm[K]) => {
+    setForm(previous => ({ ...previous, [field]: value }));
+    setErrors(previous => ({ ...previous, [field]: undefined }));
+  };
+
+  const validateStep = (current: Step): boolean => {
+    const stepErrors: typeof errors = {};
+
+    if (current === 'personal') {
+      if (form.name.trim().length < 2) stepErrors.name = t('name_required');
+
+      if (!form.phone.trim()) {
+        stepErrors.phone = t('phone_required');
+      } else if (!/^\+?[1-9]\d{1,14}$/.test(form.phone.trim())) {
+        stepErrors.phone = t('phone_invalid');
+      }
+
+      if (form.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.email.trim())) {
+        stepErrors.email = t('staff_email_invalid');
+      }
+
+      if (!form.dateOfBirth) {
+        stepErrors.dateOfBirth = t('register_dob_required');
+      } else {
+        const age = getAge(form.dateOfBirth);
+        if (age < MIN_AGE || age > MAX_AGE) {
+          stepErrors.dateOfBirth = t('register_age_range', { min: MIN_AGE, max: MAX_AGE });
+        }
+      }
+    }
+
+    if (current === 'bloodType' && !form.bloodType) {
+      stepErrors.bloodType = t('register_blood_type_required');
+    }
+
+    if (current === 'location') {
+      if (!form.location) stepErrors.location = t('location_required');
+      if (form.address.trim().length < 10) stepErrors.address = t('register_address_too_short');
+    }
+
+    if (current === 'screening' && nextQuestion) {
+      stepErrors.screening = t('register_screening_incomplete');
+    }
+
+    if (current === 'consent' && !form.consent) {
+      stepErrors.consent = t('register_consent_required');
+    }
+
+    if (current === 'consent' && !/^\d{6}$/.test(form.code.trim())) {
+      stepErrors.code = t('register_code_required');
+    }
+
+    setErrors(stepErrors);
+
+    const messages = Object.values(stepErrors).filter(Boolean);
+    if (messages.length > 0) say(messages[0] as string);
+    return messages.length === 0;
+  };
+
+  const goNext = () => {
+    if (!validateStep(step)) return;
+    setStep(STEPS[STEPS.indexOf(step) + 1]);
+  };
+
+  const goBack = () => {
+    setErrors({});
+    setStep(STEPS[Math.max(0, STEPS.indexOf(step) - 1)]);
+  };
+
+  const detectLocation = async () => {
+    setIsLocating(true);
+    setErrors(previous => ({ ...previous, location: undefined }));
+
+    try {
+      const location = await LocationService.getCurrentLocation();
+      const address = await LocationService.getAddressFromLocation(location);
+      setForm(previous => ({
+        ...previous,
+        location: { lat: location.lat, lng: location.lng },
+        address: previous.address.trim() ? previous.address : address
+      }));
+      say(t('location_found'));
+    } catch {
+      setErrors(previous => ({ ...previous, location: t('location_error') }));
+      say(t('location_error'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const locateAddress = async () => {
+    if (!form.address.trim()) return;
+
+    setIsLocating(true);
+    const location = await LocationService.getLocationFromAddress(form.address.trim());
+    setIsLocating(false);
+
+    if (location) {
+      update('location', { lat: location.lat, lng: location.lng });
+      say(t('location_found'));
+    } else {
+      setErrors(previous => ({ ...previous, location: t('register_address_not_found') }));
+    }
+  };
+
+  // The phone has to be proven before registration hands out a login session
+  const sendCode = async () => {
+    const phone = form.phone.trim();
+    setIsSendingCode(true);
+    setErrors(previous => ({ ...previous, code: undefined, submit: undefined }));
+
+    const response = await DonorService.requestRegistrationCode(phone);
+    setIsSendingCode(false);
+
+    if (response.success) {
+      setCodeSentTo(phone);
+      say(t('register_code_sent'));
+    } else if (response.retryAfter) {
+      // A code is already on its way; let them type it in
+      setCodeSentTo(phone);
+      setErrors(previous => ({ ...previous, code: response.error || t('error') }));
+    } else {
+      const message = response.error || t('error');
+      setErrors(previous => ({ ...previous, code: message }));
+      say(message);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!validateStep('consent') || !form.location || !form.bloodType) return;
+
+    setIsSubmitting(true);
+    const response = await DonorService.register({
+      name: form.name.trim(),
+      phone: form.phone.trim(),
+      code: form.code.trim(),
+      email: form.email.trim() || undefined,
+      bloodType: form.bloodType,
+      sex: form.sex || undefined,
+      dateOfBirth: form.dateOfBirth,
+      address: form.address.trim(),
+      location: form.location,
+      available: !deferred,
+      consent: form.consent
+    });
+    setIsSubmitting(false);
+
+    if (response.success && response.data) {
+      setResult(response.data);
+      setStep('done');
+    } else {
+      const message = response.error || t('register_failed');
+      setErrors({ submit: message });
+      say(message);
+    }
+  };
+
+  const downloadCard = async () => {
+    if (!result) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 640;
+    canvas.height = 360;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = '#d32f2f';
+    context.fillRect(0, 0, canvas.width, 64);
+
+    context.fillStyle = '#ffffff';
+    context.font = 'bold 28px sans-serif';
+    context.fillText('OneBlood', 24, 42);
+    context.font = '16px sans-serif';
+    context.fillText(t('register_card_title'), 180, 40);
+
+    context.fillStyle = '#333333';
+    context.font = 'bold 26px sans-serif';
+    context.fillText(result.donor.name, 24, 120);
+    context.font = '18px sans-serif';
+    context.fillText(`${t('register_donor_id')}: ${result.donor.donorId}`, 24, 160);
+    context.fillText(`${t('register_member_since')}: ${new Date(result.donor.createdAt).toLocaleDateString()}`, 24, 192);
+    context.fillText(`${t('register_valid_until')}: ${new Date(result.qrValidUntil).toLocaleDateString()}`, 24, 224);
+
+    context.fillStyle = '#d32f2f';
+    context.font = 'bold 72px sans-serif';
+    context.fillText(result.donor.bloodType === 'unknown' ? '?' : result.donor.bloodType, 24, 300);
+
+    const qr = await loadImage(result.qrCode);
+    context.drawImage(qr, 380, 88, 240, 240);
+
+    const link = document.createElement('a');
+    link.href = canvas.toDataURL('image/png');
+    link.download = `oneblood-${result.donor.donorId}.png`;
+    link.click();
+  };
+
+  const stepIndex = STEPS.indexOf(step);
+
+  const micButton = (target: VoiceTarget) => recognitionSupported && (
+    <button
+      type="button"
+      className={`registration-mic ${listening && voiceTarget === target ? 'active' : ''}`}
+      onClick={() => listenFor(target)}
+      aria-label={listening && voiceTarget === target ? t('stop_listening') : t('start_listening')}
+    >
+      🎤
+    </button>
+  );
+
+  if (step === 'done' && result) {
+    return (
+      <div className="donor-registration">
+        <div className="registration-panel">
+          <h1>{t('register_complete')}</h1>
+          <p>{deferred ? t('register_complete_deferred') : t('register_complete_description')}</p>
+
+          <div className="registration-card" id="registration-card">
+            <header>
+              <strong>OneBlood</strong>
+              <span>{t('register_card_title')}</span>
+            </header>
+            <div className="registration-card-body">
+              <div>
+                <h2>{result.donor.name}</h2>
+                <p>{t('register_donor_id')}: <strong>{result.donor.donorId}</strong></p>
+                <p>{t('register_member_since')}: {new Date(result.donor.createdAt).toLocaleDateString()}</p>
+                <p>{t('register_valid_until')}: {new Date(result.qrValidUntil).toLocaleDateString()}</p>
+                <span className="registration-card-blood-type">
+                  {result.donor.bloodType === 'unknown' ? '?' : result.donor.bloodType}
+                </span>
+              </div>
+              <img src={result.qrCode} alt={t('register_qr_alt')} />
+            </div>
+          </div>
+
+          <div className="registration-actions">
+            <button className="registration-button" onClick={() => window.print()}>{t('register_print_card')}</button>
+            <button className="registration-button" onClick={downloadCard}>{t('register_download_card')}</button>
+            <Link className="registration-button primary" to="/donor-dashboard">{t('register_go_to_dashboard')}</Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="donor-registration">
-      <div className="container">
-        <h1>Donor Registration</h1>
-        <p>This page is under construction. It will include QR code generation and donor registration form.</p>
+      <div className="registration-panel">
+        <header className="registration-header">
+          <h1>{t('register_title')}</h1>
+          {speechSupported && (
+            <button
+              type="button"
+              className={`registration-voice-toggle ${voiceEnabled ? 'on' : ''}`}
+              onClick={() => { cancel(); setVoiceEnabled(!voiceEnabled); }}
+              aria-pressed={voiceEnabled}
+            >
+              {voiceEnabled ? '🔊' : '🔇'} {t('register_voice_guide')}
+            </button>
+          )}
+        </header>
+
+        <ol className="registration-progress">
+          {STEPS.map((item, index) => (
+            <li key={item} className={index < stepIndex ? 'done' : index === stepIndex ? 'current' : ''}>
+              {t(`register_step_${item}`)}
+            </li>
+          ))}
+        </ol>
+
+        {step === 'personal' && (
+          <section className="registration-step">
+            <div className="registration-field">
+              <label htmlFor="register-name">{t('your_name')}</label>
+              <div className="registration-input-row">
+                <input
+                  id="register-name"
+                  autoComplete="name"
+                  placeholder={t('enter_name')}
+                  value={form.name}
+                  onChange={(e) => update('name', e.target.value)}
+                />
+                {micButton('name')}
+              </div>
+              {errors.name && <span className="registration-error">{errors.name}</span>}
+            </div>
+
+            <div className="registration-field">
+              <label htmlFor="register-phone">{t('phone_number')}</label>
+              <input
+                id="register-phone"
+                type="tel"
+                autoComplete="tel"
+                placeholder="+919876543210"
+                value={form.phone}
+                onChange={(e) => update('phone', e.target.value)}
+              />
+              {errors.phone && <span className="registration-error">{errors.phone}</span>}
+            </div>
+
+            <div className="registration-field">
+              <label htmlFor="register-email">{t('admin_email')} ({t('optional')})</label>
+              <input
+                id="register-email"
+                type="email"
+                autoComplete="email"
+                value={form.email}
+                onChange={(e) => update('email', e.target.value)}
+              />
+              {errors.email && <span className="registration-error">{errors.email}</span>}
+            </div>
+
+            <div className="registration-field">
+              <label htmlFor="register-dob">{t('register_date_of_birth')}</label>
+              <input
+                id="register-dob"
+                type="date"
+                autoComplete="bday"
+                max={new Date().toISOString().split('T')[0]}
+                value={form.dateOfBirth}
+                onChange={(e) => update('dateOfBirth', e.target.value)}
+              />
+              <small>{t('register_age_range', { min: MIN_AGE, max: MAX_AGE })}</small>
+              {errors.dateOfBirth && <span className="registration-error">{errors.dateOfBirth}</span>}
+            </div>
+
+            <div className="registration-field">
+              <label htmlFor="register-sex">{t('register_sex')} ({t('optional')})</label>
+              <select
+                id="register-sex"
+                value={form.sex}
+                onChange={(e) => update('sex', e.target.value as DonorSex | '')}
+              >
+                <option value="">{t('register_sex_unspecified')}</option>
+                <option value="female">{t('register_sex_female')}</option>
+                <option value="male">{t('register_sex_male')}</option>
+                <option value="other">{t('register_sex_other')}</option>
+              </select>
+              <small>{t('register_sex_hint')}</small>
+            </div>
+          </section>
+        )}
+
+        {step === 'bloodType' && (
+          <section className="registration-step">
+            <div className="registration-input-row">
+              <p>{t('register_blood_type_prompt')}</p>
+              {micButton('bloodType')}
+            </div>
+            <div className="registration-blood-types">
+              {BLOOD_TYPES.map(bloodType => (
+                <button
+                  key={bloodType}
+                  type="button"
+                  className={form.bloodType === bloodType ? 'selected' : ''}
+                  onClick={() => update('bloodType', bloodType)}
+                >
+                  {bloodType}
+                </button>
+              ))}
+              <button
+                type="button"
+                className={`unknown ${form.bloodType === 'unknown' ? 'selected' : ''}`}
+                onClick={() => update('bloodType', 'unknown')}
+              >
+                {t('register_blood_type_unknown')}
+              </button>
+            </div>
+            {form.bloodType === 'unknown' && <p className="registration-note">{t('register_blood_type_unknown_note')}</p>}
+            {errors.bloodType && <span className="registration-error">{errors.bloodType}</span>}
+          </section>
+        )}
+
+        {step === 'location' && (
+          <section className="registration-step">
+            <button type="button" className="registration-button" onClick={detectLocation} disabled={isLocating}>
+              📍 {t('register_use_my_location')}
+            </button>
+            {isLocating && <LoadingSpinner size="small" text={t('detecting_location')} />}
+            {form.location && (
+              <p className="registration-note">
+                {t('location_detected')}: {form.location.lat.toFixed(4)}, {form.location.lng.toFixed(4)}
+              </p>
+            )}
+            {errors.location && <span className="registration-error">{errors.location}</span>}
+
+            <div className="registration-field">
+              <label htmlFor="register-address">{t('admin_address')}</label>
+              <div className="registration-input-row">
+                <textarea
+                  id="register-address"
+                  rows={3}
+                  maxLength={500}
+                  value={form.address}
+                  onChange={(e) => update('address', e.target.value)}
+                />
+                {micButton('address')}
+              </div>
+              {errors.address && <span className="registration-error">{errors.address}</span>}
+              <button
+                type="button"
+                className="registration-link"
+                onClick={locateAddress}
+                disabled={isLocating || !form.address.trim()}
+              >
+                {t('register_find_address')}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {step === 'screening' && (
+          <section className="registration-step">
+            <div className="registration-input-row">
+              <p>{t('register_screening_intro')}</p>
+              {nextQuestion && micButton('screening')}
+            </div>
+            <ul className="registration-questions">
+              {SCREENING_QUESTIONS.map(question => (
+                <li key={question.id}>
+                  <span>{t(`register_screening_${question.id}`)}</span>
+                  <div>
+                    {[true, false].map(answer => (
+                      <button
+                        key={String(answer)}
+                        type="button"
+                        className={form.screening[question.id] === answer ? 'selected' : ''}
+                        onClick={() => update('screening', { ...form.screening, [question.id]: answer })}
+                      >
+                        {answer ? t('register_yes') : t('register_no')}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {deferred && <p className="registration-note warning">{t('register_screening_deferred')}</p>}
+            {errors.screening && <span className="registration-error">{errors.screening}</span>}
+          </section>
+        )}
+
+        {step === 'consent' && (
+          <section className="registration-step">
+            <dl className="registration-summary">
+              <dt>{t('your_name')}</dt>
+              <dd>{form.name}</dd>
+              <dt>{t('phone_number')}</dt>
+              <dd>{form.phone}</dd>
+              <dt>{t('blood_type')}</dt>
+              <dd>{form.bloodType === 'unknown' ? t('register_blood_type_unknown') : form.bloodType}</dd>
+              <dt>{t('admin_address')}</dt>
+              <dd>{form.address}</dd>
+            </dl>
+            <label className="registration-consent">
+              <input
+                type="checkbox"
+                checked={form.consent}
+                onChange={(e) => update('consent', e.target.checked)}
+              />
+              <span>{t('register_consent_text')}</span>
+            </label>
+            {errors.consent && <span className="registration-error">{errors.consent}</span>}
+
+            <div className="registration-field">
+              <label htmlFor="register-code">{t('register_code')}</label>
+              <small>{codeSentTo === form.phone.trim() ? t('register_code_sent') : t('register_code_intro')}</small>
+              <div className="registration-input-row">
+                <input
+                  id="register-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={form.code}
+                  onChange={(e) => update('code', e.target.value.replace(/\D/g, ''))}
+                />
+                <button type="button" className="registration-button" onClick={sendCode} disabled={isSendingCode || isSubmitting}>
+                  {isSendingCode ? t('loading') : codeSentTo === form.phone.trim() ? t('register_resend_code') : t('register_send_code')}
+                </button>
+              </div>
+              {errors.code && <span className="registration-error">{errors.code}</span>}
+            </div>
+            {errors.submit && <div className="registration-error" role="alert">{errors.submit}</div>}
+          </section>
+        )}
+
+        <footer className="registration-actions">
+          {stepIndex > 0 && (
+            <button type="button" className="registration-button" onClick={goBack} disabled={isSubmitting}>
+              {t('back')}
+            </button>
+          )}
+          {step === 'consent' ? (
+            <button type="button" className="registration-button primary" onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? t('loading') : t('register_submit')}
+            </button>
+          ) : (
+            <button type="button" className="registration-button primary" onClick={goNext}>
+              {t('continue')}
+            </button>
+          )}
+        </footer>
       </div>
     </div>
   );
 };
 
-export default DonorRegistration;
\ No newline at end of file
+export default DonorRegistration;
@@ -1,15 +1,19 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
 import { LocationService } from '../services/LocationService';
-import { BloodRequestService } from '../services/BloodRequestService';
+import { BloodRequestService, MAX_UNITS_PER_REQUEST } from '../services/BloodRequestService';
+import { OfflineQueueService } from '../services/OfflineQueueService';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
 import { VoiceNavigation } from '../components/VoiceNavigation';
 import { LoadingSpinner } from '../components/LoadingSpinner';
 import { SuccessAnimation } from '../components/SuccessAnimation';
 import { BloodDrop3D } from '../components/BloodDrop3D';
 import { HeartPulseAnimation, BloodBagFillingAnimation } from '../components/HeartPulseAnimation';
 import { useTranslation } from 'react-i18next';
+import { DONATION_TYPES, type DonationType } from '../services/DonorService';
 import './EmergencyBloodRequest.css';
 
 interface FormData {
@@ -17,6 +21,8 @@ interface FormData {
   requesterPhone: string;
   bloodType: string;
   urgency: string;
+  donationType: DonationType;
+  unitsRequired: number;
   patientCondition: string;
   location: { lat: number; lng: number } | null;
 }
@@ -24,22 +30,28 @@ interface FormData {
 const EmergencyBloodRequest: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { speak, cancel } = useSpeechSynthesis();
+  const { entries: queueEntries, pendingCount, isOnline, flush } = useOfflineQueue();
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  const [step, setStep] = useState<'form' | 'location' | 'confirm' | 'submitting' | 'success'>('form');
+  const [step, setStep] = useState<'form' | 'location' | 'confirm' | 'submitting' | 'queued' | 'success'>('form');
   const [isAnimating, setIsAnimating] = useState(false);
   const [formData, setFormData] = useState<FormData>({
     requesterName: '',
     requesterPhone: '',
     bloodType: 'O+',
     urgency: 'normal',
+    donationType: 'whole_blood',
+    unitsRequired: 1,
     patientCondition: '',
     location: null
   });
-  const [errors, setErrors] = useState<Partial<Record<keyof FormData, string>>>({});
+  const [errors, setErrors] = useState<Partial<Record<keyof FormData | 'submit', string>>>({});
   const [isLocating, setIsLocating] = useState(false);
   const [locationError, setLocationError] = useState<string>('');
   const [requestId, setRequestId] = useState<string>('');
+  const [queuedId, setQueuedId] = useState<string>('');
+
+  const queuedEntry = queueEntries.find(entry => entry.id === queuedId);
 
   // Blood types for selection
   const bloodTypes = ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'];
@@ -69,9 +81,21 @@ const EmergencyBloodRequest: React.FC = () => {
     }
   }, [speak, t]);
 
+  // Move a queued request to the success screen once it has been delivered.
+  // Without the server's request ID there is nothing to track, so it stays here.
+  useEffect(() => {
+    if (step !== 'queued' || !queuedEntry) return;
+
+    if (queuedEntry.status === 'sent' && queuedEntry.requestId) {
+      setRequestId(queuedEntry.requestId);
+      setStep('success');
+      speak(t('request_sent_success'));
+    }
+  }, [step, queuedEntry, speak, t]);
+
   // Validate form
   const validateForm = (): boolean => {
-    const newErrors: Partial<Record<keyof FormData, string>> = {};
+    const newErrors: Partial<Record<keyof FormData | 'submit', string>> = {};
 
     if (!formData.requesterName.trim()) {
       newErrors.requesterName = t('name_required');
@@ -93,7 +117,7 @@ const EmergencyBloodRequest: React.FC = () => {
 
   // Handle blood request submission
   const handleSubmit = async () => {
-    if (!validateForm()) {
+    if (!validateForm() || !formData.location) {
       speak(t('form_error'));
       return;
     }
@@ -101,10 +125,28 @@ const EmergencyBloodRequest: React.FC = () => {
     setStep('submitting');
     setIsAnimating(true);
 
+    // Same key for the first attempt and any queued retries so the server can deduplicate
+    const requestData = {
+      ...formData,
+      location: formData.location,
+      idempotencyKey: OfflineQueueService.generateKey()
+    };
+
     try {
-      const response = await BloodRequestService.createRequest(formData);
+      const response = navigator.onLine
+        ? await BloodRequestService.createRequest(requestData)
+        : { success: false, retryable: true, data: undefined, error: 'Offline' };
+
+      if (!response.success && response.retryable) {
+        const entry = await OfflineQueueService.enqueue(requestData);
+        setQueuedId(entry.id);
+        setStep('queued');
+        setIsAnimating(false);
+        speak(t('request_queued_voice'));
+        return;
+      }
 
-      if (response.success) {
+      if (response.success && response.data) {
         setRequestId(response.data.requestId);
         setStep('success');
 
@@ -142,7 +184,7 @@ const EmergencyBloodRequest: React.FC = () => {
   };
 
   // Form field handlers
-  const handleInputChange = (field: keyof FormData, value: string) => {
+  const handleInputChange = (field: keyof FormData, value: string | number) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: '' }));
@@ -379,6 +421,38 @@ const EmergencyBloodRequest: React.FC = () => {
                     </div>
                   </div>
 
+                  <div className="form-group">
+                    <label htmlFor="donation-type">{t('donation_type')}</label>
+                    <select
+                      id="donation-type"
+                      value={formData.donationType}
+                      onChange={(e) => handleInputChange('donationType', e.target.value)}
+                    >
+                      {DONATION_TYPES.map(type => (
+                        <option key={type} value={type}>{t(`donation_type_${type}`)}</option>
+                      ))}
+                    </select>
+                    <p className="form-hint">
+                      {t('compatible_donor_types', {
+                        types: BloodRequestService.getCompatibleDonorTypes(formData.bloodType, formData.donationType).join(', ')
+                      })}
+                    </p>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="units-required">{t('units_required')}</label>
+                    <select
+                      id="units-required"
+                      value={formData.unitsRequired}
+                      onChange={(e) => handleInputChange('unitsRequired', Number(e.target.value))}
+                    >
+                      {Array.from({ length: MAX_UNITS_PER_REQUEST }, (_, index) => index + 1).map(units => (
+                        <option key={units} value={units}>{units}</option>
+                      ))}
+                    </select>
+                    <p className="form-hint">{t('units_required_hint')}</p>
+                  </div>
+
                   <div className="form-group full-width">
                     <label>{t('patient_condition')} ({t('optional')})</label>
                     <textarea
@@ -445,6 +519,78 @@ const EmergencyBloodRequest: React.FC = () => {
             </motion.div>
           )}
 
+          {/* Step 4b: Queued while offline */}
+          {step === 'queued' && (
+            <motion.div
+              key="queued"
+              className="queued-container"
+              variants={containerVariants}
+              initial="initial"
+              animate="animate"
+              exit="exit"
+            >
+              <div className="queued-content">
+                <h2>{t('request_queued')}</h2>
+                <p>{t('request_queued_description')}</p>
+
+                <div className="queue-status">
+                  <p>
+                    <strong>{t('connection')}:</strong>{' '}
+                    <span className={isOnline ? 'status-online' : 'status-offline'}>
+                      {isOnline ? t('online') : t('offline')}
+                    </span>
+                  </p>
+                  {queuedEntry && (
+                    <>
+                      <p><strong>{t('queue_status')}:</strong> {t(`queue_status_${queuedEntry.status}`)}</p>
+                      <p><strong>{t('send_attempts')}:</strong> {queuedEntry.attempts}</p>
+                      {queuedEntry.status === 'queued' && queuedEntry.attempts > 0 && (
+                        <p>
+                          <strong>{t('next_attempt')}:</strong>{' '}
+                          {new Date(queuedEntry.nextAttemptAt).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </>
+                  )}
+                  {pendingCount > 1 && (
+                    <p>{t('queued_requests_count', { count: pendingCount })}</p>
+                  )}
+                </div>
+
+                {queuedEntry?.status === 'failed' && (
+                  <div className="submit-error">
+                    {queuedEntry.lastError || t('request_error')}
+                  </div>
+                )}
+
+                <div className="form-actions">
+                  {queuedEntry?.status === 'failed' ? (
+                    <motion.button
+                      className="back-button"
+                      onClick={() => setStep('confirm')}
+                      variants={buttonVariants}
+                      whileHover="hover"
+                      whileTap="tap"
+                    >
+                      {t('back')}
+                    </motion.button>
+                  ) : (
+                    <motion.button
+                      className="retry-button"
+                      onClick={() => flush({ force: true })}
+                      disabled={!isOnline}
+                      variants={buttonVariants}
+                      whileHover="hover"
+                      whileTap="tap"
+                    >
+                      {t('send_now')}
+                    </motion.button>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          )}
+
           {/* Step 5: Success */}
           {step === 'success' && (
             <motion.div
@@ -473,6 +619,14 @@ const EmergencyBloodRequest: React.FC = () => {
                   <p><strong>{t('estimated_response')}:</strong> 15-30 {t('minutes')}</p>
                 </div>
 
+                {/* Queued requests only have a local ID until the server confirms them */}
+                {/^[a-f\d]{24}$/i.test(requestId) && (
+                  <div className="track-hint">
+                    <p>{t('track_pin_sent')}</p>
+                    <Link to={`/track/${requestId}`}>{t('track_request')}</Link>
+                  </div>
+                )}
+
                 <motion.button
                   className="new-request-button"
                   onClick={() => {
@@ -482,6 +636,8 @@ const EmergencyBloodRequest: React.FC = () => {
                       requesterPhone: '',
                       bloodType: 'O+',
                       urgency: 'normal',
+                      donationType: 'whole_blood',
+                      unitsRequired: 1,
                       patientCondition: '',
                       location: null
                     });
@@ -1,15 +1,927 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { AuthService, type AuthSession } from '../services/AuthService';
+import { BloodRequestService } from '../services/BloodRequestService';
+import {
+  BLOOD_TYPES,
+  HospitalService,
+  type BloodType,
+  type DashboardData,
+  type DashboardRequest,
+  type RecordedDonation,
+  type RequestDonor,
+  type StockAlert,
+  type StockSettings,
+  type Urgency,
+  type VerificationInfo
+} from '../services/HospitalService';
+import type { VerificationDocument } from '../services/AdminService';
+import type { DonationType } from '../services/DonorService';
+import { useRealtimeSocket } from '../hooks/useRealtimeSocket';
+import { RequestHeatmap } from '../components/RequestHeatmap';
+import { DonorScanner } from '../components/DonorScanner';
+import { InventoryPanel } from '../components/InventoryPanel';
+import { StockAlertSettings } from '../components/StockAlertSettings';
+import { TransferPanel, type TransferNeed } from '../components/TransferPanel';
+import type { TransferStatus } from '../services/TransferService';
+import { LoadingSpinner } from '../components/LoadingSpinner';
 import './HospitalDashboard.css';
 
+interface NewRequestEvent {
+  requestId: string;
+  requesterName: string;
+  requesterPhone?: string;
+  bloodType: BloodType;
+  urgency?: Urgency;
+  donationType?: DonationType;
+  patientCondition?: string;
+  unitsRequired?: number;
+  unitsFulfilled?: number;
+  location: { lat: number; lng: number };
+  createdAt: string;
+  expiresAt?: string;
+}
+
+// Another outreach wave went out for a request this hospital accepted
+interface RequestEscalatedEvent {
+  requestId: string;
+  bloodType: BloodType;
+  wave: number;
+  radiusKm: number;
+  donorsContacted: number;
+  hospitalsAlerted: number;
+}
+
+// The requester cancelled, extended or corrected a request shown here, or its last unit was provided
+interface RequestUpdatedEvent {
+  requestId: string;
+  action: 'cancelled' | 'extended' | 'edited' | 'fulfilled';
+  changes: Partial<Pick<DashboardRequest, 'requesterName' | 'bloodType' | 'urgency' | 'donationType' | 'patientCondition' | 'unitsRequired'>>;
+  status: 'pending' | 'accepted' | 'completed' | 'cancelled';
+  bloodType: BloodType;
+  urgency: Urgency;
+  donationType: DonationType;
+  patientCondition?: string;
+  unitsRequired: number;
+  unitsFulfilled: number;
+  expiresAt: string;
+}
+
+// A hospital provided units from stock, or a donor gave, towards a request
+interface RequestFulfilmentEvent {
+  requestId: string;
+  bloodType: BloodType;
+  hospitalId: string;
+  source: 'stock' | 'donation';
+  units: number;
+  unitsRequired: number;
+  unitsFulfilled: number;
+  status: 'pending' | 'accepted' | 'completed';
+}
+
+interface ActivityItem {
+  id: number;
+  text: string;
+  at: number;
+}
+
+const URGENCY_RANK: Record<Urgency, number> = { critical: 0, urgent: 1, normal: 2 };
+
+// Requests broadcast without an expiry fall back to the server default
+const DEFAULT_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const STOCK_STEPS = [1, 5, 10];
+
+const HEATMAP_WIDTH = 640;
+const HEATMAP_HEIGHT = 400;
+
+const totalStock = (bloodStock: Record<BloodType, number>): number =>
+  Object.values(bloodStock).reduce((total, count) => total + count, 0);
+
+// Units to offer from stock for a request: whatever it still needs
+const unitsStillNeeded = (request: DashboardRequest): number => Math.max(0, request.unitsRequired - request.unitsFulfilled);
+
+const sortRequests = (requests: DashboardRequest[]): DashboardRequest[] => {
+  return [...requests].sort((a, b) =>
+    URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency] ||
+    new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime()
+  );
+};
+
+const VerificationPanel: React.FC<{ onVerified: () => void }> = ({ onVerified }) => {
+  const { t } = useTranslation();
+  const [info, setInfo] = useState<VerificationInfo | null>(null);
+  const [kind, setKind] = useState<VerificationDocument['kind']>('license');
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+
+  const load = useCallback(async () => {
+    const result = await HospitalService.getVerification();
+    if (result.success && result.data) {
+      if (result.data.verified) onVerified();
+      else setInfo(result.data);
+    } else {
+      setError(result.error || t('error'));
+    }
+  }, [onVerified, t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleUpload = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    setIsUploading(true);
+    setError('');
+    const result = await HospitalService.uploadDocument(file, kind);
+    setIsUploading(false);
+
+    if (result.success) {
+      setFile(null);
+      (event.target as HTMLFormElement).reset();
+      await load();
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  if (!info) {
+    return error
+      ? <div className="hospital-error" role="alert">{error}</div>
+      : <LoadingSpinner size="medium" text={t('loading')} />;
+  }
+
+  return (
+    <section className="hospital-card hospital-verification">
+      <h2>{t('hospital_verification_title')}</h2>
+      <p>
+        {info.verificationStatus === 'rejected'
+          ? t('hospital_verification_rejected')
+          : t('hospital_verification_pending')}
+      </p>
+      {info.verificationReason && (
+        <p className="hospital-verification-reason">{info.verificationReason}</p>
+      )}
+
+      <h3>{t('admin_documents')}</h3>
+      {info.documents.length === 0 ? (
+        <p className="hospital-empty">{t('admin_no_documents')}</p>
+      ) : (
+        <ul className="hospital-documents">
+          {info.documents.map(doc => (
+            <li key={doc.id}>
+              <span>{doc.originalName || doc.kind}</span>
+              <span>{doc.kind} · {new Date(doc.uploadDate).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="hospital-upload" onSubmit={handleUpload}>
+        <select value={kind} onChange={(e) => setKind(e.target.value as VerificationDocument['kind'])}>
+          <option value="license">{t('hospital_document_license')}</option>
+          <option value="registration">{t('hospital_document_registration')}</option>
+          <option value="other">{t('hospital_document_other')}</option>
+        </select>
+        <input
+          type="file"
+          accept="application/pdf,image/jpeg,image/png"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          required
+        />
+        <button type="submit" className="hospital-button primary" disabled={!file || isUploading}>
+          {isUploading ? t('loading') : t('hospital_upload_document')}
+        </button>
+      </form>
+      {error && <div className="hospital-error" role="alert">{error}</div>}
+    </section>
+  );
+};
+
 const HospitalDashboard: React.FC = () => {
+  const { t } = useTranslation();
+
+  const [session, setSession] = useState<AuthSession | null>(() => AuthService.getSession('hospital'));
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loginError, setLoginError] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [isVerified, setIsVerified] = useState(() => Boolean(AuthService.getSession('hospital')?.user.verified));
+
+  const [dashboard, setDashboard] = useState<DashboardData | null>(null);
+  const [requests, setRequests] = useState<DashboardRequest[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [busyRequestId, setBusyRequestId] = useState<string | null>(null);
+  // Units picked to provide from stock, per request
+  const [supplyUnits, setSupplyUnits] = useState<Record<string, number>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  const [stockStep, setStockStep] = useState(STOCK_STEPS[0]);
+  const [stockBusy, setStockBusy] = useState<BloodType | null>(null);
+  const [inventoryVersion, setInventoryVersion] = useState(0);
+  const [transferVersion, setTransferVersion] = useState(0);
+  const [transferNeed, setTransferNeed] = useState<TransferNeed | null>(null);
+
+  const canView = isVerified && Boolean(session);
+  const canAccept = HospitalService.hasPermission('requests:accept');
+  const canUpdate = HospitalService.hasPermission('requests:update');
+  const canEditStock = HospitalService.hasPermission('bloodstock:update');
+  const canEditSettings = HospitalService.hasPermission('settings:update');
+
+  const addActivity = useCallback((text: string) => {
+    setActivity(previous => [{ id: Date.now() + Math.random(), text, at: Date.now() }, ...previous].slice(0, 8));
+  }, []);
+
+  const applyBloodStock = useCallback((bloodStock: Record<BloodType, number>) => {
+    setDashboard(previous => previous && {
+      ...previous,
+      hospital: { ...previous.hospital, bloodStock, totalBloodStock: totalStock(bloodStock) }
+    });
+  }, []);
+
+  // Donors who backed out drop off the request; everyone else is added or updated
+  const applyDonorUpdate = useCallback((donor: RequestDonor) => {
+    setRequests(previous => previous.map(request => {
+      if (request.id !== donor.requestId) return request;
+      const others = request.donors.filter(item => item.donorId !== donor.donorId);
+      return {
+        ...request,
+        donors: ['pending', 'declined'].includes(donor.response) ? others : [...others, donor]
+      };
+    }));
+  }, []);
+
+  const loadDashboard = useCallback(async () => {
+    const result = await HospitalService.getDashboard();
+    if (result.success && result.data) {
+      setDashboard(result.data);
+      // Requests another hospital has taken need nothing from us, unless they are large enough to share
+      setRequests(result.data.requests.active.filter(request =>
+        request.status === 'pending' || request.acceptedByMe || request.openToHospitals
+      ));
+      setLoadError('');
+    } else {
+      setLoadError(result.error || t('error'));
+    }
+
+    // A failed refresh clears the stored session
+    setSession(AuthService.getSession('hospital'));
+    setNow(Date.now());
+  }, [t]);
+
+  useEffect(() => {
+    if (!canView) return;
+
+    loadDashboard();
+    const interval = setInterval(loadDashboard, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [canView, loadDashboard]);
+
+  const socketHandlers = useMemo(() => ({
+    new_request: (event: NewRequestEvent) => {
+      setRequests(previous => {
+        if (previous.some(request => request.id === event.requestId)) return previous;
+        return [...previous, {
+          id: event.requestId,
+          requesterName: event.requesterName,
+          requesterPhone: event.requesterPhone,
+          bloodType: event.bloodType,
+          urgency: event.urgency || 'normal',
+          donationType: event.donationType || 'whole_blood',
+          patientCondition: event.patientCondition,
+          status: 'pending',
+          acceptedByMe: false,
+          coordinating: false,
+          openToHospitals: true,
+          unitsRequired: event.unitsRequired || 1,
+          unitsFulfilled: event.unitsFulfilled || 0,
+          location: event.location,
+          createdAt: event.createdAt,
+          expiresAt: event.expiresAt || new Date(new Date(event.createdAt).getTime() + DEFAULT_EXPIRY_MS).toISOString(),
+          matchedDonors: 0,
+          donors: []
+        }];
+      });
+      addActivity(t('hospital_activity_new_request', { bloodType: event.bloodType, name: event.requesterName }));
+    },
+    donor_responded: (event: RequestDonor) => {
+      applyDonorUpdate(event);
+      addActivity(t(`hospital_activity_donor_${event.response}`, {
+        name: event.donorName,
+        bloodType: event.bloodType
+      }));
+    },
+    // Live position from a donor on the way
+    donor_eta_updated: (event: RequestDonor) => {
+      applyDonorUpdate(event);
+    },
+    request_escalated: (event: RequestEscalatedEvent) => {
+      setRequests(previous => previous.map(request =>
+        request.id === event.requestId
+          ? { ...request, matchedDonors: request.matchedDonors + event.donorsContacted }
+          : request
+      ));
+      addActivity(event.hospitalsAlerted > 0
+        ? t('hospital_activity_escalated_hospitals', { bloodType: event.bloodType, count: event.hospitalsAlerted })
+        : t('hospital_activity_escalated_donors', { bloodType: event.bloodType, count: event.donorsContacted, radius: event.radiusKm }));
+    },
+    request_updated: (event: RequestUpdatedEvent) => {
+      if (event.status === 'cancelled' || event.status === 'completed') {
+        setRequests(previous => previous.filter(request => request.id !== event.requestId));
+      } else {
+        setRequests(previous => previous.map(request =>
+          request.id === event.requestId
+            ? {
+                ...request,
+                requesterName: event.changes.requesterName ?? request.requesterName,
+                bloodType: event.bloodType,
+                urgency: event.urgency,
+                donationType: event.donationType,
+                patientCondition: event.patientCondition,
+                unitsRequired: event.unitsRequired,
+                unitsFulfilled: event.unitsFulfilled,
+                expiresAt: event.expiresAt
+              }
+            : request
+        ));
+        // A new blood type or component changes which donors are coming
+        if (event.changes.bloodType || event.changes.donationType) loadDashboard();
+      }
+      addActivity(t(`hospital_activity_request_${event.action}`, { bloodType: event.bloodType }));
+    },
+    request_fulfilment: (event: RequestFulfilmentEvent) => {
+      // Completed requests are removed by the request_updated that follows
+      setRequests(previous => previous.map(request =>
+        request.id === event.requestId
+          ? {
+              ...request,
+              unitsRequired: event.unitsRequired,
+              unitsFulfilled: event.unitsFulfilled,
+              openToHospitals: request.openToHospitals && event.unitsFulfilled < event.unitsRequired
+            }
+          : request
+      ));
+      addActivity(t(`hospital_activity_units_${event.source}`, {
+        count: event.units,
+        bloodType: event.bloodType,
+        fulfilled: event.unitsFulfilled,
+        required: event.unitsRequired
+      }));
+    },
+    request_expired: (event: { requestId: string }) => {
+      setRequests(previous => previous.filter(request => request.id !== event.requestId));
+      addActivity(t('hospital_activity_expired'));
+    },
+    // Expired units were discarded by the server
+    inventory_updated: (event: { bloodStock: Record<BloodType, number> }) => {
+      applyBloodStock(event.bloodStock);
+      setInventoryVersion(version => version + 1);
+      addActivity(t('hospital_activity_units_expired'));
+    },
+    stock_alert: (event: StockAlert) => {
+      event.lowStock.forEach(({ bloodType, current, driveRequestId }) => {
+        addActivity(t(driveRequestId ? 'hospital_activity_low_stock_drive' : 'hospital_activity_low_stock', { bloodType, count: current }));
+      });
+      if (event.expiring.length > 0) {
+        addActivity(t('hospital_activity_units_expiring', { count: event.expiring.length }));
+      }
+      // Drives show up as requests and the expiring count changes
+      loadDashboard();
+    },
+    transfer_updated: (event: { transferId: string; status: TransferStatus; bloodStock?: Record<BloodType, number> }) => {
+      if (event.bloodStock) {
+        applyBloodStock(event.bloodStock);
+        setInventoryVersion(version => version + 1);
+      }
+      setTransferVersion(version => version + 1);
+      addActivity(t(`hospital_activity_transfer_${event.status}`));
+    }
+  }), [addActivity, applyBloodStock, applyDonorUpdate, loadDashboard, t]);
+
+  const { isConnected } = useRealtimeSocket('hospital', socketHandlers, canView);
+
+  // Catch up on anything missed while the socket was down
+  useEffect(() => {
+    if (isConnected) loadDashboard();
+  }, [isConnected, loadDashboard]);
+
+  const sortedRequests = useMemo(() => sortRequests(requests), [requests]);
+
+  const lowStockTypes = useMemo(() => {
+    if (!dashboard) return [];
+    const { bloodStock, stockSettings } = dashboard.hospital;
+    return BLOOD_TYPES.filter(bloodType => {
+      const threshold = stockSettings.stockThresholds[bloodType] ?? 0;
+      return threshold > 0 && (bloodStock[bloodType] ?? 0) < threshold;
+    });
+  }, [dashboard]);
+
+  const acceptedRequests = useMemo(() => sortedRequests.filter(request => request.acceptedByMe), [sortedRequests]);
+
+  const heatmapPoints = useMemo(() => sortedRequests.map(request => ({
+    id: request.id,
+    lat: request.location.lat,
+    lng: request.location.lng,
+    urgency: request.urgency,
+    timestamp: new Date(request.createdAt).getTime(),
+    requesterName: request.requesterName,
+    bloodType: request.bloodType
+  })), [sortedRequests]);
+
+  const handleLogin = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsLoggingIn(true);
+    setLoginError('');
+
+    const result = await AuthService.loginHospital(email, password);
+    setIsLoggingIn(false);
+
+    if (result.success && result.data) {
+      setSession(result.data);
+      setIsVerified(Boolean(result.data.user.verified));
+      setPassword('');
+    } else {
+      setLoginError(result.error || t('error'));
+    }
+  };
+
+  const handleLogout = async () => {
+    await AuthService.logout('hospital');
+    setSession(null);
+    setDashboard(null);
+    setRequests([]);
+    setActivity([]);
+  };
+
+  const handleVerified = useCallback(() => setIsVerified(true), []);
+
+  const acceptRequest = async (request: DashboardRequest) => {
+    setBusyRequestId(request.id);
+    setActionError('');
+    const result = await BloodRequestService.acceptRequest(request.id);
+    setBusyRequestId(null);
+
+    if (!result.success) {
+      setActionError(result.error || t('error'));
+      return;
+    }
+
+    setRequests(previous => previous.map(item =>
+      item.id === request.id
+        ? { ...item, status: 'accepted', acceptedByMe: true, coordinating: item.status === 'pending' }
+        : item
+    ));
+  };
+
+  const cancelRequest = async (request: DashboardRequest) => {
+    if (!window.confirm(t('hospital_confirm_cancel'))) return;
+
+    setBusyRequestId(request.id);
+    setActionError('');
+    const result = await BloodRequestService.updateRequestStatus(request.id, 'cancelled');
+    setBusyRequestId(null);
+
+    if (!result.success) {
+      setActionError(result.error || t('error'));
+      return;
+    }
+
+    setRequests(previous => previous.filter(item => item.id !== request.id));
+    loadDashboard();
+  };
+
+  // The request completes itself once the last unit it needs is provided
+  const provideUnits = async (request: DashboardRequest) => {
+    const units = Math.min(supplyUnits[request.id] ?? unitsStillNeeded(request), unitsStillNeeded(request));
+
+    setBusyRequestId(request.id);
+    setActionError('');
+    const result = await BloodRequestService.fulfilRequest(request.id, units);
+    setBusyRequestId(null);
+
+    if (!result.success || !result.data) {
+      setActionError(result.error || t('error'));
+      return;
+    }
+
+    const { status, unitsRequired, unitsFulfilled } = result.data;
+    setRequests(previous => status === 'completed'
+      ? previous.filter(item => item.id !== request.id)
+      : previous.map(item => item.id === request.id ? { ...item, unitsRequired, unitsFulfilled } : item));
+    setInventoryVersion(version => version + 1);
+    // Stock went down, and completed requests show up in the hospital's statistics
+    loadDashboard();
+  };
+
+  const updateDonor = async (donor: RequestDonor, response: 'arrived' | 'no_show') => {
+    setBusyRequestId(donor.requestId);
+    setActionError('');
+    const result = await BloodRequestService.updateDonorResponse(donor.requestId, donor.donorId, response);
+    setBusyRequestId(null);
+
+    if (!result.success) {
+      setActionError(result.error || t('error'));
+      return;
+    }
+
+    applyDonorUpdate({ ...donor, response, etaMinutes: null, location: null });
+  };
+
+  const changeStock = async (bloodType: BloodType, change: number) => {
+    if (!dashboard) return;
+
+    setStockBusy(bloodType);
+    setActionError('');
+    const result = await HospitalService.updateBloodStock(dashboard.hospital.id, bloodType, change);
+    setStockBusy(null);
+
+    if (result.success && result.data) {
+      const { currentStock, totalStock } = result.data;
+      setDashboard(previous => previous && {
+        ...previous,
+        hospital: {
+          ...previous.hospital,
+          bloodStock: { ...previous.hospital.bloodStock, [bloodType]: currentStock },
+          totalBloodStock: totalStock
+        }
+      });
+      setInventoryVersion(version => version + 1);
+    } else {
+      setActionError(result.error || t('error'));
+    }
+  };
+
+  const handleTransferStock = useCallback((bloodStock: Record<BloodType, number>) => {
+    applyBloodStock(bloodStock);
+    setInventoryVersion(version => version + 1);
+  }, [applyBloodStock]);
+
+  const findTransfer = (request: DashboardRequest) => {
+    setTransferNeed({ bloodType: request.bloodType, donationType: request.donationType, units: Math.max(1, unitsStillNeeded(request)), requestId: request.id });
+    document.getElementById('hospital-transfers')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleSettingsSaved = (stockSettings: StockSettings) => {
+    setDashboard(previous => previous && { ...previous, hospital: { ...previous.hospital, stockSettings } });
+  };
+
+  const handleDonationRecorded = (donation: RecordedDonation) => {
+    setDashboard(previous => previous && {
+      ...previous,
+      hospital: {
+        ...previous.hospital,
+        bloodStock: { ...previous.hospital.bloodStock, [donation.bloodType]: donation.currentStock },
+        totalBloodStock: donation.totalStock
+      }
+    });
+    setInventoryVersion(version => version + 1);
+    addActivity(t('hospital_activity_donation', { name: donation.donor.name, bloodType: donation.bloodType }));
+  };
+
+  const selectRequest = (requestId: string) => {
+    setSelectedId(requestId);
+    document.getElementById(`hospital-request-${requestId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  if (!session) {
+    return (
+      <div className="hospital-dashboard hospital-login">
+        <form className="hospital-card" onSubmit={handleLogin}>
+          <h1>{t('hospital')}</h1>
+          <label htmlFor="hospital-email">{t('staff_email')}</label>
+          <input
+            id="hospital-email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+          <label htmlFor="hospital-password">{t('staff_password')}</label>
+          <input
+            id="hospital-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          {loginError && <div className="hospital-error" role="alert">{loginError}</div>}
+          <button type="submit" className="hospital-button primary" disabled={isLoggingIn}>
+            {isLoggingIn ? t('loading') : t('admin_log_in')}
+          </button>
+          <Link to="/staff/reset-password" className="hospital-link">{t('hospital_forgot_password')}</Link>
+        </form>
+      </div>
+    );
+  }
+
+  const staff = session.user.staff as { name: string } | null | undefined;
+
   return (
     <div className="hospital-dashboard">
-      <div className="container">
-        <h1>Hospital Dashboard</h1>
-        <p>This page is under construction. It will include real-time blood request monitoring and map integration.</p>
-      </div>
+      <header className="hospital-header">
+        <div>
+          <h1>{dashboard?.hospital.name || session.user.name}</h1>
+          {canView && (
+            <span className={`hospital-connection ${isConnected ? 'online' : 'offline'}`}>
+              {isConnected ? t('hospital_live') : t('hospital_reconnecting')}
+            </span>
+          )}
+        </div>
+        <div className="hospital-user">
+          <span>{staff?.name || session.user.name}</span>
+          <button className="hospital-button" onClick={handleLogout}>{t('admin_log_out')}</button>
+        </div>
+      </header>
+
+      {!isVerified ? (
+        <VerificationPanel onVerified={handleVerified} />
+      ) : !dashboard ? (
+        loadError
+          ? <div className="hospital-error" role="alert">{loadError}</div>
+          : <LoadingSpinner size="medium" text={t('loading')} />
+      ) : (
+        <>
+          <section className="hospital-stats">
+            <div className="hospital-stat">
+              <strong>{sortedRequests.length}</strong>
+              <span>{t('hospital_active_requests')}</span>
+            </div>
+            <div className="hospital-stat critical">
+              <strong>{sortedRequests.filter(request => request.urgency === 'critical').length}</strong>
+              <span>{t('critical')}</span>
+            </div>
+            <div className="hospital-stat">
+              <strong>{dashboard.donors.totalAvailable}</strong>
+              <span>{t('hospital_available_donors')}</span>
+            </div>
+            <div className="hospital-stat">
+              <strong>{dashboard.hospital.totalBloodStock}</strong>
+              <span>{t('hospital_units_in_stock')}</span>
+            </div>
+          </section>
+
+          {(lowStockTypes.length > 0 || dashboard.hospital.expiringUnits > 0) && (
+            <div className="hospital-stock-alert" role="status">
+              {lowStockTypes.length > 0 && <span>{t('hospital_low_stock', { types: lowStockTypes.join(', ') })}</span>}
+              {dashboard.hospital.expiringUnits > 0 && (
+                <span>
+                  {t('hospital_units_expiring', {
+                    count: dashboard.hospital.expiringUnits,
+                    days: dashboard.hospital.stockSettings.expiryAlertDays
+                  })}
+                </span>
+              )}
+            </div>
+          )}
+
+          {loadError && <div className="hospital-error" role="alert">{loadError}</div>}
+          {actionError && <div className="hospital-error" role="alert">{actionError}</div>}
+
+          <main className="hospital-body">
+            <section className="hospital-card hospital-requests">
+              <h2>{t('hospital_active_requests')}</h2>
+              {sortedRequests.length === 0 && <p className="hospital-empty">{t('hospital_no_requests')}</p>}
+              <ul>
+                {sortedRequests.map(request => {
+                  const remaining = new Date(request.expiresAt).getTime() - now;
+                  const busy = busyRequestId === request.id;
+
+                  return (
+                    <li
+                      key={request.id}
+                      id={`hospital-request-${request.id}`}
+                      className={`hospital-request ${request.urgency} ${selectedId === request.id ? 'selected' : ''}`}
+                      onClick={() => setSelectedId(request.id)}
+                    >
+                      <div className="hospital-request-main">
+                        <span className="hospital-blood-type">{request.bloodType}</span>
+                        <div>
+                          <strong>{request.requesterName}</strong>
+                          <span className={`hospital-urgency ${request.urgency}`}>{t(request.urgency)}</span>
+                          {request.donationType !== 'whole_blood' && (
+                            <span className="hospital-donation-type">{t(`donation_type_${request.donationType}`)}</span>
+                          )}
+                          {request.patientCondition && <p>{request.patientCondition}</p>}
+                          {request.acceptedByMe && request.requesterPhone && (
+                            <a href={`tel:${request.requesterPhone}`}>{request.requesterPhone}</a>
+                          )}
+                        </div>
+                      </div>
+                      <div className="hospital-request-meta">
+                        <span className={remaining < 60 * 60 * 1000 ? 'expiring' : ''}>
+                          {BloodRequestService.formatTimeRemaining(request.expiresAt)}
+                        </span>
+                        <span>{t('hospital_donors_matched', { count: request.matchedDonors })}</span>
+                      </div>
+                      {request.unitsRequired > 1 && (
+                        <div className="hospital-request-units">
+                          <span>{t('hospital_units_progress', { fulfilled: request.unitsFulfilled, required: request.unitsRequired })}</span>
+                          <progress value={request.unitsFulfilled} max={request.unitsRequired} />
+                        </div>
+                      )}
+                      {request.donors.length > 0 && (
+                        <ul className="hospital-request-donors">
+                          {request.donors.map(donor => (
+                            <li key={donor.donorId} className={donor.response}>
+                              <span>
+                                <strong>{donor.donorName}</strong> {donor.bloodType}
+                              </span>
+                              <span className="hospital-donor-status">
+                                {t(`donor_response_${donor.response}`)}
+                                {donor.response === 'en_route' && donor.etaMinutes !== null && (
+                                  <> · {t('hospital_donor_eta', { minutes: donor.etaMinutes })}</>
+                                )}
+                              </span>
+                              {canUpdate && ['accepted', 'en_route', 'arrived'].includes(donor.response) && (
+                                <span className="hospital-request-actions">
+                                  {donor.response !== 'arrived' && (
+                                    <button className="hospital-button" disabled={busy} onClick={() => updateDonor(donor, 'arrived')}>
+                                      {t('hospital_donor_arrived')}
+                                    </button>
+                                  )}
+                                  <button className="hospital-button" disabled={busy} onClick={() => updateDonor(donor, 'no_show')}>
+                                    {t('hospital_donor_no_show')}
+                                  </button>
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="hospital-request-actions">
+                        {!request.acceptedByMe && (request.status === 'pending' || request.openToHospitals) && canAccept && (
+                          <button className="hospital-button primary" disabled={busy} onClick={() => acceptRequest(request)}>
+                            {request.status === 'pending' ? t('hospital_accept') : t('hospital_share_request')}
+                          </button>
+                        )}
+                        {request.acceptedByMe && canUpdate && (
+                          <>
+                            {request.source !== 'drive' && request.inStock === false && canEditStock && (
+                              <button className="hospital-button" disabled={busy} onClick={() => findTransfer(request)}>
+                                {t('hospital_find_transfer')}
+                              </button>
+                            )}
+                            {request.source !== 'drive' && unitsStillNeeded(request) > 1 && (
+                              <select
+                                aria-label={t('hospital_units_to_provide')}
+                                value={Math.min(supplyUnits[request.id] ?? unitsStillNeeded(request), unitsStillNeeded(request))}
+                                onChange={(e) => setSupplyUnits(previous => ({ ...previous, [request.id]: Number(e.target.value) }))}
+                              >
+                                {Array.from({ length: unitsStillNeeded(request) }, (_, index) => index + 1).map(units => (
+                                  <option key={units} value={units}>{units}</option>
+                                ))}
+                              </select>
+                            )}
+                            {request.source !== 'drive' && (
+                              <button className="hospital-button success" disabled={busy} onClick={() => provideUnits(request)}>
+                                {t('hospital_provide_units')}
+                              </button>
+                            )}
+                            {request.coordinating && (
+                              <button className="hospital-button" disabled={busy} onClick={() => cancelRequest(request)}>
+                                {t('cancel')}
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+
+            <section className="hospital-card hospital-map">
+              <h2>{t('hospital_request_map')}</h2>
+              <RequestHeatmap
+                requests={heatmapPoints}
+                center={dashboard.hospital.location}
+                // Metres per pixel so the whole service radius fits
+                zoom={(dashboard.hospital.serviceRadius * 2000) / HEATMAP_HEIGHT}
+                width={HEATMAP_WIDTH}
+                height={HEATMAP_HEIGHT}
+                onRequestClick={(point) => selectRequest(point.id)}
+              />
+            </section>
+
+            <section className="hospital-card hospital-stock">
+              <div className="hospital-stock-header">
+                <h2>{t('hospital_blood_stock')}</h2>
+                {canEditStock && (
+                  <label>
+                    {t('hospital_stock_step')}
+                    <select value={stockStep} onChange={(e) => setStockStep(Number(e.target.value))}>
+                      {STOCK_STEPS.map(step => <option key={step} value={step}>{step}</option>)}
+                    </select>
+                  </label>
+                )}
+              </div>
+              <div className="hospital-stock-grid">
+                {BLOOD_TYPES.map(bloodType => (
+                  <div key={bloodType} className={`hospital-stock-item ${lowStockTypes.includes(bloodType) ? 'low' : ''}`}>
+                    <span className="hospital-blood-type">{bloodType}</span>
+                    <strong>{dashboard.hospital.bloodStock[bloodType] ?? 0}</strong>
+                    {(dashboard.hospital.stockSettings.stockThresholds[bloodType] ?? 0) > 0 && (
+                      <small>{t('hospital_stock_minimum', { count: dashboard.hospital.stockSettings.stockThresholds[bloodType] })}</small>
+                    )}
+                    <small>{t('hospital_donors_nearby', { count: dashboard.donors.availableByType[bloodType]?.count ?? 0 })}</small>
+                    {canEditStock && (
+                      <div className="hospital-stock-buttons">
+                        <button
+                          className="hospital-button"
+                          aria-label={t('hospital_remove_units', { count: stockStep, bloodType })}
+                          disabled={stockBusy === bloodType || (dashboard.hospital.bloodStock[bloodType] ?? 0) < stockStep}
+                          onClick={() => changeStock(bloodType, -stockStep)}
+                        >
+                          −
+                        </button>
+                        <button
+                          className="hospital-button"
+                          aria-label={t('hospital_add_units', { count: stockStep, bloodType })}
+                          disabled={stockBusy === bloodType}
+                          onClick={() => changeStock(bloodType, stockStep)}
+                        >
+                          +
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="hospital-card hospital-activity">
+              <h2>{t('hospital_live_activity')}</h2>
+              {activity.length === 0 ? (
+                <p className="hospital-empty">{t('hospital_no_activity')}</p>
+              ) : (
+                <ul>
+                  {activity.map(item => (
+                    <li key={item.id}>
+                      <span>{item.text}</span>
+                      <time>{new Date(item.at).toLocaleTimeString()}</time>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {canEditSettings && (
+              <section className="hospital-card hospital-stock-alerts">
+                <h2>{t('stock_alerts_title')}</h2>
+                <StockAlertSettings
+                  hospitalId={dashboard.hospital.id}
+                  settings={dashboard.hospital.stockSettings}
+                  onSaved={handleSettingsSaved}
+                />
+              </section>
+            )}
+
+            <section id="hospital-transfers" className="hospital-card hospital-transfers">
+              <h2>{t('transfer_title')}</h2>
+              <TransferPanel
+                canEdit={canEditStock}
+                need={transferNeed}
+                version={transferVersion}
+                onStockChanged={handleTransferStock}
+              />
+            </section>
+
+            <section className="hospital-card hospital-inventory">
+              <h2>{t('inventory_title')}</h2>
+              <InventoryPanel
+                hospitalId={dashboard.hospital.id}
+                canEdit={canEditStock}
+                version={inventoryVersion}
+                onStockChanged={applyBloodStock}
+              />
+            </section>
+
+            <section className="hospital-card hospital-scanner">
+              <h2>{t('scanner_title')}</h2>
+              <DonorScanner
+                hospitalId={dashboard.hospital.id}
+                canRecord={canEditStock}
+                requests={acceptedRequests}
+                onDonationRecorded={handleDonationRecorded}
+              />
+            </section>
+          </main>
+        </>
+      )}
     </div>
   );
 };
 
-export default HospitalDashboard;
\ No newline at end of file
+export default HospitalDashboard;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { AuthService } from '../services/AuthService';
+import './StaffAccount.css';
+
+interface StaffAccountProps {
+  mode: 'invite' | 'reset';
+}
+
+// Landing page for the links in staff invitation and password reset emails
+const StaffAccount: React.FC<StaffAccountProps> = ({ mode }) => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [doneMessage, setDoneMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Without a token the reset page asks for an email to send the link to
+  const requestingLink = mode === 'reset' && !token;
+
+  const title = mode === 'invite' ? t('staff_accept_invite') : t('staff_reset_password');
+  const description = mode === 'invite'
+    ? t('staff_accept_invite_description')
+    : requestingLink ? t('staff_forgot_password_description') : t('staff_reset_password_description');
+
+  const validate = (): string => {
+    if (requestingLink) {
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? '' : t('staff_email_invalid');
+    }
+    if (password.length < 8) return t('staff_password_too_short');
+    if (password !== confirmPassword) return t('staff_passwords_do_not_match');
+    return '';
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validationError = validate();
+    setError(validationError);
+    if (validationError) return;
+
+    setIsSubmitting(true);
+
+    const result = requestingLink
+      ? await AuthService.requestStaffPasswordReset(email)
+      : mode === 'invite'
+        ? await AuthService.acceptStaffInvite(token, password)
+        : await AuthService.resetStaffPassword(token, password);
+
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      setError(result.error || t('error'));
+      return;
+    }
+
+    setDoneMessage(
+      requestingLink
+        ? t('staff_reset_link_sent')
+        : mode === 'invite' ? t('staff_account_activated') : t('staff_password_updated')
+    );
+  };
+
+  return (
+    <div className="staff-account">
+      <div className="staff-account-card">
+        <h1>{title}</h1>
+
+        {doneMessage ? (
+          <>
+            <p className="staff-account-done">{doneMessage}</p>
+            {!requestingLink && (
+              <Link to="/hospital-dashboard" className="staff-account-button">
+                {t('staff_go_to_dashboard')}
+              </Link>
+            )}
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} noValidate>
+            <p>{description}</p>
+
+            {requestingLink ? (
+              <div className="form-group">
+                <label htmlFor="staff-email">{t('staff_email')}</label>
+                <input
+                  id="staff-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            ) : (
+              <>
+                <div className="form-group">
+                  <label htmlFor="staff-password">{t('staff_password')}</label>
+                  <input
+                    id="staff-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor="staff-confirm-password">{t('staff_confirm_password')}</label>
+                  <input
+                    id="staff-confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+
+            {error && <div className="error-message" role="alert">{error}</div>}
+
+            <button type="submit" className="staff-account-button" disabled={isSubmitting}>
+              {isSubmitting
+                ? t('loading')
+                : requestingLink
+                  ? t('staff_send_reset_link')
+                  : mode === 'invite' ? t('staff_activate_account') : t('staff_set_password')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StaffAccount;
@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useSpeechSynthesis } from '../hooks/useSpeechSynthesis';
+import { useTrackingSocket } from '../hooks/useTrackingSocket';
+import { BloodRequestService } from '../services/BloodRequestService';
+import { TrackingService, type RequestTracking } from '../services/TrackingService';
+import { LoadingSpinner } from '../components/LoadingSpinner';
+import { RequestManagePanel } from '../components/RequestManagePanel';
+import './TrackRequest.css';
+
+// Keep the time remaining current between updates
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// Public page where a requester follows and manages their request, opened with
+// the PIN texted to them when they raised it, or a one-time code if it was lost
+const TrackRequest: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { speak, supported: voiceSupported } = useSpeechSynthesis();
+  const { requestId = '' } = useParams<{ requestId: string }>();
+
+  const [token, setToken] = useState<string | null>(() => TrackingService.getToken(requestId));
+  const [tracking, setTracking] = useState<RequestTracking | null>(null);
+  const [pin, setPin] = useState('');
+  // Requesters who lost the PIN ask for a one-time code instead
+  const [useCode, setUseCode] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(Boolean(token));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [voiceUpdates, setVoiceUpdates] = useState(false);
+  const [, setTick] = useState(0);
+
+  const lastMilestone = useRef('');
+
+  const describe = useCallback((current: RequestTracking): string => {
+    const parts = [
+      current.status === 'accepted' && current.hospital
+        ? t('track_voice_accepted', { name: current.hospital.name, bloodType: current.bloodType })
+        : t(`track_voice_${current.status}`, { bloodType: current.bloodType })
+    ];
+
+    if (current.status === 'pending' || current.status === 'accepted') {
+      if (current.unitsRequired > 1) {
+        parts.push(t('track_voice_units', { fulfilled: current.unitsFulfilled, required: current.unitsRequired }));
+      }
+      if (current.donorsResponded > 0) parts.push(t('track_voice_donors', { count: current.donorsResponded }));
+      if (current.donorsArrived > 0) parts.push(t('track_voice_arrived', { count: current.donorsArrived }));
+      if (current.etaMinutes !== null) parts.push(t('track_voice_eta', { minutes: current.etaMinutes }));
+    }
+
+    return parts.join(' ');
+  }, [t]);
+
+  const readAloud = useCallback((current: RequestTracking) => {
+    speak(describe(current), { lang: i18n.language === 'hi' ? 'hi-IN' : 'en-US' });
+  }, [describe, i18n.language, speak]);
+
+  // Ask for the PIN again when the token has expired or belongs elsewhere
+  const forgetToken = useCallback((message?: string) => {
+    TrackingService.clearToken(requestId);
+    setToken(null);
+    setTracking(null);
+    if (message) setError(message);
+  }, [requestId]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    TrackingService.getTracking(requestId, token).then(result => {
+      if (cancelled) return;
+      setIsLoading(false);
+
+      if (result.success && result.data) {
+        setTracking(result.data);
+      } else if (result.status === 401 || result.status === 403) {
+        forgetToken(result.error);
+      } else {
+        setError(result.error || t('error'));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, token, forgetToken, t]);
+
+  const { isConnected } = useTrackingSocket(token, setTracking);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick(tick => tick + 1), TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Speak when the request reaches a new milestone, not on every ETA change
+  useEffect(() => {
+    if (!tracking) return;
+
+    const milestone = [
+      tracking.status,
+      tracking.hospital?.name,
+      tracking.unitsFulfilled,
+      tracking.donorsResponded,
+      tracking.donorsOnTheWay,
+      tracking.donorsArrived
+    ].join('|');
+
+    if (voiceUpdates && lastMilestone.current && milestone !== lastMilestone.current) {
+      readAloud(tracking);
+    }
+    lastMilestone.current = milestone;
+  }, [tracking, voiceUpdates, readAloud]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!/^\d{6}$/.test(pin)) {
+      setError(t(useCode ? 'track_code_invalid' : 'track_pin_invalid'));
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    const result = await TrackingService.authenticate(requestId, useCode ? { code: pin } : { pin });
+    setIsSubmitting(false);
+
+    if (result.success && result.data) {
+      setTracking(result.data);
+      setToken(TrackingService.getToken(requestId));
+      setPin('');
+      setUseCode(false);
+      setCodeSent(false);
+    } else if (result.status === 423) {
+      // The PIN is locked after too many wrong guesses; only a texted code works now
+      setUseCode(true);
+      setCodeSent(false);
+      setPin('');
+      setError(result.error || t('error'));
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  const sendCode = async () => {
+    setIsSubmitting(true);
+    setError('');
+    const result = await TrackingService.sendCode(requestId);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      setCodeSent(true);
+      setPin('');
+    } else {
+      setError(result.error || t('error'));
+    }
+  };
+
+  const switchMode = () => {
+    setUseCode(!useCode);
+    setCodeSent(false);
+    setPin('');
+    setError('');
+  };
+
+  const toggleLanguage = () => {
+    i18n.changeLanguage(i18n.language === 'en' ? 'hi' : 'en');
+  };
+
+  const isOpen = tracking && (tracking.status === 'pending' || tracking.status === 'accepted');
+
+  return (
+    <div className="track-request">
+      <button className="track-language" onClick={toggleLanguage}>
+        {i18n.language === 'en' ? 'हिंदी' : 'English'}
+      </button>
+
+      <div className="track-card">
+        <h1>{t('track_title')}</h1>
+
+        {!token || (!tracking && !isLoading) ? (
+          <form onSubmit={handleSubmit} noValidate>
+            {useCode && !codeSent ? (
+              <>
+                <p>{t('track_code_intro')}</p>
+
+                {error && <div className="error-message" role="alert">{error}</div>}
+
+                <button type="button" className="track-button" disabled={isSubmitting} onClick={sendCode}>
+                  {isSubmitting ? t('loading') : t('track_send_code')}
+                </button>
+              </>
+            ) : (
+              <>
+                <p>{t(useCode ? 'track_enter_code' : 'track_enter_pin')}</p>
+                <div className="form-group">
+                  <label htmlFor="track-pin">{t(useCode ? 'track_code' : 'track_pin')}</label>
+                  <input
+                    id="track-pin"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  />
+                </div>
+
+                {error && <div className="error-message" role="alert">{error}</div>}
+
+                <button type="submit" className="track-button" disabled={isSubmitting}>
+                  {isSubmitting ? t('loading') : t('track_view')}
+                </button>
+              </>
+            )}
+
+            <button type="button" className="track-link" onClick={switchMode}>
+              {useCode ? t('track_use_pin') : t('track_lost_pin')}
+            </button>
+          </form>
+        ) : !tracking ? (
+          <LoadingSpinner size="medium" text={t('loading')} />
+        ) : (
+          <>
+            <div className="track-header">
+              <span className="track-blood-type">{tracking.bloodType}</span>
+              <div>
+                <strong className={`track-status ${tracking.status}`}>{t(`track_status_${tracking.status}`)}</strong>
+                <span>{t(`donation_type_${tracking.donationType}`)} · {t(tracking.urgency)}</span>
+              </div>
+              <span className={`track-connection ${isConnected ? 'online' : 'offline'}`}>
+                {isConnected ? t('track_live') : t('track_offline')}
+              </span>
+            </div>
+
+            <section className="track-section">
+              <h2>{t('track_hospital')}</h2>
+              {tracking.hospital ? (
+                <div className="track-hospital">
+                  <strong>{tracking.hospital.name}</strong>
+                  <span>{tracking.hospital.address}</span>
+                  <div className="track-hospital-links">
+                    <a href={`tel:${tracking.hospital.phone}`}>{t('track_call_hospital')}</a>
+                    <a
+                      href={`https://www.google.com/maps/dir/?api=1&destination=${tracking.hospital.location.lat},${tracking.hospital.location.lng}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {t('track_directions')}
+                    </a>
+                  </div>
+                </div>
+              ) : (
+                <p>{t('track_waiting_for_hospital')}</p>
+              )}
+            </section>
+
+            {tracking.unitsRequired > 1 && (
+              <section className="track-section track-units">
+                <h2>{t('track_units')}</h2>
+                <p>{t('track_units_progress', { fulfilled: tracking.unitsFulfilled, required: tracking.unitsRequired })}</p>
+                <progress value={tracking.unitsFulfilled} max={tracking.unitsRequired} />
+                {tracking.hospitalsAccepted > 1 && (
+                  <p>{t('track_hospitals_sharing', { count: tracking.hospitalsAccepted })}</p>
+                )}
+              </section>
+            )}
+
+            <section className="track-stats">
+              <div>
+                <strong>{tracking.donorsContacted}</strong>
+                <span>{t('track_donors_contacted')}</span>
+              </div>
+              <div>
+                <strong>{tracking.donorsResponded}</strong>
+                <span>{t('track_donors_responded')}</span>
+              </div>
+              <div>
+                <strong>{tracking.donorsOnTheWay}</strong>
+                <span>{t('track_donors_on_the_way')}</span>
+              </div>
+              <div>
+                <strong>{tracking.donorsArrived}</strong>
+                <span>{t('track_donors_arrived')}</span>
+              </div>
+            </section>
+
+            {isOpen && (
+              <dl className="track-times">
+                {tracking.etaMinutes !== null && (
+                  <>
+                    <dt>{t('track_eta')}</dt>
+                    <dd>{t('track_eta_minutes', { minutes: tracking.etaMinutes })}</dd>
+                  </>
+                )}
+                <dt>{t('track_time_remaining')}</dt>
+                <dd>{BloodRequestService.formatTimeRemaining(tracking.expiresAt)}</dd>
+              </dl>
+            )}
+
+            {isOpen && token && (
+              <RequestManagePanel
+                tracking={tracking}
+                token={token}
+                onChanged={setTracking}
+                onUnauthorized={forgetToken}
+              />
+            )}
+
+            {voiceSupported && (
+              <div className="track-voice">
+                <button className="track-button" onClick={() => readAloud(tracking)}>
+                  {t('track_read_aloud')}
+                </button>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={voiceUpdates}
+                    onChange={(e) => setVoiceUpdates(e.target.checked)}
+                  />
+                  {t('track_voice_updates')}
+                </label>
+              </div>
+            )}
+
+            <p className="track-reference">{t('request_id')}: {tracking.requestId}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrackRequest;
@@ -0,0 +1,124 @@
+import { AuthService } from './AuthService';
+
+export type VerificationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface HospitalSummary {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  licenseNumber: string;
+  verified: boolean;
+  verificationStatus: VerificationStatus;
+  verificationReason?: string;
+  verificationReviewedAt?: string;
+  documents: number;
+  createdAt: string;
+}
+
+export interface VerificationDocument {
+  id: string;
+  kind: 'license' | 'registration' | 'other';
+  originalName?: string;
+  mimeType?: string;
+  size?: number;
+  uploadDate: string;
+}
+
+export interface HospitalReview extends Omit<HospitalSummary, 'documents'> {
+  location: { lat: number; lng: number };
+  contactPerson?: { name: string; position: string; phone: string };
+  emergencyContact?: { phone: string; email: string };
+  services: string[];
+  specialties: string[];
+  serviceRadius: number;
+  documents: VerificationDocument[];
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  actorType: 'admin' | 'hospital' | 'system';
+  actorName?: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  reason?: string;
+  createdAt: string;
+}
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+export class AdminService {
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<ApiResponse<T>> {
+    try {
+      const response = await AuthService.authorizedFetch('admin', path, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error calling admin API ${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static getHospitals(status: VerificationStatus, search = ''): Promise<ApiResponse<{ hospitals: HospitalSummary[]; total: number }>> {
+    const params = new URLSearchParams({ status });
+    if (search) params.set('search', search);
+    return this.request(`/admin/hospitals?${params}`);
+  }
+
+  static getHospital(hospitalId: string): Promise<ApiResponse<{ hospital: HospitalReview; history: AuditLogEntry[] }>> {
+    return this.request(`/admin/hospitals/${hospitalId}`);
+  }
+
+  static approveHospital(hospitalId: string, reason?: string): Promise<ApiResponse<{ hospital: HospitalSummary }>> {
+    return this.request(`/admin/hospitals/${hospitalId}/approve`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: reason || undefined })
+    });
+  }
+
+  static rejectHospital(hospitalId: string, reason: string): Promise<ApiResponse<{ hospital: HospitalSummary }>> {
+    return this.request(`/admin/hospitals/${hospitalId}/reject`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason })
+    });
+  }
+
+  static getAuditLog(limit = 50): Promise<ApiResponse<{ entries: AuditLogEntry[]; total: number }>> {
+    return this.request(`/admin/audit-log?limit=${limit}`);
+  }
+
+  // Documents need the admin's token, so they are fetched and opened as a blob
+  static async openDocument(hospitalId: string, documentId: string): Promise<boolean> {
+    try {
+      const response = await AuthService.authorizedFetch('admin', `/admin/hospitals/${hospitalId}/documents/${documentId}`);
+      if (!response.ok) return false;
+
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank', 'noopener');
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+      return true;
+    } catch (error) {
+      console.error('Error opening document:', error);
+      return false;
+    }
+  }
+}
+
+export default AdminService;
@@ -0,0 +1,321 @@
+export type AuthRole = 'donor' | 'hospital' | 'admin';
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface AuthSession {
+  token: string;
+  refreshToken: string;
+  expiresAt: number;
+  user: { id: string; name: string; [key: string]: unknown };
+}
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+const REFRESH_PATHS: Record<AuthRole, string> = {
+  donor: '/donors/auth/refresh',
+  hospital: '/hospitals/refresh',
+  admin: '/admin/refresh'
+};
+
+const LOGOUT_PATHS: Record<AuthRole, string> = {
+  donor: '/donors/auth/logout',
+  hospital: '/hospitals/logout',
+  admin: '/admin/logout'
+};
+
+// Refresh this long before the access token actually expires
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+export class AuthService {
+  private static baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+  private static refreshing = new Map<AuthRole, Promise<boolean>>();
+
+  private static storageKey(role: AuthRole): string {
+    return `oneblood.auth.${role}`;
+  }
+
+  static getSession(role: AuthRole): AuthSession | null {
+    try {
+      const stored = localStorage.getItem(this.storageKey(role));
+      return stored ? JSON.parse(stored) as AuthSession : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static isLoggedIn(role: AuthRole): boolean {
+    return this.getSession(role) !== null;
+  }
+
+  static saveSession(role: AuthRole, tokens: AuthTokens, user?: AuthSession['user']): AuthSession | null {
+    const previous = this.getSession(role);
+    const sessionUser = user || previous?.user;
+    if (!sessionUser) return null;
+
+    const session: AuthSession = {
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresAt: Date.now() + tokens.expiresIn * 1000,
+      user: sessionUser
+    };
+
+    localStorage.setItem(this.storageKey(role), JSON.stringify(session));
+    return session;
+  }
+
+  static clearSession(role: AuthRole): void {
+    localStorage.removeItem(this.storageKey(role));
+  }
+
+  // Email/password login; `toUser` picks the account stored with the session
+  private static async loginWithPassword(
+    role: AuthRole,
+    path: string,
+    toUser: (data: Record<string, unknown>) => AuthSession['user'],
+    email: string,
+    password: string
+  ): Promise<ApiResponse<AuthSession>> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Login failed');
+      }
+
+      const session = this.saveSession(role, data.data, toUser(data.data));
+      return { success: true, data: session ?? undefined, message: data.message };
+    } catch (error) {
+      console.error(`Error logging in ${role}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static loginHospital(email: string, password: string): Promise<ApiResponse<AuthSession>> {
+    // Staff logins act for their hospital; keep who is signed in and what they may do
+    return this.loginWithPassword('hospital', '/hospitals/login', data => ({
+      ...(data.hospital as AuthSession['user']),
+      staff: data.staff,
+      role: data.role,
+      permissions: data.permissions
+    }), email, password);
+  }
+
+  static loginAdmin(email: string, password: string): Promise<ApiResponse<AuthSession>> {
+    return this.loginWithPassword('admin', '/admin/login', data => data.admin as AuthSession['user'], email, password);
+  }
+
+  // Donors log in with a one-time code sent to their phone
+  static async requestDonorCode(phone: string): Promise<ApiResponse & { retryAfter?: number }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/donors/auth/request-otp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ phone }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 429) {
+        return { success: false, error: data.error, retryAfter: data.retryAfter };
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send login code');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error requesting donor login code:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static async loginDonor(phone: string, code: string): Promise<ApiResponse<AuthSession>> {
+    try {
+      const response = await fetch(`${this.baseUrl}/donors/auth/verify-otp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ phone, code }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Login failed');
+      }
+
+      const session = this.saveSession('donor', data.data, data.data.donor);
+      return { success: true, data: session ?? undefined, message: data.message };
+    } catch (error) {
+      console.error('Error logging in donor:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Staff invitation and password reset links (POST /api/staff/...)
+  private static async postStaffAccount(path: string, body: Record<string, string>): Promise<ApiResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/staff/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error calling staff/${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static acceptStaffInvite(token: string, password: string): Promise<ApiResponse> {
+    return this.postStaffAccount('accept-invite', { token, password });
+  }
+
+  static requestStaffPasswordReset(email: string): Promise<ApiResponse> {
+    return this.postStaffAccount('forgot-password', { email });
+  }
+
+  static resetStaffPassword(token: string, password: string): Promise<ApiResponse> {
+    return this.postStaffAccount('reset-password', { token, password });
+  }
+
+  static async logout(role: AuthRole): Promise<void> {
+    const session = this.getSession(role);
+    this.clearSession(role);
+    if (!session) return;
+
+    try {
+      await fetch(`${this.baseUrl}${LOGOUT_PATHS[role]}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      });
+    } catch (error) {
+      // The session is already gone locally; the server one expires on its own
+      console.error('Error logging out:', error);
+    }
+  }
+
+  /**
+   * Swap the refresh token for a new pair. Concurrent callers share one request
+   * because each refresh token only works once.
+   */
+  static refresh(role: AuthRole): Promise<boolean> {
+    const pending = this.refreshing.get(role);
+    if (pending) return pending;
+
+    const attempt = (async () => {
+      const session = this.getSession(role);
+      if (!session) return false;
+
+      try {
+        const response = await fetch(`${this.baseUrl}${REFRESH_PATHS[role]}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refreshToken: session.refreshToken }),
+        });
+
+        if (response.status === 401) {
+          this.clearSession(role);
+          return false;
+        }
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to refresh session');
+        }
+
+        this.saveSession(role, data.data);
+        return true;
+      } catch (error) {
+        console.error('Error refreshing session:', error);
+        return false;
+      } finally {
+        this.refreshing.delete(role);
+      }
+    })();
+
+    this.refreshing.set(role, attempt);
+    return attempt;
+  }
+
+  static async getAccessToken(role: AuthRole): Promise<string | null> {
+    const session = this.getSession(role);
+    if (!session) return null;
+
+    if (session.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return session.token;
+    }
+
+    const refreshed = await this.refresh(role);
+    return refreshed ? this.getSession(role)?.token ?? null : null;
+  }
+
+  /**
+   * fetch() against the API with the role's access token, refreshing and
+   * retrying once if the server says the token is no longer valid
+   */
+  static async authorizedFetch(role: AuthRole, path: string, init: RequestInit = {}): Promise<Response> {
+    const send = (token: string | null) => {
+      const headers = new Headers(init.headers);
+      if (token) headers.set('Authorization', `Bearer ${token}`);
+      return fetch(`${this.baseUrl}${path}`, { ...init, headers });
+    };
+
+    const response = await send(await this.getAccessToken(role));
+    if (response.status !== 401 || !this.getSession(role)) {
+      return response;
+    }
+
+    const refreshed = await this.refresh(role);
+    return refreshed ? send(this.getSession(role)?.token ?? null) : response;
+  }
+}
+
+export default AuthService;
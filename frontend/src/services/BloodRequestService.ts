@@ -1,10 +1,64 @@
-interface BloodRequestData {
+import { AuthService } from './AuthService';
+import type { DonationType } from './DonorService';
+
+// Most units a single request may ask for. Mirrors MAX_UNITS_PER_REQUEST in
+// backend/src/models/BloodRequest.js.
+export const MAX_UNITS_PER_REQUEST = 20;
+
+// Patient types each donor type can give to, per component. Mirrors
+// backend/src/utils/bloodCompatibility.js.
+const RED_CELL_COMPATIBILITY: Record<string, string[]> = {
+  'O+': ['O+', 'A+', 'B+', 'AB+'],
+  'O-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'A+': ['A+', 'AB+'],
+  'A-': ['A+', 'A-', 'AB+', 'AB-'],
+  'B+': ['B+', 'AB+'],
+  'B-': ['B+', 'B-', 'AB+', 'AB-'],
+  'AB+': ['AB+'],
+  'AB-': ['AB+', 'AB-']
+};
+
+// AB plasma suits everyone; Rh does not matter
+const PLASMA_COMPATIBILITY: Record<string, string[]> = {
+  'AB+': ['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
+  'AB-': ['AB+', 'AB-', 'A+', 'A-', 'B+', 'B-', 'O+', 'O-'],
+  'A+': ['A+', 'A-', 'O+', 'O-'],
+  'A-': ['A+', 'A-', 'O+', 'O-'],
+  'B+': ['B+', 'B-', 'O+', 'O-'],
+  'B-': ['B+', 'B-', 'O+', 'O-'],
+  'O+': ['O+', 'O-'],
+  'O-': ['O+', 'O-']
+};
+
+// Platelets cross ABO groups, but Rh-negative patients only take Rh-negative
+const PLATELET_COMPATIBILITY: Record<string, string[]> = {
+  'O+': ['O+', 'A+', 'B+', 'AB+'],
+  'O-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'A+': ['O+', 'A+', 'B+', 'AB+'],
+  'A-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'B+': ['O+', 'A+', 'B+', 'AB+'],
+  'B-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+  'AB+': ['O+', 'A+', 'B+', 'AB+'],
+  'AB-': ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-']
+};
+
+const COMPATIBILITY_BY_DONATION_TYPE: Record<DonationType, Record<string, string[]>> = {
+  whole_blood: RED_CELL_COMPATIBILITY,
+  double_red_cells: RED_CELL_COMPATIBILITY,
+  platelets: PLATELET_COMPATIBILITY,
+  plasma: PLASMA_COMPATIBILITY
+};
+
+export interface BloodRequestData {
   requesterName: string;
   requesterPhone: string;
   bloodType: string;
   urgency: string;
+  donationType?: string;
   patientCondition?: string;
+  unitsRequired?: number;
   location: { lat: number; lng: number };
+  idempotencyKey?: string;
 }
 
 interface ApiResponse<T = any> {
@@ -12,12 +66,12 @@ interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  retryable?: boolean;
 }
 
 interface BloodRequest {
   id: string;
   requesterName: string;
-  requesterPhone: string;
   bloodType: string;
   urgency: string;
   patientCondition?: string;
@@ -47,6 +101,14 @@ export class BloodRequestService {
       const data = await response.json();
 
       if (!response.ok) {
+        // Server-side outages and rate limits are worth retrying later
+        if (response.status >= 500 || response.status === 429) {
+          return {
+            success: false,
+            error: data.error || 'Failed to create blood request',
+            retryable: true
+          };
+        }
         throw new Error(data.error || 'Failed to create blood request');
       }
 
@@ -55,7 +117,9 @@ export class BloodRequestService {
       console.error('Error creating blood request:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        // fetch rejects with a TypeError when the network is unreachable
+        retryable: error instanceof TypeError
       };
     }
   }
@@ -113,19 +177,18 @@ export class BloodRequestService {
     }
   }
 
+  // Accepts on behalf of the logged-in hospital
   static async acceptRequest(
     requestId: string,
-    hospitalId: string,
     estimatedTime?: number
   ): Promise<ApiResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/requests/${requestId}/accept`, {
+      const response = await AuthService.authorizedFetch('hospital', `/requests/${requestId}/accept`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          hospitalId,
           estimatedTime
         }),
       });
@@ -152,7 +215,7 @@ export class BloodRequestService {
     notes?: string
   ): Promise<ApiResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/requests/${requestId}/status`, {
+      const response = await AuthService.authorizedFetch('hospital', `/requests/${requestId}/status`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -179,6 +242,67 @@ export class BloodRequestService {
     }
   }
 
+  // Provide units for a request the hospital accepted from its own stock
+  static async fulfilRequest(
+    requestId: string,
+    units: number
+  ): Promise<ApiResponse<{ status: 'accepted' | 'completed'; unitsRequired: number; unitsFulfilled: number }>> {
+    try {
+      const response = await AuthService.authorizedFetch('hospital', `/requests/${requestId}/fulfil`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ units }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to provide units');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error providing units:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Check in a donor who said yes or mark a no-show; donations are recorded through the donations API
+  static async updateDonorResponse(
+    requestId: string,
+    donorId: string,
+    donorResponse: 'arrived' | 'no_show'
+  ): Promise<ApiResponse> {
+    try {
+      const response = await AuthService.authorizedFetch('hospital', `/requests/${requestId}/donors/${donorId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ response: donorResponse }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update donor response');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error updating donor response:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
   // Utility methods
   static getUrgencyColor(urgency: string): string {
     switch (urgency) {
@@ -225,6 +349,19 @@ export class BloodRequestService {
     }
   }
 
+  // Donor types a patient can receive for a component, own type and ABO group first
+  static getCompatibleDonorTypes(bloodType: string, donationType: DonationType): string[] {
+    const matrix = COMPATIBILITY_BY_DONATION_TYPE[donationType];
+    const rank = (donorType: string) => {
+      if (donorType === bloodType) return 0;
+      return donorType.slice(0, -1) === bloodType.slice(0, -1) ? 1 : 2;
+    };
+
+    return Object.keys(matrix)
+      .filter(donorType => matrix[donorType].includes(bloodType))
+      .sort((a, b) => rank(a) - rank(b));
+  }
+
   static formatRequestDate(dateString: string): string {
     const date = new Date(dateString);
     return date.toLocaleString();
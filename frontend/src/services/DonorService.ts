@@ -0,0 +1,255 @@
+import { AuthService } from './AuthService';
+import type { BloodType, DonorResponse, Urgency } from './HospitalService';
+
+// Whole blood or an apheresis component; each has its own deferral period
+export type DonationType = 'whole_blood' | 'platelets' | 'plasma' | 'double_red_cells';
+
+export const DONATION_TYPES: DonationType[] = ['whole_blood', 'platelets', 'plasma', 'double_red_cells'];
+
+export type DonorSex = 'male' | 'female' | 'other';
+
+// Donors who do not know their type yet register as 'unknown'
+export type DonorBloodType = BloodType | 'unknown';
+
+export type Achievement =
+  | 'first_donation'
+  | 'life_saver'
+  | 'regular_donor'
+  | 'emergency_hero'
+  | 'community_leader'
+  | 'rare_blood'
+  | 'dedicated_donor';
+
+export const ACHIEVEMENTS: Achievement[] = [
+  'first_donation',
+  'life_saver',
+  'dedicated_donor',
+  'regular_donor',
+  'emergency_hero',
+  'rare_blood',
+  'community_leader'
+];
+
+export interface HealthReading {
+  bloodPressure?: string;
+  ironLevel?: number;
+  pulse?: number;
+  recordedAt: string;
+}
+
+export interface TypeEligibility {
+  donationType: DonationType;
+  eligible: boolean;
+  intervalDays: number;
+  nextEligibleDate: string | null;
+}
+
+export interface TimelineEntry {
+  type: 'registered' | 'donation' | 'response_accepted' | 'response_declined';
+  date: string;
+  requestId?: string;
+  bloodType?: BloodType;
+  urgency?: Urgency;
+  requestStatus?: string;
+  donationType?: DonationType;
+  hospitalName?: string;
+}
+
+// Same shape as the `blood_needed` socket event
+export interface BloodNeededAlert {
+  requestId: string;
+  location: { lat: number; lng: number };
+  bloodType: BloodType;
+  urgency: Urgency;
+  distance: number | null;
+  expiresAt: string;
+}
+
+// A request the donor said yes to and has not finished with
+export interface DonorCommitment {
+  requestId: string;
+  bloodType: BloodType;
+  urgency: Urgency;
+  donationType: DonationType;
+  response: Extract<DonorResponse, 'accepted' | 'en_route' | 'arrived'>;
+  etaMinutes: number | null;
+  hospital: { name: string; address: string; phone: string } | null;
+  destination: { lat: number; lng: number };
+  expiresAt: string;
+}
+
+export interface DonorDashboardData {
+  donor: {
+    id: string;
+    donorId: string;
+    name: string;
+    bloodType: DonorBloodType;
+    available: boolean;
+    totalDonations: number;
+    lastDonation: string | null;
+    achievements: Achievement[];
+    points: number;
+    // Whether the donor lets hospitals follow them while on the way
+    shareLocation: boolean;
+    createdAt: string;
+  };
+  eligibility: {
+    eligible: boolean;
+    intervalDays: number;
+    nextEligibleDate: string | null;
+    daysUntilEligible: number;
+    lastDonationType: DonationType | null;
+    byType: TypeEligibility[];
+  };
+  health: {
+    current: Omit<HealthReading, 'recordedAt'> & { lastUpdated?: string };
+    history: HealthReading[];
+  };
+  timeline: TimelineEntry[];
+  alerts: BloodNeededAlert[];
+  commitments: DonorCommitment[];
+}
+
+export interface DonorRegistrationData {
+  name: string;
+  phone: string;
+  // Texted by requestRegistrationCode to prove the phone is the donor's
+  code: string;
+  email?: string;
+  bloodType: DonorBloodType;
+  sex?: DonorSex;
+  dateOfBirth: string;
+  address: string;
+  location: { lat: number; lng: number };
+  available: boolean;
+  consent: boolean;
+}
+
+export interface DonorRegistrationResult {
+  donor: {
+    id: string;
+    donorId: string;
+    name: string;
+    bloodType: DonorBloodType;
+    phone: string;
+    available: boolean;
+    achievements: Achievement[];
+    points: number;
+    createdAt: string;
+  };
+  qrCode: string;
+  qrValidUntil: string;
+}
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+export class DonorService {
+  private static baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+  static async requestRegistrationCode(phone: string): Promise<ApiResponse & { retryAfter?: number }> {
+    try {
+      const response = await fetch(`${this.baseUrl}/donors/register/request-otp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ phone }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 429) {
+        return { success: false, error: data.error, retryAfter: data.retryAfter };
+      }
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.msg || data.error || 'Failed to send verification code');
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error requesting registration code:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Registration also logs the new donor in
+  static async register(registration: DonorRegistrationData): Promise<ApiResponse<DonorRegistrationResult>> {
+    try {
+      const response = await fetch(`${this.baseUrl}/donors/register`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(registration),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.msg || data.error || 'Failed to register donor');
+      }
+
+      AuthService.saveSession('donor', data.data, data.data.donor);
+      return data;
+    } catch (error) {
+      console.error('Error registering donor:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<ApiResponse<T>> {
+    try {
+      const response = await AuthService.authorizedFetch('donor', path, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error calling donor API ${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static getDashboard(donorId: string): Promise<ApiResponse<DonorDashboardData>> {
+    return this.request(`/donors/${donorId}/dashboard`);
+  }
+
+  static setAvailability(donorId: string, available: boolean): Promise<ApiResponse<{ available: boolean }>> {
+    return this.request(`/donors/${donorId}/availability`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ available })
+    });
+  }
+
+  static updateHealth(
+    donorId: string,
+    metrics: Omit<HealthReading, 'recordedAt'>
+  ): Promise<ApiResponse<{ healthMetrics: DonorDashboardData['health']['current'] }>> {
+    return this.request(`/donors/${donorId}/health`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(metrics)
+    });
+  }
+}
+
+export default DonorService;
@@ -0,0 +1,337 @@
+import { AuthService } from './AuthService';
+import type { VerificationDocument, VerificationStatus } from './AdminService';
+import type { Achievement, DonationType, DonorBloodType, TypeEligibility } from './DonorService';
+
+export type BloodType = 'A+' | 'A-' | 'B+' | 'B-' | 'O+' | 'O-' | 'AB+' | 'AB-';
+
+export type Urgency = 'critical' | 'urgent' | 'normal';
+
+export const BLOOD_TYPES: BloodType[] = ['A+', 'A-', 'B+', 'B-', 'O+', 'O-', 'AB+', 'AB-'];
+
+export type BloodComponent = 'whole_blood' | 'packed_red_cells' | 'platelets' | 'fresh_frozen_plasma' | 'cryoprecipitate';
+
+export const BLOOD_COMPONENTS: BloodComponent[] = ['whole_blood', 'packed_red_cells', 'platelets', 'fresh_frozen_plasma', 'cryoprecipitate'];
+
+export type UnitStatus = 'available' | 'reserved' | 'issued' | 'discarded';
+
+export type DiscardReason = 'expired' | 'damaged' | 'failed_testing' | 'other';
+
+// A matched donor's answer, then their progress once they have said yes
+export type DonorResponse = 'pending' | 'accepted' | 'declined' | 'en_route' | 'arrived' | 'donated' | 'no_show';
+
+export interface RequestDonor {
+  requestId: string;
+  donorId: string;
+  donorName: string;
+  bloodType: BloodType;
+  response: DonorResponse;
+  etaMinutes: number | null;
+  // Only present while the donor is on the way and shares their location
+  location: { lat: number; lng: number } | null;
+  updatedAt: string;
+}
+
+export interface DashboardRequest {
+  id: string;
+  requesterName: string;
+  requesterPhone?: string;
+  bloodType: BloodType;
+  urgency: Urgency;
+  donationType: DonationType;
+  patientCondition?: string;
+  status: 'pending' | 'accepted';
+  // 'drive' requests are our own low-stock donor drives, filled only by donations
+  source?: 'web' | 'sms' | 'socket' | 'drive';
+  acceptedByMe: boolean;
+  // We accepted first: committed donors come to us and we close the request
+  coordinating: boolean;
+  // Whether another hospital can still accept, to share a larger request
+  openToHospitals: boolean;
+  // Whether our stock covers the units a request we accepted still needs; null for requests we have not
+  inStock?: boolean | null;
+  unitsRequired: number;
+  unitsFulfilled: number;
+  location: { lat: number; lng: number };
+  createdAt: string;
+  expiresAt: string;
+  matchedDonors: number;
+  // Donors who said yes to a request we accepted
+  donors: RequestDonor[];
+}
+
+export interface StockSettings {
+  // Minimum units per type; 0 means no alert
+  stockThresholds: Record<BloodType, number>;
+  expiryAlertDays: number;
+  autoDonorDrive: boolean;
+}
+
+// Pushed by the server's periodic stock check
+export interface StockAlert {
+  hospitalId: string;
+  lowStock: {
+    bloodType: BloodType;
+    current: number;
+    threshold: number;
+    driveRequestId: string | null;
+    donorsNotified: number;
+  }[];
+  expiring: { id: string; bagId: string; component: BloodComponent; bloodType: BloodType; expiresAt: string }[];
+}
+
+export interface DashboardData {
+  hospital: {
+    id: string;
+    name: string;
+    location: { lat: number; lng: number };
+    bloodStock: Record<BloodType, number>;
+    totalBloodStock: number;
+    stockSettings: StockSettings;
+    // Usable units within the expiry alert window
+    expiringUnits: number;
+    serviceRadius: number;
+    averageResponseTime: number;
+  };
+  requests: {
+    active: DashboardRequest[];
+    total: number;
+    critical: number;
+    urgent: number;
+    recentCompleted: { id: string; bloodType: BloodType; completedAt: string }[];
+  };
+  donors: {
+    availableByType: Partial<Record<BloodType, { count: number; averageDistance: number }>>;
+    totalAvailable: number;
+  };
+}
+
+export interface VerificationInfo {
+  verified: boolean;
+  verificationStatus: VerificationStatus;
+  verificationReason?: string;
+  verificationReviewedAt?: string;
+  licenseNumber: string;
+  documents: VerificationDocument[];
+}
+
+// Result of checking a donor's signed QR code
+export interface ScannedDonor {
+  donor: {
+    id: string;
+    donorId: string;
+    name: string;
+    bloodType: DonorBloodType;
+    available: boolean;
+    totalDonations: number;
+    lastDonation: string | null;
+  };
+  eligibility: {
+    eligible: boolean;
+    intervalDays: number;
+    nextEligibleDate: string | null;
+    byType: TypeEligibility[];
+  };
+  validUntil: string;
+}
+
+export interface RecordedDonation {
+  donation: {
+    id: string;
+    bloodType: BloodType;
+    donationType: DonationType;
+    units: number;
+    requestId: string | null;
+    pointsAwarded: number;
+    achievementsAwarded: Achievement[];
+    donatedAt: string;
+    bagId: string;
+    component: BloodComponent;
+    expiresAt: string;
+  };
+  donor: {
+    id: string;
+    donorId: string;
+    name: string;
+    bloodType: BloodType;
+    totalDonations: number;
+    lastDonation: string;
+    nextEligibleDate: string;
+    points: number;
+    achievements: Achievement[];
+  };
+  bloodType: BloodType;
+  currentStock: number;
+  totalStock: number;
+}
+
+export interface BloodUnit {
+  id: string;
+  bagId: string;
+  component: BloodComponent;
+  bloodType: BloodType;
+  status: UnitStatus;
+  collectedAt: string;
+  expiresAt: string;
+  requestId: string | null;
+  donationId: string | null;
+  discardReason?: DiscardReason;
+}
+
+export interface InventoryData {
+  units: BloodUnit[];
+  // Usable units and the soonest expiry per component and blood type
+  summary: Record<BloodComponent, Record<BloodType, { count: number; nextExpiry: string | null }>>;
+  bloodStock: Record<BloodType, number>;
+}
+
+export interface InventoryChange {
+  bloodStock: Record<BloodType, number>;
+}
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+export class HospitalService {
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<ApiResponse<T>> {
+    try {
+      const response = await AuthService.authorizedFetch('hospital', path, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error calling hospital API ${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static getDashboard(): Promise<ApiResponse<DashboardData>> {
+    return this.request('/hospitals/dashboard');
+  }
+
+  static updateBloodStock(
+    hospitalId: string,
+    bloodType: BloodType,
+    change: number
+  ): Promise<ApiResponse<{ bloodType: BloodType; currentStock: number; totalStock: number }>> {
+    return this.request(`/hospitals/${hospitalId}/bloodstock`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ bloodType, change })
+    });
+  }
+
+  static updateSettings(
+    hospitalId: string,
+    settings: Partial<StockSettings>
+  ): Promise<ApiResponse<{ settings: StockSettings }>> {
+    return this.request(`/hospitals/${hospitalId}/settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(settings)
+    });
+  }
+
+  static getVerification(): Promise<ApiResponse<VerificationInfo>> {
+    return this.request('/hospitals/verification');
+  }
+
+  static uploadDocument(file: File, kind: VerificationDocument['kind']): Promise<ApiResponse> {
+    // The browser sets the multipart boundary itself, so no Content-Type here
+    const form = new FormData();
+    form.append('kind', kind);
+    form.append('document', file);
+    return this.request('/hospitals/verification/documents', { method: 'POST', body: form });
+  }
+
+  static verifyDonorQr(token: string): Promise<ApiResponse<ScannedDonor>> {
+    return this.request('/donors/verify-qr', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    });
+  }
+
+  // bloodType is only needed for donors who registered without knowing their type
+  static recordDonation(
+    hospitalId: string,
+    donation: {
+      token?: string;
+      donorId?: string;
+      bloodType?: BloodType;
+      donationType?: DonationType;
+      requestId?: string;
+      bagId?: string;
+    }
+  ): Promise<ApiResponse<RecordedDonation>> {
+    return this.request(`/hospitals/${hospitalId}/donations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(donation)
+    });
+  }
+
+  static getInventory(
+    hospitalId: string,
+    filters: { status?: UnitStatus; component?: BloodComponent; bloodType?: BloodType } = {}
+  ): Promise<ApiResponse<InventoryData>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return this.request(`/hospitals/${hospitalId}/inventory?${params}`);
+  }
+
+  // The expiry defaults to the component's shelf life from collection
+  static addUnit(
+    hospitalId: string,
+    unit: { bagId?: string; component: BloodComponent; bloodType: BloodType; collectedAt?: string; expiresAt?: string }
+  ): Promise<ApiResponse<InventoryChange & { unit: BloodUnit }>> {
+    return this.request(`/hospitals/${hospitalId}/inventory`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(unit)
+    });
+  }
+
+  // Units go out first-expiring-first-out
+  static issueUnits(
+    hospitalId: string,
+    issue: { bloodType: BloodType; donationType?: DonationType; units?: number; requestId?: string }
+  ): Promise<ApiResponse<InventoryChange & { units: BloodUnit[] }>> {
+    return this.request(`/hospitals/${hospitalId}/inventory/issue`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(issue)
+    });
+  }
+
+  static updateUnitStatus(
+    hospitalId: string,
+    unitId: string,
+    change: { status: UnitStatus; requestId?: string; discardReason?: DiscardReason }
+  ): Promise<ApiResponse<InventoryChange & { unit: BloodUnit }>> {
+    return this.request(`/hospitals/${hospitalId}/inventory/${unitId}/status`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(change)
+    });
+  }
+
+  static hasPermission(permission: string): boolean {
+    const permissions = AuthService.getSession('hospital')?.user.permissions;
+    return Array.isArray(permissions) && permissions.includes(permission);
+  }
+}
+
+export default HospitalService;
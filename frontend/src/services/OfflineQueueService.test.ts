@@ -0,0 +1,114 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BloodRequestService } from './BloodRequestService';
+import type { BloodRequestData } from './BloodRequestService';
+import { OfflineQueueService } from './OfflineQueueService';
+
+const request: BloodRequestData = {
+  requesterName: 'Ramesh Kumar',
+  requesterPhone: '+919876543210',
+  bloodType: 'O+',
+  urgency: 'urgent',
+  location: { lat: 28.61, lng: 77.2 }
+};
+
+// Flushes are driven by the tests, not by the service's own timers
+const timers = OfflineQueueService as unknown as { scheduleFlush: (delay: number) => void };
+
+describe('OfflineQueueService', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.spyOn(timers, 'scheduleFlush').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    for (const entry of await OfflineQueueService.getAll()) {
+      await OfflineQueueService.remove(entry.id);
+    }
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('getRetryDelay', () => {
+    it('doubles from 5 seconds and caps at 5 minutes', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(OfflineQueueService.getRetryDelay(1)).toBe(5000);
+      expect(OfflineQueueService.getRetryDelay(2)).toBe(10000);
+      expect(OfflineQueueService.getRetryDelay(4)).toBe(40000);
+      expect(OfflineQueueService.getRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+
+    it('adds up to 20% jitter either way', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      expect(OfflineQueueService.getRetryDelay(1)).toBe(4000);
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+      expect(OfflineQueueService.getRetryDelay(1)).toBe(6000);
+    });
+  });
+
+  describe('flush', () => {
+    it('sends queued requests with their idempotency key and records the request ID', async () => {
+      const createRequest = vi.spyOn(BloodRequestService, 'createRequest')
+        .mockResolvedValue({ success: true, data: { requestId: 'request-1' } });
+      const entry = await OfflineQueueService.enqueue(request);
+
+      await OfflineQueueService.flush();
+
+      expect(createRequest).toHaveBeenCalledWith({ ...request, idempotencyKey: entry.id });
+      expect(await OfflineQueueService.get(entry.id)).toMatchObject({ status: 'sent', attempts: 1, requestId: 'request-1' });
+    });
+
+    it('backs off after a retryable failure and skips the entry until it is due', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const createRequest = vi.spyOn(BloodRequestService, 'createRequest')
+        .mockResolvedValue({ success: false, error: 'Network error', retryable: true });
+      const entry = await OfflineQueueService.enqueue(request);
+
+      const before = Date.now();
+      await OfflineQueueService.flush();
+      const queued = await OfflineQueueService.get(entry.id);
+
+      expect(queued).toMatchObject({ status: 'queued', attempts: 1, lastError: 'Network error' });
+      expect(queued!.nextAttemptAt).toBeGreaterThanOrEqual(before + 5000);
+
+      await OfflineQueueService.flush();
+      expect(createRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops retrying requests the server rejected', async () => {
+      vi.spyOn(BloodRequestService, 'createRequest')
+        .mockResolvedValue({ success: false, error: 'Invalid blood type' });
+      const entry = await OfflineQueueService.enqueue(request);
+
+      await OfflineQueueService.flush();
+
+      expect(await OfflineQueueService.get(entry.id)).toMatchObject({ status: 'failed', lastError: 'Invalid blood type' });
+    });
+
+    it('sends nothing while offline', async () => {
+      vi.stubGlobal('navigator', { onLine: false });
+      const createRequest = vi.spyOn(BloodRequestService, 'createRequest');
+      const entry = await OfflineQueueService.enqueue(request);
+
+      await OfflineQueueService.flush();
+
+      expect(createRequest).not.toHaveBeenCalled();
+      expect(await OfflineQueueService.get(entry.id)).toMatchObject({ status: 'queued', attempts: 0 });
+    });
+
+    it('sends entries still backing off when forced', async () => {
+      const createRequest = vi.spyOn(BloodRequestService, 'createRequest')
+        .mockResolvedValueOnce({ success: false, error: 'Network error', retryable: true })
+        .mockResolvedValueOnce({ success: true, data: { requestId: 'request-1' } });
+      const entry = await OfflineQueueService.enqueue(request);
+
+      await OfflineQueueService.flush();
+      await OfflineQueueService.flush({ force: true });
+
+      expect(createRequest).toHaveBeenCalledTimes(2);
+      expect(await OfflineQueueService.get(entry.id)).toMatchObject({ status: 'sent', attempts: 2 });
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { BloodRequestService } from './BloodRequestService';
+import type { BloodRequestData } from './BloodRequestService';
+
+export type QueuedRequestStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export interface QueuedRequest {
+  id: string; // Doubles as the idempotency key sent to the server
+  data: BloodRequestData;
+  status: QueuedRequestStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  requestId?: string;
+}
+
+type QueueListener = (entries: QueuedRequest[]) => void;
+
+const DB_NAME = 'oneblood';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+const BASE_RETRY_DELAY = 5 * 1000; // 5 seconds
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+const SENT_RETENTION = 24 * 60 * 60 * 1000; // Keep sent entries for 24 hours
+
+export class OfflineQueueService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static listeners = new Set<QueueListener>();
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static flushing = false;
+  private static started = false;
+
+  private static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private static async runTransaction<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  static generateKey(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+
+    // Fallback for insecure contexts where randomUUID is unavailable
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 12)}`;
+  }
+
+  static async getAll(): Promise<QueuedRequest[]> {
+    if (!this.isSupported()) return [];
+
+    const entries = await this.runTransaction<QueuedRequest[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  static async get(id: string): Promise<QueuedRequest | undefined> {
+    if (!this.isSupported()) return undefined;
+
+    return this.runTransaction<QueuedRequest | undefined>('readonly', store => store.get(id));
+  }
+
+  static async enqueue(data: BloodRequestData): Promise<QueuedRequest> {
+    if (!this.isSupported()) {
+      throw new Error('Offline storage is not supported by this browser');
+    }
+
+    const id = data.idempotencyKey || this.generateKey();
+    const entry: QueuedRequest = {
+      id,
+      data: { ...data, idempotencyKey: id },
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: Date.now()
+    };
+
+    await this.save(entry);
+    this.scheduleFlush(navigator.onLine ? 0 : BASE_RETRY_DELAY);
+
+    return entry;
+  }
+
+  static async remove(id: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await this.runTransaction('readwrite', store => store.delete(id));
+    await this.notify();
+  }
+
+  static subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    this.getAll().then(listener).catch(error => {
+      console.error('Error reading offline queue:', error);
+    });
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static start(): () => void {
+    if (this.started || !this.isSupported()) return () => {};
+    this.started = true;
+
+    const handleOnline = () => this.scheduleFlush(0);
+    window.addEventListener('online', handleOnline);
+
+    this.pruneSent()
+      .catch(error => console.error('Error pruning offline queue:', error))
+      .then(() => this.scheduleFlush(0));
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+      }
+      this.started = false;
+    };
+  }
+
+  // Send queued requests that are due. `force` sends them all now, for a user
+  // who asked to retry rather than wait out the backoff.
+  static async flush({ force = false }: { force?: boolean } = {}): Promise<void> {
+    if (this.flushing || !this.isSupported()) return;
+    this.flushing = true;
+
+    try {
+      const entries = await this.getAll();
+      const now = Date.now();
+
+      for (const entry of entries) {
+        if (entry.status !== 'queued' || (!force && entry.nextAttemptAt > now)) continue;
+        if (!navigator.onLine) break;
+
+        await this.save({ ...entry, status: 'sending' });
+
+        const response = await BloodRequestService.createRequest(entry.data);
+        const attempts = entry.attempts + 1;
+
+        if (response.success) {
+          await this.save({
+            ...entry,
+            status: 'sent',
+            attempts,
+            requestId: response.data?.requestId,
+            lastError: undefined
+          });
+        } else if (response.retryable) {
+          await this.save({
+            ...entry,
+            status: 'queued',
+            attempts,
+            nextAttemptAt: Date.now() + this.getRetryDelay(attempts),
+            lastError: response.error
+          });
+        } else {
+          // Rejected by the server (validation, duplicate request) - retrying won't help
+          await this.save({
+            ...entry,
+            status: 'failed',
+            attempts,
+            lastError: response.error
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error flushing offline queue:', error);
+    } finally {
+      this.flushing = false;
+    }
+
+    await this.scheduleNextAttempt();
+  }
+
+  static getRetryDelay(attempts: number): number {
+    // Exponential backoff with jitter: 5s, 10s, 20s ... capped at 5 minutes
+    const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * Math.pow(2, attempts - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private static async save(entry: QueuedRequest): Promise<void> {
+    await this.runTransaction('readwrite', store => store.put(entry));
+    await this.notify();
+  }
+
+  private static async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+
+    const entries = await this.getAll();
+    this.listeners.forEach(listener => listener(entries));
+  }
+
+  private static scheduleFlush(delay: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private static async scheduleNextAttempt(): Promise<void> {
+    const entries = await this.getAll();
+    const pending = entries.filter(entry => entry.status === 'queued');
+
+    // While offline, the 'online' event triggers the next flush instead
+    if (pending.length === 0 || !navigator.onLine) return;
+
+    const nextAttemptAt = Math.min(...pending.map(entry => entry.nextAttemptAt));
+    this.scheduleFlush(Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private static async pruneSent(): Promise<void> {
+    const entries = await this.getAll();
+    const cutoff = Date.now() - SENT_RETENTION;
+
+    for (const entry of entries) {
+      if (entry.status === 'sent' && entry.createdAt < cutoff) {
+        await this.runTransaction('readwrite', store => store.delete(entry.id));
+      } else if (entry.status === 'sending') {
+        // Interrupted mid-send; the idempotency key makes resending safe
+        await this.runTransaction('readwrite', store => store.put({ ...entry, status: 'queued' }));
+      }
+    }
+
+    await this.notify();
+  }
+}
+
+export default OfflineQueueService;
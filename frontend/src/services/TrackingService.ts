@@ -0,0 +1,136 @@
+import type { BloodType, Urgency } from './HospitalService';
+import type { DonationType } from './DonorService';
+
+// What a requester sees of their request; donors stay anonymous
+export interface RequestTracking {
+  requestId: string;
+  requesterName: string;
+  patientCondition: string;
+  status: 'pending' | 'accepted' | 'completed' | 'cancelled';
+  bloodType: BloodType;
+  urgency: Urgency;
+  donationType: DonationType;
+  hospital: {
+    name: string;
+    address: string;
+    phone: string;
+    location: { lat: number; lng: number };
+  } | null;
+  unitsRequired: number;
+  unitsFulfilled: number;
+  hospitalsAccepted: number;
+  donorsContacted: number;
+  donorsResponded: number;
+  donorsOnTheWay: number;
+  donorsArrived: number;
+  etaMinutes: number | null;
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+// What a requester may correct; blood type and donation type only until a hospital accepts
+export interface RequestChanges {
+  requesterName?: string;
+  bloodType?: BloodType;
+  donationType?: DonationType;
+  urgency?: Urgency;
+  patientCondition?: string;
+  unitsRequired?: number;
+}
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  // HTTP status, so the page can ask for the PIN again on 401, or for an SMS code on 423
+  status?: number;
+}
+
+export class TrackingService {
+  private static baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+  private static storageKey(requestId: string): string {
+    return `oneblood.tracking.${requestId}`;
+  }
+
+  // Tracking tokens only last for the browser session
+  static getToken(requestId: string): string | null {
+    return sessionStorage.getItem(this.storageKey(requestId));
+  }
+
+  static clearToken(requestId: string): void {
+    sessionStorage.removeItem(this.storageKey(requestId));
+  }
+
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<ApiResponse<T>> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        return { success: false, error: data.error || 'Request failed', status: response.status };
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error calling tracking API ${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Text a one-time code to the request's phone, for requesters who lost the PIN
+  static sendCode(requestId: string): Promise<ApiResponse<{ expiresAt: string }>> {
+    return this.request(`/requests/${requestId}/track/code`, { method: 'POST' });
+  }
+
+  // Exchange the PIN texted to the requester, or a one-time code, for a tracking token
+  static async authenticate(requestId: string, credentials: { pin: string } | { code: string }): Promise<ApiResponse<RequestTracking>> {
+    const result = await this.request<{ token: string; tracking: RequestTracking }>(`/requests/${requestId}/track`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(credentials)
+    });
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error, status: result.status };
+    }
+
+    sessionStorage.setItem(this.storageKey(requestId), result.data.token);
+    return { success: true, data: result.data.tracking };
+  }
+
+  static getTracking(requestId: string, token: string): Promise<ApiResponse<RequestTracking>> {
+    return this.request(`/requests/${requestId}/track`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  private static update(path: string, token: string, body: object): Promise<ApiResponse<RequestTracking>> {
+    return this.request(path, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      },
+      body: JSON.stringify(body)
+    });
+  }
+
+  static cancel(requestId: string, token: string, reason?: string): Promise<ApiResponse<RequestTracking>> {
+    return this.update(`/requests/${requestId}/cancel`, token, { reason });
+  }
+
+  static extend(requestId: string, token: string, hours: number): Promise<ApiResponse<RequestTracking>> {
+    return this.update(`/requests/${requestId}/extend`, token, { hours });
+  }
+
+  static edit(requestId: string, token: string, changes: RequestChanges): Promise<ApiResponse<RequestTracking>> {
+    return this.update(`/requests/${requestId}`, token, changes);
+  }
+}
+
+export default TrackingService;
@@ -0,0 +1,115 @@
+import { AuthService } from './AuthService';
+import type { BloodType } from './HospitalService';
+import type { DonationType } from './DonorService';
+
+export type TransferStatus = 'requested' | 'accepted' | 'rejected' | 'dispatched' | 'received' | 'cancelled';
+
+export interface TransferHospital {
+  id: string;
+  name: string;
+  phone: string;
+}
+
+// A partner hospital able to send units of one or more compatible types
+export interface TransferSupplier {
+  hospital: TransferHospital & { address: string; isOpen: boolean };
+  distance: number;
+  options: { bloodType: BloodType; available: number }[];
+}
+
+export interface BloodTransfer {
+  id: string;
+  // outgoing: we asked for the units; incoming: we were asked to send them
+  direction: 'incoming' | 'outgoing';
+  requestingHospital: TransferHospital;
+  supplyingHospital: TransferHospital;
+  bloodType: BloodType;
+  patientBloodType: BloodType;
+  donationType: DonationType;
+  units: number;
+  unitsReserved: number;
+  requestId: string | null;
+  status: TransferStatus;
+  notes?: string;
+  rejectionReason?: string;
+  createdAt: string;
+  respondedAt?: string;
+  dispatchedAt?: string;
+  receivedAt?: string;
+}
+
+export interface TransferChange {
+  transfer: BloodTransfer;
+  bloodStock: Record<BloodType, number>;
+}
+
+interface ApiResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+export class TransferService {
+  private static async request<T>(path: string, init: RequestInit = {}): Promise<ApiResponse<T>> {
+    try {
+      const response = await AuthService.authorizedFetch('hospital', path, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error calling transfer API ${path}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  static findSuppliers(search: { bloodType: BloodType; donationType: DonationType; units: number }): Promise<ApiResponse<TransferSupplier[]>> {
+    const params = new URLSearchParams({
+      bloodType: search.bloodType,
+      donationType: search.donationType,
+      units: String(search.units)
+    });
+    return this.request(`/transfers/suppliers?${params}`);
+  }
+
+  static getTransfers(): Promise<ApiResponse<BloodTransfer[]>> {
+    return this.request('/transfers');
+  }
+
+  static requestTransfer(transfer: {
+    supplyingHospitalId: string;
+    bloodType: BloodType;
+    patientBloodType: BloodType;
+    donationType: DonationType;
+    units: number;
+    requestId?: string;
+    notes?: string;
+  }): Promise<ApiResponse<BloodTransfer>> {
+    return this.request('/transfers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(transfer)
+    });
+  }
+
+  static respond(transferId: string, accept: boolean, reason?: string): Promise<ApiResponse<TransferChange>> {
+    return this.request(`/transfers/${transferId}/respond`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accept, reason })
+    });
+  }
+
+  static advance(transferId: string, action: 'dispatch' | 'receive' | 'cancel'): Promise<ApiResponse<TransferChange>> {
+    return this.request(`/transfers/${transferId}/${action}`, { method: 'PUT' });
+  }
+}
+
+export default TransferService;
@@ -1,7 +1,46 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // Let the user decide when to reload into a new build
+      registerType: 'prompt',
+      includeAssets: ['vite.svg', 'icons/apple-touch-icon.png'],
+      manifest: {
+        name: 'OneBlood - Emergency Blood Requests',
+        short_name: 'OneBlood',
+        description: 'Request blood in an emergency and connect with nearby hospitals and donors',
+        lang: 'en',
+        start_url: '/',
+        scope: '/',
+        display: 'standalone',
+        orientation: 'portrait',
+        theme_color: '#d32f2f',
+        background_color: '#ffebee',
+        icons: [
+          { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+          { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+          { src: '/icons/icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+        ],
+        shortcuts: [
+          { name: 'Emergency Request', url: '/emergency', icons: [{ src: '/icons/icon-192.png', sizes: '192x192' }] }
+        ]
+      },
+      workbox: {
+        // App shell, every lazy-loaded route chunk and the bundled i18n resources
+        globPatterns: ['**/*.{js,css,html,svg,png,json,woff2}'],
+        // Headroom for the three.js chunk (~1 MB) the emergency page needs offline
+        maximumFileSizeToCacheInBytes: 6 * 1024 * 1024,
+        navigateFallback: '/index.html',
+        navigateFallbackDenylist: [/^\/api\//, /^\/socket\.io\//],
+        cleanupOutdatedCaches: true,
+        // Donor alerts sent by the backend notification dispatcher
+        importScripts: ['push-handler.js']
+      }
+    })
+  ],
 })